@@ -7,13 +7,16 @@ import { ensureDomGlobals, ensureRuntimeReady } from './runtime/dom/setup.js';
 ensureDomGlobals();
 void ensureRuntimeReady();
 
-export { mount } from './runtime/mount.js';
+export { mount, renderStatic } from './runtime/mount.js';
+export { serve } from './runtime/serve.js';
+export type { ServeOptions, ServeSession, TerminalServer } from './runtime/serve.js';
 export { runComponent, runFile, loadFile, compileSvelte, clearModuleCache, invalidateModule } from './runner.js';
 
 // Export types
 export type {
     AppInstance,
     MountOptions,
+    StaticRenderOptions,
     CliNode,
     TextNode,
     BoxNode,
@@ -30,6 +33,10 @@ export type {
 
 export { document } from './runtime/dom/document.js';
 
+// Color depth detection and downsampling
+export { detectColorDepth, getColorDepth, setColorDepth } from './runtime/style/color-depth.js';
+export type { ColorDepth } from './runtime/style/color-depth.js';
+
 // Graphics support (Kitty, Sixel, iTerm2)
 export {
     detectGraphicsCapabilities,
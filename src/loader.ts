@@ -7,11 +7,14 @@
  */
 
 import { readFile, writeFile, mkdir, unlink, rm } from 'fs/promises';
+import { watchFile, unwatchFile, type Stats } from 'fs';
 import { resolve, basename, dirname, isAbsolute } from 'path';
 import { pathToFileURL, fileURLToPath } from 'url';
 import { tmpdir } from 'os';
 import { randomBytes } from 'crypto';
 import { compile } from 'svelte/compiler';
+import { injectHotContext } from './runtime/hot.js';
+import { injectSourceMap } from './runtime/source-map.js';
 
 /**
  * Get the directory of the calling file by parsing the error stack.
@@ -51,6 +54,12 @@ let tempDir: string | null = null;
 
 /** Map of source paths to their compiled temp file paths */
 const compiledPaths = new Map<string, string>();
+
+/** .svelte files each compiled source imports */
+const dependencies = new Map<string, string[]>();
+
+/** How often watched files are checked for changes, in milliseconds */
+const WATCH_INTERVAL = 100;
  
 /** Resolved absolute file:// URLs for sveltty imports */
 let resolvedUrls: Record<string, string> | null = null;
@@ -105,10 +114,11 @@ async function transformImports(code: string): Promise<string> {
     const urls = await getResolvedUrls();
     let result = code;
     
-    // Remove no-op imports (feature flags that sveltty doesn't use)
+    // Remove no-op imports (feature flags that sveltty doesn't use), keeping
+    // their lines so the compiler's source map still applies
     for (const removeImport of REMOVE_IMPORTS) {
         result = result.replace(
-            new RegExp(`import\\s+['"]${escapeRegExp(removeImport)}['"];?\\n?`, 'g'),
+            new RegExp(`import\\s+['"]${escapeRegExp(removeImport)}['"];?`, 'g'),
             ''
         );
     }
@@ -143,17 +153,25 @@ function escapeRegExp(str: string): string {
     return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+export interface CompileSvelteOptions {
+    /** Compile for hot reloading: the component can be swapped while mounted */
+    hmr?: boolean;
+}
+
 /**
  * Compile a Svelte component source to JavaScript.
  * @param source - Svelte component source code
  * @param filename - Filename for error messages and sourcemaps
+ * @param options - Compile options
  * @returns Compiled and transformed JavaScript code
  */
-export async function compileSvelte(source: string, filename: string): Promise<string> {
+export async function compileSvelte(source: string, filename: string, options: CompileSvelteOptions = {}): Promise<string> {
+    const { hmr = false } = options;
     const result = compile(source, {
         filename,
         generate: 'client',
         dev: false,
+        hmr,
         css: 'injected',
     });
     
@@ -162,7 +180,12 @@ export async function compileSvelte(source: string, filename: string): Promise<s
         console.warn(`[sveltty] ${warning.filename}:${warning.start?.line ?? '?'} - ${warning.message}`);
     }
     
-    return transformImports(result.js.code);
+    let code = await transformImports(result.js.code);
+    if (hmr) {
+        code = injectHotContext(code, filename, import.meta.resolve('sveltty/runtime/hot'));
+    }
+    // Lets runtime errors be shown at their place in the .svelte source
+    return injectSourceMap(code, result.js.map, filename, import.meta.resolve('sveltty/runtime/source-map'));
 }
 
 /**
@@ -195,28 +218,32 @@ function findSvelteImports(code: string, sourceDir: string): string[] {
  * Recursively compile a Svelte file and all its .svelte dependencies.
  * @param absolutePath - Absolute path to the .svelte file
  * @param compiled - Set of already-compiled paths (to avoid cycles)
- * @returns Map of source paths to compiled temp file paths
+ * @param hmr - Compile for hot reloading
+ * @param force - Recompile the file even if it was compiled before
  */
 async function compileRecursive(
     absolutePath: string,
-    compiled: Set<string> = new Set()
+    compiled: Set<string> = new Set(),
+    hmr = false,
+    force = false
 ): Promise<void> {
     // Skip if already compiled
-    if (compiled.has(absolutePath) || compiledPaths.has(absolutePath)) {
+    if (compiled.has(absolutePath) || (!force && compiledPaths.has(absolutePath))) {
         return;
     }
     compiled.add(absolutePath);
     
     // Read and compile source
     const source = await readFile(absolutePath, 'utf-8');
-    let code = await compileSvelte(source, absolutePath);
+    let code = await compileSvelte(source, absolutePath, { hmr });
     
     const sourceDir = dirname(absolutePath);
     
     // Find and recursively compile all .svelte imports
     const svelteImports = findSvelteImports(code, sourceDir);
+    dependencies.set(absolutePath, svelteImports);
     for (const importPath of svelteImports) {
-        await compileRecursive(importPath, compiled);
+        await compileRecursive(importPath, compiled, hmr);
     }
     
     // Rewrite .svelte imports to point to compiled temp files
@@ -227,7 +254,12 @@ async function compileRecursive(
     const tempFile = resolve(dir, `${basename(absolutePath, '.svelte')}-${randomBytes(4).toString('hex')}.mjs`);
     await writeFile(tempFile, code, 'utf-8');
     
+    // A recompiled file gets a new URL; the old module stays loaded without its file
+    const previous = compiledPaths.get(absolutePath);
     compiledPaths.set(absolutePath, tempFile);
+    if (previous) {
+        await unlink(previous).catch(() => {});
+    }
 }
 
 /**
@@ -264,6 +296,19 @@ export interface LoadSvelteOptions {
      * Falls back to process.cwd() if detection fails.
      */
     baseDir?: string;
+    /** Compile for hot reloading (see `watchComponent`) */
+    hmr?: boolean;
+}
+
+/**
+ * Resolve a .svelte path against `baseDir`, the calling file's directory
+ * or the working directory.
+ */
+function resolveSourcePath(filePath: string, baseDir?: string): string {
+    if (isAbsolute(filePath)) {
+        return filePath;
+    }
+    return resolve(baseDir ?? getCallerDir() ?? process.cwd(), filePath);
 }
 
 /**
@@ -290,17 +335,8 @@ export async function loadFile(
     filePath: string,
     options: LoadSvelteOptions = {}
 ): Promise<unknown> {
-    const { cache = true } = options;
-    
-    // Resolve to absolute path
-    let absolutePath: string;
-    if (isAbsolute(filePath)) {
-        absolutePath = filePath;
-    } else {
-        // Use provided baseDir, or detect caller's directory, or fall back to cwd
-        const baseDir = options.baseDir ?? getCallerDir() ?? process.cwd();
-        absolutePath = resolve(baseDir, filePath);
-    }
+    const { cache = true, hmr = false } = options;
+    const absolutePath = resolveSourcePath(filePath, options.baseDir);
     
     // Check cache
     if (cache && moduleCache.has(absolutePath)) {
@@ -308,7 +344,7 @@ export async function loadFile(
     }
     
     // Recursively compile this file and all its .svelte dependencies
-    await compileRecursive(absolutePath);
+    await compileRecursive(absolutePath, new Set(), hmr);
     
     const tempFile = compiledPaths.get(absolutePath);
     if (!tempFile) {
@@ -332,6 +368,7 @@ export async function loadFile(
  */
 export async function clearModuleCache(): Promise<void> {
     moduleCache.clear();
+    dependencies.clear();
     
     // Clean up temp files
     for (const tempFile of compiledPaths.values()) {
@@ -363,3 +400,81 @@ export async function invalidateModule(filePath: string): Promise<void> {
     compiledPaths.clear();
 }
 
+
+export interface WatchComponentOptions {
+    /** Base directory for resolving a relative path, as for `loadFile` */
+    baseDir?: string;
+    /** Called with the recompiled module of a changed file */
+    onUpdate: (file: string, module: unknown) => void;
+    /** Called when a changed file fails to compile or load */
+    onError: (file: string, error: unknown) => void;
+}
+
+/**
+ * Watch a component loaded with `hmr: true` and every .svelte file it
+ * imports. A changed file is recompiled on its own; the files importing it
+ * keep running and pick up the new version through hot reloading.
+ *
+ * @param filePath - Path to the root .svelte file, as passed to `loadFile`
+ * @param options - Change and error callbacks
+ * @returns A function that stops watching
+ */
+export function watchComponent(filePath: string, options: WatchComponentOptions): () => void {
+    const entry = resolveSourcePath(filePath, options.baseDir);
+    const watched = new Map<string, (current: Stats, previous: Stats) => void>();
+    // Saves are handled one at a time, in order
+    let queue = Promise.resolve();
+
+    const reload = async (file: string): Promise<void> => {
+        try {
+            await compileRecursive(file, new Set(), true, true);
+            const tempFile = compiledPaths.get(file);
+            if (!tempFile) {
+                throw new Error(`Failed to compile ${file}`);
+            }
+            const module = await import(pathToFileURL(tempFile).href);
+            moduleCache.set(file, module.default);
+            sync();
+            options.onUpdate(file, module);
+        } catch (error) {
+            options.onError(file, error);
+        }
+    };
+
+    // Watch exactly the files reachable from the entry
+    const sync = (): void => {
+        const reachable = new Set<string>();
+        const visit = (file: string) => {
+            if (reachable.has(file)) return;
+            reachable.add(file);
+            for (const dependency of dependencies.get(file) ?? []) {
+                visit(dependency);
+            }
+        };
+        visit(entry);
+
+        for (const [file, listener] of watched) {
+            if (!reachable.has(file)) {
+                unwatchFile(file, listener);
+                watched.delete(file);
+            }
+        }
+        for (const file of reachable) {
+            if (watched.has(file)) continue;
+            const listener = (current: Stats, previous: Stats) => {
+                if (current.mtimeMs === previous.mtimeMs) return;
+                queue = queue.then(() => reload(file));
+            };
+            watchFile(file, { interval: WATCH_INTERVAL }, listener);
+            watched.set(file, listener);
+        }
+    };
+
+    sync();
+    return () => {
+        for (const [file, listener] of watched) {
+            unwatchFile(file, listener);
+        }
+        watched.clear();
+    };
+}
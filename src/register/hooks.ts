@@ -5,9 +5,28 @@
  */
 
 import { readFile } from 'node:fs/promises';
+import { watchFile } from 'node:fs';
 import { fileURLToPath, pathToFileURL } from 'node:url';
 import { dirname } from 'node:path';
+import type { MessagePort } from 'node:worker_threads';
 import { compile } from 'svelte/compiler';
+import { injectHotContext } from '../runtime/hot.js';
+import { injectSourceMap } from '../runtime/source-map.js';
+
+/** Data passed to `register()` when watching (see ./index.ts). */
+export interface HooksData {
+    /** Receives `{ url }` whenever a loaded .svelte file changes. */
+    port: MessagePort;
+}
+
+/** How often loaded files are checked for changes, in milliseconds. */
+const WATCH_INTERVAL = 100;
+
+/** Set when watching: loaded files are compiled for hot reloading and watched. */
+let changePort: MessagePort | null = null;
+
+/** Files already being watched. */
+const watchedFiles = new Set<string>();
 
 /** Resolved absolute file:// URLs for sveltty imports */
 let resolvedUrls: Record<string, string> | null = null;
@@ -54,10 +73,10 @@ function transformImports(code: string): string {
     const urls = getResolvedUrls();
     let result = code;
     
-    // Remove no-op imports
+    // Remove no-op imports, keeping their lines for the source map
     for (const removeImport of REMOVE_IMPORTS) {
         result = result.replace(
-            new RegExp(`import\\s+['"]${escapeRegExp(removeImport)}['"];?\\n?`, 'g'),
+            new RegExp(`import\\s+['"]${escapeRegExp(removeImport)}['"];?`, 'g'),
             ''
         );
     }
@@ -89,11 +108,13 @@ function transformImports(code: string): string {
  */
 async function compileSvelteFile(filePath: string): Promise<string> {
     const source = await readFile(filePath, 'utf-8');
+    const hmr = changePort !== null;
     
     const result = compile(source, {
         filename: filePath,
         generate: 'client',
         dev: false,
+        hmr,
         css: 'injected',
     });
     
@@ -102,7 +123,27 @@ async function compileSvelteFile(filePath: string): Promise<string> {
         console.warn(`[sveltty] ${warning.filename}:${warning.start?.line ?? '?'} - ${warning.message}`);
     }
     
-    return transformImports(result.js.code);
+    let code = transformImports(result.js.code);
+    if (hmr) {
+        code = injectHotContext(code, filePath, new URL('../runtime/hot.js', import.meta.url).href);
+    }
+    return injectSourceMap(code, result.js.map, filePath, new URL('../runtime/source-map.js', import.meta.url).href);
+}
+
+/**
+ * Report changes to a loaded file to the main thread, which re-imports it.
+ */
+function watchSvelteFile(url: string): void {
+    const filePath = fileURLToPath(url);
+    if (!changePort || watchedFiles.has(filePath)) return;
+    watchedFiles.add(filePath);
+    const watcher = watchFile(filePath, { interval: WATCH_INTERVAL }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+            changePort?.postMessage({ url: pathToFileURL(filePath).href });
+        }
+    });
+    // Watching alone must not keep the process running
+    watcher.unref();
 }
 
 // Types for Node.js loader hooks
@@ -133,6 +174,13 @@ interface LoadResult {
 type NextResolve = (specifier: string, context: ResolveContext) => Promise<ResolveResult>;
 type NextLoad = (url: string, context: LoadContext) => Promise<LoadResult>;
 
+/**
+ * Initialize hook - receives the `data` given to `register()`.
+ */
+export function initialize(data?: HooksData): void {
+    changePort = data?.port ?? null;
+}
+
 /**
  * Resolve hook - handles module resolution.
  * For .svelte files, we ensure they resolve to file:// URLs.
@@ -169,10 +217,11 @@ export async function load(
     context: LoadContext,
     nextLoad: NextLoad
 ): Promise<LoadResult> {
-    // Handle .svelte files
-    if (url.endsWith('.svelte') || context.format === 'svelte') {
+    // Handle .svelte files (reloads add a query to bypass the module cache)
+    if (new URL(url).pathname.endsWith('.svelte') || context.format === 'svelte') {
         const filePath = fileURLToPath(url);
         const source = await compileSvelteFile(filePath);
+        watchSvelteFile(url);
         
         return {
             format: 'module',
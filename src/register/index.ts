@@ -1,15 +1,50 @@
 /**
  * Node.js ESM Loader Registration
- * 
+ *
  * Usage: node --import sveltty/register app.js
- * 
+ *
  * This enables direct import of .svelte files:
  *   import App from './App.svelte';
+ *
+ * With SVELTTY_WATCH=1 in the environment, imported .svelte files are
+ * watched and hot reloaded into the running app when they change.
  */
 
 import { register } from 'node:module';
+import { MessageChannel } from 'node:worker_threads';
+import { fileURLToPath } from 'node:url';
 
-// Register the loader hooks
-// import.meta.url is already a file:// URL
-register('./hooks.js', import.meta.url);
+if (process.env.SVELTTY_WATCH && process.env.SVELTTY_WATCH !== '0') {
+    const { port1, port2 } = new MessageChannel();
+    let version = 0;
+    // Saves are handled one at a time, in order
+    let queue = Promise.resolve();
 
+    const reload = async (url: string): Promise<void> => {
+        // Loaded lazily so registering does not start the runtime
+        const { applyComponentUpdate, reportComponentError } = await import('../runtime/mount.js');
+        const file = fileURLToPath(url);
+        try {
+            // The query gives the new version its own module instance
+            const module = await import(`${url}?v=${++version}`);
+            applyComponentUpdate(file, module);
+        } catch (error) {
+            reportComponentError(file, error);
+        }
+    };
+
+    port1.on('message', ({ url }: { url: string }) => {
+        queue = queue.then(() => reload(url));
+    });
+    port1.unref();
+
+    register('./hooks.js', {
+        parentURL: import.meta.url,
+        data: { port: port2 },
+        transferList: [port2],
+    });
+} else {
+    // Register the loader hooks
+    // import.meta.url is already a file:// URL
+    register('./hooks.js', import.meta.url);
+}
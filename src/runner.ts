@@ -1,10 +1,14 @@
-import { mount } from './runtime/mount.js';
-import type { MountOptions } from './runtime/types.js';
+import { mount, renderStatic, applyComponentUpdate, reportComponentError } from './runtime/mount.js';
+import type { AppInstance, MountOptions } from './runtime/types.js';
+import { detectColorDepth, type ColorDepth } from './runtime/style/color-depth.js';
 import { setLogFile, enableLogging, log } from './runtime/logger.js';
-import { loadFile } from './loader.js';
+import { loadFile, watchComponent } from './loader.js';
 
 export interface RunOptions extends Omit<MountOptions, 'exitOnCtrlC'> {
-    /** Auto-unmount after this many milliseconds (0 = keep running) */
+    /**
+     * Auto-unmount after this many milliseconds (0 = keep running). Static
+     * output ends after its one frame regardless.
+     */
     once?: number;
     /** Enable Ctrl+C handling (default true) */
     exitOnCtrlC?: boolean;
@@ -15,13 +19,67 @@ export interface RunOptions extends Omit<MountOptions, 'exitOnCtrlC'> {
      * Defaults to the calling file's directory (detected automatically).
      */
     baseDir?: string;
+    /**
+     * Write a single frame as text instead of running interactively: no raw
+     * mode, no cursor movement. Defaults to true when stdout is not a TTY
+     * (piped to a file, `less` or a CI log).
+     */
+    static?: boolean;
+    /**
+     * `runFile` only: reload the component and the .svelte files it imports
+     * when they change. Edited components are swapped in place, keeping the
+     * state of the rest of the app; compile errors are shown over the app.
+     */
+    watch?: boolean;
 }
 
 // Re-export logging utilities for use by app code
 export { log, setLogFile, enableLogging } from './runtime/logger.js';
 
 // Re-export loader utilities
-export { loadFile, compileSvelte, clearModuleCache, invalidateModule, type LoadSvelteOptions } from './loader.js';
+export {
+    loadFile,
+    compileSvelte,
+    clearModuleCache,
+    invalidateModule,
+    watchComponent,
+    type LoadSvelteOptions,
+    type CompileSvelteOptions,
+    type WatchComponentOptions,
+} from './loader.js';
+
+/**
+ * Render a component once and write it to a stream that is not a terminal.
+ * Colors are left out unless FORCE_COLOR (or an explicit `colorDepth`)
+ * asks for them. When the component throws, the error goes to stderr and
+ * the process exit code is set, so scripts and CI see the failure.
+ */
+function runStatic(
+    Component: any,
+    output: NodeJS.WriteStream,
+    props: Record<string, unknown>,
+    colorDepth: ColorDepth | undefined
+): AppInstance {
+    const forced = process.env.FORCE_COLOR !== undefined ? detectColorDepth() : 'mono';
+    const done = renderStatic(Component, {
+        props,
+        width: output.columns || 80,
+        colorDepth: colorDepth ?? (forced === 'mono' ? false : forced),
+    }).then(
+        text => {
+            output.write(`${text}\n`);
+        },
+        error => {
+            console.error(error);
+            process.exitCode = 1;
+        }
+    );
+    return {
+        unmount: () => {},
+        waitUntilExit: () => done,
+        rerender: () => {},
+    };
+}
 
 export function runComponent(Component: any, opts: RunOptions = {}) {
     const {
@@ -33,7 +91,16 @@ export function runComponent(Component: any, opts: RunOptions = {}) {
         exitOnCtrlC = true,
         once = 0,
         debugLog,
+        mouse = false,
+        altScreen = false,
+        inline = false,
+        colorDepth,
+        kittyKeyboard = true,
+        openLink,
+        graphics,
+        onExit,
     } = opts;
+    const output = stdout ?? process.stdout;
 
     // Enable file-based debug logging if path provided
     if (debugLog) {
@@ -42,6 +109,10 @@ export function runComponent(Component: any, opts: RunOptions = {}) {
         log('runComponent', { component: Component?.name ?? 'unknown', debug, once });
     }
 
+    if (opts.static ?? !output.isTTY) {
+        return runStatic(Component, output, props, colorDepth);
+    }
+
     const app = mount(Component, {
         props,
         stdout,
@@ -49,6 +120,14 @@ export function runComponent(Component: any, opts: RunOptions = {}) {
         debug,
         clearOnExit,
         exitOnCtrlC,
+        mouse,
+        altScreen,
+        inline,
+        colorDepth,
+        kittyKeyboard,
+        openLink,
+        graphics,
+        onExit,
     });
 
     if (once > 0) {
@@ -79,10 +158,22 @@ export function runComponent(Component: any, opts: RunOptions = {}) {
  * await runFile('./App.svelte', {
  *     props: { name: 'World' },
  * });
+ * 
+ * // Reload components when they are saved
+ * await runFile('./App.svelte', { watch: true });
  * ```
  */
 export async function runFile(filePath: string, opts: RunOptions = {}) {
-    const { baseDir, ...runOpts } = opts;
-    const Component = await loadFile(filePath, { baseDir });
-    return runComponent(Component, runOpts);
+    const { baseDir, watch = false, ...runOpts } = opts;
+    const Component = await loadFile(filePath, { baseDir, hmr: watch });
+    const app = runComponent(Component, runOpts);
+    if (watch) {
+        const stop = watchComponent(filePath, {
+            baseDir,
+            onUpdate: applyComponentUpdate,
+            onError: reportComponentError,
+        });
+        void app.waitUntilExit().then(stop);
+    }
+    return app;
 }
@@ -58,7 +58,7 @@ export { html, css_props, head } from './client/special.js';
 export { create_custom_element } from './client/custom-element.js';
 
 // -----------------------------------------------------------------------------
-// Hydration, transitions, and actions – no-ops for CLI today
+// Hydration is a no-op; transitions and animations run on the frame scheduler
 // -----------------------------------------------------------------------------
 export { hydrate_template, next, reset } from './client/hydration.js';
 export { transition, animation, action } from './client/transitions.js';
@@ -0,0 +1,140 @@
+/**
+ * Animated Styles
+ *
+ * Svelte transitions describe each frame as a CSS declaration string
+ * (`opacity: 0.5; transform: translate(4px, 0)`). This module converts those
+ * strings into terminal styles and layers them over a node's stylesheet and
+ * inline styles while the animation runs.
+ *
+ * Terminal mapping:
+ * - `opacity` below 1 renders the node dim (cells cannot be translucent)
+ * - `transform: translate()` offsets the node after layout without affecting
+ *   siblings; `px` and unitless lengths are cells, `%` is relative to the node
+ * - other properties (colors, widths, heights, padding, margins, offsets) go
+ *   through the stylesheet declaration parser, with `px` read as cells
+ */
+
+import type { CliNode, Style } from '../types.js';
+import { applyDeclaration } from '../style/stylesheet.js';
+
+/**
+ * Style of a node at one point of an animation.
+ */
+export interface AnimatedFrame {
+    /** Style overrides for this frame. */
+    style: Style;
+    /** Horizontal translation in cells. */
+    translateX: number;
+    /** Vertical translation in cells. */
+    translateY: number;
+}
+
+const PX_LENGTH = /(-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)px\b/gi;
+const TRANSLATE_FUNCTION = /translate(X|Y|3d)?\(([^)]*)\)/gi;
+
+function resolveLength(value: string | undefined, size: number): number {
+    if (!value) return 0;
+    const trimmed = value.trim();
+    const number = parseFloat(trimmed);
+    if (!Number.isFinite(number)) return 0;
+    if (trimmed.endsWith('%')) {
+        return (number / 100) * size;
+    }
+    return number;
+}
+
+function applyTransform(frame: AnimatedFrame, value: string, width: number, height: number): void {
+    for (const [, axis, args] of value.matchAll(TRANSLATE_FUNCTION)) {
+        const [first, second] = args.split(',');
+        if (axis === 'X') {
+            frame.translateX += resolveLength(first, width);
+        } else if (axis === 'Y') {
+            frame.translateY += resolveLength(first, height);
+        } else {
+            frame.translateX += resolveLength(first, width);
+            frame.translateY += resolveLength(second, height);
+        }
+    }
+}
+
+/**
+ * Convert a CSS declaration string produced by a transition's `css` function
+ * into an animation frame for a node.
+ *
+ * @param node - Animated node (its layout resolves percentage translations).
+ * @param css - Declarations, e.g. `opacity: 0.4; transform: translate(3px, 0)`.
+ */
+export function parseAnimationCss(node: CliNode, css: string): AnimatedFrame {
+    const frame: AnimatedFrame = { style: {}, translateX: 0, translateY: 0 };
+    const width = node.computedLayout?.width ?? 0;
+    const height = node.computedLayout?.height ?? 0;
+    for (const declaration of css.split(';')) {
+        const colon = declaration.indexOf(':');
+        if (colon === -1) continue;
+        const property = declaration.slice(0, colon).trim().toLowerCase();
+        const value = declaration.slice(colon + 1).trim();
+        if (!property || !value) continue;
+        if (property === 'opacity') {
+            if (parseFloat(value) < 1) {
+                frame.style.dim = true;
+            }
+        } else if (property === 'transform') {
+            applyTransform(frame, value, width, height);
+        } else {
+            applyDeclaration(frame.style, property, value.replace(PX_LENGTH, '$1'));
+        }
+    }
+    return frame;
+}
+
+/**
+ * Set the current frame of one animation on a node.
+ * Several animations may run on the same node (an intro and a FLIP move);
+ * later animations win for the same property and translations add up.
+ *
+ * @param node - Animated node.
+ * @param owner - The animation producing the frame.
+ * @param frame - Frame to apply.
+ */
+export function setAnimationFrame(node: CliNode, owner: object, frame: AnimatedFrame): void {
+    node.__animationFrames ??= new Map();
+    node.__animationFrames.set(owner, frame);
+    mergeAnimationFrames(node);
+}
+
+/**
+ * Remove an animation's frame from a node, restoring its static styles once
+ * no animations remain.
+ */
+export function clearAnimationFrame(node: CliNode, owner: object): void {
+    if (!node.__animationFrames?.delete(owner)) return;
+    mergeAnimationFrames(node);
+}
+
+/**
+ * Whether any animation currently styles the node.
+ */
+export function isAnimating(node: CliNode): boolean {
+    return (node.__animationFrames?.size ?? 0) > 0;
+}
+
+function mergeAnimationFrames(node: CliNode): void {
+    const frames = node.__animationFrames;
+    if (!frames || frames.size === 0) {
+        delete node.__animationFrames;
+        delete node.__animatedStyle;
+        delete node.__translate;
+        return;
+    }
+    const style: Style = {};
+    let x = 0;
+    let y = 0;
+    for (const frame of frames.values()) {
+        Object.assign(style, frame.style);
+        x += frame.translateX;
+        y += frame.translateY;
+    }
+    node.__animatedStyle = style;
+    // Cells are discrete; round once after summing so layers don't drift
+    node.__translate = { x: Math.round(x), y: Math.round(y) };
+}
@@ -0,0 +1,484 @@
+/**
+ * CSS Animations and Transitions
+ *
+ * Runs `animation-*` (with `@keyframes`) and `transition-*` declarations.
+ * Every layout samples the running animations of each node at the current
+ * frame time and layers the interpolated values over its static styles
+ * through the animated-style layer, like Svelte transitions.
+ *
+ * Frames are only requested while an animation or transition is running,
+ * so an idle app stays at zero CPU.
+ *
+ * Interpolation:
+ * - numbers (sizes, spacing, offsets) interpolate and round to whole cells
+ * - colors interpolate in RGB
+ * - other values switch halfway through a keyframe segment; transitions
+ *   ignore them, as browsers do for discrete properties
+ */
+
+import type { AnimationStyle, CliNode, Style } from '../types.js';
+import { getKeyframes, type Keyframe } from '../style/stylesheet.js';
+import { parseColorToRgb, interpolateColor, rgbToString } from '../style/colors.js';
+import { canonicalizeStyleProp } from '../style/properties.js';
+import { getNodeChildren } from '../utils/node.js';
+import { emitDomEvent } from '../events.js';
+import { requestFrames, now, type FrameCallback } from './frames.js';
+import { setAnimationFrame, clearAnimationFrame } from './animated-style.js';
+import {
+    parseTime,
+    parseEasing,
+    splitList,
+    expandAnimationShorthand,
+    expandTransitionShorthand,
+    type Easing,
+} from './timing.js';
+
+interface CssAnimation {
+    name: string;
+    keyframes: Keyframe[];
+    startTime: number;
+    duration: number;
+    delay: number;
+    iterations: number;
+    direction: string;
+    fillMode: string;
+    easing: Easing;
+    /** Elapsed time when paused, null while playing. */
+    pausedAt: number | null;
+    started: boolean;
+    ended: boolean;
+}
+
+interface CssTransition {
+    from: unknown;
+    to: unknown;
+    startTime: number;
+    duration: number;
+    delay: number;
+    easing: Easing;
+    /** Value shown at the last sample, the start point if it is reversed. */
+    current: unknown;
+}
+
+/**
+ * Per-node animation state, kept between layouts.
+ */
+export interface CssAnimationState {
+    animations: CssAnimation[];
+    transitions: Map<string, CssTransition>;
+    /** Static styles seen by the previous layout, to detect transitions. */
+    previous: Record<string, unknown> | null;
+}
+
+/** Roots whose last layout had a running animation, with their frame callback. */
+const animatingRoots = new Map<CliNode, FrameCallback>();
+
+const ANIMATION_KEYS = new Set<string>([
+    'animation',
+    'animationName',
+    'animationDuration',
+    'animationDelay',
+    'animationTimingFunction',
+    'animationIterationCount',
+    'animationDirection',
+    'animationFillMode',
+    'animationPlayState',
+    'transition',
+    'transitionProperty',
+    'transitionDuration',
+    'transitionDelay',
+    'transitionTimingFunction',
+]);
+
+/**
+ * Keep frames coming for a root while its last layout had a running
+ * animation.
+ */
+function tickCssAnimations(root: CliNode): boolean {
+    if (root.__freed) {
+        animatingRoots.delete(root);
+    }
+    // The redraw that follows each frame re-lays out and samples again
+    return animatingRoots.has(root);
+}
+
+/**
+ * Sample CSS animations and transitions for a tree.
+ * Called by `computeLayout` after stylesheet styles are resolved.
+ *
+ * @param root - Root of the tree being laid out.
+ */
+export function updateCssAnimations(root: CliNode): void {
+    const running = updateNode(root, now());
+    if (running) {
+        let tick = animatingRoots.get(root);
+        if (!tick) {
+            tick = () => tickCssAnimations(root);
+            animatingRoots.set(root, tick);
+        }
+        requestFrames(tick, root);
+    } else {
+        animatingRoots.delete(root);
+    }
+}
+
+function updateNode(node: CliNode, time: number): boolean {
+    let running = false;
+    const style = resolveStaticStyle(node);
+    if (style || node.__cssAnimations) {
+        running = updateNodeAnimations(node, style ?? {}, time);
+    }
+    for (const child of getNodeChildren(node)) {
+        if (updateNode(child, time)) {
+            running = true;
+        }
+    }
+    return running;
+}
+
+/**
+ * Merge stylesheet and inline styles (without animations), expanding inline
+ * shorthands. Returns null for nodes that declare no animation properties.
+ */
+function resolveStaticStyle(node: CliNode): (Style & Record<string, unknown>) | null {
+    const css = (node.__cssStyle ?? {}) as Style;
+    const inline = (node.style ?? {}) as Style & Record<string, unknown>;
+    if (!declaresAnimation(css) && !declaresAnimation(inline)) {
+        return null;
+    }
+    const style: Style & Record<string, unknown> = { ...css };
+    for (const [key, value] of Object.entries(inline)) {
+        if (key === 'animation' && typeof value === 'string') {
+            Object.assign(style, expandAnimationShorthand(value));
+        } else if (key === 'transition' && typeof value === 'string') {
+            Object.assign(style, expandTransitionShorthand(value));
+        } else {
+            style[key] = value;
+        }
+    }
+    return style;
+}
+
+function declaresAnimation(style: AnimationStyle): boolean {
+    return (
+        style.animation !== undefined ||
+        style.animationName !== undefined ||
+        style.transition !== undefined ||
+        style.transitionDuration !== undefined
+    );
+}
+
+function updateNodeAnimations(node: CliNode, style: Style & Record<string, unknown>, time: number): boolean {
+    const state = (node.__cssAnimations ??= { animations: [], transitions: new Map(), previous: null });
+    syncAnimations(state, style, time);
+    syncTransitions(state, style, time);
+
+    const frame: Record<string, unknown> = {};
+    for (const [property, transition] of state.transitions) {
+        const elapsed = time - transition.startTime - transition.delay;
+        if (elapsed >= transition.duration) {
+            state.transitions.delete(property);
+            queueEvent(node, 'transitionend');
+            continue;
+        }
+        const progress = elapsed <= 0 ? 0 : transition.easing(elapsed / transition.duration);
+        transition.current = interpolateValue(transition.from, transition.to, progress);
+        frame[property] = transition.current;
+    }
+    let running = state.transitions.size > 0;
+
+    // Animations override transitions of the same property
+    for (const animation of state.animations) {
+        if (sampleAnimation(node, animation, style, time, frame)) {
+            running = true;
+        }
+    }
+
+    if (Object.keys(frame).length > 0) {
+        setAnimationFrame(node, state, { style: frame as Style, translateX: 0, translateY: 0 });
+    } else {
+        clearAnimationFrame(node, state);
+    }
+
+    if (!running && state.animations.length === 0 && state.transitions.size === 0 && !declaresAnimation(style)) {
+        delete node.__cssAnimations;
+    }
+    return running;
+}
+
+/**
+ * Start, update or drop animations to match the node's `animation-name` list.
+ * Animations keep running across layouts as long as their name stays at the
+ * same position in the list.
+ */
+function syncAnimations(state: CssAnimationState, style: AnimationStyle, time: number): void {
+    const names = splitList(style.animationName ?? 'none');
+    const durations = splitList(style.animationDuration ?? '0s');
+    const delays = splitList(style.animationDelay ?? '0s');
+    const easings = splitList(style.animationTimingFunction ?? 'ease');
+    const counts = splitList(style.animationIterationCount ?? '1');
+    const directions = splitList(style.animationDirection ?? 'normal');
+    const fillModes = splitList(style.animationFillMode ?? 'none');
+    const playStates = splitList(style.animationPlayState ?? 'running');
+    const pick = (list: string[], index: number): string => list[index % list.length];
+
+    const next: CssAnimation[] = [];
+    names.forEach((name, index) => {
+        if (!name || name === 'none') return;
+        const keyframes = getKeyframes(name);
+        if (!keyframes || keyframes.length === 0) return;
+
+        const previous = state.animations[index];
+        const animation: CssAnimation = previous?.name === name
+            ? previous
+            : {
+                name,
+                keyframes,
+                startTime: time,
+                duration: 0,
+                delay: 0,
+                iterations: 1,
+                direction: 'normal',
+                fillMode: 'none',
+                easing: parseEasing('ease'),
+                pausedAt: null,
+                started: false,
+                ended: false,
+            };
+        animation.keyframes = keyframes;
+        animation.duration = Math.max(0, parseTime(pick(durations, index)));
+        animation.delay = parseTime(pick(delays, index));
+        animation.easing = parseEasing(pick(easings, index));
+        const count = pick(counts, index);
+        animation.iterations = count === 'infinite' ? Infinity : Math.max(0, parseFloat(count) || 0);
+        animation.direction = pick(directions, index);
+        animation.fillMode = pick(fillModes, index);
+
+        const paused = pick(playStates, index) === 'paused';
+        if (paused && animation.pausedAt === null) {
+            animation.pausedAt = time - animation.startTime;
+        } else if (!paused && animation.pausedAt !== null) {
+            // Resume where it paused
+            animation.startTime = time - animation.pausedAt;
+            animation.pausedAt = null;
+        }
+        next.push(animation);
+    });
+    state.animations = next;
+}
+
+/**
+ * Start transitions for properties whose static value changed since the
+ * previous layout.
+ */
+function syncTransitions(state: CssAnimationState, style: Style & Record<string, unknown>, time: number): void {
+    const current: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(style)) {
+        if (!ANIMATION_KEYS.has(key)) {
+            current[key] = value;
+        }
+    }
+    const previous = state.previous;
+    state.previous = current;
+    // Like browsers, a node's first style does not transition
+    if (!previous) return;
+
+    const properties = splitList(style.transitionProperty ?? 'all').map(property => property.toLowerCase());
+    const durations = splitList(style.transitionDuration ?? '0s');
+    const delays = splitList(style.transitionDelay ?? '0s');
+    const easings = splitList(style.transitionTimingFunction ?? 'ease');
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+    for (const key of keys) {
+        const before = previous[key];
+        const after = current[key];
+        if (before === after) continue;
+
+        const index = findTransitionIndex(properties, key);
+        const running = state.transitions.get(key);
+        const duration = index === -1 ? 0 : parseTime(durations[index % durations.length]);
+        const delay = index === -1 ? 0 : parseTime(delays[index % delays.length]);
+        const from = running?.current ?? before;
+        if (duration <= 0 || !isInterpolable(from, after)) {
+            state.transitions.delete(key);
+            continue;
+        }
+        state.transitions.set(key, {
+            from,
+            to: after,
+            startTime: time,
+            duration,
+            delay,
+            easing: parseEasing(easings[index % easings.length]),
+            current: from,
+        });
+    }
+}
+
+/**
+ * Find the `transition-property` entry covering a style key.
+ * Shorthand names cover their longhands (`padding` covers `paddingTop`).
+ * The last matching entry wins, as in CSS.
+ */
+function findTransitionIndex(properties: string[], key: string): number {
+    for (let index = properties.length - 1; index >= 0; index--) {
+        const property = properties[index];
+        if (property === 'all') return index;
+        if (property === 'none') continue;
+        const canonical = canonicalizeStyleProp(property) ?? toCamelCase(property);
+        if (key === canonical || (key.startsWith(canonical) && /^[A-Z]/.test(key.slice(canonical.length)))) {
+            return index;
+        }
+    }
+    return -1;
+}
+
+function toCamelCase(property: string): string {
+    return property.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Sample one animation into `frame`.
+ * Returns true while the animation still needs frames.
+ */
+function sampleAnimation(
+    node: CliNode,
+    animation: CssAnimation,
+    style: Record<string, unknown>,
+    time: number,
+    frame: Record<string, unknown>
+): boolean {
+    const elapsed = (animation.pausedAt ?? time - animation.startTime) - animation.delay;
+    // 0 × infinite iterations is still an instant animation
+    const activeDuration = animation.duration === 0 ? 0 : animation.duration * animation.iterations;
+    const fillBackwards = animation.fillMode === 'backwards' || animation.fillMode === 'both';
+    const fillForwards = animation.fillMode === 'forwards' || animation.fillMode === 'both';
+    const playing = animation.pausedAt === null;
+
+    if (elapsed < 0) {
+        if (fillBackwards) {
+            applyKeyframes(animation, style, directedProgress(animation, 0, 0), frame);
+        }
+        return playing;
+    }
+
+    if (!animation.started) {
+        animation.started = true;
+        queueEvent(node, 'animationstart');
+    }
+
+    if (elapsed >= activeDuration) {
+        if (!animation.ended) {
+            animation.ended = true;
+            queueEvent(node, 'animationend');
+        }
+        if (fillForwards) {
+            // The end of the last iteration, which may be partial
+            const iterations = animation.iterations;
+            const whole = Number.isInteger(iterations) && iterations > 0;
+            const iteration = whole ? iterations - 1 : Math.floor(iterations);
+            const progress = whole ? 1 : iterations % 1;
+            applyKeyframes(animation, style, directedProgress(animation, iteration, progress), frame);
+        }
+        return false;
+    }
+
+    const iteration = Math.floor(elapsed / animation.duration);
+    const progress = (elapsed - iteration * animation.duration) / animation.duration;
+    applyKeyframes(animation, style, directedProgress(animation, iteration, progress), frame);
+    return playing;
+}
+
+function directedProgress(animation: CssAnimation, iteration: number, progress: number): number {
+    switch (animation.direction) {
+        case 'reverse':
+            return 1 - progress;
+        case 'alternate':
+            return iteration % 2 === 1 ? 1 - progress : progress;
+        case 'alternate-reverse':
+            return iteration % 2 === 0 ? 1 - progress : progress;
+        default:
+            return progress;
+    }
+}
+
+/**
+ * Interpolate every property named by the keyframes at a progress.
+ * Properties missing from the first or last keyframe animate from or to
+ * the node's own value.
+ */
+function applyKeyframes(
+    animation: CssAnimation,
+    style: Record<string, unknown>,
+    progress: number,
+    frame: Record<string, unknown>
+): void {
+    const properties = new Set<string>();
+    for (const keyframe of animation.keyframes) {
+        for (const key of Object.keys(keyframe.style)) {
+            if (!ANIMATION_KEYS.has(key)) {
+                properties.add(key);
+            }
+        }
+    }
+
+    for (const property of properties) {
+        const stops: Array<{ offset: number; value: unknown; easing?: string }> = [];
+        for (const keyframe of animation.keyframes) {
+            const value = (keyframe.style as Record<string, unknown>)[property];
+            if (value !== undefined) {
+                stops.push({ offset: keyframe.offset, value, easing: keyframe.style.animationTimingFunction });
+            }
+        }
+        if (stops[0].offset > 0) {
+            stops.unshift({ offset: 0, value: style[property] });
+        }
+        if (stops[stops.length - 1].offset < 1) {
+            stops.push({ offset: 1, value: style[property] });
+        }
+
+        let index = 0;
+        while (index < stops.length - 2 && progress >= stops[index + 1].offset) {
+            index++;
+        }
+        const from = stops[index];
+        const to = stops[index + 1] ?? from;
+        const span = to.offset - from.offset;
+        const local = span > 0 ? Math.min(1, Math.max(0, (progress - from.offset) / span)) : 1;
+        // A keyframe's own timing function applies to the segment it starts
+        const easing = from.easing ? parseEasing(from.easing) : animation.easing;
+        const value = interpolateValue(from.value, to.value, easing(local));
+        if (value !== undefined) {
+            frame[property] = value;
+        }
+    }
+}
+
+function isInterpolable(from: unknown, to: unknown): boolean {
+    if (typeof from === 'number' && typeof to === 'number') return true;
+    return typeof from === 'string' && typeof to === 'string' && !!parseColorToRgb(from) && !!parseColorToRgb(to);
+}
+
+function interpolateValue(from: unknown, to: unknown, progress: number): unknown {
+    if (typeof from === 'number' && typeof to === 'number') {
+        // Layout works in whole cells
+        return Math.round(from + (to - from) * progress);
+    }
+    if (typeof from === 'string' && typeof to === 'string') {
+        const fromRgb = parseColorToRgb(from);
+        const toRgb = parseColorToRgb(to);
+        if (fromRgb && toRgb) {
+            return rgbToString(interpolateColor(fromRgb, toRgb, progress));
+        }
+    }
+    return progress < 0.5 ? from : to;
+}
+
+function queueEvent(node: CliNode, type: string): void {
+    // Listeners may update state; keep them out of the layout pass
+    queueMicrotask(() => {
+        if (!node.__freed) {
+            emitDomEvent(node, type, { bubbles: true });
+        }
+    });
+}
@@ -0,0 +1,104 @@
+/**
+ * Frame Scheduler
+ *
+ * Drives time-based animations (Svelte transitions, FLIP moves) in place of
+ * `requestAnimationFrame`. Frames only tick while at least one callback is
+ * registered, so an idle app does not wake up or redraw. Each frame redraws
+ * only the mounts whose animations requested it.
+ */
+
+import type { CliNode } from '../types.js';
+import { scheduleRender } from '../mount.js';
+import {
+    getActiveRuntimeState,
+    getNodeRuntimeState,
+    withRuntimeState,
+    type RuntimeState,
+} from '../runtime-state.js';
+
+/** Time between frames in milliseconds (30 fps keeps terminal output light). */
+export const FRAME_INTERVAL = Math.round(1000 / 30);
+
+/**
+ * Called once per frame with the frame timestamp.
+ * Return true to keep receiving frames, false to stop.
+ */
+export type FrameCallback = (now: number) => boolean;
+
+/** Callbacks, with the state of the mount each was requested for. */
+const callbacks = new Map<FrameCallback, RuntimeState>();
+let frameTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Current animation clock in milliseconds.
+ */
+export function now(): number {
+    return performance.now();
+}
+
+/**
+ * Run a callback on every frame until it returns false or is cancelled.
+ *
+ * @param callback - Frame callback.
+ * @param node - Node being animated. Frames redraw the mount it belongs
+ *               to; without one, the mount whose state is active.
+ * @returns Function that cancels the callback.
+ */
+export function requestFrames(callback: FrameCallback, node?: CliNode | null): () => void {
+    callbacks.set(callback, (node && getNodeRuntimeState(node)) || getActiveRuntimeState());
+    scheduleFrame();
+    return () => {
+        callbacks.delete(callback);
+        if (callbacks.size === 0) {
+            cancelFrame();
+        }
+    };
+}
+
+/**
+ * Whether any animation is currently requesting frames.
+ */
+export function hasActiveFrames(): boolean {
+    return callbacks.size > 0;
+}
+
+/**
+ * Drop all frame callbacks and stop ticking.
+ * Used when the last mount context unmounts and in tests.
+ */
+export function cancelAllFrames(): void {
+    callbacks.clear();
+    cancelFrame();
+}
+
+function scheduleFrame(): void {
+    if (frameTimer) return;
+    frameTimer = setTimeout(runFrame, FRAME_INTERVAL);
+}
+
+function cancelFrame(): void {
+    if (!frameTimer) return;
+    clearTimeout(frameTimer);
+    frameTimer = null;
+}
+
+function runFrame(): void {
+    frameTimer = null;
+    const time = now();
+    const animated = new Set<RuntimeState>();
+    for (const [callback, state] of [...callbacks]) {
+        if (!callbacks.has(callback)) continue;
+        animated.add(state);
+        if (!withRuntimeState(state, () => callback(time))) {
+            callbacks.delete(callback);
+        }
+    }
+    // Animations mutate styles outside of Svelte's reactivity, so every frame
+    // needs an explicit redraw of the mounts they run in
+    for (const state of animated) {
+        withRuntimeState(state, () => scheduleRender());
+    }
+    if (callbacks.size > 0) {
+        scheduleFrame();
+    }
+}
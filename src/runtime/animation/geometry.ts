@@ -0,0 +1,144 @@
+/**
+ * Element Geometry
+ *
+ * Layout queries used by Svelte's transition and animate functions:
+ * `getBoundingClientRect()`, `getComputedStyle()` and the client size.
+ * Like a browser, reading geometry forces a layout of the tree first so
+ * freshly inserted or moved nodes report their new position.
+ */
+
+import Yoga from 'yoga-layout';
+import type { BoundingRect, CliNode } from '../types.js';
+import { computeLayout } from '../layout.js';
+import { getComputedCliStyle } from '../style/computed.js';
+import { window } from '../dom/document.js';
+
+type Edge = 'Top' | 'Right' | 'Bottom' | 'Left';
+
+const EDGES: Array<[Edge, number]> = [
+    ['Top', Yoga.EDGE_TOP],
+    ['Right', Yoga.EDGE_RIGHT],
+    ['Bottom', Yoga.EDGE_BOTTOM],
+    ['Left', Yoga.EDGE_LEFT],
+];
+
+/**
+ * Computed style as reported to Svelte transitions, keyed by camelCase
+ * property with CSS string values (`px` lengths are cells).
+ */
+export interface TerminalComputedStyle {
+    [property: string]: unknown;
+    getPropertyValue(property: string): string;
+}
+
+function getTreeRoot(node: CliNode): CliNode {
+    let current = node;
+    while (current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
+
+/**
+ * Recompute layout for the tree containing a node so its computed layout
+ * reflects pending DOM changes. Detached nodes are left untouched.
+ */
+export function ensureLayout(node: CliNode): void {
+    const root = getTreeRoot(node);
+    if (root.type !== 'root' || root.__freed) return;
+    const width = typeof root.style.width === 'number' ? root.style.width : undefined;
+    const height = typeof root.style.height === 'number' ? root.style.height : undefined;
+    computeLayout(root, width, height);
+}
+
+/**
+ * Measure a node's border box relative to the terminal viewport.
+ * Uses the last computed layout unless `refresh` forces a new one.
+ *
+ * @param node - Node to measure.
+ * @param refresh - Recompute layout before measuring.
+ */
+export function getBoundingRect(node: CliNode, refresh = false): BoundingRect {
+    if (refresh) {
+        ensureLayout(node);
+    }
+    let x = 0;
+    let y = 0;
+    for (let current: CliNode | null = node; current; current = current.parent) {
+        x += current.computedLayout?.left ?? 0;
+        y += current.computedLayout?.top ?? 0;
+    }
+    const width = node.computedLayout?.width ?? 0;
+    const height = node.computedLayout?.height ?? 0;
+    return { x, y, left: x, top: y, right: x + width, bottom: y + height, width, height };
+}
+
+function toKebabCase(property: string): string {
+    return property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+function toCamelCase(property: string): string {
+    return property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Compute the style of a node as a browser would report it to script.
+ * Transitions read sizes and spacing from here to build their keyframes.
+ *
+ * @param node - Node to inspect.
+ */
+export function getTerminalComputedStyle(node: CliNode): TerminalComputedStyle {
+    ensureLayout(node);
+    const style = getComputedCliStyle(node);
+    const width = node.computedLayout?.width ?? 0;
+    const height = node.computedLayout?.height ?? 0;
+    const display = node.style.display ?? node.__cssStyle?.display;
+    const position = node.style.position ?? node.__cssStyle?.position;
+    const values: Record<string, string> = {
+        display: display ?? 'flex',
+        position: position ?? 'static',
+        width: `${width}px`,
+        height: `${height}px`,
+        opacity: '1',
+        transform: 'none',
+        transformOrigin: `${width / 2}px ${height / 2}px`,
+        filter: 'none',
+        zoom: '1',
+        overflow: style.overflow ?? 'visible',
+        color: style.color ?? '',
+        backgroundColor: style.backgroundColor ?? '',
+    };
+    const yogaNode = node.__freed ? null : node.yogaNode;
+    for (const [edge, yogaEdge] of EDGES) {
+        values[`padding${edge}`] = `${yogaNode?.getComputedPadding(yogaEdge) ?? 0}px`;
+        values[`margin${edge}`] = `${yogaNode?.getComputedMargin(yogaEdge) ?? 0}px`;
+        values[`border${edge}Width`] = `${yogaNode?.getComputedBorder(yogaEdge) ?? 0}px`;
+    }
+    return {
+        ...values,
+        getPropertyValue(property: string): string {
+            return values[toCamelCase(property)] ?? values[toKebabCase(property)] ?? '';
+        },
+    };
+}
+
+/**
+ * Global `getComputedStyle` that understands CLI nodes and defers to
+ * happy-dom for plain DOM elements.
+ */
+export function getComputedStyleForElement(element: unknown): TerminalComputedStyle | CSSStyleDeclaration {
+    if (element && typeof element === 'object' && 'yogaNode' in element) {
+        return getTerminalComputedStyle(element as CliNode);
+    }
+    return window.getComputedStyle(element as never) as unknown as CSSStyleDeclaration;
+}
+
+// Svelte's transition functions read sizes through the global getComputedStyle.
+// Installed here rather than in dom/setup, which must load before the layout engine.
+if (!globalThis.getComputedStyle) {
+    Object.defineProperty(globalThis, 'getComputedStyle', {
+        value: getComputedStyleForElement,
+        writable: true,
+        configurable: true,
+    });
+}
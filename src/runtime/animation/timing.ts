@@ -0,0 +1,268 @@
+/**
+ * CSS Timing Values
+ *
+ * Parsing for the value syntax shared by `animation-*` and `transition-*`:
+ * times (`200ms`, `.5s`), easing functions (`ease-in-out`,
+ * `cubic-bezier()`, `steps()`) and the `animation` / `transition` shorthands.
+ */
+
+import type { AnimationStyle } from '../types.js';
+
+/**
+ * Maps linear progress (0-1) to eased progress.
+ */
+export type Easing = (t: number) => number;
+
+const linear: Easing = t => t;
+
+const NAMED_BEZIERS: Record<string, [number, number, number, number]> = {
+    ease: [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const DIRECTIONS = new Set(['normal', 'reverse', 'alternate', 'alternate-reverse']);
+const FILL_MODES = new Set(['none', 'forwards', 'backwards', 'both']);
+const PLAY_STATES = new Set(['running', 'paused']);
+const TIME_PATTERN = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:ms|s)$/i;
+const EASING_PATTERN = /^(?:linear|ease(?:-in|-out|-in-out)?|step-start|step-end|cubic-bezier\(.*\)|steps\(.*\))$/i;
+
+/**
+ * Split a comma-separated list, ignoring commas inside parentheses.
+ */
+export function splitList(value: string): string[] {
+    return splitOutside(value, ',');
+}
+
+function splitTokens(value: string): string[] {
+    return splitOutside(value, ' ').filter(Boolean);
+}
+
+function splitOutside(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of value) {
+        if (char === '(') depth++;
+        if (char === ')') depth = Math.max(0, depth - 1);
+        const isSeparator = separator === ' ' ? /\s/.test(char) : char === separator;
+        if (isSeparator && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current.trim());
+    return parts;
+}
+
+/**
+ * Parse a CSS time (`1s`, `250ms`) into milliseconds.
+ * Invalid or missing values are 0.
+ */
+export function parseTime(value: string | undefined): number {
+    if (!value) return 0;
+    const trimmed = value.trim().toLowerCase();
+    const number = parseFloat(trimmed);
+    if (!Number.isFinite(number)) return 0;
+    return trimmed.endsWith('ms') ? number : number * 1000;
+}
+
+function isTime(token: string): boolean {
+    return TIME_PATTERN.test(token);
+}
+
+function isEasing(token: string): boolean {
+    return EASING_PATTERN.test(token);
+}
+
+/**
+ * Solve a cubic Bézier timing curve for x, returning y.
+ */
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+    const sample = (a1: number, a2: number, t: number): number =>
+        3 * a1 * t * (1 - t) ** 2 + 3 * a2 * t ** 2 * (1 - t) + t ** 3;
+    const slope = (a1: number, a2: number, t: number): number =>
+        3 * a1 * (1 - t) ** 2 + 6 * (a2 - a1) * t * (1 - t) + 3 * (1 - a2) * t ** 2;
+
+    return (x: number): number => {
+        if (x <= 0) return 0;
+        if (x >= 1) return 1;
+        // Newton-Raphson, falling back to bisection on flat slopes
+        let t = x;
+        for (let i = 0; i < 8; i++) {
+            const error = sample(x1, x2, t) - x;
+            if (Math.abs(error) < 1e-6) return sample(y1, y2, t);
+            const d = slope(x1, x2, t);
+            if (Math.abs(d) < 1e-6) break;
+            t -= error / d;
+        }
+        let low = 0;
+        let high = 1;
+        t = x;
+        for (let i = 0; i < 30; i++) {
+            const value = sample(x1, x2, t);
+            if (Math.abs(value - x) < 1e-6) break;
+            if (value < x) low = t;
+            else high = t;
+            t = (low + high) / 2;
+        }
+        return sample(y1, y2, t);
+    };
+}
+
+function steps(count: number, position: string): Easing {
+    const n = Math.max(1, Math.floor(count));
+    return (t: number): number => {
+        if (t >= 1) return 1;
+        switch (position) {
+            case 'jump-start':
+            case 'start':
+                return Math.min(1, (Math.floor(t * n) + 1) / n);
+            case 'jump-none':
+                return n > 1 ? Math.min(1, Math.floor(t * n) / (n - 1)) : 0;
+            case 'jump-both':
+                return (Math.floor(t * n) + 1) / (n + 1);
+            default:
+                return Math.floor(t * n) / n;
+        }
+    };
+}
+
+/**
+ * Parse a CSS easing function. Unknown values fall back to `ease`.
+ */
+export function parseEasing(value: string | undefined): Easing {
+    const trimmed = (value ?? '').trim().toLowerCase();
+    if (trimmed === 'linear') return linear;
+    const named = NAMED_BEZIERS[trimmed || 'ease'];
+    if (named) return cubicBezier(...named);
+    if (trimmed === 'step-start') return steps(1, 'start');
+    if (trimmed === 'step-end') return steps(1, 'end');
+
+    const bezier = trimmed.match(/^cubic-bezier\(([^)]*)\)$/);
+    if (bezier) {
+        const points = bezier[1].split(',').map(point => parseFloat(point));
+        if (points.length === 4 && points.every(Number.isFinite)) {
+            const [x1, y1, x2, y2] = points;
+            return cubicBezier(Math.min(1, Math.max(0, x1)), y1, Math.min(1, Math.max(0, x2)), y2);
+        }
+    }
+    const stepped = trimmed.match(/^steps\(\s*(\d+)\s*(?:,\s*([a-z-]+)\s*)?\)$/);
+    if (stepped) {
+        return steps(parseInt(stepped[1], 10), stepped[2] ?? 'end');
+    }
+    return cubicBezier(...NAMED_BEZIERS.ease);
+}
+
+/**
+ * Expand an `animation` shorthand into its longhands.
+ * Each comma-separated animation contributes one entry to every list.
+ *
+ * @example
+ * expandAnimationShorthand('spin 1s linear infinite')
+ * // { animationName: 'spin', animationDuration: '1s', animationTimingFunction: 'linear',
+ * //   animationIterationCount: 'infinite', ... }
+ */
+export function expandAnimationShorthand(value: string): AnimationStyle {
+    const lists = {
+        name: [] as string[],
+        duration: [] as string[],
+        delay: [] as string[],
+        timing: [] as string[],
+        count: [] as string[],
+        direction: [] as string[],
+        fill: [] as string[],
+        play: [] as string[],
+    };
+    for (const item of splitList(value)) {
+        let name: string | undefined;
+        let duration: string | undefined;
+        let delay: string | undefined;
+        let timing: string | undefined;
+        let count: string | undefined;
+        let direction: string | undefined;
+        let fill: string | undefined;
+        let play: string | undefined;
+        for (const token of splitTokens(item)) {
+            const lower = token.toLowerCase();
+            if (isTime(lower)) {
+                if (duration === undefined) duration = lower;
+                else delay ??= lower;
+            } else if (timing === undefined && isEasing(lower)) {
+                timing = lower;
+            } else if (count === undefined && (lower === 'infinite' || /^\d*\.?\d+$/.test(lower))) {
+                count = lower;
+            } else if (direction === undefined && DIRECTIONS.has(lower)) {
+                direction = lower;
+            } else if (fill === undefined && lower !== 'none' && FILL_MODES.has(lower)) {
+                fill = lower;
+            } else if (play === undefined && PLAY_STATES.has(lower)) {
+                play = lower;
+            } else if (name === undefined) {
+                name = token.replace(/^["']|["']$/g, '');
+            }
+        }
+        lists.name.push(name ?? 'none');
+        lists.duration.push(duration ?? '0s');
+        lists.delay.push(delay ?? '0s');
+        lists.timing.push(timing ?? 'ease');
+        lists.count.push(count ?? '1');
+        lists.direction.push(direction ?? 'normal');
+        lists.fill.push(fill ?? 'none');
+        lists.play.push(play ?? 'running');
+    }
+    return {
+        animationName: lists.name.join(', '),
+        animationDuration: lists.duration.join(', '),
+        animationDelay: lists.delay.join(', '),
+        animationTimingFunction: lists.timing.join(', '),
+        animationIterationCount: lists.count.join(', '),
+        animationDirection: lists.direction.join(', '),
+        animationFillMode: lists.fill.join(', '),
+        animationPlayState: lists.play.join(', '),
+    };
+}
+
+/**
+ * Expand a `transition` shorthand into its longhands.
+ *
+ * @example
+ * expandTransitionShorthand('color 200ms ease-in, width 1s')
+ * // { transitionProperty: 'color, width', transitionDuration: '200ms, 1s', ... }
+ */
+export function expandTransitionShorthand(value: string): AnimationStyle {
+    const properties: string[] = [];
+    const durations: string[] = [];
+    const delays: string[] = [];
+    const timings: string[] = [];
+    for (const item of splitList(value)) {
+        let property: string | undefined;
+        let duration: string | undefined;
+        let delay: string | undefined;
+        let timing: string | undefined;
+        for (const token of splitTokens(item)) {
+            const lower = token.toLowerCase();
+            if (isTime(lower)) {
+                if (duration === undefined) duration = lower;
+                else delay ??= lower;
+            } else if (timing === undefined && isEasing(lower)) {
+                timing = lower;
+            } else if (property === undefined) {
+                property = lower;
+            }
+        }
+        properties.push(property ?? 'all');
+        durations.push(duration ?? '0s');
+        delays.push(delay ?? '0s');
+        timings.push(timing ?? 'ease');
+    }
+    return {
+        transitionProperty: properties.join(', '),
+        transitionDuration: durations.join(', '),
+        transitionDelay: delays.join(', '),
+        transitionTimingFunction: timings.join(', '),
+    };
+}
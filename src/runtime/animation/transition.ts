@@ -0,0 +1,364 @@
+/**
+ * Terminal Transitions
+ *
+ * Runs Svelte transition and animation configs (`{ delay, duration, easing,
+ * css, tick }`) on the frame scheduler. Browsers turn `css` into Web
+ * Animations keyframes; here `css(t, u)` is sampled on every frame and the
+ * result is layered over the node's styles until the animation ends.
+ *
+ * The managers created here follow the contracts of Svelte's block effects:
+ * a TransitionManager is paused/resumed by `{#if}`/`{#each}` (which wait for
+ * `out()` to finish before removing nodes), and an AnimationManager is driven
+ * by keyed `{#each}` reconciliation to FLIP moved items.
+ */
+
+import type { TransitionConfig } from 'svelte/transition';
+import type { BoundingRect, CliNode, Style } from '../types.js';
+import { set_style } from '../operations.js';
+import { emitDomEvent } from '../events.js';
+import { requestFrames, now } from './frames.js';
+import { parseAnimationCss, setAnimationFrame, clearAnimationFrame, isAnimating } from './animated-style.js';
+import { getBoundingRect } from './geometry.js';
+
+/** Transition flags, mirroring Svelte's compiler constants. */
+export const TRANSITION_IN = 1;
+export const TRANSITION_OUT = 1 << 1;
+export const TRANSITION_GLOBAL = 1 << 2;
+
+type Direction = 'in' | 'out' | 'both';
+
+/**
+ * A transition config, or a function returning one once the DOM has
+ * settled (deferred transitions such as `crossfade`).
+ */
+export type TransitionOptions =
+    | TransitionConfig
+    | ((options: { direction: 'in' | 'out' }) => TransitionConfig);
+
+/** A transition function such as `fade` or `fly`. */
+export type TransitionFn<P> = (node: CliNode, params: P, options: { direction: Direction }) => TransitionOptions;
+
+/** An animate function such as `flip`. */
+export type AnimateFn<P> = (
+    node: CliNode,
+    fromTo: { from: BoundingRect; to: BoundingRect },
+    params?: P
+) => TransitionConfig;
+
+/**
+ * Handle to a running animation.
+ */
+export interface NodeAnimation {
+    /** Stop immediately and remove the animation's styles. */
+    abort(): void;
+    /** Prevent the completion callback from running. */
+    deactivate(): void;
+    /** Restore the `tick` state of an aborted outro. */
+    reset(): void;
+    /** Current progress (0 = out, 1 = in). */
+    t(): number;
+}
+
+/**
+ * Intro/outro controller attached to a Svelte block effect.
+ */
+export interface TransitionManager {
+    is_global: boolean;
+    in(): void;
+    out(callback?: () => void): void;
+    stop(): void;
+}
+
+/**
+ * FLIP controller attached to a keyed each item.
+ */
+export interface AnimationManager {
+    element: CliNode;
+    measure(): void;
+    apply(): void;
+    fix(): void;
+    unfix(): void;
+}
+
+const linear = (t: number): number => t;
+const noop = (): void => {};
+
+/**
+ * Animate a node from its current progress to `t2`.
+ *
+ * @param node - Node to animate.
+ * @param options - Transition config (or deferred config).
+ * @param counterpart - The opposite running animation, if any; a reversed
+ *   transition continues from its progress instead of restarting.
+ * @param t2 - Target progress: 1 for intros, 0 for outros.
+ * @param onBegin - Called when the animation starts, after `delay`.
+ * @param onFinish - Called when the animation completes.
+ */
+export function animateNode(
+    node: CliNode,
+    options: TransitionOptions,
+    counterpart: NodeAnimation | undefined,
+    t2: number,
+    onBegin: () => void,
+    onFinish: () => void
+): NodeAnimation {
+    const isIntro = t2 === 1;
+    let aborted = false;
+
+    if (typeof options === 'function') {
+        // Deferred transitions measure other nodes, so resolve them once the
+        // current batch of DOM changes is done
+        let deferred: NodeAnimation | undefined;
+        queueMicrotask(() => {
+            if (aborted) return;
+            const config = options({ direction: isIntro ? 'in' : 'out' });
+            deferred = animateNode(node, config, counterpart, t2, onBegin, onFinish);
+        });
+        return {
+            abort: () => {
+                aborted = true;
+                deferred?.abort();
+            },
+            deactivate: () => deferred?.deactivate(),
+            reset: () => deferred?.reset(),
+            t: () => deferred?.t() ?? 1 - t2,
+        };
+    }
+
+    counterpart?.deactivate();
+
+    if (!options?.duration && !options?.delay) {
+        onBegin();
+        onFinish();
+        return { abort: noop, deactivate: noop, reset: noop, t: () => t2 };
+    }
+
+    const { delay = 0, duration = 0, css, tick, easing = linear } = options;
+    let getT = (): number => 1 - t2;
+    let cancelFrames: (() => void) | null = null;
+
+    const applyProgress = (t: number): void => {
+        if (css) {
+            setAnimationFrame(node, animation, parseAnimationCss(node, css(t, 1 - t)));
+        }
+        tick?.(t, 1 - t);
+    };
+
+    const animation: NodeAnimation = {
+        abort: () => {
+            aborted = true;
+            cancelFrames?.();
+            cancelFrames = null;
+            clearAnimationFrame(node, animation);
+        },
+        deactivate: () => {
+            onFinish = noop;
+        },
+        reset: () => {
+            if (t2 === 0) {
+                tick?.(1, 0);
+            }
+        },
+        t: () => getT(),
+    };
+
+    // Wait a microtask so transitions started in the same batch all measure
+    // the tree before any of them applies styles
+    queueMicrotask(() => {
+        if (aborted) return;
+
+        if (isIntro && counterpart === undefined) {
+            applyProgress(0);
+        }
+
+        const beginAt = now() + delay;
+        let startedAt: number | null = null;
+        let t1 = 0;
+        let delta = 0;
+        let total = 0;
+
+        cancelFrames = requestFrames(time => {
+            if (startedAt === null) {
+                if (time < beginAt) return true;
+                startedAt = time;
+                onBegin();
+                // Bidirectional transitions continue from the current position
+                t1 = counterpart?.t() ?? 1 - t2;
+                counterpart?.abort();
+                delta = t2 - t1;
+                total = duration * Math.abs(delta);
+                const start = startedAt;
+                getT = () => t1 + delta * easing(Math.min(1, (now() - start) / total));
+            }
+            if (time - startedAt >= total) {
+                cancelFrames = null;
+                getT = () => t2;
+                applyProgress(t2);
+                onFinish();
+                return false;
+            }
+            applyProgress(t1 + delta * easing((time - startedAt) / total));
+            return true;
+        }, node);
+    });
+
+    return animation;
+}
+
+/**
+ * Create the intro/outro controller for a `transition:`, `in:` or `out:`
+ * directive.
+ *
+ * @param flags - TRANSITION_IN / TRANSITION_OUT / TRANSITION_GLOBAL.
+ * @param node - Element carrying the directive.
+ * @param getFn - Returns the transition function.
+ * @param getParams - Returns the directive parameters.
+ */
+export function createTransitionManager<P>(
+    flags: number,
+    node: CliNode,
+    getFn: () => TransitionFn<P | undefined>,
+    getParams: (() => P) | null
+): TransitionManager {
+    const isIntro = (flags & TRANSITION_IN) !== 0;
+    const isOutro = (flags & TRANSITION_OUT) !== 0;
+    const direction: Direction = isIntro && isOutro ? 'both' : isIntro ? 'in' : 'out';
+    const inert = node.inert;
+
+    let currentOptions: TransitionOptions | undefined;
+    let intro: NodeAnimation | undefined;
+    let outro: NodeAnimation | undefined;
+
+    // A reversed transition keeps its options so it retraces the same path
+    const getOptions = (): TransitionOptions =>
+        (currentOptions ??= getFn()(node, getParams?.() ?? ({} as P), { direction }));
+
+    return {
+        is_global: (flags & TRANSITION_GLOBAL) !== 0,
+        in() {
+            node.inert = inert;
+
+            if (!isIntro) {
+                outro?.abort();
+                outro?.reset();
+                return;
+            }
+
+            if (!isOutro) {
+                // intro → outro → intro restarts a one-way intro
+                intro?.abort();
+            }
+
+            intro = animateNode(
+                node,
+                getOptions(),
+                outro,
+                1,
+                () => emitDomEvent(node, 'introstart', { bubbles: false }),
+                () => {
+                    emitDomEvent(node, 'introend', { bubbles: false });
+                    // Drop the final frame so the node returns to its own styles
+                    intro?.abort();
+                    intro = currentOptions = undefined;
+                }
+            );
+        },
+        out(callback) {
+            if (!isOutro) {
+                callback?.();
+                currentOptions = undefined;
+                return;
+            }
+
+            node.inert = true;
+
+            outro = animateNode(
+                node,
+                getOptions(),
+                intro,
+                0,
+                () => emitDomEvent(node, 'outrostart', { bubbles: false }),
+                () => {
+                    emitDomEvent(node, 'outroend', { bubbles: false });
+                    callback?.();
+                }
+            );
+        },
+        stop() {
+            intro?.abort();
+            outro?.abort();
+        },
+    };
+}
+
+/**
+ * Create the FLIP controller for an `animate:` directive.
+ * Keyed each blocks call `measure()` before reconciling, `apply()` after the
+ * DOM moved, and `fix()`/`unfix()` around items that are leaving.
+ *
+ * @param element - Each item's element.
+ * @param getFn - Returns the animate function.
+ * @param getParams - Returns the directive parameters.
+ */
+export function createFlipAnimation<P>(
+    element: CliNode,
+    getFn: () => AnimateFn<P | undefined>,
+    getParams: (() => P) | null
+): AnimationManager {
+    let from: BoundingRect | null = null;
+    let animation: NodeAnimation | undefined;
+    let originalStyles: Partial<Style> | null = null;
+
+    return {
+        element,
+        measure() {
+            // Nodes that were never laid out have no position to move from
+            from = this.element.computedLayout ? getBoundingRect(this.element) : null;
+        },
+        apply() {
+            animation?.abort();
+            if (!from) return;
+
+            const to = getBoundingRect(this.element, true);
+            if (from.left === to.left && from.right === to.right && from.top === to.top && from.bottom === to.bottom) {
+                return;
+            }
+
+            const options = getFn()(this.element, { from, to }, getParams?.());
+            animation = animateNode(this.element, options, undefined, 1, noop, () => {
+                animation?.abort();
+                animation = undefined;
+            });
+        },
+        fix() {
+            // Leaving items are taken out of flow at their last position so
+            // the remaining items can move into the freed space
+            if (!from || isAnimating(element)) return;
+            const position = element.style.position ?? element.__cssStyle?.position;
+            if (position === 'absolute' || position === 'fixed') return;
+
+            const { style } = element;
+            originalStyles = {
+                position: style.position,
+                width: style.width,
+                height: style.height,
+                left: style.left,
+                top: style.top,
+            };
+            set_style(element, { position: 'absolute', width: from.width, height: from.height });
+            const to = getBoundingRect(element, true);
+            const layout = element.computedLayout;
+            if (layout && (from.left !== to.left || from.top !== to.top)) {
+                set_style(element, {
+                    left: layout.left + from.left - to.left,
+                    top: layout.top + from.top - to.top,
+                });
+            }
+        },
+        unfix() {
+            if (!originalStyles) return;
+            set_style(element, originalStyles);
+            originalStyles = null;
+        },
+    };
+}
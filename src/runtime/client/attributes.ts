@@ -35,5 +35,5 @@ export function set_style(
     value: any
 ): void {
     setStyleOp(node, { [property]: value });
-    scheduleRender();
+    scheduleRender(node);
 }
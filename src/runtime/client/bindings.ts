@@ -1,5 +1,7 @@
 import { applyValueBinding, applyCheckedBinding, applySelectBinding } from '../actions/bindings.js';
 import { template_effect, get as getState } from 'svelte/internal/client';
+import { dispatchCopy, insertText } from '../focus.js';
+import { readClipboard } from '../clipboard.js';
 
 /**
  * Bindings for CLI
@@ -118,18 +120,30 @@ export function setRangeText(node: any, replacement: string, start?: number, end
 export function select(node: any): void {
     node.selectionStart = 0;
     node.selectionEnd = String(node.value ?? '').length;
+    node.cursorPosition = node.selectionEnd;
 }
 
 export function setSelectionRange(node: any, start: number, end: number, direction: 'forward' | 'backward' | 'none' = 'none'): void {
     node.selectionStart = start;
     node.selectionEnd = end;
     node.selectionDirection = direction;
+    node.cursorPosition = direction === 'backward' ? start : end;
 }
 
-export function copy(_node: any): void {
-    // no-op placeholder for compatibility
+/**
+ * Copy the selection of a text control to the clipboard, firing `copy`.
+ */
+export function copy(node: any): void {
+    dispatchCopy(node, 'copy');
 }
 
-export function paste(_node: any, _event?: any): void {
-    // no-op placeholder for compatibility
+/**
+ * Paste into a text control at its selection. Text comes from the event's
+ * `clipboardData` when given, else from the last copy in this app.
+ */
+export function paste(node: any, event?: any): void {
+    const text = event?.clipboardData?.getData('text/plain') ?? readClipboard();
+    if (text) {
+        insertText(node, text);
+    }
 }
@@ -2,15 +2,64 @@
  * Special elements and features
  */
 
-import { noop } from 'svelte/internal/client';
+import { render_effect, template_effect } from 'svelte/internal/client';
+import type { CliNode } from '../types.js';
+import { append as append_node, detach, free_node } from '../operations.js';
+import { append, parse_template } from './template.js';
+import { scheduleRender } from '../mount.js';
 
 /**
- * HTML insertion (not applicable to CLI)
+ * Insert parsed HTML before an anchor, or into an element
  * Replaces: $.html()
+ *
+ * The string is parsed through happy-dom into styled CLI nodes. When the
+ * value changes the previous nodes are removed and freed before the new
+ * ones are inserted.
+ *
+ * @param node - Anchor to insert before, or the parent element when `is_controlled`.
+ * @param get_value - Reads the current HTML string.
+ * @param is_controlled - The `{@html}` tag is the element's only child.
  */
-export function html(node: any, get_value: () => string, svg: boolean): void {
-    // TODO: Can't insert raw HTML in CLI
-    console.warn('HTML insertion not supported in CLI');
+export function html(
+    node: CliNode,
+    get_value: () => string,
+    is_controlled: boolean = false,
+    svg: boolean = false,
+    mathml: boolean = false
+): void {
+    let value: string | undefined;
+    let inserted: CliNode[] = [];
+
+    const remove = () => {
+        for (const old of inserted) {
+            detach(old);
+            free_node(old);
+        }
+        inserted = [];
+    };
+
+    template_effect(() => {
+        const next = String(get_value() ?? '');
+        if (next === value) return;
+        value = next;
+        remove();
+
+        if (next !== '') {
+            // SVG and MathML content is parsed like HTML, as in from_svg()
+            inserted = parse_template(next, false);
+            if (is_controlled) {
+                for (const child of inserted) {
+                    append_node(node, child);
+                }
+            } else {
+                append(node, inserted);
+            }
+        }
+        scheduleRender(node);
+    });
+
+    // The block only removes its anchor; the parsed nodes go with the tag
+    render_effect(() => remove);
 }
 
 /**
@@ -18,9 +18,9 @@ import { decodeHtmlEntities } from './entities.js';
  */
 function assign_nodes(start: CliNode | null, end: CliNode | null = null): void {
     const effect = active_effect;
-    if (effect && effect.nodes_start === null) {
-        effect.nodes_start = start;
-        effect.nodes_end = end || start;
+    if (effect && effect.nodes === null) {
+        // `a` and `t` hold the animate/transition managers for the block
+        effect.nodes = { start, end: end || start, a: null, t: null };
     }
 }
 
@@ -52,6 +52,9 @@ export function text(value: string = ''): TextNode {
 /**
  * Create a comment node (invisible anchor)
  * Replaces: $.comment()
+ *
+ * Svelte returns a fragment holding the anchor; here the comment stands
+ * for both, so `first_child()` of it is the comment itself.
  */
 export function comment(): CommentNode {
     const node = create_comment();
@@ -62,6 +65,12 @@ export function comment(): CommentNode {
     return node;
 }
 
+/**
+ * Nodes appended before a comment anchor while it was not in the tree.
+ * In Svelte's DOM the anchor sits in a DocumentFragment that collects them.
+ */
+const pendingBefore = new WeakMap<CliNode, CliNode[]>();
+
 /**
  * Append dom before anchor
  * Replaces: $.append()
@@ -74,14 +83,31 @@ export function append(anchor: CliNode | null, dom: CliNode | CliNode[]): void {
         return;
     }
 
-    const parent = anchor.parent ?? anchor;
     const nodes = Array.isArray(dom) ? dom : [dom];
 
+    // A block's comment() anchor is filled before the block is appended
+    if (!anchor.parent && anchor.type === 'comment') {
+        pendingBefore.set(anchor, [...(pendingBefore.get(anchor) ?? []), ...nodes]);
+        return;
+    }
+
+    const parent = anchor.parent ?? anchor;
     for (const node of nodes) {
-        insert_node(parent, node, anchor.parent ? anchor : null);
+        insert_with_pending(parent, node, anchor.parent ? anchor : null);
     }
 }
 
+function insert_with_pending(parent: CliNode, node: CliNode, before: CliNode | null): void {
+    const pending = pendingBefore.get(node);
+    if (pending) {
+        pendingBefore.delete(node);
+        for (const child of pending) {
+            insert_with_pending(parent, child, before);
+        }
+    }
+    insert_node(parent, node, before);
+}
+
 /**
  * Build CLI tree from structure array
  * Replaces: $.from_tree()
@@ -129,7 +155,16 @@ function getParserDocument() {
     return parserWindow.document;
 }
 
-function parse_template(html: string): CliNode[] {
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Parse an HTML string into detached CLI nodes.
+ *
+ * @param html - Markup to parse.
+ * @param skipFocusReg - Leave focusable elements unregistered; template
+ *   nodes are registered when they are cloned instead.
+ */
+export function parse_template(html: string, skipFocusReg: boolean = true): CliNode[] {
     const nodes: CliNode[] = [];
     const parserDocument = getParserDocument();
     const container = parserDocument.createElement('div');
@@ -160,7 +195,12 @@ function parse_template(html: string): CliNode[] {
         }
 
         const tag = domNode.tagName?.toLowerCase?.() || 'box';
-        const element = create_element(tag, true);
+        // Markup inserted with {@html} is inert, as with innerHTML; SVG keeps
+        // its own <style> for the rasterizer
+        if (tag === 'script' || (tag === 'style' && domNode.namespaceURI !== SVG_NAMESPACE)) {
+            return null;
+        }
+        const element = create_element(tag, skipFocusReg);
         add_text_content_property(element);
 
         // Apply attributes
@@ -207,7 +247,7 @@ function add_text_content_property(node: CliNode): void {
                 // Use set_text to update value and Yoga measure function
                 set_text(this as TextNode, String(val));
                 // Schedule a re-render
-                scheduleRender();
+                scheduleRender(this as TextNode);
             },
             enumerable: true,
             configurable: true,
@@ -1,26 +1,78 @@
 /**
  * Transitions and animations for CLI
- * Future: Implement terminal animations
+ * Attaches terminal transition/animation managers to Svelte's block effects
  */
 
-import { noop } from 'svelte/internal/client';
+import { active_effect, effect, untrack } from 'svelte/internal/client';
+import type { CliNode } from '../types.js';
+import {
+    createTransitionManager,
+    createFlipAnimation,
+    TRANSITION_IN,
+    TRANSITION_GLOBAL,
+    type TransitionFn,
+    type AnimateFn,
+} from '../animation/transition.js';
+
+// Effect flags, mirroring Svelte's internal constants
+const BLOCK_EFFECT = 1 << 4;
+const REACTION_RAN = 1 << 15;
+const EFFECT_TRANSPARENT = 1 << 16;
+
+function getEffectNodes(effect: any): any {
+    return (effect.nodes ??= { start: null, end: null, a: null, t: null });
+}
 
 /**
- * Transition (stub for now)
+ * Transition directive (`transition:`, `in:`, `out:`)
  * Replaces: $.transition()
  */
-export function transition(node: any, get_params: () => any, is_intro: boolean, name: string): () => void {
-    // TODO: Implement CLI transitions (fade, slide, etc.)
-    return noop;
+export function transition<P>(
+    flags: number,
+    element: CliNode,
+    get_fn: () => TransitionFn<P | undefined>,
+    get_params: (() => P) | null
+): void {
+    const manager = createTransitionManager(flags, element, get_fn, get_params);
+    const current = active_effect;
+
+    (getEffectNodes(current).t ??= []).push(manager);
+
+    if ((flags & TRANSITION_IN) === 0) return;
+
+    // Local intros only play when the enclosing block itself changed, not
+    // when the block is created together with its parent
+    let run = (flags & TRANSITION_GLOBAL) !== 0;
+    if (!run) {
+        let block = current.parent;
+        // Skip transparent blocks (snippets, else-if branches)
+        while (block && (block.f & EFFECT_TRANSPARENT) !== 0) {
+            while ((block = block.parent)) {
+                if ((block.f & BLOCK_EFFECT) !== 0) break;
+            }
+        }
+        run = !block || (block.f & REACTION_RAN) !== 0;
+    }
+
+    if (run) {
+        effect(() => {
+            untrack(() => manager.in());
+        });
+    }
 }
 
 /**
- * Animation (stub)
+ * Animate directive (`animate:` inside keyed each blocks)
  * Replaces: $.animation()
  */
-export function animation(node: any, get_params: () => any, name: string): () => void {
-    // Not implemented yet
-    return noop;
+export function animation<P>(
+    element: CliNode,
+    get_fn: () => AnimateFn<P | undefined>,
+    get_params: (() => P) | null
+): void {
+    const nodes = getEffectNodes(active_effect);
+    nodes.a ??= createFlipAnimation(element, get_fn, get_params);
+    nodes.a.element = element;
 }
 
 /**
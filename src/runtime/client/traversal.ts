@@ -41,6 +41,10 @@ export function child(node: CliNode, is_text?: boolean): CliNode | null {
  * Replaces: $.first_child()
  */
 export function first_child(node: CliNode, is_text?: boolean): CliNode | null {
+    // A lone comment() is both the block's fragment and its anchor
+    if (node?.type === 'comment') {
+        return node;
+    }
     return child(node, is_text);
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Clipboard
+ *
+ * Copy and cut write the selected text to the system clipboard with an
+ * OSC 52 sequence, which most terminals (and tmux with `set-clipboard on`)
+ * forward to the OS. Terminals rarely let applications read the clipboard
+ * back, so the last copied text is also kept per mount for Ctrl+V; pastes
+ * from the terminal itself arrive as bracketed pastes instead.
+ */
+
+import { getClipboardState } from './focus.js';
+
+/** Sends copied text to the system clipboard. */
+export type ClipboardWriter = (text: string) => void;
+
+export interface ClipboardState {
+    /** Writes copied text out of the app; null keeps it in-app only. */
+    writer: ClipboardWriter | null;
+    /** Last copied or cut text, pasted by Ctrl+V. */
+    text: string;
+}
+
+export function createClipboardState(): ClipboardState {
+    return { writer: null, text: '' };
+}
+
+/**
+ * OSC 52 sequence that sets the system clipboard to `text`.
+ */
+export function clipboardSequence(text: string): string {
+    return `\x1b]52;c;${Buffer.from(text, 'utf8').toString('base64')}\x07`;
+}
+
+/**
+ * Store copied text and send it to the system clipboard.
+ */
+export function writeClipboard(text: string): void {
+    const state = getClipboardState();
+    state.text = text;
+    state.writer?.(text);
+}
+
+/**
+ * The text last written with `writeClipboard` in this mount.
+ */
+export function readClipboard(): string {
+    return getClipboardState().text;
+}
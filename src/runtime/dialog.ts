@@ -26,6 +26,7 @@ import { getDomNode } from './dom/happy.js';
 import { getNodeChildren, getNodeTag } from './utils/node.js';
 import { getFocused, refreshFocusables, setFocus } from './focus.js';
 import { log } from './logger.js';
+import { defineRuntimeSlot } from './runtime-state.js';
 
 type ClosedByMode = 'any' | 'closerequest' | 'none';
 
@@ -45,47 +46,47 @@ interface DialogState {
 const DIALOG_STATE = new WeakMap<CliNode, DialogState>();
 const DIALOG_API_APPLIED = Symbol('sveltty.dialog.api');
 
-/** Stack of open modal dialogs (bottom to top). */
-const MODAL_STACK: CliNode[] = [];
-
-/** Stack of open non-modal dialogs. */
-const DIALOG_STACK: CliNode[] = [];
+/** Open dialogs of each mount: modal ones (bottom to top) and non-modal ones. */
+const dialogStacks = defineRuntimeSlot(() => ({ modal: [] as CliNode[], dialog: [] as CliNode[] }));
 
 /**
  * Get all open dialogs in stack order (bottom to top).
  * Modal dialogs come after non-modal dialogs.
  */
 export function getOpenDialogs(): CliNode[] {
-    return [...DIALOG_STACK, ...MODAL_STACK];
+    const stacks = dialogStacks();
+    return [...stacks.dialog, ...stacks.modal];
 }
 
 /**
  * Get only open modal dialogs.
  */
 export function getOpenModals(): CliNode[] {
-    return [...MODAL_STACK];
+    return [...dialogStacks().modal];
 }
 
 /**
  * Check if any modal dialog is open.
  */
 export function hasOpenModal(): boolean {
-    return MODAL_STACK.length > 0;
+    return dialogStacks().modal.length > 0;
 }
 
 /**
  * Get the topmost modal dialog.
  */
 export function getTopmostModal(): CliNode | null {
-    return MODAL_STACK.length > 0 ? MODAL_STACK[MODAL_STACK.length - 1] : null;
+    const modals = dialogStacks().modal;
+    return modals.length > 0 ? modals[modals.length - 1] : null;
 }
 
 /**
  * Clear all dialog state. Used for testing.
  */
 export function resetDialogs(): void {
-    MODAL_STACK.length = 0;
-    DIALOG_STACK.length = 0;
+    const stacks = dialogStacks();
+    stacks.modal.length = 0;
+    stacks.dialog.length = 0;
 }
 
 /**
@@ -155,13 +156,13 @@ export function showDialog(node: CliNode): void {
     
     // Add to non-modal stack
     removeFromStacks(node);
-    DIALOG_STACK.push(node);
+    dialogStacks(node).dialog.push(node);
     
     // Reflect open attribute
     node.open = true;
     reflectDomAttribute(node, 'open', '');
     
-    scheduleRender();
+    scheduleRender(node);
     refreshFocusables();
     
     // Autofocus handling
@@ -194,14 +195,15 @@ export function showDialogModal(node: CliNode): void {
     
     // Add to modal stack
     removeFromStacks(node);
-    MODAL_STACK.push(node);
-    log('showDialogModal:pushed', { stackLength: MODAL_STACK.length });
+    const modals = dialogStacks(node).modal;
+    modals.push(node);
+    log('showDialogModal:pushed', { stackLength: modals.length });
     
     // Reflect open attribute
     node.open = true;
     reflectDomAttribute(node, 'open', '');
     
-    scheduleRender();
+    scheduleRender(node);
     refreshFocusables();
     
     // Autofocus handling
@@ -233,7 +235,7 @@ export function closeDialog(node: CliNode, returnValue?: string): void {
     node.open = false;
     removeDomAttribute(node, 'open');
     
-    scheduleRender();
+    scheduleRender(node);
     refreshFocusables();
 
     // Restore focus to previous element (for modals)
@@ -282,10 +284,11 @@ export function cancelDialog(node: CliNode): boolean {
  * @returns true if a dialog was canceled.
  */
 export function handleDialogEscape(): boolean {
-    log('handleDialogEscape:enter', { stackLength: MODAL_STACK.length });
+    const modals = dialogStacks().modal;
+    log('handleDialogEscape:enter', { stackLength: modals.length });
     // Try to cancel the topmost modal first
-    if (MODAL_STACK.length > 0) {
-        const topModal = MODAL_STACK[MODAL_STACK.length - 1];
+    if (modals.length > 0) {
+        const topModal = modals[modals.length - 1];
         log('handleDialogEscape:canceling');
         return cancelDialog(topModal);
     }
@@ -299,8 +302,9 @@ export function handleDialogEscape(): boolean {
  */
 export function lightDismissDialogs(): boolean {
     // Check modal stack first
-    for (let i = MODAL_STACK.length - 1; i >= 0; i--) {
-        const dialog = MODAL_STACK[i];
+    const modals = dialogStacks().modal;
+    for (let i = modals.length - 1; i >= 0; i--) {
+        const dialog = modals[i];
         const state = DIALOG_STATE.get(dialog);
         if (state?.closedBy === 'any') {
             closeDialog(dialog);
@@ -360,11 +364,12 @@ function findFirstFocusable(root: CliNode): CliNode | null {
 }
 
 function removeFromStacks(node: CliNode): void {
-    let idx = MODAL_STACK.indexOf(node);
-    if (idx >= 0) MODAL_STACK.splice(idx, 1);
+    const stacks = dialogStacks(node);
+    let idx = stacks.modal.indexOf(node);
+    if (idx >= 0) stacks.modal.splice(idx, 1);
     
-    idx = DIALOG_STACK.indexOf(node);
-    if (idx >= 0) DIALOG_STACK.splice(idx, 1);
+    idx = stacks.dialog.indexOf(node);
+    if (idx >= 0) stacks.dialog.splice(idx, 1);
 }
 
 function normalizeClosedBy(value: any): ClosedByMode {
@@ -3,6 +3,7 @@ import {
     getScrollPropertyDescriptors,
     getScrollMethodDescriptors,
 } from '../scroll.js';
+import { matchMedia } from '../style/media.js';
 
 /**
  * Initialize Svelte's internal DOM state.
@@ -132,6 +133,23 @@ function installDomBindings(): void {
         }
     }
     
+    // Media queries describe the terminal, not happy-dom's browser viewport
+    // (svelte/reactivity's MediaQuery goes through window.matchMedia)
+    if ((window as { matchMedia?: unknown }).matchMedia !== matchMedia) {
+        Object.defineProperty(window, 'matchMedia', {
+            value: matchMedia,
+            writable: true,
+            configurable: true,
+        });
+    }
+    if (!globalThis.matchMedia) {
+        Object.defineProperty(globalThis, 'matchMedia', {
+            value: matchMedia,
+            writable: true,
+            configurable: true,
+        });
+    }
+    
     // Patch Element prototype with scroll API
     patchElementScrollAPI();
 }
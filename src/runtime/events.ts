@@ -4,6 +4,7 @@ import { dispatchNodeEvent } from './operations.js';
 import { getDomNode } from './dom/happy.js';
 import { window } from './dom/document.js';
 import { activatePopoverControl } from './popover.js';
+import { activateLink } from './links.js';
 
 /**
  * Event init options for DOM events.
@@ -12,6 +13,7 @@ export interface DomEventInit {
     bubbles?: boolean;
     cancelable?: boolean;
     detail?: unknown;
+    inputType?: string;
 }
 
 /**
@@ -44,13 +46,18 @@ export function emitBlur(node: CliNode): FocusEvent {
 
 /**
  * Emit an input event on a form control.
- * Input events bubble.
+ * Input events bubble. A `detail.inputType` is also exposed as
+ * `event.inputType`, like a browser InputEvent.
  * 
  * @param node - The form control node.
  * @param detail - Optional event detail. Defaults to { value: node.value }.
  */
 export function emitInputEvent(node: CliNode, detail?: InputEventDetail): Event {
-    return emitDomEvent(node, 'input', { bubbles: true, detail: detail ?? { value: node.value } });
+    return emitDomEvent(node, 'input', {
+        bubbles: true,
+        detail: detail ?? { value: node.value },
+        inputType: detail?.inputType,
+    });
 }
 
 /**
@@ -93,6 +100,32 @@ export function emitKeyboardEvent(node: CliNode, type: string, raw: RawKey): Key
     return event as unknown as KeyboardEvent;
 }
 
+/**
+ * Call Svelte's delegated event handlers for an event, bubbling up the CLI tree.
+ * Svelte 5 sets __eventname on the CLI node (not DOM node) and relies on a
+ * root listener to walk ancestors, which does not exist in the CLI.
+ * 
+ * @param node - The event target.
+ * @param type - Event type.
+ * @param event - The dispatched event.
+ */
+function callDelegatedHandlers(node: CliNode, type: string, event: Event): void {
+    const handlerKey = `__${type}`;
+    let current: CliNode | null = node;
+    while (current) {
+        const dom = getDomNode(current);
+        const cliHandler = (current as unknown as Record<string, unknown>)[handlerKey];
+        const domHandler = dom ? (dom as unknown as Record<string, unknown>)[handlerKey] : undefined;
+        if (typeof cliHandler === 'function') {
+            (cliHandler as (e: Event) => void).call(current, event);
+        } else if (typeof domHandler === 'function') {
+            (domHandler as (e: Event) => void).call(dom, event);
+        }
+        if (!event.bubbles || event.cancelBubble) break;
+        current = current.parent;
+    }
+}
+
 /**
  * Emit a mouse event on a node.
  * Also triggers Svelte's delegated event handlers and popover activation on click.
@@ -115,20 +148,12 @@ export function emitMouse(node: CliNode, type: string, init: MouseEventInit = {}
     const event = new window.MouseEvent(type, eventInit as never);
     dom.dispatchEvent(event as unknown as Event);
     
-    // Call Svelte's delegated event handler if present
-    // Svelte 5 sets __eventname on the CLI node (not DOM node)
-    const handlerKey = `__${type}`;
-    const cliHandler = (node as unknown as Record<string, unknown>)[handlerKey];
-    const domHandler = (dom as unknown as Record<string, unknown>)[handlerKey];
-    
-    if (typeof cliHandler === 'function' && !event.defaultPrevented) {
-        (cliHandler as (e: Event) => void).call(node, event as unknown as Event);
-    } else if (typeof domHandler === 'function' && !event.defaultPrevented) {
-        (domHandler as (e: Event) => void).call(dom, event as unknown as Event);
-    }
+    // Call Svelte's delegated event handlers if present
+    callDelegatedHandlers(node, type, event as unknown as Event);
     
     if (type === 'click' && !event.defaultPrevented) {
         activatePopoverControl(node);
+        activateLink(node);
     }
     return event as unknown as MouseEvent;
 }
@@ -155,11 +180,60 @@ export function emitPointer(node: CliNode, type: string, init: PointerEventInit
         // happy-dom expects IPointerEventInit, not standard PointerEventInit
         const pointer = new window.PointerEvent(type, eventInit as never);
         dom.dispatchEvent(pointer as unknown as Event);
+        callDelegatedHandlers(node, type, pointer as unknown as Event);
         return pointer as unknown as PointerEvent;
     }
     return emitMouse(node, type, init);
 }
 
+/**
+ * Emit a wheel event on a node.
+ * Wheel events bubble and are cancelable; preventing default suppresses scrolling.
+ * 
+ * @param node - Target node.
+ * @param init - WheelEvent initialization options.
+ * @returns The WheelEvent, or null if node has no DOM representation.
+ */
+export function emitWheel(node: CliNode, init: WheelEventInit = {}): WheelEvent | null {
+    const dom = getDomNode(node);
+    if (!dom) return null;
+    const eventInit = {
+        bubbles: true,
+        cancelable: true,
+        ...init,
+    };
+    // happy-dom expects IWheelEventInit, not standard WheelEventInit
+    const event = new window.WheelEvent('wheel', eventInit as never);
+    dom.dispatchEvent(event as unknown as Event);
+    return event as unknown as WheelEvent;
+}
+
+/**
+ * Emit a clipboard event (copy, cut or paste) on a node.
+ * Clipboard events bubble and are cancelable; preventing default suppresses
+ * the built-in clipboard behavior.
+ *
+ * @param node - Target node.
+ * @param type - Event type ('copy', 'cut', 'paste').
+ * @param text - Plain text exposed through `clipboardData`.
+ * @returns The ClipboardEvent, or null if node has no DOM representation.
+ */
+export function emitClipboardEvent(node: CliNode, type: string, text?: string): ClipboardEvent | null {
+    const dom = getDomNode(node);
+    if (!dom) return null;
+    const clipboardData = new window.DataTransfer();
+    if (text !== undefined) {
+        clipboardData.setData('text/plain', text);
+    }
+    const event = new window.ClipboardEvent(type, {
+        bubbles: true,
+        cancelable: true,
+        clipboardData,
+    });
+    dom.dispatchEvent(event as unknown as Event);
+    return event as unknown as ClipboardEvent;
+}
+
 /**
  * Emit a scroll event on a node.
  * Scroll events do not bubble per DOM specification.
@@ -11,8 +11,10 @@ import {
     emitFocus,
     emitBlur,
     emitMouse,
+    emitClipboardEvent,
 } from './events.js';
 import { readInputState } from './input/state.js';
+import { recordEdit, stepHistory, type EditSnapshot } from './input/history.js';
 import { closeTopPopover, hasPopoverBehavior, isPopoverOpen } from './popover.js';
 import { handleDialogEscape, hasOpenModal, getTopmostModal } from './dialog.js';
 import { getNodeTag, getNodeChildren, FORM_CONTROL_TAGS, INTERACTIVE_TAGS } from './utils/node.js';
@@ -22,6 +24,7 @@ import {
 } from './scroll.js';
 import { handleScrollKeyboard } from './scroll-keyboard.js';
 import { log } from './logger.js';
+import { createClipboardState, readClipboard, writeClipboard, type ClipboardState, type ClipboardWriter } from './clipboard.js';
 
 type RenderCallback = () => void;
 const FORM_TAG_NAME = 'form';
@@ -40,6 +43,9 @@ export interface FocusControllerState {
     counter: number;
     renderCallback: RenderCallback | null;
     liveMessage: string;
+    /** Opens activated `<a href>` links; null leaves them to the terminal. */
+    linkOpener: ((url: string) => void) | null;
+    clipboard: ClipboardState;
 }
 
 const FORM_ASSOC_KEY = Symbol('formAssociation');
@@ -54,6 +60,8 @@ function createFocusControllerState(): FocusControllerState {
         counter: 0,
         renderCallback: null,
         liveMessage: '',
+        linkOpener: null,
+        clipboard: createClipboardState(),
     };
 }
 
@@ -111,6 +119,22 @@ export function setRenderScheduler(fn: RenderCallback): void {
     activeFocusState.renderCallback = fn;
 }
 
+export function setLinkOpener(fn: ((url: string) => void) | null): void {
+    activeFocusState.linkOpener = fn;
+}
+
+export function getLinkOpener(): ((url: string) => void) | null {
+    return activeFocusState.linkOpener;
+}
+
+export function setClipboardWriter(fn: ClipboardWriter | null): void {
+    activeFocusState.clipboard.writer = fn;
+}
+
+export function getClipboardState(): ClipboardState {
+    return activeFocusState.clipboard;
+}
+
 /**
  * Clean and sort the master focusables list.
  * Only removes duplicates and permanently unfocusable nodes (disabled, tabIndex=-1).
@@ -397,6 +421,22 @@ export function dispatchKey(raw: RawKey): boolean {
     return true;
 }
 
+/**
+ * Dispatch a key release to the focused element.
+ * Releases are only reported by terminals speaking the kitty keyboard
+ * protocol and have no default behavior.
+ *
+ * @param raw - The released key.
+ * @returns true if a keyup event was emitted.
+ */
+export function dispatchKeyUp(raw: RawKey): boolean {
+    const focused = activeFocusState.focused;
+    if (!focused) return false;
+    log('dispatchKeyUp', { key: raw.key });
+    emitKeyboardEvent(focused, 'keyup', raw);
+    return true;
+}
+
 export function ensureDefaultFocus(): void {
     if (activeFocusState.focused) return;
     const visibleFocusables = getVisibleFocusables();
@@ -425,6 +465,7 @@ const NUMBER_INPUT_TYPES = new Set(['number', 'range']);
  * - It's inside a closed popover
  * - It has display: none
  * - It has visibility: hidden  
+ * - It is inert (e.g. while an outro transition runs)
  * - Any ancestor has one of the above
  */
 export function isNodeVisible(node: CliNode | null): boolean {
@@ -436,6 +477,9 @@ export function isNodeVisible(node: CliNode | null): boolean {
         if (hasPopoverBehavior(current) && !isPopoverOpen(current)) {
             return false;
         }
+        if (current.inert) {
+            return false;
+        }
         
         // Check CSS visibility properties
         const computedStyle = getComputedCliStyle(current);
@@ -513,15 +557,16 @@ function getInputBufferValue(node: any, inputType?: string): string {
  * @param node - CLI node representing the input element.
  * @param inputType - Lowercase input type string.
  * @param nextValue - New buffer value to store.
+ * @param editType - `inputType` of the emitted input event (e.g. 'insertText').
  */
-function writeInputBufferValue(node: CliNode, inputType: string, nextValue: string): void {
+function writeInputBufferValue(node: CliNode, inputType: string, nextValue: string, editType?: string): void {
     node.__rawValue = nextValue;
     node.value = nextValue;
     if (!isNumberInputType(inputType)) {
         node.__setValue?.(nextValue);
     }
     node.onInput?.({ value: nextValue });
-    emitInputEvent(node);
+    emitInputEvent(node, editType ? { value: node.value, inputType: editType } : undefined);
 }
 
 function resolveStepValue(step: any): number {
@@ -679,7 +724,7 @@ function resetForm(node: CliNode): void {
     emitDomEvent(formNode, 'reset', { bubbles: true });
 }
 
-function collectFormControls(formId?: string | null, origin?: CliNode): CliNode[] {
+export function collectFormControls(formId?: string | null, origin?: CliNode): CliNode[] {
     if (formId) {
         return dedupeControls([
             ...collectControlsForFormId(formId),
@@ -793,9 +838,232 @@ function buildMessage(node: CliNode): string {
     return parts.join(' ');
 }
 
+/**
+ * Filter text for a number input, keeping the characters a user could type
+ * at the cursor: digits, a leading minus and a single decimal point.
+ */
+function filterNumericText(value: string, cursor: number, text: string): string {
+    let result = '';
+    let hasMinus = value.includes('-');
+    let hasDecimal = value.includes('.');
+    for (const ch of text) {
+        const position = cursor + result.length;
+        if (ch >= '0' && ch <= '9') {
+            result += ch;
+        } else if (ch === '-' && position === 0 && !hasMinus) {
+            result += ch;
+            hasMinus = true;
+        } else if (ch === '.' && !hasDecimal) {
+            result += ch;
+            hasDecimal = true;
+        }
+    }
+    return result;
+}
+
+/**
+ * Ordered bounds of a text control's selection. An empty selection
+ * collapses to the cursor, which is the authoritative caret position.
+ *
+ * @param node - The input or textarea node.
+ * @param length - Length of the current value.
+ */
+function getSelectionRange(node: CliNode, length: number): [number, number] {
+    const start = node.selectionStart;
+    const end = node.selectionEnd;
+    if (typeof start === 'number' && typeof end === 'number' && start !== end) {
+        return [Math.max(0, Math.min(start, end, length)), Math.min(length, Math.max(start, end))];
+    }
+    const cursor = typeof node.cursorPosition === 'number' ? node.cursorPosition : length;
+    const clamped = Math.max(0, Math.min(cursor, length));
+    return [clamped, clamped];
+}
+
+function takeSnapshot(node: CliNode, value: string): EditSnapshot {
+    const [selectionStart, selectionEnd] = getSelectionRange(node, value.length);
+    const selectionDirection = selectionStart === selectionEnd ? 'none' : (node.selectionDirection ?? 'none');
+    return { value, selectionStart, selectionEnd, selectionDirection };
+}
+
+function collapseSelection(node: CliNode, position: number): void {
+    node.cursorPosition = position;
+    node.selectionStart = node.selectionEnd = position;
+    node.selectionDirection = 'none';
+}
+
+/**
+ * Move the caret of a text control. With `extend` (Shift held), the
+ * selection grows or shrinks from its anchor instead of collapsing.
+ */
+function moveCaret(node: CliNode, length: number, position: number, extend: boolean): void {
+    if (!extend) {
+        collapseSelection(node, position);
+        return;
+    }
+    const [start, end] = getSelectionRange(node, length);
+    const anchor = start !== end && node.selectionDirection === 'backward' ? end : start;
+    node.cursorPosition = position;
+    node.selectionStart = Math.min(anchor, position);
+    node.selectionEnd = Math.max(anchor, position);
+    node.selectionDirection = position < anchor ? 'backward' : position > anchor ? 'forward' : 'none';
+}
+
+/**
+ * The selected text of a focused text control. Password inputs never
+ * expose their value, like browsers.
+ *
+ * @param node - Any node; non-text controls have no selection.
+ * @returns The selected text, or '' when nothing is selected.
+ */
+export function getSelectedText(node: CliNode | null): string {
+    if (!node || !isTextControl(node) || String(node.inputType || node.type).toLowerCase() === 'password') {
+        return '';
+    }
+    const value = readInputState(node).rawValue;
+    const [start, end] = getSelectionRange(node, value.length);
+    return value.slice(start, end);
+}
+
+/**
+ * Replace the selection of a text control (or insert at the cursor) as a
+ * single undoable edit. Number inputs drop non-numeric characters; other
+ * inputs are truncated to `maxLength`, announcing when text had to be dropped.
+ *
+ * @param node - The input or textarea node.
+ * @param type - Input type ('textarea' for textareas).
+ * @param text - Text to insert; '' deletes the selection.
+ * @param isNumeric - Whether this is a numeric input.
+ * @param editType - `inputType` of the edit, for events and undo grouping.
+ * @param range - Range to replace instead of the selection.
+ */
+function insertTextAtCursor(
+    node: CliNode,
+    type: string,
+    text: string,
+    isNumeric: boolean,
+    editType: string,
+    range?: [number, number]
+): void {
+    const val = getInputBufferValue(node, type);
+    const before = takeSnapshot(node, val);
+    const [start, end] = range ?? [before.selectionStart, before.selectionEnd];
+    const rest = val.slice(0, start) + val.slice(end);
+
+    let insert = text;
+    if (isNumeric) {
+        insert = filterNumericText(rest, start, text);
+    } else {
+        const maxLength = node.maxLength;
+        if (typeof maxLength === 'number' && maxLength >= 0) {
+            const available = Math.max(0, maxLength - rest.length);
+            const chars = Array.from(insert);
+            if (chars.length > available) {
+                announce(`Invalid: Max length ${maxLength}`);
+                insert = chars.slice(0, available).join('');
+            }
+        }
+    }
+    if (!insert && start === end) return;
+
+    const nextRaw = rest.slice(0, start) + insert + rest.slice(start);
+    writeInputBufferValue(node, type, nextRaw, editType);
+    collapseSelection(node, start + insert.length);
+    recordEdit(node, before, takeSnapshot(node, nextRaw), editType);
+    validateNode(node, type);
+    node.dirty = true;
+    scheduleRender();
+}
+
+/** Input types that are not edited as text. */
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'button', 'submit', 'reset']);
+
+function isTextControl(node: CliNode): boolean {
+    const tag = (node.nodeName ?? '').toLowerCase();
+    const inputType = String(node.inputType || node.type || 'text').toLowerCase();
+    return tag === 'textarea' || (tag === 'input' && !NON_TEXT_INPUT_TYPES.has(inputType));
+}
+
+/**
+ * Insert text into a text input or textarea at its cursor, as a paste would.
+ * Single-line inputs strip line breaks, like browsers do.
+ *
+ * @param node - The target control.
+ * @param text - Text to insert.
+ * @param editType - `inputType` of the edit.
+ * @returns true if the node is an editable text control.
+ */
+export function insertText(node: CliNode, text: string, editType = 'insertFromPaste'): boolean {
+    if (!isTextControl(node)) {
+        return false;
+    }
+    const isTextarea = (node.nodeName ?? '').toLowerCase() === 'textarea';
+    const inputType = String(node.inputType || node.type || 'text').toLowerCase();
+    const state = readInputState(node);
+    if (state.disabled || state.readonly) {
+        return false;
+    }
+    const normalized = text.replace(/\r\n?/g, '\n');
+    const type = isTextarea ? 'textarea' : (node.inputType || 'text');
+    insertTextAtCursor(
+        node,
+        type,
+        isTextarea ? normalized : normalized.replace(/\n/g, ''),
+        !isTextarea && inputType === 'number',
+        editType
+    );
+    return true;
+}
+
+/**
+ * Deliver pasted text to the focused element: a cancelable `paste`
+ * ClipboardEvent, then insertion into text controls unless prevented.
+ *
+ * @param text - The pasted text.
+ * @returns true if the paste was handled.
+ */
+export function dispatchPaste(text: string): boolean {
+    const focused = activeFocusState.focused;
+    if (!focused) return false;
+    log('dispatchPaste', { length: text.length });
+    const event = emitClipboardEvent(focused, 'paste', text);
+    if (event?.defaultPrevented) {
+        return true;
+    }
+    return insertText(focused, text);
+}
+
+/**
+ * Copy or cut the selection of a text control: a cancelable `copy` or `cut`
+ * ClipboardEvent, then the selected text goes to the clipboard (and, for
+ * cut, is removed) unless prevented. A handler that prevents the default
+ * can put its own text on the clipboard with `clipboardData.setData()`.
+ *
+ * @param node - The text control.
+ * @param type - 'copy' or 'cut'.
+ * @returns true if there was a selection to copy.
+ */
+export function dispatchCopy(node: CliNode, type: 'copy' | 'cut'): boolean {
+    const selected = getSelectedText(node);
+    if (!selected) return false;
+    log('dispatchCopy', { type, length: selected.length });
+    const event = emitClipboardEvent(node, type);
+    if (event?.defaultPrevented) {
+        const replacement = event.clipboardData?.getData('text/plain');
+        if (replacement) writeClipboard(replacement);
+        return true;
+    }
+    writeClipboard(selected);
+    if (type === 'cut') {
+        insertText(node, '', 'deleteByCut');
+    }
+    return true;
+}
+
 /**
  * Unified text input handler for both <input> (text types) and <textarea>.
- * Handles cursor movement, text editing, and validation.
+ * Handles cursor movement, selection, clipboard shortcuts, text editing,
+ * and validation. Shift with a movement key extends the selection; typing,
+ * Backspace and Delete replace it.
  * 
  * @param node - The input or textarea node.
  * @param event - The keyboard event.
@@ -810,125 +1078,102 @@ function handleTextInput(
     isNumeric: boolean
 ): boolean {
     const type = isMultiline ? 'textarea' : (node.inputType || 'text');
-    
-    const ensureCursor = () => {
-        if (typeof node.cursorPosition !== 'number') {
-            node.cursorPosition = getInputBufferValue(node, type).length;
-            }
-    };
+    const val = getInputBufferValue(node, type);
+    const [selStart, selEnd] = getSelectionRange(node, val.length);
+    const cursor = typeof node.cursorPosition === 'number'
+        ? Math.max(0, Math.min(node.cursorPosition, val.length))
+        : val.length;
+    const readonly = readInputState(node).readonly;
+    const shortcut = event.ctrl && !event.alt && !event.meta ? event.key.toLowerCase() : '';
+
+    // Ctrl+A: select all
+    if (shortcut === 'a') {
+        node.cursorPosition = val.length;
+        node.selectionStart = 0;
+        node.selectionEnd = val.length;
+        node.selectionDirection = 'forward';
+        scheduleRender();
+        return true;
+    }
 
-    // Backspace
-        if (event.key === 'Backspace') {
-            const val = getInputBufferValue(node, type);
-            ensureCursor();
-        const cursor = Math.max(0, node.cursorPosition ?? val.length);
-            if (cursor === 0) return true;
-            const nextRaw = val.slice(0, cursor - 1) + val.slice(cursor);
-        node.cursorPosition = cursor - 1;
-        node.selectionStart = node.selectionEnd = node.cursorPosition;
-            writeInputBufferValue(node, type, nextRaw);
-            validateNode(node, type);
-            node.dirty = true;
-            scheduleRender();
-            return true;
-        }
+    // Ctrl+C / Ctrl+X: copy or cut the selection
+    if (shortcut === 'c' || shortcut === 'x') {
+        dispatchCopy(node, shortcut === 'x' && !readonly ? 'cut' : 'copy');
+        return true;
+    }
 
-    // Delete
-        if (event.key === 'Delete') {
-            const val = getInputBufferValue(node, type);
-            ensureCursor();
-        const cursor = Math.max(0, node.cursorPosition ?? val.length);
-            if (cursor >= val.length) return true;
-            const nextRaw = val.slice(0, cursor) + val.slice(cursor + 1);
-        node.cursorPosition = cursor;
-            node.selectionStart = node.selectionEnd = cursor;
-            writeInputBufferValue(node, type, nextRaw);
-            validateNode(node, type);
-            node.dirty = true;
-            scheduleRender();
-            return true;
-        }
+    // Ctrl+V: paste the last copied text
+    if (shortcut === 'v') {
+        const text = readClipboard();
+        if (text && !readonly) dispatchPaste(text);
+        return true;
+    }
 
-    // Left arrow
-        if (event.leftArrow) {
-            ensureCursor();
-        node.cursorPosition = Math.max(0, (node.cursorPosition ?? 0) - 1);
-        node.selectionStart = node.selectionEnd = node.cursorPosition;
-            scheduleRender();
-            return true;
+    // Ctrl+Z: undo; Ctrl+Shift+Z or Ctrl+Y: redo
+    if (shortcut === 'z' || shortcut === 'y') {
+        if (!readonly) restoreHistory(node, type, shortcut === 'y' || event.shift ? 'redo' : 'undo');
+        return true;
+    }
+
+    // Backspace / Delete: remove the selection, or one character
+    if (event.key === 'Backspace' || event.key === 'Delete') {
+        if (readonly) return true;
+        const backward = event.key === 'Backspace';
+        if (selStart !== selEnd) {
+            insertTextAtCursor(node, type, '', isNumeric, 'deleteContent');
+        } else if (backward ? cursor > 0 : cursor < val.length) {
+            const range: [number, number] = backward ? [cursor - 1, cursor] : [cursor, cursor + 1];
+            const editType = backward ? 'deleteContentBackward' : 'deleteContentForward';
+            insertTextAtCursor(node, type, '', isNumeric, editType, range);
         }
+        return true;
+    }
 
-    // Right arrow
-        if (event.rightArrow) {
-            ensureCursor();
-            const len = getInputBufferValue(node, type).length;
-        node.cursorPosition = Math.min(len, (node.cursorPosition ?? len) + 1);
-        node.selectionStart = node.selectionEnd = node.cursorPosition;
-            scheduleRender();
-            return true;
+    // Left/Right arrows: collapse a selection to its edge, move, or extend
+    if (event.leftArrow || event.rightArrow) {
+        let next: number;
+        if (selStart !== selEnd && !event.shift) {
+            next = event.leftArrow ? selStart : selEnd;
+        } else {
+            next = event.leftArrow ? Math.max(0, cursor - 1) : Math.min(val.length, cursor + 1);
         }
+        moveCaret(node, val.length, next, event.shift);
+        scheduleRender();
+        return true;
+    }
         
     // Up/Down arrows - multiline navigation or numeric adjustment
     if (event.upArrow || event.downArrow) {
         if (isMultiline) {
             // Multiline: navigate between lines
-            ensureCursor();
-            const val = getInputBufferValue(node, type);
             const lines = val.split('\n');
-            const cursor = node.cursorPosition ?? val.length;
-            
-            // Find current line and column
-            let charCount = 0;
-            let currentLine = 0;
-            let currentCol = 0;
-            for (let i = 0; i < lines.length; i++) {
-                const lineLen = lines[i].length;
-                if (charCount + lineLen >= cursor) {
-                    currentLine = i;
-                    currentCol = cursor - charCount;
-                    break;
-                }
-                charCount += lineLen + 1;
-                if (i === lines.length - 1) {
-                    currentLine = i;
-                    currentCol = lineLen;
-                }
-            }
-            
+            const { line: currentLine, col: currentCol } = indexToLineCol(lines, cursor);
             const targetLine = event.upArrow
                 ? Math.max(0, currentLine - 1)
                 : Math.min(lines.length - 1, currentLine + 1);
             
             if (targetLine !== currentLine) {
-                const targetLineLen = lines[targetLine].length;
-                const targetCol = Math.min(currentCol, targetLineLen);
-                
-                let newCursor = 0;
-                for (let i = 0; i < targetLine; i++) {
-                    newCursor += lines[i].length + 1;
-                }
-                newCursor += targetCol;
-                
-                node.cursorPosition = newCursor;
-                node.selectionStart = node.selectionEnd = newCursor;
+                const targetCol = Math.min(currentCol, lines[targetLine].length);
+                moveCaret(node, val.length, lineStartIndex(lines, targetLine) + targetCol, event.shift);
                 scheduleRender();
             }
             return true;
         } else if (isNumeric) {
+            if (readonly) return true;
             // Numeric: increment/decrement value
             const step = resolveStepValue(node.step);
             const min = node.min;
             const max = node.max;
-            const raw = getInputBufferValue(node, type);
-            const current = raw.trim() === '' ? 0 : Number(raw) || 0;
+            const current = val.trim() === '' ? 0 : Number(val) || 0;
             let next = current + (event.upArrow ? step : -step);
             if (typeof min === 'number') next = Math.max(min, next);
             if (typeof max === 'number') next = Math.min(max, next);
             const nextRaw = String(next);
+            const before = takeSnapshot(node, val);
             node.__committedValue = next;
-            node.cursorPosition = nextRaw.length;
-            node.selectionStart = node.selectionEnd = node.cursorPosition;
-            writeInputBufferValue(node, type, nextRaw);
+            writeInputBufferValue(node, type, nextRaw, 'insertReplacementText');
+            collapseSelection(node, nextRaw.length);
+            recordEdit(node, before, takeSnapshot(node, nextRaw), 'insertReplacementText');
             announce(`Value: ${nextRaw}`);
             validateNode(node, type);
             node.dirty = true;
@@ -938,149 +1183,97 @@ function handleTextInput(
         return false;
     }
 
-    // Home key
-        if (event.home) {
-            ensureCursor();
-            const val = getInputBufferValue(node, type);
-            
-        if (isMultiline) {
-                const lines = val.split('\n');
-            const cursor = node.cursorPosition ?? val.length;
-                
-                let charCount = 0;
-                for (let i = 0; i < lines.length; i++) {
-                    const lineLen = lines[i].length;
-                    if (charCount + lineLen >= cursor) {
-                    node.cursorPosition = charCount;
-                        node.selectionStart = node.selectionEnd = charCount;
-                        break;
-                    }
-                    charCount += lineLen + 1;
-                }
-            } else {
-            node.cursorPosition = 0;
-                node.selectionStart = node.selectionEnd = 0;
-            }
-            scheduleRender();
-            return true;
-        }
-        
-    // End key
-        if (event.end) {
-            ensureCursor();
-            const val = getInputBufferValue(node, type);
-            
+    // Home/End: start or end of the line (textarea) or value
+    if (event.home || event.end) {
+        let next = event.home ? 0 : val.length;
         if (isMultiline) {
-                const lines = val.split('\n');
-            const cursor = node.cursorPosition ?? val.length;
-                
-                let charCount = 0;
-                for (let i = 0; i < lines.length; i++) {
-                    const lineLen = lines[i].length;
-                    if (charCount + lineLen >= cursor || i === lines.length - 1) {
-                        const endPos = charCount + lineLen;
-                    node.cursorPosition = endPos;
-                        node.selectionStart = node.selectionEnd = endPos;
-                        break;
-                    }
-                    charCount += lineLen + 1;
-                }
-            } else {
-            node.cursorPosition = val.length;
-                node.selectionStart = node.selectionEnd = val.length;
-            }
-            scheduleRender();
-            return true;
+            const lines = val.split('\n');
+            const { line } = indexToLineCol(lines, cursor);
+            next = lineStartIndex(lines, line) + (event.home ? 0 : lines[line].length);
         }
+        moveCaret(node, val.length, next, event.shift);
+        scheduleRender();
+        return true;
+    }
         
     // Printable characters
-        const isPrintable =
-            event.key.length === 1 &&
-            !event.ctrl &&
-            !event.meta &&
-            !event.tab &&
-            !event.escape &&
-            !event.return;
-
-        if (isPrintable) {
-            const ch = event.key;
-            
-        // For number inputs, only allow numeric characters
-        if (isNumeric) {
-                const val = getInputBufferValue(node, type);
-                ensureCursor();
-            const cursor = Math.max(0, node.cursorPosition ?? val.length);
-                
-                const isDigit = ch >= '0' && ch <= '9';
-                const isMinus = ch === '-' && cursor === 0 && !val.includes('-');
-                const isDecimal = ch === '.' && !val.includes('.');
-                
-                if (!isDigit && !isMinus && !isDecimal) {
-                return true; // Ignore non-numeric
-                }
-                
-                const nextRaw = val.slice(0, cursor) + ch + val.slice(cursor);
-            node.cursorPosition = cursor + 1;
-            node.selectionStart = node.selectionEnd = node.cursorPosition;
-                writeInputBufferValue(node, type, nextRaw);
-                validateNode(node, type);
-                node.dirty = true;
-                scheduleRender();
-                return true;
-            }
-            
-            const val = getInputBufferValue(node, type);
-            ensureCursor();
-        const cursor = Math.max(0, node.cursorPosition ?? val.length);
-        const maxLength = node.maxLength;
-            if (typeof maxLength === 'number' && maxLength >= 0 && val.length >= maxLength) {
-                announce(`Invalid: Max length ${maxLength}`);
-                return true;
-            }
-            const nextRaw = val.slice(0, cursor) + ch + val.slice(cursor);
-        node.cursorPosition = cursor + 1;
-        node.selectionStart = node.selectionEnd = node.cursorPosition;
-            writeInputBufferValue(node, type, nextRaw);
-            validateNode(node, type);
-            node.dirty = true;
-            scheduleRender();
-            return true;
-        }
+    const isPrintable =
+        Array.from(event.key).length === 1 &&
+        !event.ctrl &&
+        !event.meta &&
+        !event.tab &&
+        !event.escape &&
+        !event.return;
+
+    if (isPrintable) {
+        if (!readonly) insertTextAtCursor(node, type, event.key, isNumeric, 'insertText');
+        return true;
+    }
 
     // Enter key
-        if (event.key === 'Enter') {
+    if (event.key === 'Enter') {
         if (isMultiline) {
-            // Insert newline
-            const val = getInputBufferValue(node, type);
-            ensureCursor();
-            const cursor = Math.max(0, node.cursorPosition ?? val.length);
-            const nextRaw = val.slice(0, cursor) + '\n' + val.slice(cursor);
-            node.cursorPosition = cursor + 1;
-            node.selectionStart = node.selectionEnd = node.cursorPosition;
-            writeInputBufferValue(node, type, nextRaw);
-            node.dirty = true;
-            scheduleRender();
+            if (!readonly) insertTextAtCursor(node, type, '\n', false, 'insertLineBreak');
             return true;
-        } else {
-            // Commit value
-            if (node.dirty) {
-                commitIfNeeded(node, type);
-                    validateNode(node, type);
-                    announce(`Value: ${getInputBufferValue(node, type)}`);
-                node.dirty = false;
-                }
-                return true;
         }
+        // Commit value
+        if (node.dirty) {
+            commitIfNeeded(node, type);
+            validateNode(node, type);
+            announce(`Value: ${getInputBufferValue(node, type)}`);
+            node.dirty = false;
         }
+        return true;
+    }
 
     // Tab
-        if (event.tab) {
+    if (event.tab) {
         fireChangeOnBlur(node, 'focus-move');
-            moveFocus(event.shift ? 'prev' : 'next');
-            return true;
+        moveFocus(event.shift ? 'prev' : 'next');
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Undo or redo the last edit of a text control, restoring its value and
+ * selection. Emits `input` with inputType 'historyUndo' or 'historyRedo'.
+ */
+function restoreHistory(node: CliNode, type: string, direction: 'undo' | 'redo'): void {
+    const snapshot = stepHistory(node, getInputBufferValue(node, type), direction);
+    if (!snapshot) return;
+    writeInputBufferValue(node, type, snapshot.value, direction === 'undo' ? 'historyUndo' : 'historyRedo');
+    node.selectionStart = snapshot.selectionStart;
+    node.selectionEnd = snapshot.selectionEnd;
+    node.selectionDirection = snapshot.selectionDirection;
+    node.cursorPosition = snapshot.selectionDirection === 'backward' ? snapshot.selectionStart : snapshot.selectionEnd;
+    validateNode(node, type);
+    node.dirty = true;
+    scheduleRender();
+}
+
+/**
+ * Line and column of a character index within split lines.
+ */
+function indexToLineCol(lines: string[], index: number): { line: number; col: number } {
+    let start = 0;
+    for (let i = 0; i < lines.length; i++) {
+        if (index <= start + lines[i].length) {
+            return { line: i, col: index - start };
         }
+        start += lines[i].length + 1;
+    }
+    const last = lines.length - 1;
+    return { line: last, col: lines[last].length };
+}
 
-        return false;
+function lineStartIndex(lines: string[], line: number): number {
+    let start = 0;
+    for (let i = 0; i < line; i++) {
+        start += lines[i].length + 1;
+    }
+    return start;
 }
 
 /**
@@ -1116,6 +1309,123 @@ function handleInteractiveKey(node: CliNode, event: KeyPressEvent): boolean {
     return false;
 }
 
+/** Synthetic Space key used to reuse keyboard activation for pointer clicks. */
+const ACTIVATION_KEY: KeyPressEvent = {
+    key: ' ',
+    ctrl: false,
+    shift: false,
+    meta: false,
+    escape: false,
+    return: false,
+    tab: false,
+    backspace: false,
+    delete: false,
+    upArrow: false,
+    downArrow: false,
+    leftArrow: false,
+    rightArrow: false,
+    home: false,
+    end: false,
+};
+
+/**
+ * Find the nearest focusable node at or above the given node.
+ * Used to decide what receives focus when an element is clicked.
+ *
+ * @param node - The clicked node.
+ * @returns The focusable node, or null if none of its ancestors can take focus.
+ */
+export function findFocusableAncestor(node: CliNode | null): CliNode | null {
+    let current = node;
+    while (current) {
+        if (isFocusableNode(current)) return current;
+        current = current.parent;
+    }
+    return null;
+}
+
+/**
+ * Run the default activation behavior of a clicked node, matching what
+ * Space does from the keyboard: toggle checkboxes, pick radios, open selects,
+ * toggle details, submit/reset forms and forward label clicks.
+ * The click event itself must already have been emitted by the caller.
+ *
+ * @param node - The clicked node (or a descendant of the activatable element).
+ * @param option - Index of the clicked option when the click landed in an
+ *   open select dropdown.
+ * @returns true if an activation behavior ran.
+ */
+export function activateNode(node: CliNode, option?: number): boolean {
+    let current: CliNode | null = node;
+    while (current) {
+        const tag = getNodeTag(current);
+        if (FORM_CONTROL_TAGS.has(tag) || INTERACTIVE_TAGS.has(tag) || tag === 'label') {
+            break;
+        }
+        current = current.parent;
+    }
+    if (!current || current.disabled) return false;
+
+    const tag = getNodeTag(current);
+    const type = (current.inputType || '').toLowerCase();
+
+    if (tag === 'input' && (type === 'checkbox' || type === 'radio')) {
+        return handleFormKey(current, ACTIVATION_KEY);
+    }
+    if (tag === 'select') {
+        if (current.multiple) return false;
+        if (current.__dropdownOpen && option !== undefined) {
+            // Commit the clicked option like Enter does after arrowing to it
+            const picked = collectOptions(current)[option];
+            if (!picked || picked.disabled) return true;
+            current.selectedIndex = option;
+            current.__setValue?.(picked.value);
+            current.onInput?.({ value: picked.value });
+            emitInputEvent(current);
+            current.onChange?.({ value: picked.value });
+            emitChangeEvent(current, { value: picked.value });
+            announce(`Selected: ${picked.label}`);
+            validateNode(current, type);
+            current.__dropdownOpen = false;
+            clearTypeahead(current);
+            scheduleRender();
+            return true;
+        }
+        current.__dropdownOpen = !current.__dropdownOpen;
+        if (!current.__dropdownOpen) {
+            clearTypeahead(current);
+        }
+        scheduleRender();
+        return true;
+    }
+    if (tag === 'summary') {
+        return handleInteractiveKey(current, ACTIVATION_KEY);
+    }
+    if (tag === 'button') {
+        const btnType = (current.inputType || 'button').toLowerCase();
+        if (btnType === 'reset') {
+            resetForm(current);
+        } else if (btnType === 'submit') {
+            submitForm(current);
+        } else {
+            return false;
+        }
+        scheduleRender();
+        return true;
+    }
+    if (tag === 'label') {
+        const target = current.htmlFor ? lookupNodeById(current.htmlFor) : findFocusableDescendant(current);
+        if (target && !target.disabled) {
+            setFocus(target);
+            if (target !== node) {
+                activateNode(target);
+            }
+            return true;
+        }
+    }
+    return false;
+}
+
 /**
  * Handle keyboard events for form controls (input, select, textarea, button, label).
  */
@@ -1131,7 +1441,7 @@ function handleFormKey(node: CliNode, event: KeyPressEvent): boolean {
             return true;
         }
 
-        if (inputState.readonly && event.key.length === 1) {
+        if (inputState.readonly && event.key.length === 1 && !event.ctrl) {
             return true;
         }
 
@@ -1218,7 +1528,7 @@ function handleFormKey(node: CliNode, event: KeyPressEvent): boolean {
         if (node.disabled) {
             return true;
         }
-        if (node.readonly && event.key.length === 1) {
+        if (node.readonly && event.key.length === 1 && !event.ctrl) {
             return true;
         }
         return handleTextInput(node, event, true, false);
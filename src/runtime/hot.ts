@@ -0,0 +1,82 @@
+/**
+ * Hot Module Replacement
+ *
+ * Components compiled with `hmr: true` end with
+ *
+ * ```js
+ * if (import.meta.hot) {
+ *     App = $.hmr(App);
+ *     import.meta.hot.accept((module) => App[$.HMR].update(module.default));
+ * }
+ * ```
+ *
+ * The loaders point `import.meta.hot` at a context from this module. When a
+ * file is recompiled, its new module is passed to the callback the first
+ * version accepted with, which swaps the component in every live instance.
+ * Components that were not edited, and their `$state`, stay as they are.
+ *
+ * This module has no runtime imports so the loader hooks thread can use it.
+ */
+
+/** Receives the recompiled module of the file that accepted. */
+export type HotAcceptCallback = (module: unknown) => void;
+
+export interface HotContext {
+    accept(callback?: HotAcceptCallback): void;
+}
+
+/** Identifier the loaders give the hot context in compiled code. */
+const HOT_BINDING = '__sveltty_hot';
+
+/** Callbacks of the first module version of each file. */
+const acceptors = new Map<string, HotAcceptCallback>();
+
+/**
+ * Create the `import.meta.hot` of a compiled component.
+ * @param file - Absolute path of the component's source.
+ */
+export function createHotContext(file: string): HotContext {
+    return {
+        accept(callback) {
+            // Later versions forward to the first one's live instances
+            if (callback && !acceptors.has(file)) {
+                acceptors.set(file, callback);
+            }
+        },
+    };
+}
+
+/**
+ * Hand a recompiled module to the live instances of its file.
+ * @returns False when no loaded version of the file accepts updates.
+ */
+export function applyHotUpdate(file: string, module: unknown): boolean {
+    const accept = acceptors.get(file);
+    if (!accept) return false;
+    accept(module);
+    return true;
+}
+
+/**
+ * Forget all accepted callbacks. Primarily used for testing.
+ */
+export function resetHotModules(): void {
+    acceptors.clear();
+}
+
+/**
+ * Give compiled component code a hot context in place of `import.meta.hot`,
+ * which Node does not provide.
+ *
+ * @param code - Compiled JavaScript, with imports already redirected.
+ * @param file - Absolute path of the component's source.
+ * @param hotUrl - URL this module is imported from in compiled code.
+ */
+export function injectHotContext(code: string, file: string, hotUrl: string): string {
+    if (!code.includes('import.meta.hot')) return code;
+    // Kept on the first line so the compiler's source map still applies
+    const prologue =
+        `import { createHotContext as __sveltty_createHotContext } from ${JSON.stringify(hotUrl)}; ` +
+        `const ${HOT_BINDING} = __sveltty_createHotContext(${JSON.stringify(file)}); `;
+    return prologue + code.replaceAll('import.meta.hot', HOT_BINDING);
+}
@@ -18,6 +18,7 @@ export type {
     KeyPressEvent,
     RenderOutput,
     MountOptions,
+    StaticRenderOptions,
     AppInstance,
 } from './types.js';
 
@@ -56,10 +57,13 @@ export {
 // Mounting
 export {
     mount,
+    renderStatic,
     createMountContext,
     scheduleRender,
     getCurrentRoot,
 } from './mount.js';
+export { serve } from './serve.js';
+export type { ServeOptions, ServeSession, TerminalServer } from './serve.js';
 
 // Actions
 export {
@@ -0,0 +1,120 @@
+/**
+ * Edit History
+ *
+ * Undo/redo stacks for text inputs and textareas. Each entry holds the
+ * value and selection before and after an edit. Consecutive typing is
+ * grouped into word-sized chunks, and runs of Backspace or Delete into one
+ * entry, so undo steps back roughly the way browsers do.
+ *
+ * The history remembers the value it last produced. When the control's
+ * value has changed since (a binding or script set it), the history no
+ * longer applies and is discarded.
+ */
+
+import type { CliNode } from '../types.js';
+
+/** Value and selection of a text control at one point in time. */
+export interface EditSnapshot {
+    value: string;
+    selectionStart: number;
+    selectionEnd: number;
+    selectionDirection: 'none' | 'forward' | 'backward';
+}
+
+interface EditEntry {
+    before: EditSnapshot;
+    after: EditSnapshot;
+    /** DOM `inputType` of the edit, e.g. 'insertText'. */
+    inputType: string;
+}
+
+export interface EditHistory {
+    undo: EditEntry[];
+    redo: EditEntry[];
+    /** Value after the latest edit, undo or redo. */
+    value: string;
+}
+
+/** Entries kept per control; the oldest are dropped first. */
+const MAX_ENTRIES = 100;
+
+/** Edits that merge with a directly preceding edit of the same type. */
+const MERGEABLE_INPUT_TYPES = new Set(['insertText', 'deleteContentBackward', 'deleteContentForward']);
+
+function isWhitespace(text: string): boolean {
+    return /^\s+$/.test(text);
+}
+
+/**
+ * The node's history, or a fresh one when the value changed outside it.
+ */
+function getHistory(node: CliNode, value: string): EditHistory {
+    const history = node.__editHistory;
+    if (history && history.value === value) {
+        return history;
+    }
+    const fresh: EditHistory = { undo: [], redo: [], value };
+    node.__editHistory = fresh;
+    return fresh;
+}
+
+function canMerge(previous: EditEntry | undefined, before: EditSnapshot, after: EditSnapshot, inputType: string): boolean {
+    if (!previous || previous.inputType !== inputType || !MERGEABLE_INPUT_TYPES.has(inputType)) {
+        return false;
+    }
+    // The caret must not have moved between the two edits
+    const last = previous.after;
+    if (before.selectionStart !== last.selectionStart || before.selectionEnd !== last.selectionEnd) {
+        return false;
+    }
+    if (inputType !== 'insertText') {
+        return true;
+    }
+    // A word typed after whitespace starts a new chunk
+    const typed = after.value.slice(before.selectionStart, after.selectionEnd);
+    const previousChar = previous.after.value.charAt(before.selectionStart - 1);
+    return !(isWhitespace(previousChar) && !isWhitespace(typed));
+}
+
+/**
+ * Record an edit. Clears the redo stack.
+ *
+ * @param node - The edited control.
+ * @param before - State before the edit.
+ * @param after - State after the edit.
+ * @param inputType - DOM `inputType` of the edit.
+ */
+export function recordEdit(node: CliNode, before: EditSnapshot, after: EditSnapshot, inputType: string): void {
+    const history = getHistory(node, before.value);
+    const previous = history.undo[history.undo.length - 1];
+    if (canMerge(previous, before, after, inputType)) {
+        previous.after = after;
+    } else {
+        history.undo.push({ before, after, inputType });
+        if (history.undo.length > MAX_ENTRIES) {
+            history.undo.shift();
+        }
+    }
+    history.redo.length = 0;
+    history.value = after.value;
+}
+
+/**
+ * Step back (undo) or forward (redo) through the history.
+ *
+ * @param node - The control.
+ * @param value - The control's current value.
+ * @param direction - 'undo' or 'redo'.
+ * @returns The state to restore, or null when there is nothing to step to.
+ */
+export function stepHistory(node: CliNode, value: string, direction: 'undo' | 'redo'): EditSnapshot | null {
+    const history = getHistory(node, value);
+    const from = direction === 'undo' ? history.undo : history.redo;
+    const to = direction === 'undo' ? history.redo : history.undo;
+    const entry = from.pop();
+    if (!entry) return null;
+    to.push(entry);
+    const snapshot = direction === 'undo' ? entry.before : entry.after;
+    history.value = snapshot.value;
+    return snapshot;
+}
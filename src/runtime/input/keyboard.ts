@@ -10,6 +10,8 @@ export interface RawKey {
     alt: boolean;
     meta: boolean;
     repeat: boolean;
+    /** Key release (only reported with the kitty keyboard protocol). */
+    release?: boolean;
     tab: boolean;
     escape: boolean;
     enter: boolean;
@@ -23,7 +25,7 @@ export interface RawKey {
     end: boolean;
 }
 
-const CTRL_C = 0x03;
+const CTRL_H = 0x08;
 const TAB = 0x09;
 const ENTER = 0x0d;
 const LF = 0x0a;
@@ -31,6 +33,50 @@ const SPACE = 0x20;
 const ESC = 0x1b;
 const BACKSPACE = 0x7f;
 
+/**
+ * Physical key codes for punctuation on a US layout. Shifted symbols map to
+ * the key that produces them, as `KeyboardEvent.code` does in browsers.
+ */
+const PUNCTUATION_CODES: Record<string, string> = {
+    '-': 'Minus', '_': 'Minus',
+    '=': 'Equal', '+': 'Equal',
+    '[': 'BracketLeft', '{': 'BracketLeft',
+    ']': 'BracketRight', '}': 'BracketRight',
+    '\\': 'Backslash', '|': 'Backslash',
+    ';': 'Semicolon', ':': 'Semicolon',
+    "'": 'Quote', '"': 'Quote',
+    ',': 'Comma', '<': 'Comma',
+    '.': 'Period', '>': 'Period',
+    '/': 'Slash', '?': 'Slash',
+    '`': 'Backquote', '~': 'Backquote',
+    '!': 'Digit1', '@': 'Digit2', '#': 'Digit3', '$': 'Digit4', '%': 'Digit5',
+    '^': 'Digit6', '&': 'Digit7', '*': 'Digit8', '(': 'Digit9', ')': 'Digit0',
+};
+
+/** Named keys whose `code` equals their `key`. */
+const NAMED_KEYS = new Set([
+    'Tab',
+    'Enter',
+    'Escape',
+    'Backspace',
+    'Delete',
+    'Insert',
+    'ArrowUp',
+    'ArrowDown',
+    'ArrowLeft',
+    'ArrowRight',
+    'Home',
+    'End',
+    'PageUp',
+    'PageDown',
+    'CapsLock',
+    'ScrollLock',
+    'NumLock',
+    'PrintScreen',
+    'Pause',
+    'ContextMenu',
+]);
+
 const codeFromKey = (key: string): string => {
     if (key.length === 1 && /[a-z]/i.test(key)) {
         return `Key${key.toUpperCase()}`;
@@ -38,23 +84,124 @@ const codeFromKey = (key: string): string => {
     if (key.length === 1 && /[0-9]/.test(key)) {
         return `Digit${key}`;
     }
-    const special: Record<string, string> = {
-        Tab: 'Tab',
-        Enter: 'Enter',
-        Escape: 'Escape',
-        Backspace: 'Backspace',
-        Delete: 'Delete',
-        ArrowUp: 'ArrowUp',
-        ArrowDown: 'ArrowDown',
-        ArrowLeft: 'ArrowLeft',
-        ArrowRight: 'ArrowRight',
-        Home: 'Home',
-        End: 'End',
-        ' ': 'Space',
-    };
-    return special[key] ?? '';
+    if (key === ' ') {
+        return 'Space';
+    }
+    if (NAMED_KEYS.has(key) || /^F\d{1,2}$/.test(key)) {
+        return key;
+    }
+    return PUNCTUATION_CODES[key] ?? '';
+};
+
+/** Final bytes of `CSI [1;mods] X` and `SS3 X` sequences. */
+const LETTER_KEYS: Record<string, string> = {
+    A: 'ArrowUp',
+    B: 'ArrowDown',
+    C: 'ArrowRight',
+    D: 'ArrowLeft',
+    H: 'Home',
+    F: 'End',
+    P: 'F1',
+    Q: 'F2',
+    R: 'F3',
+    S: 'F4',
+};
+
+/** Parameters of `CSI n [;mods] ~` sequences (xterm, vt220 and rxvt). */
+const TILDE_KEYS: Record<number, string> = {
+    1: 'Home',
+    2: 'Insert',
+    3: 'Delete',
+    4: 'End',
+    5: 'PageUp',
+    6: 'PageDown',
+    7: 'Home',
+    8: 'End',
+    11: 'F1',
+    12: 'F2',
+    13: 'F3',
+    14: 'F4',
+    15: 'F5',
+    17: 'F6',
+    18: 'F7',
+    19: 'F8',
+    20: 'F9',
+    21: 'F10',
+    23: 'F11',
+    24: 'F12',
+};
+
+/** Linux console function keys: `CSI [ A` through `CSI [ E`. */
+const LINUX_CONSOLE_KEYS: Record<string, string> = {
+    A: 'F1',
+    B: 'F2',
+    C: 'F3',
+    D: 'F4',
+    E: 'F5',
+};
+
+/** Codepoints with a key name in CSI-u (fixterms/kitty) sequences. */
+const CSI_U_KEYS: Record<number, string> = {
+    9: 'Tab',
+    13: 'Enter',
+    27: 'Escape',
+    127: 'Backspace',
+    57358: 'CapsLock',
+    57359: 'ScrollLock',
+    57360: 'NumLock',
+    57361: 'PrintScreen',
+    57362: 'Pause',
+    57363: 'ContextMenu',
+    57414: 'Enter',
 };
 
+/** First kitty codepoint for F13 (F13-F35 are consecutive). */
+const KITTY_F13 = 57376;
+
+/**
+ * Modifier bits of xterm/CSI-u sequences. The transmitted value is 1 + bits.
+ * Super (kitty) and Meta both surface as `meta`, like the DOM's metaKey.
+ */
+const MOD_SHIFT = 1;
+const MOD_ALT = 2;
+const MOD_CTRL = 4;
+const MOD_SUPER = 8;
+const MOD_META = 32;
+
+/** Kitty event types, sent as a sub-parameter of the modifiers (1 = press). */
+const EVENT_REPEAT = 2;
+const EVENT_RELEASE = 3;
+
+/**
+ * Kitty progressive enhancement flags we request:
+ * 1 = disambiguate escape codes (Ctrl+I vs Tab, Escape vs Alt),
+ * 2 = report event types (repeat and release).
+ */
+const KITTY_KEYBOARD_FLAGS = 1 | 2;
+
+/**
+ * Query kitty keyboard support, followed by a primary device attributes
+ * request. Every terminal answers the latter, so receiving it without a
+ * flags reply means the protocol is unsupported.
+ */
+export const QUERY_KITTY_KEYBOARD = '\x1b[?u\x1b[c';
+
+/** Push our enhancement flags onto the terminal's keyboard mode stack. */
+export const PUSH_KITTY_KEYBOARD = `\x1b[>${KITTY_KEYBOARD_FLAGS}u`;
+
+/** Pop the flags pushed by PUSH_KITTY_KEYBOARD. */
+export const POP_KITTY_KEYBOARD = '\x1b[<u';
+
+/** Terminal replies to QUERY_KITTY_KEYBOARD: `CSI ? flags u` and `CSI ? ... c`. */
+const KEYBOARD_REPLY_PATTERN = /\x1b\[\?(\d*)u|\x1b\[\?[0-9;]*c/g;
+
+/** CSI sequence: ESC [ params final. Params may use ':' sub-parameters. */
+const CSI_PATTERN = /^\x1b\[([0-9:;]*)([A-Za-z~])$/;
+/** SS3 sequence: ESC O [mods] final. */
+const SS3_PATTERN = /^\x1bO([0-9]*)([A-Za-z])$/;
+/** Linux console function key: ESC [ [ letter. */
+const LINUX_CONSOLE_PATTERN = /^\x1b\[\[([A-E])$/;
+
 function baseRawKey(): RawKey {
     return {
         key: '',
@@ -79,120 +226,294 @@ function baseRawKey(): RawKey {
     };
 }
 
-export function decodeKey(data: Buffer): RawKey | null {
-    const raw = baseRawKey();
-    raw.sequence = data.toString();
-    
-    // Debug logging for keyboard input
-    const bytes = Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' ');
-    log('decodeKey:input', { len: data.length, bytes, str: data.toString() });
+/**
+ * Set key, code and the matching boolean flag for a named key.
+ */
+function applyNamedKey(raw: RawKey, name: string): RawKey {
+    raw.key = name;
+    raw.code = codeFromKey(name);
+    raw.tab = name === 'Tab';
+    raw.enter = name === 'Enter';
+    raw.escape = name === 'Escape';
+    raw.backspace = name === 'Backspace';
+    raw.delete = name === 'Delete';
+    raw.upArrow = name === 'ArrowUp';
+    raw.downArrow = name === 'ArrowDown';
+    raw.leftArrow = name === 'ArrowLeft';
+    raw.rightArrow = name === 'ArrowRight';
+    raw.home = name === 'Home';
+    raw.end = name === 'End';
+    return raw;
+}
 
-    if (data.length === 0) {
-        return null;
+/**
+ * Apply a kitty event type sub-parameter (press, repeat or release).
+ */
+function applyEventType(raw: RawKey, eventType: number | undefined): void {
+    raw.repeat = eventType === EVENT_REPEAT;
+    raw.release = eventType === EVENT_RELEASE;
+}
+
+/**
+ * Apply an xterm-style modifier parameter (1 + bitmask) to a key.
+ */
+function applyModifiers(raw: RawKey, param: number): void {
+    if (!Number.isFinite(param) || param < 2) return;
+    const bits = param - 1;
+    raw.shift = raw.shift || (bits & MOD_SHIFT) !== 0;
+    raw.alt = raw.alt || (bits & MOD_ALT) !== 0;
+    raw.ctrl = raw.ctrl || (bits & MOD_CTRL) !== 0;
+    raw.meta = raw.meta || (bits & (MOD_SUPER | MOD_META)) !== 0;
+}
+
+/**
+ * Set a printable character as the key.
+ */
+function applyCharacter(raw: RawKey, ch: string): RawKey {
+    raw.key = ch;
+    raw.code = codeFromKey(ch);
+    if (/^[A-Z]$/.test(ch)) {
+        raw.shift = true;
+    }
+    return raw;
+}
+
+/**
+ * Decode a single byte (control characters and ASCII).
+ */
+function decodeByte(raw: RawKey, code: number): RawKey {
+    switch (code) {
+        case TAB:
+            return applyNamedKey(raw, 'Tab');
+        case ENTER:
+        case LF:
+            return applyNamedKey(raw, 'Enter');
+        case ESC:
+            return applyNamedKey(raw, 'Escape');
+        case BACKSPACE:
+        case CTRL_H:
+            return applyNamedKey(raw, 'Backspace');
+        case SPACE:
+            raw.key = ' ';
+            raw.code = 'Space';
+            return raw;
+        case 0x00:
+            // Ctrl+Space (and Ctrl+@)
+            raw.ctrl = true;
+            raw.key = ' ';
+            raw.code = 'Space';
+            return raw;
+    }
+    if (code >= 0x01 && code <= 0x1a) {
+        // Ctrl+A through Ctrl+Z (minus the keys above, which share their bytes)
+        raw.ctrl = true;
+        raw.key = String.fromCharCode(code + 0x60);
+        raw.code = codeFromKey(raw.key);
+        return raw;
+    }
+    if (code >= 0x1c && code <= 0x1f) {
+        // Ctrl+\ Ctrl+] Ctrl+^ Ctrl+_
+        raw.ctrl = true;
+        raw.key = String.fromCharCode(code + 0x40);
+        raw.code = codeFromKey(raw.key);
+        return raw;
+    }
+    return applyCharacter(raw, String.fromCharCode(code));
+}
+
+/**
+ * Split CSI parameters into numeric fields and sub-fields ("1;5:2" -> [[1], [5, 2]]).
+ */
+function parseParams(params: string): number[][] {
+    if (params === '') return [];
+    return params.split(';').map(field => field.split(':').map(value => (value === '' ? NaN : Number(value))));
+}
+
+/**
+ * Decode a CSI-u key report (fixterms / kitty keyboard protocol):
+ * `CSI code[:shifted[:base]] ; mods[:event] ; text u`.
+ */
+function decodeCsiU(raw: RawKey, params: number[][]): RawKey | null {
+    const [codepoint, shiftedCodepoint] = params[0] ?? [];
+    if (!Number.isFinite(codepoint)) return null;
+    applyModifiers(raw, params[1]?.[0]);
+    applyEventType(raw, params[1]?.[1]);
+
+    const named = CSI_U_KEYS[codepoint]
+        ?? (codepoint >= KITTY_F13 && codepoint < KITTY_F13 + 23 ? `F${13 + codepoint - KITTY_F13}` : undefined);
+    if (named) {
+        return applyNamedKey(raw, named);
     }
 
-    if (data.length === 1) {
-        const code = data[0];
-        switch (code) {
-            case CTRL_C:
-                raw.ctrl = true;
-                raw.key = 'c';
-                raw.code = 'KeyC';
-                return raw;
-            case TAB:
-                raw.key = 'Tab';
-                raw.code = 'Tab';
-                raw.tab = true;
-                return raw;
-            case ENTER:
-            case LF:
-                raw.key = 'Enter';
-                raw.code = 'Enter';
-                raw.enter = true;
-                return raw;
-            case SPACE:
-                raw.key = ' ';
-                raw.code = 'Space';
-                return raw;
-            case ESC:
-                raw.key = 'Escape';
-                raw.code = 'Escape';
-                raw.escape = true;
-                return raw;
-            case BACKSPACE:
-                raw.key = 'Backspace';
-                raw.code = 'Backspace';
-                raw.backspace = true;
-                return raw;
-            default: {
-                const ch = String.fromCharCode(code);
-                const isLetter = /[a-z]/i.test(ch);
-                raw.key = ch;
-                raw.shift = ch.toUpperCase() === ch && isLetter;
-                raw.code = codeFromKey(ch);
-                return raw;
-            }
+    const text = params[2]?.filter(Number.isFinite).map(cp => String.fromCodePoint(cp)).join('');
+    let ch = String.fromCodePoint(codepoint);
+    if (text) {
+        ch = text;
+    } else if (raw.shift && Number.isFinite(shiftedCodepoint)) {
+        ch = String.fromCodePoint(shiftedCodepoint);
+    } else if (raw.shift && /^[a-z]$/.test(ch)) {
+        ch = ch.toUpperCase();
+    }
+    raw.key = ch;
+    // Code follows the unshifted key, like a physical key position
+    raw.code = codeFromKey(String.fromCodePoint(codepoint));
+    return raw;
+}
+
+/**
+ * Decode a CSI sequence: cursor keys, editing keys, function keys,
+ * modifyOtherKeys (`CSI 27;mods;code ~`) and CSI-u reports.
+ */
+function decodeCsi(raw: RawKey, paramString: string, final: string): RawKey | null {
+    const params = parseParams(paramString);
+
+    if (final === 'u') {
+        return decodeCsiU(raw, params);
+    }
+
+    if (final === '~') {
+        const number = params[0]?.[0];
+        if (number === 27) {
+            // xterm modifyOtherKeys: CSI 27 ; mods ; code ~
+            const codepoint = params[2]?.[0];
+            if (!Number.isFinite(codepoint)) return null;
+            return decodeCsiU(raw, [[codepoint], params[1] ?? []]);
         }
+        const name = TILDE_KEYS[number];
+        if (!name) return null;
+        applyModifiers(raw, params[1]?.[0]);
+        applyEventType(raw, params[1]?.[1]);
+        return applyNamedKey(raw, name);
     }
 
-    const str = raw.sequence;
-    if (str === '\x1b[Z') {
-        raw.key = 'Tab';
-        raw.code = 'Tab';
+    if (final === 'Z') {
+        applyNamedKey(raw, 'Tab');
         raw.shift = true;
-        raw.tab = true;
+        applyModifiers(raw, params[1]?.[0]);
         return raw;
     }
-    if (str === '\x1b[A') {
-        raw.key = 'ArrowUp';
-        raw.code = 'ArrowUp';
-        raw.upArrow = true;
-        return raw;
+
+    // rxvt: CSI a-d are Shift+arrows
+    const rxvtShifted = 'abcd'.indexOf(final);
+    if (rxvtShifted !== -1 && paramString === '') {
+        raw.shift = true;
+        return applyNamedKey(raw, LETTER_KEYS['ABCD'[rxvtShifted]]);
     }
-    if (str === '\x1b[B') {
-        raw.key = 'ArrowDown';
-        raw.code = 'ArrowDown';
-        raw.downArrow = true;
-        return raw;
+
+    const name = LETTER_KEYS[final];
+    if (!name) return null;
+    applyModifiers(raw, params[1]?.[0]);
+    applyEventType(raw, params[1]?.[1]);
+    return applyNamedKey(raw, name);
+}
+
+/**
+ * Decode an SS3 sequence (application cursor keys and F1-F4).
+ */
+function decodeSs3(raw: RawKey, modifiers: string, final: string): RawKey | null {
+    // rxvt: SS3 a-d are Ctrl+arrows
+    const rxvtCtrl = 'abcd'.indexOf(final);
+    if (rxvtCtrl !== -1) {
+        raw.ctrl = true;
+        return applyNamedKey(raw, LETTER_KEYS['ABCD'[rxvtCtrl]]);
     }
-    if (str === '\x1b[C') {
-        raw.key = 'ArrowRight';
-        raw.code = 'ArrowRight';
-        raw.rightArrow = true;
+    if (final === 'M') {
+        // Keypad Enter in application keypad mode
+        applyNamedKey(raw, 'Enter');
+        raw.code = 'NumpadEnter';
         return raw;
     }
-    if (str === '\x1b[D') {
-        raw.key = 'ArrowLeft';
-        raw.code = 'ArrowLeft';
-        raw.leftArrow = true;
-        return raw;
+    const name = LETTER_KEYS[final];
+    if (!name) return null;
+    if (modifiers) {
+        applyModifiers(raw, Number(modifiers));
     }
-    // Home key - various terminal encodings
-    if (str === '\x1b[H' || str === '\x1b[1~' || str === '\x1bOH') {
-        raw.key = 'Home';
-        raw.code = 'Home';
-        raw.home = true;
-        return raw;
+    return applyNamedKey(raw, name);
+}
+
+/**
+ * Decode one key from its complete input sequence.
+ */
+function decodeSequence(str: string): RawKey | null {
+    const raw = baseRawKey();
+    raw.sequence = str;
+
+    if (str.length === 0) {
+        return null;
     }
-    // End key - various terminal encodings
-    if (str === '\x1b[F' || str === '\x1b[4~' || str === '\x1bOF') {
-        raw.key = 'End';
-        raw.code = 'End';
-        raw.end = true;
-        return raw;
+
+    const chars = Array.from(str);
+    if (chars.length === 1) {
+        const code = str.codePointAt(0)!;
+        if (code < 0x80) {
+            return decodeByte(raw, code);
+        }
+        // A single non-ASCII character (UTF-8 encoded on the wire)
+        return applyCharacter(raw, str);
     }
 
-    if (str.startsWith('\x1b')) {
-        raw.alt = true;
-        const ch = str.slice(1);
-        raw.key = ch;
-        raw.code = codeFromKey(ch);
-        return raw;
+    const csi = CSI_PATTERN.exec(str);
+    if (csi) {
+        return decodeCsi(raw, csi[1], csi[2]);
+    }
+    const ss3 = SS3_PATTERN.exec(str);
+    if (ss3) {
+        return decodeSs3(raw, ss3[1], ss3[2]);
+    }
+    const linux = LINUX_CONSOLE_PATTERN.exec(str);
+    if (linux) {
+        return applyNamedKey(raw, LINUX_CONSOLE_KEYS[linux[1]]);
+    }
+
+    // ESC followed by a key: Alt (or Meta sending ESC) + that key
+    if (str.charCodeAt(0) === ESC) {
+        const inner = decodeSequence(str.slice(1));
+        if (!inner) return null;
+        inner.alt = true;
+        inner.sequence = str;
+        return inner;
     }
 
     return null;
 }
 
+/** Replies found in an input chunk by extractKeyboardReplies. */
+export interface KeyboardReplies {
+    /** Whether the terminal reported kitty keyboard flags. */
+    kittySupported: boolean;
+    /** Whether the device attributes reply (end of the query) arrived. */
+    queryComplete: boolean;
+    /** The input with all replies removed. */
+    rest: string;
+}
+
+/**
+ * Pull the terminal's answers to QUERY_KITTY_KEYBOARD out of an input chunk,
+ * so they are not mistaken for key presses.
+ *
+ * @param data - Raw stdin data.
+ */
+export function extractKeyboardReplies(data: Buffer | string): KeyboardReplies {
+    const replies: KeyboardReplies = { kittySupported: false, queryComplete: false, rest: '' };
+    replies.rest = data.toString().replace(KEYBOARD_REPLY_PATTERN, (match, flags: string | undefined) => {
+        if (flags !== undefined) {
+            replies.kittySupported = true;
+        } else {
+            replies.queryComplete = true;
+        }
+        return '';
+    });
+    return replies;
+}
+
+export function decodeKey(data: Buffer): RawKey | null {
+    // Debug logging for keyboard input
+    const bytes = Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' ');
+    log('decodeKey:input', { len: data.length, bytes, str: data.toString() });
+
+    return decodeSequence(data.toString());
+}
+
 export function rawKeyToPressEvent(raw: RawKey): KeyPressEvent {
     return {
         key: raw.key,
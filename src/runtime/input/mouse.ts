@@ -0,0 +1,98 @@
+import { log } from '../logger.js';
+
+/**
+ * Enable SGR (1006) mouse reporting with any-event tracking (1003),
+ * so presses, releases, drags, wheel and plain motion are all reported.
+ */
+export const ENABLE_MOUSE = '\x1b[?1000h\x1b[?1003h\x1b[?1006h';
+
+/** Disable all mouse reporting modes enabled by ENABLE_MOUSE. */
+export const DISABLE_MOUSE = '\x1b[?1006l\x1b[?1003l\x1b[?1000l';
+
+/** Kind of mouse report. */
+export type MouseAction = 'press' | 'release' | 'move' | 'wheel';
+
+export interface RawMouse {
+    action: MouseAction;
+    /** DOM button index: 0 = primary, 1 = middle, 2 = secondary, -1 = none. */
+    button: number;
+    /** Zero-based cell column. */
+    x: number;
+    /** Zero-based cell row. */
+    y: number;
+    /** Horizontal wheel direction (-1, 0 or 1). */
+    deltaX: number;
+    /** Vertical wheel direction (-1, 0 or 1). */
+    deltaY: number;
+    ctrl: boolean;
+    shift: boolean;
+    alt: boolean;
+    meta: boolean;
+    sequence: string;
+}
+
+/** Prefix of every SGR mouse report. */
+const SGR_MOUSE_PREFIX = '\x1b[<';
+
+/** SGR mouse report: ESC [ < Cb ; Cx ; Cy (M = press/motion, m = release). */
+const SGR_MOUSE_PATTERN = /\x1b\[<(\d+);(\d+);(\d+)([Mm])/g;
+
+const MODIFIER_SHIFT = 4;
+const MODIFIER_ALT = 8;
+const MODIFIER_CTRL = 16;
+const FLAG_MOTION = 32;
+const FLAG_WHEEL = 64;
+
+/**
+ * Check whether the input contains an SGR mouse report.
+ */
+export function isMouseSequence(data: Buffer | string): boolean {
+    return data.toString().includes(SGR_MOUSE_PREFIX);
+}
+
+/**
+ * Decode every SGR mouse report contained in an input chunk.
+ * Terminals may batch several motion reports into a single read.
+ *
+ * @param data - Raw stdin data.
+ * @returns Decoded reports in arrival order (empty if none).
+ */
+export function decodeMouse(data: Buffer | string): RawMouse[] {
+    const str = data.toString();
+    const events: RawMouse[] = [];
+    for (const match of str.matchAll(SGR_MOUSE_PATTERN)) {
+        const code = Number(match[1]);
+        const raw: RawMouse = {
+            action: 'press',
+            button: -1,
+            x: Math.max(0, Number(match[2]) - 1),
+            y: Math.max(0, Number(match[3]) - 1),
+            deltaX: 0,
+            deltaY: 0,
+            ctrl: (code & MODIFIER_CTRL) !== 0,
+            shift: (code & MODIFIER_SHIFT) !== 0,
+            alt: (code & MODIFIER_ALT) !== 0,
+            meta: false,
+            sequence: match[0],
+        };
+        const buttonBits = code & 3;
+
+        if (code & FLAG_WHEEL) {
+            raw.action = 'wheel';
+            // 64/65 = vertical wheel up/down, 66/67 = horizontal left/right
+            if (buttonBits === 0) raw.deltaY = -1;
+            else if (buttonBits === 1) raw.deltaY = 1;
+            else if (buttonBits === 2) raw.deltaX = -1;
+            else raw.deltaX = 1;
+        } else if (code & FLAG_MOTION) {
+            raw.action = 'move';
+            raw.button = buttonBits === 3 ? -1 : buttonBits;
+        } else {
+            raw.action = match[4] === 'm' ? 'release' : 'press';
+            raw.button = buttonBits === 3 ? -1 : buttonBits;
+        }
+        events.push(raw);
+    }
+    log('decodeMouse', { count: events.length });
+    return events;
+}
@@ -0,0 +1,193 @@
+/**
+ * Telnet (RFC 854) framing for terminals connected over a socket.
+ *
+ * Commands are interleaved with the byte stream behind IAC (0xFF). The
+ * server asks the client for character-at-a-time input without local echo
+ * (ECHO, SUPPRESS-GO-AHEAD), for its window size (NAWS, RFC 1073) and for
+ * its terminal type (TTYPE, RFC 1091); everything else is refused.
+ */
+
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+
+const OPTION_ECHO = 1;
+const OPTION_SUPPRESS_GO_AHEAD = 3;
+const OPTION_TERMINAL_TYPE = 24;
+const OPTION_WINDOW_SIZE = 31;
+
+const TTYPE_IS = 0;
+const TTYPE_SEND = 1;
+
+const CR = 13;
+const LF = 10;
+const NUL = 0;
+
+/** Longest subnegotiation kept while waiting for its end; longer ones are dropped. */
+const MAX_SUBNEGOTIATION = 512;
+
+/** Sent on connect: the server echoes, input is not line-buffered, and size and type are reported. */
+export const TELNET_HANDSHAKE = Buffer.from([
+    IAC, WILL, OPTION_ECHO,
+    IAC, WILL, OPTION_SUPPRESS_GO_AHEAD,
+    IAC, DO, OPTION_WINDOW_SIZE,
+    IAC, DO, OPTION_TERMINAL_TYPE,
+]);
+
+/** Asks a client that agreed to TTYPE for its terminal type. */
+const REQUEST_TERMINAL_TYPE = Buffer.from([IAC, SB, OPTION_TERMINAL_TYPE, TTYPE_SEND, IAC, SE]);
+
+export type TelnetEvent =
+    | { type: 'size'; columns: number; rows: number }
+    | { type: 'terminal-type'; name: string }
+    /** The client will not report its size or terminal type. */
+    | { type: 'refused'; option: 'size' | 'terminal-type' };
+
+export interface TelnetState {
+    /** Bytes of a command split across reads. */
+    pending: Buffer;
+    /** The last data byte was CR; a following NUL or LF belongs to it. */
+    afterCR: boolean;
+}
+
+export interface TelnetChunk {
+    /** Terminal input with telnet commands removed. */
+    data: Buffer;
+    events: TelnetEvent[];
+    /** Negotiation replies to send back to the client. */
+    reply: Buffer;
+}
+
+export function createTelnetState(): TelnetState {
+    return { pending: Buffer.alloc(0), afterCR: false };
+}
+
+/**
+ * Separate telnet commands from terminal input. Enter arrives as CR NUL or
+ * CR LF and is passed on as a lone CR, like a raw-mode tty sends it.
+ *
+ * @param state - Per-connection decoder state.
+ * @param chunk - Bytes read from the socket.
+ */
+export function decodeTelnet(state: TelnetState, chunk: Buffer): TelnetChunk {
+    const bytes = state.pending.length ? Buffer.concat([state.pending, chunk]) : chunk;
+    const data: number[] = [];
+    const events: TelnetEvent[] = [];
+    const reply: number[] = [];
+    let i = 0;
+
+    while (i < bytes.length) {
+        const byte = bytes[i];
+        if (byte !== IAC) {
+            if (state.afterCR && (byte === NUL || byte === LF)) {
+                state.afterCR = false;
+            } else {
+                state.afterCR = byte === CR;
+                data.push(byte);
+            }
+            i++;
+            continue;
+        }
+        if (i + 1 >= bytes.length) break;
+
+        const command = bytes[i + 1];
+        if (command === IAC) {
+            state.afterCR = false;
+            data.push(IAC);
+            i += 2;
+        } else if (command >= WILL && command <= DONT) {
+            if (i + 2 >= bytes.length) break;
+            negotiate(command, bytes[i + 2], events, reply);
+            i += 3;
+        } else if (command === SB) {
+            const end = findSubnegotiationEnd(bytes, i + 2);
+            if (end === -1) {
+                if (bytes.length - i > MAX_SUBNEGOTIATION) {
+                    i = bytes.length;
+                }
+                break;
+            }
+            subnegotiate(unescape(bytes.subarray(i + 2, end)), events);
+            i = end + 2;
+        } else {
+            // NOP, GA, AYT and the like carry nothing for us
+            i += 2;
+        }
+    }
+
+    state.pending = Buffer.from(bytes.subarray(i));
+    return { data: Buffer.from(data), events, reply: Buffer.from(reply) };
+}
+
+/**
+ * Escape IAC bytes in output so the client does not read them as commands.
+ */
+export function encodeTelnet(chunk: string | Uint8Array): Buffer {
+    const bytes = Buffer.from(chunk);
+    if (!bytes.includes(IAC)) return bytes;
+    const escaped: number[] = [];
+    for (const byte of bytes) {
+        escaped.push(byte);
+        if (byte === IAC) escaped.push(IAC);
+    }
+    return Buffer.from(escaped);
+}
+
+function negotiate(command: number, option: number, events: TelnetEvent[], reply: number[]): void {
+    if (command === WILL) {
+        if (option === OPTION_TERMINAL_TYPE) {
+            reply.push(...REQUEST_TERMINAL_TYPE);
+        } else if (option !== OPTION_WINDOW_SIZE) {
+            reply.push(IAC, DONT, option);
+        }
+    } else if (command === WONT) {
+        if (option === OPTION_WINDOW_SIZE) {
+            events.push({ type: 'refused', option: 'size' });
+        } else if (option === OPTION_TERMINAL_TYPE) {
+            events.push({ type: 'refused', option: 'terminal-type' });
+        }
+    } else if (command === DO) {
+        if (option !== OPTION_ECHO && option !== OPTION_SUPPRESS_GO_AHEAD) {
+            reply.push(IAC, WONT, option);
+        }
+    }
+    // DONT needs no answer: nothing else was offered
+}
+
+function subnegotiate(payload: Buffer, events: TelnetEvent[]): void {
+    const option = payload[0];
+    if (option === OPTION_WINDOW_SIZE && payload.length >= 5) {
+        const columns = payload.readUInt16BE(1);
+        const rows = payload.readUInt16BE(3);
+        // Some clients report 0x0 before their window is laid out
+        if (columns > 0 && rows > 0) {
+            events.push({ type: 'size', columns, rows });
+        }
+    } else if (option === OPTION_TERMINAL_TYPE && payload[1] === TTYPE_IS) {
+        events.push({ type: 'terminal-type', name: payload.subarray(2).toString('ascii') });
+    }
+}
+
+/** Index of the IAC of the IAC SE ending a subnegotiation, or -1. */
+function findSubnegotiationEnd(bytes: Buffer, start: number): number {
+    for (let i = start; i < bytes.length - 1; i++) {
+        if (bytes[i] !== IAC) continue;
+        if (bytes[i + 1] === SE) return i;
+        // IAC IAC is an escaped data byte
+        i++;
+    }
+    return -1;
+}
+
+function unescape(bytes: Buffer): Buffer {
+    const out: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        out.push(bytes[i]);
+        if (bytes[i] === IAC && bytes[i + 1] === IAC) i++;
+    }
+    return Buffer.from(out);
+}
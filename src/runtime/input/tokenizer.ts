@@ -0,0 +1,142 @@
+/**
+ * Input Tokenizer
+ *
+ * Splits raw stdin data into individual key sequences and bracketed pastes.
+ * A single read may contain many keys (fast typing, piped input, key repeat)
+ * or end in the middle of an escape sequence; incomplete sequences are
+ * returned as `rest` so they can be completed by the next read.
+ */
+
+/** Ask the terminal to wrap pasted text in PASTE_START/PASTE_END markers. */
+export const ENABLE_BRACKETED_PASTE = '\x1b[?2004h';
+
+/** Disable bracketed paste mode. */
+export const DISABLE_BRACKETED_PASTE = '\x1b[?2004l';
+
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+const ESC = '\x1b';
+
+/** A unit of terminal input. */
+export type InputToken =
+    | { type: 'key'; sequence: string }
+    | { type: 'paste'; text: string };
+
+export interface TokenizeResult {
+    /** Complete tokens, in arrival order. */
+    tokens: InputToken[];
+    /** Trailing input that does not form a complete token yet. */
+    rest: string;
+}
+
+/**
+ * Find the end of a CSI sequence starting at `start` (pointing at ESC).
+ * CSI = ESC [ parameter bytes (0x30-0x3F), intermediate bytes (0x20-0x2F),
+ * final byte (0x40-0x7E).
+ *
+ * @returns Index after the sequence, or -1 if the input ends first.
+ */
+function readCsi(input: string, start: number): number {
+    let i = start + 2;
+    // Linux console function keys: ESC [ [ A-E
+    if (input[i] === '[') {
+        return i + 1 < input.length ? i + 2 : -1;
+    }
+    while (i < input.length) {
+        const code = input.charCodeAt(i);
+        if (code >= 0x40 && code <= 0x7e) {
+            return i + 1;
+        }
+        if (code < 0x20 || code > 0x3f) {
+            // Not a valid CSI byte: end the sequence here so the byte is
+            // decoded on its own rather than swallowed
+            return i;
+        }
+        i++;
+    }
+    return -1;
+}
+
+/**
+ * Find the end of an SS3 sequence: ESC O [modifier digits] final.
+ */
+function readSs3(input: string, start: number): number {
+    let i = start + 2;
+    while (i < input.length && input[i] >= '0' && input[i] <= '9') {
+        i++;
+    }
+    return i < input.length ? i + 1 : -1;
+}
+
+/**
+ * Find the end of the key sequence starting at `start`.
+ *
+ * @returns Index after the sequence, or -1 if it is incomplete.
+ */
+function readKey(input: string, start: number): number {
+    if (input[start] !== ESC) {
+        if (input[start] === '\r' && input[start + 1] === '\n') {
+            return start + 2;
+        }
+        const codePoint = input.codePointAt(start)!;
+        return start + (codePoint > 0xffff ? 2 : 1);
+    }
+    // A lone ESC at the end of a read is the Escape key: terminals write
+    // escape sequences in one piece, so waiting for more would only add lag
+    if (start + 1 >= input.length) {
+        return start + 1;
+    }
+    const next = input[start + 1];
+    if (next === '[') {
+        return readCsi(input, start);
+    }
+    if (next === 'O') {
+        return readSs3(input, start);
+    }
+    // Alt + key, including ESC-prefixed escape sequences (Alt+ArrowUp)
+    return readKey(input, start + 1);
+}
+
+/**
+ * Split input into key sequences and bracketed pastes.
+ * A paste marker split across reads is an incomplete CSI sequence, so it
+ * stays in `rest` until the next read completes it.
+ *
+ * @param input - Pending input from previous reads followed by the new data.
+ * @param final - Treat incomplete escape sequences as complete keys (used
+ *   when no more data arrived for them). Unterminated pastes stay pending.
+ */
+export function tokenizeInput(input: string, final = false): TokenizeResult {
+    const tokens: InputToken[] = [];
+    let i = 0;
+    while (i < input.length) {
+        if (input.startsWith(PASTE_START, i)) {
+            const end = input.indexOf(PASTE_END, i + PASTE_START.length);
+            if (end === -1) {
+                return { tokens, rest: input.slice(i) };
+            }
+            tokens.push({ type: 'paste', text: input.slice(i + PASTE_START.length, end) });
+            i = end + PASTE_END.length;
+            continue;
+        }
+        const end = readKey(input, i);
+        if (end === -1) {
+            if (!final) {
+                return { tokens, rest: input.slice(i) };
+            }
+            tokens.push({ type: 'key', sequence: input.slice(i) });
+            break;
+        }
+        tokens.push({ type: 'key', sequence: input.slice(i, end) });
+        i = end;
+    }
+    return { tokens, rest: '' };
+}
+
+/**
+ * Check whether pending input is an unterminated paste, which may legitimately
+ * span many reads and should not be flushed on a timeout.
+ */
+export function isPendingPaste(rest: string): boolean {
+    return rest.startsWith(PASTE_START);
+}
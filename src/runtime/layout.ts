@@ -14,6 +14,14 @@ import { getListNestingLevel } from './render/list.js';
 import { LAYOUT_DEFAULTS } from './style/defaults.js';
 import { getTableDimensions } from './render/table.js';
 import { isCalcValue, type CalcContext } from './style/calc.js';
+import { updateCssAnimations } from './animation/css-animations.js';
+import {
+    establishesInlineFormattingContext,
+    layoutInlineFlow,
+    releaseInlineFlow,
+    syncInlineFlow,
+} from './render/inline.js';
+import { getSvgDefaultSize } from './render/svg.js';
 
 interface EdgeInsets {
     top: number;
@@ -62,11 +70,23 @@ function shouldHideDetailsChild(node: CliNode): boolean {
 
 /**
  * Apply flexbox styles to a Yoga node
+ *
+ * @param outOfFlow - The node is laid out or drawn by an ancestor rather than
+ * by Yoga: content of an inline formatting context, or shapes inside an `<svg>`.
  */
-export function applyStylesToYoga(node: CliNode): void {
+export function applyStylesToYoga(node: CliNode, outOfFlow: boolean = false): void {
+    if (outOfFlow) {
+        releaseInlineFlow(node);
+        node.yogaNode.setDisplay(Yoga.DISPLAY_NONE);
+        for (const child of getNodeChildren(node)) {
+            applyStylesToYoga(child, true);
+        }
+        return;
+    }
+
     const cssStyle = (node.__cssStyle ?? {}) as Style;
     const inlineStyle = (node.style ?? {}) as Style;
-    const style: Style = { ...cssStyle, ...inlineStyle };
+    const style: Style = { ...cssStyle, ...inlineStyle, ...node.__animatedStyle };
     const tagName = getNodeTag(node);
     const inputType = getInputType(node);
     const isTextControl = tagName === 'input' || tagName === 'select' || tagName === 'textarea';
@@ -79,6 +99,7 @@ export function applyStylesToYoga(node: CliNode): void {
     const isProgress = tagName === 'progress';
     const isTableEl = tagName === 'table';
     const isTablePart = ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'].includes(tagName);
+    const isSvg = tagName === 'svg';
 
     // Form controls get default borders if not explicitly set
     if (isFormControl && style.borderStyle === undefined) {
@@ -98,6 +119,13 @@ export function applyStylesToYoga(node: CliNode): void {
         }
     }
 
+    if (isSvg && (style.width === undefined || style.height === undefined)) {
+        const explicitWidth = typeof style.width === 'number' ? style.width : undefined;
+        const size = getSvgDefaultSize(node, explicitWidth);
+        style.width ??= size.width;
+        style.height ??= size.height;
+    }
+
     if (isTextControl && style.height === undefined) {
         if (tagName === 'input' && (inputType === 'checkbox' || inputType === 'radio')) {
             style.height = 1 + borderHeight;
@@ -389,9 +417,13 @@ export function applyStylesToYoga(node: CliNode): void {
         yogaNode.setGap(Yoga.GUTTER_COLUMN, columnGapValue);
     }
 
-    // Recursively apply to children
+    // Text mixed with inline elements is laid out as one paragraph
+    const inlineFlow = desiredDisplay !== Yoga.DISPLAY_NONE && establishesInlineFormattingContext(node);
+    syncInlineFlow(node, inlineFlow);
+
+    // Recursively apply to children; SVG shapes are rasterized with their <svg>
     for (const child of getNodeChildren(node)) {
-        applyStylesToYoga(child);
+        applyStylesToYoga(child, inlineFlow || isSvg);
     }
 }
 
@@ -411,6 +443,7 @@ export function computeLayout(
     };
     
     hydrateStylesheetStyles(root);
+    updateCssAnimations(root);
     applyStylesToYoga(root);
 
     // Calculate layout
@@ -426,14 +459,23 @@ export function computeLayout(
  */
 function extractComputedLayout(node: CliNode): void {
     const layout = node.yogaNode.getComputedLayout();
+    // Animated translations move the node (and its subtree) without
+    // affecting the layout of its siblings, like a CSS transform
+    const translate = node.__translate;
 
     node.computedLayout = {
-        left: layout.left,
-        top: layout.top,
+        left: layout.left + (translate?.x ?? 0),
+        top: layout.top + (translate?.y ?? 0),
         width: layout.width,
         height: layout.height,
     };
 
+    // Paragraph content is positioned by its lines, not by Yoga
+    if (node.__inlineFlow) {
+        layoutInlineFlow(node);
+        return;
+    }
+
     // Recursively extract for children
     for (const child of getNodeChildren(node)) {
         extractComputedLayout(child);
@@ -581,6 +623,10 @@ function resolveAnchorOffset(node: CliNode): number {
 }
 
 function getStyleValue(node: CliNode, key: keyof FlexStyle): unknown {
+    const animated = (node.__animatedStyle as FlexStyle | undefined)?.[key];
+    if (animated !== undefined) {
+        return animated;
+    }
     const inline = (node.style as FlexStyle | undefined)?.[key];
     if (inline !== undefined) {
         return inline;
@@ -0,0 +1,95 @@
+/**
+ * Hyperlinks
+ *
+ * Text inside `<a href>` is written with OSC 8 hyperlink sequences, so
+ * terminals that support them make it clickable. Activating a link from
+ * the keyboard (Enter) or with a mouse click opens `http(s)` and `file`
+ * URLs through the mount's link opener, unless a click handler calls
+ * `preventDefault()`.
+ */
+
+import { spawn } from 'node:child_process';
+import type { CliNode } from './types.js';
+import { getNodeTag } from './utils/node.js';
+import { getLinkOpener } from './focus.js';
+import { log } from './logger.js';
+
+/** Opens a URL on behalf of an activated link. */
+export type LinkOpener = (url: string) => void;
+
+/** Schemes opened on activation; other links are only clickable in the terminal. */
+const OPENABLE_PROTOCOLS = new Set(['http:', 'https:', 'file:']);
+
+/**
+ * The absolute URL an element links to, or undefined when it is not an
+ * `<a>` with an absolute `href`. Relative and fragment links have no
+ * meaning to the terminal.
+ */
+export function getLinkHref(node: CliNode): string | undefined {
+    if (getNodeTag(node) !== 'a') return undefined;
+    const href = node.__attributes?.href?.trim();
+    if (!href) return undefined;
+    try {
+        return new URL(href).href;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Whether activating a link to this URL opens it.
+ */
+export function isOpenableUrl(url: string): boolean {
+    try {
+        return OPENABLE_PROTOCOLS.has(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Start an OSC 8 hyperlink. Anything outside printable ASCII is
+ * percent-encoded so the URL cannot end the sequence early.
+ */
+export function hyperlinkStart(url: string): string {
+    const safe = url.replace(/[^\x21-\x7e]/g, char => encodeURIComponent(char));
+    return `\x1b]8;;${safe}\x1b\\`;
+}
+
+/** End the current OSC 8 hyperlink. */
+export const HYPERLINK_END = '\x1b]8;;\x1b\\';
+
+/**
+ * Open a URL with the platform's default handler
+ * (`open` on macOS, `xdg-open` elsewhere). The URL is passed as an argument,
+ * never through a shell.
+ */
+export const defaultLinkOpener: LinkOpener = (url) => {
+    const command = process.platform === 'darwin' ? 'open' : 'xdg-open';
+    try {
+        const child = spawn(command, [url], { detached: true, stdio: 'ignore' });
+        child.on('error', error => log('links:open:error', { url, error: String(error) }));
+        child.unref();
+    } catch (error) {
+        log('links:open:error', { url, error: String(error) });
+    }
+};
+
+/**
+ * Default action of a click: open the link the target is in, if any.
+ *
+ * @returns Whether a link was opened.
+ */
+export function activateLink(node: CliNode): boolean {
+    let current: CliNode | null = node;
+    while (current && getNodeTag(current) !== 'a') {
+        current = current.parent;
+    }
+    if (!current) return false;
+    const url = getLinkHref(current);
+    const opener = getLinkOpener();
+    if (!url || !opener || !isOpenableUrl(url)) return false;
+    log('links:open', { url });
+    opener(url);
+    return true;
+}
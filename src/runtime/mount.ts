@@ -4,25 +4,77 @@
  */
 
 import { ensureDomGlobals, ensureRuntimeReady } from './dom/setup.js';
-import { create_root, set_style, computeLayout, renderToString, free_node } from './index.js';
-import type { AppInstance, CliNode, MountOptions, RootNode } from './types.js';
-import { effect_root, flush } from 'svelte/internal/client';
+import { create_root, set_style, computeLayout, renderToString, free_node, detach } from './index.js';
+import type { AppInstance, CliNode, MountOptions, RootNode, StaticRenderOptions } from './types.js';
+import type { RenderOptions } from './render.js';
+import { boundary, effect_root, flush } from 'svelte/internal/client';
 import {
     createFocusController,
     dispatchKey,
+    dispatchKeyUp,
+    dispatchPaste,
     ensureDefaultFocus,
+    getFocused,
+    getSelectedText,
     setRenderScheduler,
+    setLinkOpener,
+    setClipboardWriter,
     withFocusController,
 } from './focus.js';
-import { decodeKey } from './input/keyboard.js';
+import {
+    decodeKey,
+    extractKeyboardReplies,
+    QUERY_KITTY_KEYBOARD,
+    PUSH_KITTY_KEYBOARD,
+    POP_KITTY_KEYBOARD,
+    type RawKey,
+} from './input/keyboard.js';
+import { decodeMouse, isMouseSequence, ENABLE_MOUSE, DISABLE_MOUSE } from './input/mouse.js';
+import {
+    tokenizeInput,
+    isPendingPaste,
+    ENABLE_BRACKETED_PASTE,
+    DISABLE_BRACKETED_PASTE,
+} from './input/tokenizer.js';
+import type { InputToken } from './input/tokenizer.js';
+import { createPointerState, dispatchMouse } from './pointer.js';
+import { invalidateFrame, leaveInlineRegion } from './render/pipeline/diff.js';
+import { window } from './dom/document.js';
+import { ANSI } from './style/colors.js';
+import { detectColorDepth, withColorDepth } from './style/color-depth.js';
+import type { ColorDepth } from './style/color-depth.js';
 import { snapshotTree, publishSnapshot } from './devtools.js';
 import { ensureBaseStyles } from './style/stylesheet.js';
+import { detectColorScheme, setMediaEnvironment, withMediaEnvironment } from './style/media.js';
+import type { MediaEnvironment } from './style/media.js';
+import { detectGraphicsCapabilities, withoutGraphics } from './render/graphics.js';
+import { defaultLinkOpener, type LinkOpener } from './links.js';
+import { clipboardSequence } from './clipboard.js';
 import { log } from './logger.js';
+import { cancelAllFrames } from './animation/frames.js';
+import { getErrorOverlay, setErrorOverlay, type ErrorOverlay } from './render/error-overlay.js';
+import { applyHotUpdate } from './hot.js';
+import { formatCodeFrame, mapStackTrace } from './source-map.js';
+import {
+    bindRuntimeState,
+    createRuntimeState,
+    getActiveRuntimeState,
+    getNodeRuntimeState,
+    withRuntimeState,
+} from './runtime-state.js';
 import { Component } from 'svelte';
+import { constants as osConstants } from 'os';
+import { StringDecoder } from 'string_decoder';
 
 ensureDomGlobals();
 const runtimeReady = ensureRuntimeReady();
 let currentContext: MountContext | null = null;
+/** How long an incomplete escape sequence may wait for the rest of its bytes. */
+const ESCAPE_SEQUENCE_TIMEOUT = 50;
+/** Renders scheduled from one another are followed at most this many times by `settle()`. */
+const MAX_SETTLE_ROUNDS = 50;
+/** Tallest output `renderStatic` produces. */
+const MAX_STATIC_ROWS = 1000;
 const activeContexts = new Set<MountContext>();
 
 function registerMountContext(ctx: MountContext): void {
@@ -36,6 +88,65 @@ function unregisterMountContext(ctx: MountContext): void {
         const next = activeContexts.values().next().value ?? null;
         currentContext = next ?? null;
     }
+    if (![...activeContexts].some(active => active.hooksProcess)) {
+        removeProcessHandlers();
+    }
+    if (activeContexts.size === 0) {
+        // Nothing left to draw; don't keep the process alive for animations
+        cancelAllFrames();
+        setMediaEnvironment(null);
+    }
+}
+
+/** Signals after which the terminal is restored before the process exits. */
+const TERMINATION_SIGNALS: NodeJS.Signals[] = ['SIGTERM', 'SIGHUP'];
+let processHandlersInstalled = false;
+
+/**
+ * Restore every mounted terminal. Used when the process goes down without
+ * the apps being unmounted, so the user is not left on the alternate screen
+ * with a hidden cursor and a raw-mode tty.
+ */
+function restoreAllTerminals(): void {
+    for (const ctx of activeContexts) {
+        ctx.restoreTerminal();
+    }
+}
+
+function handleUncaughtException(error: unknown): void {
+    log('process:uncaughtException', { error: String(error) });
+    restoreAllTerminals();
+    removeProcessHandlers();
+    // Match Node's default behavior now that the terminal is usable again
+    console.error(error);
+    process.exit(1);
+}
+
+function handleTerminationSignal(signal: NodeJS.Signals): void {
+    log('process:signal', { signal });
+    restoreAllTerminals();
+    removeProcessHandlers();
+    process.exit(128 + (osConstants.signals[signal] ?? 0));
+}
+
+function installProcessHandlers(): void {
+    if (processHandlersInstalled) return;
+    processHandlersInstalled = true;
+    process.on('exit', restoreAllTerminals);
+    process.on('uncaughtException', handleUncaughtException);
+    for (const signal of TERMINATION_SIGNALS) {
+        process.on(signal, handleTerminationSignal);
+    }
+}
+
+function removeProcessHandlers(): void {
+    if (!processHandlersInstalled) return;
+    processHandlersInstalled = false;
+    process.off('exit', restoreAllTerminals);
+    process.off('uncaughtException', handleUncaughtException);
+    for (const signal of TERMINATION_SIGNALS) {
+        process.off(signal, handleTerminationSignal);
+    }
 }
 
 class MountContext {
@@ -49,9 +160,49 @@ class MountContext {
     clearOnExit: boolean;
     debug: boolean;
     exitOnCtrlC: boolean;
+    mouse: boolean;
+    altScreen: boolean;
+    /** Draw below the cursor, sized to the content, instead of full-screen. */
+    inline: boolean;
+    colorDepth: ColorDepth;
+    kittyKeyboard: boolean;
+    openLink: LinkOpener | null;
+    /** Use terminal graphics protocols for images. */
+    graphics: boolean;
+    onExit: (() => void) | null;
+    /**
+     * Restore the terminal from process-wide exit, signal and crash handlers.
+     * Every mount on a terminal needs it, as it hides the cursor and may
+     * turn on raw mode, bracketed paste, mouse reports and the kitty
+     * keyboard protocol; mounts given `onExit` (e.g. serve sessions) are not
+     * on the process's own tty and must not end it.
+     */
+    hooksProcess: boolean;
+    /**
+     * Keyboard protocol negotiation: 'pending' while waiting for the terminal
+     * to answer the kitty keyboard query, 'kitty' once enhancement flags are
+     * pushed, 'legacy' otherwise.
+     */
+    keyboardProtocol: 'legacy' | 'pending' | 'kitty' = 'legacy';
+    /** Input that ended mid-sequence, waiting for the next read. */
+    pendingInput = '';
+    /** Holds the bytes of a UTF-8 character split across reads. */
+    private stdinDecoder = new StringDecoder('utf8');
+    inputFlushTimer: NodeJS.Timeout | null = null;
     props: Record<string, any>;
     Component: Component;
+    /**
+     * Set while the error overlay reports an error from rendering the app;
+     * `retry` renders it again.
+     */
+    runtimeError: { error: unknown; retry: () => void } | null = null;
     private focusController = createFocusController();
+    private destroyComponent: (() => void) | null = null;
+    /** Root drawn instead of the app's while the app's frame cannot be drawn. */
+    private errorRoot: RootNode | null = null;
+    readonly runtimeState = createRuntimeState();
+    private pointerState = createPointerState();
+    private terminalRestored = false;
 
     constructor(Component: Component, options: MountOptions) {
         ensureBaseStyles();
@@ -62,21 +213,45 @@ class MountContext {
             exitOnCtrlC = true,
             clearOnExit = true,
             debug = false,
+            mouse = false,
+            altScreen = false,
+            inline = false,
+            colorDepth = detectColorDepth(),
+            kittyKeyboard = true,
+            openLink = defaultLinkOpener,
+            graphics = true,
+            onExit,
         } = options;
         this.Component = Component;
         this.props = props;
+        bindRuntimeState(this.root, this.runtimeState);
         this.stdout = stdout;
         this.stdin = stdin;
         this.clearOnExit = clearOnExit;
         this.debug = debug;
         this.exitOnCtrlC = exitOnCtrlC;
+        this.altScreen = altScreen;
+        this.inline = inline && !altScreen;
+        // Pointer coordinates cannot be mapped without knowing where the region starts
+        this.mouse = mouse && !this.inline;
+        this.colorDepth = colorDepth;
+        this.kittyKeyboard = kittyKeyboard;
+        this.openLink = openLink || null;
+        // Graphics need to know where an image lands on screen
+        this.graphics = graphics && !this.inline;
+        this.onExit = onExit ?? null;
+        this.hooksProcess = !onExit && (altScreen || Boolean(stdout.isTTY));
         this.exitPromise = new Promise(resolve => {
             this.exitResolve = resolve;
         });
     }
 
-    private runWithFocus<T>(fn: () => T): T {
-        return withFocusController(this.focusController, fn);
+    /**
+     * Run with this mount's focus controller and runtime state (dialogs,
+     * popovers, top layer, images) active.
+     */
+    runWithFocus<T>(fn: () => T): T {
+        return withRuntimeState(this.runtimeState, () => withFocusController(this.focusController, fn));
     }
 
     async start(): Promise<void> {
@@ -85,15 +260,22 @@ class MountContext {
         }
         this.runWithFocus(() => {
         setRenderScheduler(() => this.scheduleRender());
+        setLinkOpener(this.openLink);
+        setClipboardWriter(text => this.stdout.write(clipboardSequence(text)));
         });
+        if (this.hooksProcess) {
+            installProcessHandlers();
+        }
+        if (this.altScreen) {
+            this.stdout.write(ANSI.ENTER_ALT_SCREEN);
+        }
         this.attachInput();
+        this.syncViewport();
+        this.attachResize();
         try {
             await runtimeReady;
             this.runWithFocus(() => {
-            effect_root(() => {
-                // Cast root to satisfy Svelte's internal type expectations
-                this.Component(this.root as never, this.props);
-                });
+                this.mountComponent();
                 flush();
             });
             await Promise.resolve();
@@ -107,6 +289,91 @@ class MountContext {
         }
     }
 
+    private mountComponent(): void {
+        this.destroyComponent = effect_root(() => {
+            // Errors no <svelte:boundary> in the app handles end up here
+            const onerror = (error: unknown, reset: () => void) => {
+                this.showRuntimeError(error, () =>
+                    this.runWithFocus(() => {
+                        reset();
+                        flush();
+                    })
+                );
+            };
+            boundary(this.root, { onerror }, (anchor: RootNode) => {
+                // Cast root to satisfy Svelte's internal type expectations
+                this.Component(anchor as never, this.props);
+            });
+        });
+    }
+
+    /**
+     * Destroy the component tree and mount the component again, e.g. after
+     * hot reload could not swap a changed component in place. State is lost.
+     */
+    remount(): void {
+        if (this.isUnmounted) return;
+        this.runWithFocus(() => {
+            this.destroyComponent?.();
+            for (const child of [...(this.root.children ?? [])]) {
+                detach(child);
+                free_node(child);
+            }
+            this.mountComponent();
+            flush();
+        });
+        this.scheduleRender();
+    }
+
+    /**
+     * Draw an error panel over the app until it is replaced or cleared
+     * with null.
+     */
+    showErrorOverlay(overlay: ErrorOverlay | null): void {
+        this.runtimeError = null;
+        this.runWithFocus(() => setErrorOverlay(overlay));
+        this.scheduleRender();
+    }
+
+    /**
+     * Report an error from rendering the app in the error overlay. Until it
+     * is dismissed, keys go to the overlay: Escape dismisses it, r or Enter
+     * calls `retry` and q exits.
+     */
+    private showRuntimeError(error: unknown, retry: () => void): void {
+        log('render:error', { error: String(error) });
+        this.showErrorOverlay(describeRuntimeError('Runtime error', error));
+        this.runtimeError = { error, retry };
+    }
+
+    /**
+     * Handle a key pressed while a runtime error is shown. Other keys are
+     * dropped: the app underneath is not in a state to receive them.
+     */
+    private handleErrorKey(raw: RawKey): void {
+        const { retry } = this.runtimeError!;
+        if (raw.escape) {
+            this.showErrorOverlay(null);
+        } else if (raw.enter || (raw.key === 'r' && !raw.ctrl && !raw.alt)) {
+            this.showErrorOverlay(null);
+            retry();
+        } else if (raw.key === 'q' && !raw.ctrl && !raw.alt) {
+            this.exit(1);
+        }
+    }
+
+    /**
+     * Unmount and end the app, through `onExit` when given.
+     */
+    private exit(code: number): void {
+        this.unmount();
+        if (this.onExit) {
+            this.onExit();
+        } else {
+            process.exit(code);
+        }
+    }
+
     attachInput(): void {
         if (!this.stdin) return;
         if (!this.exitOnCtrlC) return;
@@ -116,6 +383,15 @@ class MountContext {
         } catch {
             // stdin may not support raw mode
         }
+        this.stdout.write(ENABLE_BRACKETED_PASTE);
+        if (this.mouse) {
+            this.stdout.write(ENABLE_MOUSE);
+        }
+        // Only a terminal answers the query; from a pipe the reply would never come
+        if (this.kittyKeyboard && this.stdin.isTTY) {
+            this.keyboardProtocol = 'pending';
+            this.stdout.write(QUERY_KITTY_KEYBOARD);
+        }
     }
 
     detachInput(): void {
@@ -126,16 +402,163 @@ class MountContext {
         } catch {
             // ignore
         }
+        if (this.inputFlushTimer) {
+            clearTimeout(this.inputFlushTimer);
+            this.inputFlushTimer = null;
+        }
+        this.pendingInput = '';
+        this.stdinDecoder.end();
+        this.stdout.write(DISABLE_BRACKETED_PASTE);
+        if (this.mouse) {
+            this.stdout.write(DISABLE_MOUSE);
+        }
+        if (this.keyboardProtocol === 'kitty') {
+            this.stdout.write(POP_KITTY_KEYBOARD);
+        }
+        this.keyboardProtocol = 'legacy';
+    }
+
+    /**
+     * Return the terminal to its pre-mount state: input detached, raw mode
+     * off, cursor visible and, with `altScreen`, the main screen buffer
+     * restored. Idempotent, so it is safe to call from crash handlers.
+     */
+    restoreTerminal(): void {
+        if (this.terminalRestored) return;
+        this.terminalRestored = true;
+        this.detachInput();
+        if (this.inline) {
+            this.stdout.write(leaveInlineRegion(this.root));
+        }
+        this.stdout.write(ANSI.SHOW_CURSOR);
+        if (this.altScreen) {
+            this.stdout.write(ANSI.EXIT_ALT_SCREEN);
+        }
+    }
+
+    attachResize(): void {
+        if (typeof this.stdout.on !== 'function') return;
+        this.stdout.on('resize', this.handleResize);
     }
 
+    detachResize(): void {
+        if (typeof this.stdout.off !== 'function') return;
+        this.stdout.off('resize', this.handleResize);
+    }
+
+    /**
+     * Mirror the terminal size onto the DOM window so `innerWidth`/`innerHeight`
+     * report columns and rows. happy-dom dispatches `resize` on `window`
+     * whenever the viewport actually changes. `matchMedia()` lists are
+     * re-evaluated against the new size and fire `change` as needed.
+     */
+    syncViewport(): void {
+        const columns = this.stdout.columns || 80;
+        const rows = this.stdout.rows || 24;
+        window.happyDOM?.setViewport({ width: columns, height: rows });
+        setMediaEnvironment(this.mediaEnvironment());
+    }
+
+    /**
+     * The terminal properties `@media` rules are evaluated against.
+     */
+    mediaEnvironment(): MediaEnvironment {
+        return {
+            width: this.stdout.columns || 80,
+            height: this.stdout.rows || 24,
+            colorDepth: this.colorDepth,
+            colorScheme: detectColorScheme(),
+            graphics: this.graphics ? detectGraphicsCapabilities().protocol : 'none',
+        };
+    }
+
+    /**
+     * Handle a terminal resize (SIGWINCH).
+     * The terminal may have reflowed or cleared the previous output, so the
+     * cached frame is dropped and the next render is a full redraw.
+     */
+    handleResize = (): void => {
+        if (this.isUnmounted) return;
+        log('resize', { columns: this.stdout.columns, rows: this.stdout.rows });
+        invalidateFrame(this.root);
+        this.runWithFocus(() => {
+            this.syncViewport();
+        });
+        if (this.rafId) {
+            clearTimeout(this.rafId);
+            this.rafId = null;
+        }
+        this.render();
+    };
+
     handleStdinData = (data: Buffer): void => {
+        let input = this.stdinDecoder.write(data);
+        if (this.keyboardProtocol === 'pending') {
+            const replies = extractKeyboardReplies(input);
+            if (replies.kittySupported) {
+                this.keyboardProtocol = 'kitty';
+                this.stdout.write(PUSH_KITTY_KEYBOARD);
+            } else if (replies.queryComplete) {
+                this.keyboardProtocol = 'legacy';
+            }
+            log('keyboard:negotiate', { protocol: this.keyboardProtocol });
+            input = replies.rest;
+        }
+        if (this.inputFlushTimer) {
+            clearTimeout(this.inputFlushTimer);
+            this.inputFlushTimer = null;
+        }
+        const { tokens, rest } = tokenizeInput(this.pendingInput + input);
+        this.pendingInput = rest;
+        // Pastes may span many reads; only partial escape sequences time out
+        if (rest && !isPendingPaste(rest)) {
+            this.inputFlushTimer = setTimeout(this.flushPendingInput, ESCAPE_SEQUENCE_TIMEOUT);
+        }
+        this.handleInputTokens(tokens);
+    };
+
+    /**
+     * Decode input left incomplete for too long as-is (e.g. Alt+[ arrives as
+     * the start of a CSI sequence that never completes).
+     */
+    flushPendingInput = (): void => {
+        this.inputFlushTimer = null;
+        const { tokens } = tokenizeInput(this.pendingInput, true);
+        this.pendingInput = '';
+        this.handleInputTokens(tokens);
+    };
+
+    handleInputTokens(tokens: InputToken[]): void {
+        for (const token of tokens) {
+            if (this.isUnmounted) return;
+            if (token.type === 'paste') {
+                this.handlePaste(token.text);
+            } else if (this.mouse && isMouseSequence(token.sequence)) {
+                this.handleMouseData(token.sequence);
+            } else {
+                this.handleKey(token.sequence);
+            }
+        }
+    }
+
+    handleKey(sequence: string): void {
         this.runWithFocus(() => {
-        const raw = decodeKey(data);
+        const raw = decodeKey(Buffer.from(sequence));
         if (!raw) return;
 
-        if (raw.ctrl && raw.key.toLowerCase() === 'c') {
-            this.unmount();
-            process.exit(0);
+        if (raw.release) {
+            dispatchKeyUp(raw);
+            return;
+        }
+
+        // Ctrl+C copies while text is selected, and exits otherwise
+        if (this.exitOnCtrlC && raw.ctrl && raw.key.toLowerCase() === 'c' && !getSelectedText(getFocused())) {
+            this.exit(0);
+            return;
+        }
+
+        if (this.runtimeError) {
+            this.handleErrorKey(raw);
             return;
         }
 
@@ -146,7 +569,44 @@ class MountContext {
         ensureDefaultFocus();
         dispatchKey(raw);
         });
-    };
+    }
+
+    /**
+     * Deliver a bracketed paste to the focused element as one edit.
+     */
+    handlePaste(text: string): void {
+        this.runWithFocus(() => {
+            ensureDefaultFocus();
+            dispatchPaste(text);
+        });
+    }
+
+    /**
+     * Dispatch SGR mouse reports against the layout of the last rendered frame.
+     */
+    handleMouseData(data: Buffer | string): void {
+        this.runWithFocus(() => {
+            let changed = false;
+            for (const raw of decodeMouse(data)) {
+                changed = dispatchMouse(this.pointerState, raw) || changed;
+            }
+            if (changed) {
+                this.scheduleRender();
+            }
+        });
+    }
+
+    /**
+     * Wait until no render is pending. Renders that effects, image loads or
+     * animations schedule from one another are followed, up to
+     * MAX_SETTLE_ROUNDS times.
+     */
+    async settle(): Promise<void> {
+        for (let round = 0; round < MAX_SETTLE_ROUNDS; round++) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            if (this.isUnmounted || !this.rafId) return;
+        }
+    }
 
     scheduleRender = (): void => {
         if (this.isUnmounted) return;
@@ -158,41 +618,114 @@ class MountContext {
 
     render = (): void => {
         if (this.isUnmounted) return;
+        this.rafId = null;
         log('render:enter');
         this.runWithFocus(() => {
         try {
-                log('render:beforeFlush');
-                flush();
-                log('render:afterFlush');
-                
-            const columns = this.stdout.columns || 80;
-            const rows = this.stdout.rows || 24;
-            set_style(this.root, { width: columns, height: rows });
-
-            if (this.debug) {
-                const snapshot = snapshotTree(this.root, { includeLayout: true });
-                publishSnapshot(snapshot);
-                log('render:treeStructure');
-                logTree(this.root, 0);
+            if (this.errorRoot) {
+                // The screen shows the error frame; redraw all of it
+                invalidateFrame(this.root);
             }
-
-            log('render:beforeComputeLayout');
-            computeLayout(this.root, columns, rows);
-            log('render:afterComputeLayout');
-            log('render:beforeRenderToString');
-            const { output } = renderToString(this.root, {});
-            log('render:afterRenderToString');
+            const output = this.renderFrame({ inline: this.inline });
             this.stdout.write(output);
+            this.discardErrorRoot();
             log('render:exit');
         } catch (error) {
             log('render:error', { error: String(error) });
-            if (this.debug) {
-            log('render:error', { error: String(error) });
-            }
+            // Shown without scheduling a render, which would fail the same way
+            this.runtimeError = { error, retry: () => this.scheduleRender() };
+            setErrorOverlay(describeRuntimeError('Render error', error));
+            this.writeErrorFrame();
         }
         });
     };
 
+    /**
+     * Draw just the error overlay, for when the app's frame cannot be drawn.
+     * Inline apps keep their last frame, as their region cannot be redrawn
+     * from another root, and get the error written below it instead.
+     */
+    private writeErrorFrame(): void {
+        try {
+            if (this.inline) {
+                this.writeInlineError();
+                return;
+            }
+            const columns = this.stdout.columns || 80;
+            const rows = this.stdout.rows || 24;
+            this.errorRoot ??= create_root();
+            set_style(this.errorRoot, { width: columns, height: rows });
+            computeLayout(this.errorRoot, columns, rows);
+            const root = this.errorRoot;
+            this.stdout.write(withColorDepth(this.colorDepth, () => renderToString(root).output));
+        } catch (error) {
+            log('render:error', { error: String(error) });
+        }
+    }
+
+    /**
+     * Write the error overlay's text as lines below an inline app's region.
+     * The next frame starts a new region under them.
+     */
+    private writeInlineError(): void {
+        const overlay = getErrorOverlay();
+        if (!overlay) return;
+        const lines = [`${overlay.title}: ${overlay.message}`, ...(overlay.details ?? [])];
+        if (overlay.hint) {
+            lines.push('', overlay.hint);
+        }
+        // Raw mode leaves line feeds without a carriage return
+        const text = lines.join('\n').split('\n').join('\r\n');
+        this.stdout.write(leaveInlineRegion(this.root) + text + '\r\n');
+    }
+
+    private discardErrorRoot(): void {
+        if (!this.errorRoot) return;
+        free_node(this.errorRoot);
+        this.errorRoot = null;
+    }
+
+    /**
+     * Flush pending updates, lay the tree out against this mount's terminal
+     * and serialize it. Inline and static frames are as tall as their
+     * content, up to the terminal height.
+     */
+    renderFrame(options: RenderOptions): string {
+        log('render:beforeFlush');
+        flush();
+        log('render:afterFlush');
+
+        const columns = this.stdout.columns || 80;
+        const rows = this.stdout.rows || 24;
+        const contentHeight = options.inline || options.static;
+        if (contentHeight) {
+            // Content decides the height; rows scrolled off screen can't be redrawn
+            set_style(this.root, { width: columns, maxHeight: rows });
+        } else {
+            set_style(this.root, { width: columns, height: rows });
+        }
+
+        if (this.debug) {
+            const snapshot = snapshotTree(this.root, { includeLayout: true });
+            publishSnapshot(snapshot);
+            log('render:treeStructure');
+            logTree(this.root, 0);
+        }
+
+        log('render:beforeComputeLayout');
+        // Several mounts may share the process; each lays out against its own terminal
+        const media = this.mediaEnvironment();
+        withMediaEnvironment(media, () => computeLayout(this.root, columns, rows));
+        log('render:afterComputeLayout');
+        log('render:beforeRenderToString');
+        const paint = () => renderToString(this.root, options);
+        const { output } = withMediaEnvironment(media, () =>
+            withColorDepth(this.colorDepth, () => (contentHeight || !this.graphics ? withoutGraphics(paint) : paint()))
+        );
+        log('render:afterRenderToString');
+        return output;
+    }
+
     unmount(): void {
         if (this.isUnmounted) return;
         this.isUnmounted = true;
@@ -200,10 +733,16 @@ class MountContext {
             clearTimeout(this.rafId);
             this.rafId = null;
         }
-        this.detachInput();
+        this.restoreTerminal();
+        this.detachResize();
+        this.destroyComponent = null;
+        this.discardErrorRoot();
         free_node(this.root);
+        bindRuntimeState(this.root, null);
         unregisterMountContext(this);
-        if (this.clearOnExit) {
+        // Leaving the alternate screen already brings back the previous contents,
+        // and an inline app's last frame is meant to stay
+        if (this.clearOnExit && !this.altScreen && !this.inline) {
             this.stdout.write('\x1b[2J\x1b[H');
         }
         if (this.exitResolve) {
@@ -240,6 +779,49 @@ export function mount(
     };
 }
 
+/**
+ * Render a component once and return the frame as text, for reports, help
+ * screens and output that is not going to a terminal. Waits for effects to
+ * settle first. The output has no cursor movement; it is as tall as its
+ * content, and `colorDepth: false` leaves out all escape codes.
+ *
+ * @param Component - Svelte component constructor.
+ * @param options - Props, width and colors.
+ * @returns The rendered lines, joined with newlines. Rejects with the
+ *   error when the component throws.
+ */
+export async function renderStatic(Component: Component, options: StaticRenderOptions = {}): Promise<string> {
+    const { props = {}, width = 80, colorDepth = 'truecolor' } = options;
+    const sink = {
+        isTTY: false,
+        columns: width,
+        rows: MAX_STATIC_ROWS,
+        write: () => true,
+    } as unknown as NodeJS.WriteStream;
+    const ctx = createMountContext(Component, {
+        props,
+        stdout: sink,
+        // Input is never attached: exitOnCtrlC is what enables raw mode
+        exitOnCtrlC: false,
+        clearOnExit: false,
+        kittyKeyboard: false,
+        openLink: false,
+        inline: true,
+        colorDepth: colorDepth || 'mono',
+    });
+    try {
+        await ctx.start();
+        await ctx.settle();
+        // There is no one to retry; the overlay would be cut to the content's height
+        if (ctx.runtimeError) {
+            throw ctx.runtimeError.error;
+        }
+        return ctx.runWithFocus(() => ctx.renderFrame({ static: true, plain: colorDepth === false }));
+    } finally {
+        ctx.unmount();
+    }
+}
+
 /**
  * Instantiate a MountContext without automatically mounting the component.
  * Consumers can call `start()`/`unmount()` directly to orchestrate lifecycles.
@@ -252,14 +834,127 @@ export function createMountContext(Component: Component, options: MountOptions =
 }
 
 /**
- * Schedule a render on the next tick
+ * Schedule a render on the next tick.
+ *
+ * @param node - Node that changed. Only the mount it belongs to re-renders;
+ *               without one, the mount whose state is active does, or every
+ *               mount when none is.
  */
-export function scheduleRender(): void {
+export function scheduleRender(node?: CliNode | null): void {
+    const state = (node && getNodeRuntimeState(node)) || getActiveRuntimeState();
+    let scheduled = false;
+    for (const ctx of activeContexts) {
+        if (ctx.runtimeState === state) {
+            ctx.scheduleRender();
+            scheduled = true;
+        }
+    }
+    if (scheduled) return;
     for (const ctx of activeContexts) {
         ctx.scheduleRender();
     }
 }
 
+/**
+ * Swap a recompiled component into every mounted app. Apps are remounted
+ * when it cannot be swapped in place, and a compile error overlay left by
+ * an earlier attempt is cleared.
+ *
+ * @param file - Absolute path of the component's source.
+ * @param module - The recompiled module.
+ */
+export function applyComponentUpdate(file: string, module: unknown): void {
+    const contexts = [...activeContexts];
+    // Apps whose component failed have no instance left to swap into
+    const failed = new Set(contexts.filter(ctx => ctx.runtimeError));
+    for (const ctx of contexts) {
+        ctx.showErrorOverlay(null);
+    }
+    let swapped = false;
+    try {
+        swapped = applyHotUpdate(file, module);
+        if (swapped) {
+            flush();
+        }
+    } catch (error) {
+        log('hmr:error', { file, error: String(error) });
+        swapped = false;
+    }
+    log('hmr:update', { file, swapped });
+    for (const ctx of contexts) {
+        try {
+            if (!swapped || failed.has(ctx)) {
+                ctx.remount();
+            }
+            ctx.scheduleRender();
+        } catch (error) {
+            ctx.showErrorOverlay(describeError('Reload failed', file, error));
+        }
+    }
+}
+
+/**
+ * Show an error from reloading a component over every mounted app, which
+ * keep running on the last version that worked.
+ *
+ * @param file - Absolute path of the component's source.
+ * @param error - Compile or load error.
+ */
+export function reportComponentError(file: string, error: unknown): void {
+    log('hmr:error', { file, error: String(error) });
+    for (const ctx of activeContexts) {
+        ctx.showErrorOverlay(describeError('Compile error', file, error));
+    }
+}
+
+/**
+ * Overlay contents for an error, with the location and code frame the
+ * Svelte compiler attaches to its errors.
+ */
+function describeError(title: string, file: string, error: unknown): ErrorOverlay {
+    const details = error as { message?: string; filename?: string; start?: { line: number; column: number }; frame?: string };
+    const location = details.start ? `${details.filename ?? file}:${details.start.line}:${details.start.column}` : file;
+    return {
+        title,
+        message: details.message ?? String(error),
+        details: [location, ...(details.frame ? details.frame.split('\n') : [])],
+        hint: 'Fix the file and save it to reload.',
+    };
+}
+
+/** Stack frames listed in a runtime error overlay. */
+const MAX_OVERLAY_FRAMES = 6;
+
+/**
+ * Overlay contents for an error thrown while rendering the app. Frames in
+ * loaded components are mapped to their .svelte source, and the code
+ * around the innermost one is shown; otherwise the raw stack is listed.
+ */
+function describeRuntimeError(title: string, error: unknown): ErrorOverlay {
+    const stack = error instanceof Error ? (error.stack ?? '') : '';
+    const frames = mapStackTrace(stack);
+    const details = frames.length
+        ? frames
+              .slice(0, MAX_OVERLAY_FRAMES)
+              .map(frame => `at ${frame.name} (${frame.line ? `${frame.file}:${frame.line}:${frame.column}` : frame.file})`)
+        : stack
+              .split('\n')
+              .map(line => line.trim())
+              // Frames in Svelte and Node say little about where the app failed
+              .filter(line => line.startsWith('at ') && !line.includes('/node_modules/') && !line.includes('node:internal'))
+              .slice(0, MAX_OVERLAY_FRAMES);
+    const innermost = frames.find(frame => frame.line && frame.source);
+    if (innermost) {
+        details.push('', ...formatCodeFrame(innermost.source!, innermost.line!, innermost.column!));
+    }
+    return {
+        title,
+        message: error instanceof Error ? error.message : String(error),
+        details,
+        hint: 'Press r to retry, Esc to dismiss or q to quit.',
+    };
+}
+
 /**
  * Debug: Log tree structure
  */
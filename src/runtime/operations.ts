@@ -33,7 +33,9 @@ import { loadImageForNode } from './render/image.js';
 import { getStringWidth } from './render/string-width.js';
 import { getNodeTag } from './utils/node.js';
 import { measureWrappedText, getWrapOptionsFromStyle } from './render/text-wrap.js';
+import { releaseInlineFlow } from './render/inline.js';
 import { getComputedCliStyle } from './style/computed.js';
+import { getBoundingRect } from './animation/geometry.js';
 
 const CONTROL_BRIDGES: DomPropertyBridge[] = [
     { property: 'disabled' },
@@ -94,15 +96,15 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             node.src = str;
             // If this is an img element, start loading the image
             if (getNodeTag(node) === 'img' && str) {
-                loadImageForNode(node, str, scheduleRender);
+                loadImageForNode(node, str, () => scheduleRender(node));
             }
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'alt': {
             const str = value == null ? '' : String(value);
             node.alt = str;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'width': {
@@ -112,7 +114,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
                 if (!isNaN(num) && num > 0) {
                     node.style.width = num;
                     setStyleValue(node, 'width', num);
-                    scheduleRender();
+                    scheduleRender(node);
                 }
                 return true;
             }
@@ -125,7 +127,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
                 if (!isNaN(num) && num > 0) {
                     node.style.height = num;
                     setStyleValue(node, 'height', num);
-                    scheduleRender();
+                    scheduleRender(node);
                 }
                 return true;
             }
@@ -139,20 +141,20 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             } else {
                 registerFocusable(node);
             }
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'readonly': {
             const bool = toBooleanAttr(value);
             node.readonly = bool;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'min': {
             const num = toNumberAttr(value);
             if (num !== undefined) {
                 node.min = num;
-                scheduleRender();
+                scheduleRender(node);
             }
             return true;
         }
@@ -160,7 +162,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             const num = toNumberAttr(value);
             if (num !== undefined) {
                 node.max = num;
-                scheduleRender();
+                scheduleRender(node);
             }
             return true;
         }
@@ -168,7 +170,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             const num = toNumberAttr(value);
             if (num !== undefined) {
                 node.step = num;
-                scheduleRender();
+                scheduleRender(node);
             }
             return true;
         }
@@ -181,19 +183,19 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
                 } else {
                     node.maxLength = num;
                 }
-                scheduleRender();
+                scheduleRender(node);
             }
             return true;
         }
         case 'pattern': {
             const str = value == null ? '' : String(value);
             node.pattern = str;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'anchor': {
             node.anchor = value == null ? undefined : String(value);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'popover': {
@@ -203,38 +205,38 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
         case 'popovertarget':
         case 'popoverTarget': {
             node.popovertarget = value == null ? undefined : String(value);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'popovertargetaction':
         case 'popoverTargetAction': {
             node.popovertargetaction = value == null ? undefined : String(value);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'popoverPlacement':
         case 'popoverplacement': {
             node.popoverPlacement = value == null ? undefined : String(value) as typeof node.popoverPlacement;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'popoverOffset':
         case 'popoveroffset': {
             const num = toNumberAttr(value);
             node.popoverOffset = num ?? 0;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'required': {
             const bool = toBooleanAttr(value);
             node.required = bool;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'name': {
             const str = value == null ? '' : String(value);
             node.name = str;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'selectionStart':
@@ -245,7 +247,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             } else {
                 node.selectionEnd = num;
             }
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'selectionDirection': {
@@ -266,7 +268,7 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
                     // ignore invalid type assignments
                 }
             }
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'value': {
@@ -274,20 +276,20 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             node.value = value;
             node.__rawValue = strValue;
             node.__setValue?.(value);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'placeholder': {
             const str = value == null ? '' : String(value);
             node.placeholder = str;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'checked': {
             const bool = toBooleanAttr(value);
             node.checked = bool;
             node.__setChecked?.(bool);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'options': {
@@ -305,27 +307,27 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
                 // Set selectedIndex based on first selected option
                 const selectedIdx = mappedOptions.findIndex(o => o.selected);
                 node.selectedIndex = selectedIdx >= 0 ? selectedIdx : 0;
-                scheduleRender();
+                scheduleRender(node);
             }
             return true;
         }
         case 'multiple': {
             const bool = toBooleanAttr(value);
             node.multiple = bool;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'defaultValue': {
             node.defaultValue = value;
             node.value = value;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'defaultChecked': {
             const bool = toBooleanAttr(value);
             node.defaultChecked = bool;
             node.checked = bool;
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'focusable': {
@@ -336,16 +338,29 @@ function handleSpecialAttribute(node: CliNode, name: string, value: any): boolea
             } else {
                 unregisterFocusable(node);
             }
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
+        case 'href': {
+            // Links are focusable while they have an href, as in browsers;
+            // the attribute itself is stored by the generic path
+            if (getNodeTag(node) !== 'a') return false;
+            const hasHref = value !== null && value !== undefined && value !== false;
+            node.focusable = hasHref;
+            if (hasHref) {
+                registerFocusable(node);
+            } else if (node.tabIndex === undefined) {
+                unregisterFocusable(node);
+            }
+            return false;
+        }
         case 'tabIndex':
         case 'tabindex': {
             const tab = Number(value);
             const normalized = Number.isNaN(tab) ? 0 : tab;
             node.tabIndex = normalized;
             registerFocusable(node);
-            scheduleRender();
+            scheduleRender(node);
             return true;
         }
         case 'oninput':
@@ -405,7 +420,7 @@ function setStyleValue(node: CliNode, prop: string, value: unknown): void {
         if (prop in style) {
             delete style[prop];
             markTextNodeDirty(node);
-            scheduleRender();
+            scheduleRender(node);
         }
         return;
     }
@@ -414,7 +429,7 @@ function setStyleValue(node: CliNode, prop: string, value: unknown): void {
     }
     style[prop] = normalized;
     markTextNodeDirty(node);
-    scheduleRender();
+    scheduleRender(node);
 }
 
 function applyInlineStyles(node: CliNode, cssText: string, domNode?: HTMLElement | null): void {
@@ -572,6 +587,26 @@ export function create_element(tag: string = 'box', skipFocusReg: boolean = fals
         blurNode(cliNode);
     };
 
+    // Geometry read by Svelte's transition and animate functions
+    cliNode.getBoundingClientRect = () => getBoundingRect(cliNode);
+    Object.defineProperties(node, {
+        clientWidth: {
+            get: () => node.computedLayout?.width ?? 0,
+            enumerable: false,
+            configurable: true,
+        },
+        clientHeight: {
+            get: () => node.computedLayout?.height ?? 0,
+            enumerable: false,
+            configurable: true,
+        },
+        currentCSSZoom: {
+            value: 1,
+            enumerable: false,
+            configurable: true,
+        },
+    });
+
     const isInput = tag === 'input';
     const isTextarea = tag === 'textarea';
     const isSelect = tag === 'select';
@@ -635,7 +670,7 @@ export function create_element(tag: string = 'box', skipFocusReg: boolean = fals
                 _open = Boolean(value);
                 }
                 if (oldOpen !== _open) {
-                    scheduleRender();
+                    scheduleRender(node);
                 }
             },
             enumerable: true,
@@ -662,7 +697,7 @@ export function create_element(tag: string = 'box', skipFocusReg: boolean = fals
                     const num = typeof val === 'number' ? val : parseFloat(val as string);
                     _value = Number.isFinite(num) ? Math.max(0, num) : undefined;
                 }
-                scheduleRender();
+                scheduleRender(node);
             },
             enumerable: true,
             configurable: true,
@@ -673,7 +708,7 @@ export function create_element(tag: string = 'box', skipFocusReg: boolean = fals
             set(val: number | string) {
                 const num = typeof val === 'number' ? val : parseFloat(val as string);
                 _max = Number.isFinite(num) && num > 0 ? num : 1;
-                scheduleRender();
+                scheduleRender(node);
             },
             enumerable: true,
             configurable: true,
@@ -933,7 +968,7 @@ export function set_text(node: TextNode, value: string): void {
 
     // Request a render so text updates are shown
     // eslint-disable-next-line @typescript-eslint/no-use-before-define
-    scheduleRender();
+    scheduleRender(node);
 }
 
 /**
@@ -943,6 +978,14 @@ export function set_text(node: TextNode, value: string): void {
 export function set_attribute(node: CliNode, name: string, value: any): void {
     const domElement = getDomElement(node);
 
+    // The DOM mirror lowercases names; SVG serialization needs them as written
+    node.__attributes ??= {};
+    if (value === null || value === undefined) {
+        delete node.__attributes[name];
+    } else {
+        node.__attributes[name] = String(value);
+    }
+
     const styleKey = canonicalizeStyleProp(name as string);
     if (styleKey) {
         setStyleValue(node, styleKey, value);
@@ -1087,17 +1130,23 @@ interface EventInitOptions {
     bubbles?: boolean;
     cancelable?: boolean;
     detail?: unknown;
+    /** Exposed as `event.inputType`, like InputEvent. */
+    inputType?: string;
 }
 
 function createDomEvent(type: string, init: EventInitOptions = {}): Event {
-    const { bubbles, cancelable, detail } = init;
+    const { bubbles, cancelable, detail, inputType } = init;
     // happy-dom CustomEvent types differ from standard DOM
     const eventInit = {
         bubbles: bubbles ?? (type !== 'focus' && type !== 'blur'),
         cancelable: cancelable ?? true,
         detail,
     };
-    return new window.CustomEvent(type, eventInit as never) as unknown as Event;
+    const event = new window.CustomEvent(type, eventInit as never) as unknown as Event;
+    if (inputType !== undefined) {
+        Object.defineProperty(event, 'inputType', { value: inputType, enumerable: true });
+    }
+    return event;
 }
 
 /**
@@ -1138,5 +1187,6 @@ export function free_node(node: CliNode): void {
         free_node(child);
     }
 
+    releaseInlineFlow(node);
     node.yogaNode.free();
 }
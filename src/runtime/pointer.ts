@@ -0,0 +1,245 @@
+/**
+ * Pointer Input
+ *
+ * Routes decoded terminal mouse reports into the DOM event system:
+ * - Hit-tests each report against the regions painted in the last frame,
+ *   so top-layer elements and modal backdrops take precedence.
+ * - Emits pointer/mouse events (mousedown, mouseup, click, mousemove,
+ *   mouseover/mouseout, contextmenu, wheel) on the topmost element.
+ * - Maintains :hover and :active state on the target and its ancestors.
+ * - Focuses clicked focusables and runs their default activation.
+ * - Routes wheel events into scroll containers with chaining.
+ */
+
+import type { CliNode } from './types.js';
+import type { RawMouse } from './input/mouse.js';
+import { emitMouse, emitPointer, emitWheel } from './events.js';
+import { hitTestRegion } from './render/hit-test.js';
+import { activateNode, findFocusableAncestor, setFocus } from './focus.js';
+import { lightDismissDialogs } from './dialog.js';
+import { closeTopPopover, getOpenPopovers, getPopoverMode } from './popover.js';
+import { isScrollContainer, findScrollParent } from './scroll.js';
+import { scrollByWithChaining } from './scroll-keyboard.js';
+import { log } from './logger.js';
+
+/** Lines scrolled per wheel notch. */
+const WHEEL_SCROLL_LINES = 3;
+
+/** Per-mount pointer tracking state. */
+export interface PointerState {
+    /** Element currently under the pointer. */
+    hovered: CliNode | null;
+    /** Element that received the last mousedown, until mouseup. */
+    pressed: CliNode | null;
+    /** Button held for the current press. */
+    pressedButton: number;
+}
+
+export function createPointerState(): PointerState {
+    return {
+        hovered: null,
+        pressed: null,
+        pressedButton: -1,
+    };
+}
+
+/**
+ * Dispatch a decoded mouse report.
+ *
+ * @param state - Pointer state for the mount context.
+ * @param raw - The decoded mouse report.
+ * @returns true if the report changed anything that needs a re-render.
+ */
+export function dispatchMouse(state: PointerState, raw: RawMouse): boolean {
+    const region = hitTestRegion(raw.x, raw.y);
+    const target = region?.node ?? null;
+    log('dispatchMouse', { action: raw.action, x: raw.x, y: raw.y, target: target?.nodeName });
+
+    const init: MouseEventInit = {
+        clientX: raw.x,
+        clientY: raw.y,
+        screenX: raw.x,
+        screenY: raw.y,
+        button: Math.max(0, raw.button),
+        buttons: buttonsMask(raw.action === 'release' ? -1 : raw.button),
+        ctrlKey: raw.ctrl,
+        shiftKey: raw.shift,
+        altKey: raw.alt,
+        metaKey: raw.meta,
+    };
+
+    let changed = updateHover(state, target, init);
+
+    if (!target) {
+        if (raw.action === 'release' && state.pressed) {
+            setActive(state, null);
+            state.pressed = null;
+            state.pressedButton = -1;
+            return true;
+        }
+        return changed;
+    }
+
+    switch (raw.action) {
+        case 'press': {
+            emitPointer(target, 'pointerdown', init);
+            const down = emitMouse(target, 'mousedown', { ...init, detail: 1 });
+            setActive(state, target);
+            state.pressed = target;
+            state.pressedButton = raw.button;
+            if (raw.button === 0 && !down?.defaultPrevented) {
+                if (region?.backdrop) {
+                    lightDismissDialogs();
+                } else {
+                    dismissPopoversOutside(target);
+                }
+                setFocus(findFocusableAncestor(target));
+            }
+            return true;
+        }
+        case 'release': {
+            emitPointer(target, 'pointerup', init);
+            emitMouse(target, 'mouseup', { ...init, detail: 1 });
+            const pressed = state.pressed;
+            const button = state.pressedButton;
+            setActive(state, null);
+            state.pressed = null;
+            state.pressedButton = -1;
+            const clickTarget = pressed ? commonAncestor(pressed, target) : null;
+            if (clickTarget && !region?.backdrop) {
+                if (button === 0) {
+                    const click = emitMouse(clickTarget, 'click', { ...init, detail: 1 });
+                    if (click && !click.defaultPrevented) {
+                        activateNode(clickTarget, target === clickTarget ? region?.option : undefined);
+                    }
+                } else if (button === 2) {
+                    emitMouse(clickTarget, 'contextmenu', { ...init, detail: 1 });
+                } else {
+                    emitMouse(clickTarget, 'auxclick', { ...init, detail: 1 });
+                }
+            }
+            return true;
+        }
+        case 'move': {
+            emitPointer(target, 'pointermove', init);
+            emitMouse(target, 'mousemove', init);
+            return changed;
+        }
+        case 'wheel': {
+            const wheel = emitWheel(target, {
+                ...init,
+                deltaX: raw.deltaX * WHEEL_SCROLL_LINES,
+                deltaY: raw.deltaY * WHEEL_SCROLL_LINES,
+                // DOM_DELTA_LINE: deltas are in lines (terminal rows)
+                deltaMode: 1,
+            });
+            if (wheel?.defaultPrevented) return changed;
+            const scroller = isScrollContainer(target) ? target : findScrollParent(target);
+            if (!scroller) return changed;
+            return scrollByWithChaining(
+                scroller,
+                raw.deltaX * WHEEL_SCROLL_LINES,
+                raw.deltaY * WHEEL_SCROLL_LINES
+            ) || changed;
+        }
+    }
+}
+
+/**
+ * Move hover state to a new target, emitting mouseout/mouseover.
+ * Like browsers, :hover applies to the target and all of its ancestors.
+ */
+function updateHover(state: PointerState, target: CliNode | null, init: MouseEventInit): boolean {
+    const previous = state.hovered;
+    if (previous === target) return false;
+
+    if (previous) {
+        setChainState(previous, '__hoverState', null);
+        emitMouse(previous, 'mouseout', { ...init, relatedTarget: null });
+    }
+    state.hovered = target;
+    if (target) {
+        setChainState(target, '__hoverState', 'hovered');
+        emitMouse(target, 'mouseover', { ...init, relatedTarget: null });
+    }
+    return true;
+}
+
+/**
+ * Move :active from the previously pressed chain to a new target chain.
+ */
+function setActive(state: PointerState, target: CliNode | null): void {
+    if (state.pressed) {
+        setChainState(state.pressed, '__activeState', null);
+    }
+    if (target) {
+        setChainState(target, '__activeState', 'active');
+    }
+}
+
+function setChainState(
+    node: CliNode,
+    key: '__hoverState' | '__activeState',
+    value: 'hovered' | 'active' | null
+): void {
+    let current: CliNode | null = node;
+    while (current) {
+        (current as unknown as Record<string, unknown>)[key] = value;
+        current = current.parent;
+    }
+}
+
+/**
+ * Close open auto popovers that do not contain the clicked node (light dismiss).
+ * Clicks on popover invokers are left to the invoker's own toggle behavior.
+ */
+function dismissPopoversOutside(target: CliNode): void {
+    for (let current: CliNode | null = target; current; current = current.parent) {
+        if (current.popovertarget) return;
+    }
+    const open = getOpenPopovers();
+    for (let i = open.length - 1; i >= 0; i--) {
+        const popover = open[i];
+        if (getPopoverMode(popover) !== 'auto') continue;
+        if (isSelfOrAncestor(popover, target)) break;
+        closeTopPopover();
+    }
+}
+
+function isSelfOrAncestor(ancestor: CliNode, node: CliNode): boolean {
+    let current: CliNode | null = node;
+    while (current) {
+        if (current === ancestor) return true;
+        current = current.parent;
+    }
+    return false;
+}
+
+/**
+ * Find the nearest common ancestor of two nodes (the click target when the
+ * press and release happen on different elements).
+ */
+function commonAncestor(a: CliNode, b: CliNode): CliNode | null {
+    const chain = new Set<CliNode>();
+    let current: CliNode | null = a;
+    while (current) {
+        chain.add(current);
+        current = current.parent;
+    }
+    current = b;
+    while (current) {
+        if (chain.has(current)) return current;
+        current = current.parent;
+    }
+    return null;
+}
+
+/**
+ * Convert a DOM button index to a MouseEvent.buttons bitmask.
+ */
+function buttonsMask(button: number): number {
+    if (button === 0) return 1;
+    if (button === 1) return 4;
+    if (button === 2) return 2;
+    return 0;
+}
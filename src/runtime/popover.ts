@@ -6,6 +6,7 @@ import { getCliNode, getDomNode, getDomElement } from './dom/happy.js';
 import { getNodeChildren } from './utils/node.js';
 import { refreshFocusables, setFocus } from './focus.js';
 import { findAutofocusElement } from './dialog.js';
+import { defineRuntimeSlot } from './runtime-state.js';
 
 type PopoverMode = 'auto' | 'manual' | 'hint';
 type PopoverState = {
@@ -16,7 +17,8 @@ type PopoverState = {
 type PopoverAction = 'toggle' | 'show' | 'hide';
 
 const POPOVER_STATE = new WeakMap<CliNode, PopoverState>();
-const OPEN_STACK: CliNode[] = [];
+/** Open popovers of each mount, bottom to top. */
+const openStack = defineRuntimeSlot((): CliNode[] => []);
 const POPOVER_API_APPLIED = Symbol('sveltty.popover.api');
 
 /**
@@ -24,14 +26,14 @@ const POPOVER_API_APPLIED = Symbol('sveltty.popover.api');
  * Used by the paint pipeline to render popovers on the top layer.
  */
 export function getOpenPopovers(): CliNode[] {
-    return [...OPEN_STACK];
+    return [...openStack()];
 }
 
 /**
  * Clears all popover state. Used for testing.
  */
 export function resetPopovers(): void {
-    OPEN_STACK.length = 0;
+    openStack().length = 0;
 }
 
 export function hasPopoverBehavior(node: CliNode): boolean {
@@ -59,7 +61,7 @@ export function setPopoverMode(node: CliNode, value: any): PopoverMode | undefin
         POPOVER_STATE.delete(node);
         delete node.__popoverMode;
         delete node.__popoverOpen;
-        scheduleRender();
+        scheduleRender(node);
         removeDomAttribute(node, 'popover');
         return undefined;
     }
@@ -71,7 +73,7 @@ export function setPopoverMode(node: CliNode, value: any): PopoverMode | undefin
     node.__popoverOpen = state.open;
     installPopoverApi(node);
     reflectDomAttribute(node, 'popover', normalized);
-    scheduleRender();
+    scheduleRender(node);
     return normalized;
 }
 
@@ -129,8 +131,9 @@ export function activatePopoverControl(node: CliNode, action?: PopoverAction): b
 }
 
 export function closeTopPopover(): boolean {
-    for (let i = OPEN_STACK.length - 1; i >= 0; i -= 1) {
-        const node = OPEN_STACK[i];
+    const stack = openStack();
+    for (let i = stack.length - 1; i >= 0; i -= 1) {
+        const node = stack[i];
         const state = POPOVER_STATE.get(node);
         if (!state) continue;
         if (state.mode === 'manual' || !state.open) {
@@ -152,10 +155,10 @@ function ensureState(node: CliNode): PopoverState | null {
 
 function performShow(node: CliNode, state: PopoverState): void {
     removeFromOpenStack(node);
-    OPEN_STACK.push(node);
+    openStack(node).push(node);
     state.open = true;
     node.__popoverOpen = true;
-    scheduleRender();
+    scheduleRender(node);
     
     // Refresh focusables so elements inside the popover become focusable
     refreshFocusables();
@@ -177,7 +180,7 @@ function performHide(node: CliNode, state: PopoverState): void {
     removeFromOpenStack(node);
     state.open = false;
     node.__popoverOpen = false;
-    scheduleRender();
+    scheduleRender(node);
     
     // Refresh focusables so elements inside the popover are removed from tab order.
     // If focus was inside the popover, it will be cleared (browser-like behavior).
@@ -191,9 +194,10 @@ function performHide(node: CliNode, state: PopoverState): void {
 }
 
 function removeFromOpenStack(node: CliNode): void {
-    const idx = OPEN_STACK.indexOf(node);
+    const stack = openStack(node);
+    const idx = stack.indexOf(node);
     if (idx >= 0) {
-        OPEN_STACK.splice(idx, 1);
+        stack.splice(idx, 1);
     }
 }
 
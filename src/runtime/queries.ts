@@ -0,0 +1,448 @@
+/**
+ * Node Queries
+ *
+ * Finds nodes the way a user or screen reader would: by role, by the text
+ * they show, and by the label attached to them. Roles come from the `role`
+ * attribute or the element's implicit ARIA role; names from `aria-label`,
+ * the `label` prop, `aria-labelledby`, `<label>` elements and finally the
+ * node's own text.
+ *
+ * Queries search a container's subtree. A `<form>` container also covers
+ * controls outside it that point at it with `form="id"`. Nodes that are
+ * not visible (see `isNodeVisible`) are skipped unless `hidden: true`.
+ *
+ * Like Testing Library, `getBy*` throws unless exactly one node matches,
+ * `queryBy*` returns null when none do, and `getAllBy*` / `queryAllBy*`
+ * return every match in document order.
+ */
+
+import type { BoundingRect, CliNode } from './types.js';
+import { getBoundingRect } from './animation/geometry.js';
+import { collectFormControls, getFocused, isNodeVisible } from './focus.js';
+import { getInputType, getNodeChildren, getNodeTag } from './utils/node.js';
+
+/** A string matches the whole normalized text; a RegExp is tested against it. */
+export type TextMatch = string | RegExp;
+
+export interface TextQueryOptions {
+    /** With false, strings match case-insensitively anywhere in the text. Default true. */
+    exact?: boolean;
+    /** Include nodes that are not visible. */
+    hidden?: boolean;
+}
+
+export interface RoleQueryOptions extends TextQueryOptions {
+    /** Accessible name to match. */
+    name?: TextMatch;
+}
+
+/** What a user can tell about a node without reading the screen. */
+export interface NodeState {
+    role: string;
+    name: string;
+    description: string;
+    /** Border box in terminal cells, from the last computed layout. */
+    rect: BoundingRect;
+    focused: boolean;
+    visible: boolean;
+    disabled: boolean;
+    /** False once validation has failed for the current value. */
+    valid: boolean;
+    validationMessage: string;
+    /** The form the control belongs to, through nesting or `form="id"`. */
+    form: CliNode | null;
+}
+
+export interface BoundQueries {
+    getByRole(role: string, options?: RoleQueryOptions): CliNode;
+    queryByRole(role: string, options?: RoleQueryOptions): CliNode | null;
+    getAllByRole(role: string, options?: RoleQueryOptions): CliNode[];
+    queryAllByRole(role: string, options?: RoleQueryOptions): CliNode[];
+    getByText(text: TextMatch, options?: TextQueryOptions): CliNode;
+    queryByText(text: TextMatch, options?: TextQueryOptions): CliNode | null;
+    getAllByText(text: TextMatch, options?: TextQueryOptions): CliNode[];
+    queryAllByText(text: TextMatch, options?: TextQueryOptions): CliNode[];
+    getByLabelText(text: TextMatch, options?: TextQueryOptions): CliNode;
+    queryByLabelText(text: TextMatch, options?: TextQueryOptions): CliNode | null;
+    getAllByLabelText(text: TextMatch, options?: TextQueryOptions): CliNode[];
+    queryAllByLabelText(text: TextMatch, options?: TextQueryOptions): CliNode[];
+}
+
+/** Implicit roles by tag; inputs and selects are resolved separately. */
+const TAG_ROLES: Record<string, string> = {
+    article: 'article',
+    aside: 'complementary',
+    button: 'button',
+    details: 'group',
+    dialog: 'dialog',
+    fieldset: 'group',
+    footer: 'contentinfo',
+    form: 'form',
+    h1: 'heading',
+    h2: 'heading',
+    h3: 'heading',
+    h4: 'heading',
+    h5: 'heading',
+    h6: 'heading',
+    header: 'banner',
+    hr: 'separator',
+    img: 'img',
+    li: 'listitem',
+    main: 'main',
+    meter: 'meter',
+    nav: 'navigation',
+    ol: 'list',
+    option: 'option',
+    progress: 'progressbar',
+    table: 'table',
+    td: 'cell',
+    textarea: 'textbox',
+    th: 'columnheader',
+    tr: 'row',
+    ul: 'list',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+    button: 'button',
+    checkbox: 'checkbox',
+    email: 'textbox',
+    image: 'button',
+    number: 'spinbutton',
+    radio: 'radio',
+    range: 'slider',
+    reset: 'button',
+    search: 'searchbox',
+    submit: 'button',
+    tel: 'textbox',
+    text: 'textbox',
+    url: 'textbox',
+};
+
+/** Roles whose accessible name falls back to their text content. */
+const NAME_FROM_CONTENT_ROLES = new Set([
+    'button',
+    'cell',
+    'checkbox',
+    'columnheader',
+    'heading',
+    'link',
+    'listitem',
+    'option',
+    'radio',
+    'row',
+    'tab',
+    'menuitem',
+]);
+
+function getAttribute(node: CliNode, name: string): string | undefined {
+    const value = node.__attributes?.[name] ?? (node as unknown as Record<string, unknown>)[name];
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+function isElement(node: CliNode): boolean {
+    return node.type === 'box' || node.type === 'root';
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function matches(text: string, matcher: TextMatch, exact = true): boolean {
+    const normalized = normalizeText(text);
+    if (matcher instanceof RegExp) {
+        matcher.lastIndex = 0;
+        return matcher.test(normalized);
+    }
+    if (exact) {
+        return normalized === normalizeText(matcher);
+    }
+    return normalized.toLowerCase().includes(normalizeText(matcher).toLowerCase());
+}
+
+function describeMatcher(matcher: TextMatch): string {
+    return matcher instanceof RegExp ? String(matcher) : `"${matcher}"`;
+}
+
+function getTreeRoot(node: CliNode): CliNode {
+    let current = node;
+    while (current.parent) {
+        current = current.parent;
+    }
+    return current;
+}
+
+/** Elements below (and including) a node, in document order. */
+function collectElements(node: CliNode, result: CliNode[] = []): CliNode[] {
+    if (isElement(node)) {
+        result.push(node);
+    }
+    for (const child of getNodeChildren(node)) {
+        collectElements(child, result);
+    }
+    return result;
+}
+
+/**
+ * Look an id up in the node's own tree. Mounted roots are not part of the
+ * happy-dom document, so `document.getElementById` cannot see them.
+ */
+function findById(from: CliNode, id: string): CliNode | null {
+    return collectElements(getTreeRoot(from)).find(node => node.id === id || getAttribute(node, 'id') === id) ?? null;
+}
+
+/** Own text, then descendants' text, as the node shows it. */
+function getTextContent(node: CliNode): string {
+    if (node.type === 'text') {
+        return String(node.value ?? '');
+    }
+    if (node.type === 'comment') {
+        return '';
+    }
+    return getNodeChildren(node).map(getTextContent).join('');
+}
+
+/** Text of a node's direct text children, which is what `getByText` matches. */
+function getOwnText(node: CliNode): string {
+    return getNodeChildren(node)
+        .filter(child => child.type === 'text')
+        .map(child => String(child.value ?? ''))
+        .join('');
+}
+
+/**
+ * The node's role: its `role` attribute, or the implicit role of its
+ * element. Empty when it has neither.
+ */
+export function getRole(node: CliNode): string {
+    const explicit = getAttribute(node, 'role');
+    if (explicit) {
+        return explicit.trim().split(/\s+/)[0];
+    }
+    const tag = getNodeTag(node);
+    if (tag === 'input') {
+        const type = getInputType(node) || 'text';
+        // Password fields have no role, so their text is never exposed
+        return INPUT_ROLES[type] ?? (type === 'password' ? '' : 'textbox');
+    }
+    if (tag === 'select') {
+        return node.multiple || Number(getAttribute(node, 'size')) > 1 ? 'listbox' : 'combobox';
+    }
+    if (tag === 'a') {
+        return getAttribute(node, 'href') !== undefined ? 'link' : '';
+    }
+    return TAG_ROLES[tag] ?? '';
+}
+
+function isLabelable(node: CliNode): boolean {
+    const tag = getNodeTag(node);
+    return tag === 'input' || tag === 'select' || tag === 'textarea' || tag === 'button' || tag === 'meter' || tag === 'progress';
+}
+
+/** The control a `<label>` names: its `for` target or first labelable descendant. */
+function getLabelTarget(label: CliNode): CliNode | null {
+    const htmlFor = label.htmlFor ?? getAttribute(label, 'for');
+    if (htmlFor) {
+        return findById(label, htmlFor);
+    }
+    return collectElements(label).find(node => node !== label && isLabelable(node)) ?? null;
+}
+
+/** `<label>` elements in the node's tree that name it. */
+function getLabels(node: CliNode): CliNode[] {
+    if (!isLabelable(node)) return [];
+    return collectElements(getTreeRoot(node)).filter(
+        candidate => getNodeTag(candidate) === 'label' && getLabelTarget(candidate) === node
+    );
+}
+
+function getLabelledByText(node: CliNode): string | undefined {
+    const ids = getAttribute(node, 'aria-labelledby');
+    if (!ids) return undefined;
+    const text = ids
+        .split(/\s+/)
+        .map(id => findById(node, id))
+        .filter((labelNode): labelNode is CliNode => Boolean(labelNode))
+        .map(getTextContent)
+        .join(' ');
+    return text || undefined;
+}
+
+/**
+ * The node's accessible name, as a screen reader would announce it.
+ */
+export function getAccessibleName(node: CliNode): string {
+    const labelledBy = getLabelledByText(node);
+    if (labelledBy) return normalizeText(labelledBy);
+
+    const label = getAttribute(node, 'aria-label') ?? node.label;
+    if (label) return normalizeText(label);
+
+    const labels = getLabels(node);
+    if (labels.length) {
+        return normalizeText(labels.map(getTextContent).join(' '));
+    }
+
+    const tag = getNodeTag(node);
+    if (tag === 'img') {
+        return normalizeText(node.alt ?? '');
+    }
+    if (tag === 'input') {
+        const type = getInputType(node);
+        if (type === 'button' || type === 'submit' || type === 'reset') {
+            return normalizeText(String(node.value ?? ''));
+        }
+    }
+    if (NAME_FROM_CONTENT_ROLES.has(getRole(node))) {
+        return normalizeText(getTextContent(node));
+    }
+    return normalizeText(getAttribute(node, 'title') ?? '');
+}
+
+/** Nodes a query searches: the subtree, plus controls associated with a form container. */
+function getSearchScope(container: CliNode): CliNode[] {
+    const scope = collectElements(container);
+    if (getNodeTag(container) !== 'form') {
+        return scope;
+    }
+    const seen = new Set(scope);
+    for (const control of collectFormControls(container.id ?? getAttribute(container, 'id'), container)) {
+        if (!seen.has(control)) {
+            seen.add(control);
+            scope.push(control);
+        }
+    }
+    return scope;
+}
+
+function filterHidden(nodes: CliNode[], hidden?: boolean): CliNode[] {
+    return hidden ? nodes : nodes.filter(node => isNodeVisible(node));
+}
+
+/**
+ * Nodes with the given role, optionally with a matching accessible name.
+ */
+export function queryAllByRole(container: CliNode, role: string, options: RoleQueryOptions = {}): CliNode[] {
+    const { name, exact, hidden } = options;
+    const found = getSearchScope(container).filter(node => {
+        if (getRole(node) !== role) return false;
+        return name === undefined || matches(getAccessibleName(node), name, exact);
+    });
+    return filterHidden(found, hidden);
+}
+
+/**
+ * Nodes whose own text matches.
+ */
+export function queryAllByText(container: CliNode, text: TextMatch, options: TextQueryOptions = {}): CliNode[] {
+    const found = getSearchScope(container).filter(node => {
+        const own = getOwnText(node);
+        return own.trim().length > 0 && matches(own, text, options.exact);
+    });
+    return filterHidden(found, options.hidden);
+}
+
+/**
+ * Controls named by a matching `<label>`, `aria-labelledby`, `aria-label`
+ * or `label` prop.
+ */
+export function queryAllByLabelText(container: CliNode, text: TextMatch, options: TextQueryOptions = {}): CliNode[] {
+    const scope = getSearchScope(container);
+    const found = new Set<CliNode>();
+    for (const node of collectElements(getTreeRoot(container))) {
+        if (getNodeTag(node) !== 'label' || !matches(getTextContent(node), text, options.exact)) continue;
+        const target = getLabelTarget(node);
+        if (target) found.add(target);
+    }
+    for (const node of scope) {
+        const label = getLabelledByText(node) ?? getAttribute(node, 'aria-label') ?? node.label;
+        if (label && matches(label, text, options.exact)) {
+            found.add(node);
+        }
+    }
+    return filterHidden(scope.filter(node => found.has(node)), options.hidden);
+}
+
+function single(nodes: CliNode[], query: string, required: boolean): CliNode | null {
+    if (nodes.length > 1) {
+        throw new Error(`Found ${nodes.length} nodes ${query}; use a getAll* query if that is expected`);
+    }
+    if (!nodes.length && required) {
+        throw new Error(`Unable to find a node ${query}`);
+    }
+    return nodes[0] ?? null;
+}
+
+function atLeastOne(nodes: CliNode[], query: string): CliNode[] {
+    if (!nodes.length) {
+        throw new Error(`Unable to find a node ${query}`);
+    }
+    return nodes;
+}
+
+function describeRoleQuery(role: string, options: RoleQueryOptions = {}): string {
+    return options.name === undefined
+        ? `with role "${role}"`
+        : `with role "${role}" and name ${describeMatcher(options.name)}`;
+}
+
+/**
+ * Queries bound to a container.
+ *
+ * @param container - Node whose subtree is searched.
+ * @param run - Wraps each query, e.g. to run it with a mount's focus state.
+ */
+export function within(container: CliNode, run: <T>(fn: () => T) => T = fn => fn()): BoundQueries {
+    const byRole = (role: string, options?: RoleQueryOptions) => run(() => queryAllByRole(container, role, options));
+    const byText = (text: TextMatch, options?: TextQueryOptions) => run(() => queryAllByText(container, text, options));
+    const byLabel = (text: TextMatch, options?: TextQueryOptions) => run(() => queryAllByLabelText(container, text, options));
+    const textQuery = (text: TextMatch) => `with text ${describeMatcher(text)}`;
+    const labelQuery = (text: TextMatch) => `with label ${describeMatcher(text)}`;
+
+    return {
+        getByRole: (role, options) => single(byRole(role, options), describeRoleQuery(role, options), true)!,
+        queryByRole: (role, options) => single(byRole(role, options), describeRoleQuery(role, options), false),
+        getAllByRole: (role, options) => atLeastOne(byRole(role, options), describeRoleQuery(role, options)),
+        queryAllByRole: byRole,
+        getByText: (text, options) => single(byText(text, options), textQuery(text), true)!,
+        queryByText: (text, options) => single(byText(text, options), textQuery(text), false),
+        getAllByText: (text, options) => atLeastOne(byText(text, options), textQuery(text)),
+        queryAllByText: byText,
+        getByLabelText: (text, options) => single(byLabel(text, options), labelQuery(text), true)!,
+        queryByLabelText: (text, options) => single(byLabel(text, options), labelQuery(text), false),
+        getAllByLabelText: (text, options) => atLeastOne(byLabel(text, options), labelQuery(text)),
+        queryAllByLabelText: byLabel,
+    };
+}
+
+/** The form a node belongs to: its `form="id"` target, else the nearest ancestor form. */
+function getOwnerForm(node: CliNode): CliNode | null {
+    const formId = typeof node.form === 'string' ? node.form : getAttribute(node, 'form');
+    if (formId) {
+        const target = findById(node, formId);
+        if (target && getNodeTag(target) === 'form') return target;
+    }
+    for (let current = node.parent; current; current = current.parent) {
+        if (getNodeTag(current) === 'form') return current;
+    }
+    return null;
+}
+
+/**
+ * Read a node's role, name, position, focus, visibility and validity.
+ *
+ * @param node - Node to inspect.
+ */
+export function getNodeState(node: CliNode): NodeState {
+    return {
+        role: getRole(node),
+        name: getAccessibleName(node),
+        description: normalizeText(getAttribute(node, 'aria-description') ?? node.description ?? ''),
+        rect: getBoundingRect(node),
+        focused: getFocused() === node,
+        visible: isNodeVisible(node),
+        disabled: Boolean(node.disabled),
+        valid: node.valid !== false,
+        validationMessage: node.validationMessage ?? '',
+        form: getOwnerForm(node),
+    };
+}
@@ -9,7 +9,7 @@ import { measureRoot } from './render/pipeline/measure.js';
 import { createRenderGrid } from './render/pipeline/layout.js';
 import { paintTree } from './render/pipeline/paint.js';
 import { getOcclusionZones } from './render/occlusion.js';
-import { diffAndSerialize } from './render/pipeline/diff.js';
+import { diffAndSerialize, serializeStatic } from './render/pipeline/diff.js';
 import { measureText } from './render/text.js';
 import { serializeRenderedImages, markImageDirtyRows } from './render/image.js';
 import { log } from './logger.js';
@@ -19,6 +19,15 @@ const HIDE_CURSOR = '\x1b[?25l';
 
 export interface RenderOptions {
     statusLine?: string;
+    /** Draw relative to the cursor's line instead of the top of the screen. */
+    inline?: boolean;
+    /**
+     * Write the frame as lines of text for a file or pipe: no cursor
+     * movement, no images, and nothing cached for the next frame's diff.
+     */
+    static?: boolean;
+    /** With `static`, leave out styles and hyperlinks as well. */
+    plain?: boolean;
 }
 
 export function renderToString(root: CliNode, options: RenderOptions = {}): RenderOutput {
@@ -35,6 +44,15 @@ export function renderToString(root: CliNode, options: RenderOptions = {}): Rend
     log('renderToString:paintTree');
     paintTree(root, grid);
     log('renderToString:paintTree:done');
+
+    if (options.static) {
+        log('renderToString:exit', { static: true });
+        return {
+            output: serializeStatic(grid, options.plain),
+            width: metrics.width,
+            height: metrics.height,
+        };
+    }
     
     // Mark rows dirty where images have moved away from
     // This must happen BEFORE diffAndSerialize so those rows get re-rendered
@@ -47,7 +65,7 @@ export function renderToString(root: CliNode, options: RenderOptions = {}): Rend
     
     // Serialize grid to ANSI output
     log('renderToString:diffAndSerialize');
-    output += diffAndSerialize(root, grid, options.statusLine);
+    output += diffAndSerialize(root, grid, options.statusLine, options.inline);
     log('renderToString:diffAndSerialize:done');
     
     // Serialize images (and clear any that were removed)
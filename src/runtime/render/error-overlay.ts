@@ -0,0 +1,144 @@
+/**
+ * Error Overlay
+ *
+ * A panel drawn over the app on the top layer, above every dialog, to
+ * report errors the app cannot show itself (e.g. a component that failed to
+ * compile during hot reload). The app keeps running underneath; the overlay
+ * stays until it is cleared.
+ */
+
+import type { CliNode, TextStyle } from '../types.js';
+import type { GridCell } from './types.js';
+import type { Viewport } from './pipeline/context.js';
+import { addToTopLayer, BASE_Z_INDEX, clearGridArea, registerTopLayerOcclusion, type TopLayerElement } from './top-layer.js';
+import { getBorderChars } from './border.js';
+import { wrapText } from './text-wrap.js';
+import { getStringWidth } from './string-width.js';
+import { defineRuntimeSlot } from '../runtime-state.js';
+
+export interface ErrorOverlay {
+    /** Short description, e.g. 'Compile error'. */
+    title: string;
+    /** The error message; may span several lines. */
+    message: string;
+    /** Further lines shown dimmed below the message (file, stack, source). */
+    details?: string[];
+    /** Bottom line, e.g. how to get rid of the overlay. */
+    hint?: string;
+}
+
+/** Overlay of each mount, if one is shown. */
+const overlayState = defineRuntimeSlot(() => ({ overlay: null as ErrorOverlay | null }));
+
+const BORDER_STYLE: TextStyle = { color: 'red' };
+const TITLE_STYLE: TextStyle = { color: 'red', bold: true };
+const DETAIL_STYLE: TextStyle = { dim: true };
+const HINT_STYLE: TextStyle = { dim: true, italic: true };
+
+/** Columns left free on each side of the panel. */
+const MARGIN = 2;
+
+/**
+ * Show an overlay in the active mount, replacing any shown; null hides it.
+ */
+export function setErrorOverlay(overlay: ErrorOverlay | null): void {
+    overlayState().overlay = overlay;
+}
+
+export function getErrorOverlay(): ErrorOverlay | null {
+    return overlayState().overlay;
+}
+
+/**
+ * Queue the active mount's overlay, if any, for the current frame.
+ * @param root - Root of the tree being painted.
+ * @param viewport - Size of the frame.
+ */
+export function addErrorOverlayToTopLayer(root: CliNode, viewport: Viewport): void {
+    const overlay = getErrorOverlay();
+    if (!overlay) return;
+    const width = Math.max(1, viewport.width - MARGIN * 2);
+    const lines = layoutOverlay(overlay, width - 4, viewport.height - 2);
+    const height = Math.min(lines.length + 2, viewport.height);
+    addToTopLayer({
+        type: 'overlay',
+        node: root,
+        x: Math.min(MARGIN, viewport.width - width),
+        y: Math.max(0, Math.floor((viewport.height - height) / 2)),
+        width,
+        height,
+        zIndex: BASE_Z_INDEX.overlay,
+        render: renderErrorOverlay,
+        data: lines,
+    });
+}
+
+interface OverlayLine {
+    text: string;
+    style?: TextStyle;
+}
+
+/**
+ * The overlay's rows, wrapped to the panel's inner width. Details that do
+ * not fit in `maxRows` are cut so the hint stays visible.
+ */
+function layoutOverlay(overlay: ErrorOverlay, width: number, maxRows: number): OverlayLine[] {
+    const wrap = (text: string, style?: TextStyle): OverlayLine[] =>
+        wrapText(text, { maxWidth: Math.max(1, width), whiteSpace: 'pre-wrap' }).lines.map(line => ({ text: line, style }));
+    const lines: OverlayLine[] = [...wrap(overlay.title, TITLE_STYLE), { text: '' }, ...wrap(overlay.message)];
+    if (overlay.details?.length) {
+        lines.push({ text: '' });
+        for (const detail of overlay.details) {
+            // Empty details separate groups of lines
+            lines.push(...(detail ? wrap(detail, DETAIL_STYLE) : [{ text: '' }]));
+        }
+    }
+    const hint = overlay.hint ? [{ text: '' }, ...wrap(overlay.hint, HINT_STYLE)] : [];
+    return [...lines.slice(0, Math.max(0, maxRows - hint.length)), ...hint];
+}
+
+function renderErrorOverlay(
+    element: TopLayerElement,
+    grid: GridCell[][],
+    viewport: { width: number; height: number; clip: Viewport['clip'] }
+): void {
+    const { x, y, width, height } = element;
+    const lines = element.data as OverlayLine[];
+    clearGridArea(grid, x, y, width, height, viewport.clip);
+    registerTopLayerOcclusion(element);
+
+    const chars = getBorderChars('round');
+    const right = x + width - 1;
+    const bottom = y + height - 1;
+    const put = (row: number, col: number, char: string, style?: TextStyle) => {
+        if (row < 0 || row >= grid.length || col < 0 || col >= grid[row].length) return;
+        grid[row][col] = { char, style };
+    };
+
+    for (let col = x + 1; col < right; col++) {
+        put(y, col, chars.horizontal, BORDER_STYLE);
+        put(bottom, col, chars.horizontal, BORDER_STYLE);
+    }
+    for (let row = y + 1; row < bottom; row++) {
+        put(row, x, chars.vertical, BORDER_STYLE);
+        put(row, right, chars.vertical, BORDER_STYLE);
+    }
+    put(y, x, chars.topLeft, BORDER_STYLE);
+    put(y, right, chars.topRight, BORDER_STYLE);
+    put(bottom, x, chars.bottomLeft, BORDER_STYLE);
+    put(bottom, right, chars.bottomRight, BORDER_STYLE);
+
+    // Rows that still do not fit are cut off; the title and message come first
+    for (let i = 0; i < lines.length && y + 1 + i < bottom; i++) {
+        let col = x + 2;
+        for (const char of lines[i].text) {
+            const charWidth = getStringWidth(char);
+            if (col + charWidth > right - 1) break;
+            put(y + 1 + i, col, char, lines[i].style);
+            if (charWidth === 2) {
+                put(y + 1 + i, col + 1, '', lines[i].style);
+            }
+            col += charWidth;
+        }
+    }
+}
@@ -32,12 +32,40 @@ export interface GraphicsCapabilities {
 /** Cached capabilities after detection. */
 let cachedCapabilities: GraphicsCapabilities | null = null;
 
+/** Reported while `withoutGraphics` runs. */
+const NO_GRAPHICS: GraphicsCapabilities = {
+    protocol: 'none',
+    kitty: false,
+    iterm2: false,
+    sixel: false,
+};
+
+let graphicsDisabled = false;
+
+/**
+ * Run a function as if the terminal had no graphics protocol, so images
+ * are drawn with block characters. Used for inline renders, whose position
+ * on screen is unknown to the absolutely placed protocol images.
+ *
+ * @param fn - Function to run.
+ */
+export function withoutGraphics<T>(fn: () => T): T {
+    const previous = graphicsDisabled;
+    graphicsDisabled = true;
+    try {
+        return fn();
+    } finally {
+        graphicsDisabled = previous;
+    }
+}
+
 /**
  * Detect terminal graphics capabilities.
  * Uses environment variables and terminal queries for detection.
  * Results are cached for subsequent calls.
  */
 export function detectGraphicsCapabilities(): GraphicsCapabilities {
+    if (graphicsDisabled) return NO_GRAPHICS;
     if (cachedCapabilities) return cachedCapabilities;
 
     const env = process.env;
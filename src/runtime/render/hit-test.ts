@@ -0,0 +1,84 @@
+/**
+ * Hit Testing
+ *
+ * Records the on-screen region of every element painted in the current frame,
+ * in paint order. Because top-layer elements (popovers, dropdowns, dialogs)
+ * are painted after the main tree, and children after their parents, the last
+ * region containing a point is the topmost element at that cell.
+ *
+ * Regions are cleared at the start of each frame, like occlusion zones.
+ */
+
+import type { CliNode } from '../types.js';
+import type { Rect } from './occlusion.js';
+import { defineRuntimeSlot } from '../runtime-state.js';
+
+/** A painted region belonging to a node. */
+export interface HitRegion extends Rect {
+    /** The element painted in this region. */
+    node: CliNode;
+    /** Whether this region is a modal backdrop rather than the node itself. */
+    backdrop?: boolean;
+    /** Index of the select option painted in this row of an open dropdown. */
+    option?: number;
+}
+
+/** Regions painted in the current frame of each mount, in paint order. */
+const hitState = defineRuntimeSlot(() => ({ regions: [] as HitRegion[] }));
+
+/**
+ * Clear all hit regions. Called at start of each render frame.
+ */
+export function clearHitRegions(): void {
+    hitState().regions = [];
+}
+
+/**
+ * Record the visible region of a painted node.
+ * @param region - The node and the (clipped) rectangle it was painted into.
+ */
+export function addHitRegion(region: HitRegion): void {
+    if (region.width <= 0 || region.height <= 0) return;
+    hitState().regions.push(region);
+}
+
+/**
+ * Get all hit regions in paint order.
+ */
+export function getHitRegions(): HitRegion[] {
+    return hitState().regions;
+}
+
+/**
+ * Find the topmost painted region containing a cell.
+ *
+ * @param x - Cell column.
+ * @param y - Cell row.
+ * @returns The topmost region, or null if nothing was painted there.
+ */
+export function hitTestRegion(x: number, y: number): HitRegion | null {
+    const regions = hitState().regions;
+    for (let i = regions.length - 1; i >= 0; i--) {
+        const region = regions[i];
+        if (
+            x >= region.x &&
+            x < region.x + region.width &&
+            y >= region.y &&
+            y < region.y + region.height
+        ) {
+            return region;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the topmost element painted at a cell.
+ *
+ * @param x - Cell column.
+ * @param y - Cell row.
+ * @returns The element at that cell, or null.
+ */
+export function hitTest(x: number, y: number): CliNode | null {
+    return hitTestRegion(x, y)?.node ?? null;
+}
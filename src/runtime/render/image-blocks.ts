@@ -0,0 +1,263 @@
+/**
+ * Unicode Block Image Rendering
+ *
+ * Draws decoded images with text characters on terminals without a graphics
+ * protocol (tmux, plain xterm, ...). Each cell covers a small grid of
+ * sub-pixels, depending on the mode:
+ *
+ * - `half-block`: 1×2, `▀` with the top pixel as foreground and the bottom as background.
+ * - `quadrant`: 2×2, the quadrant glyph and color pair that best fit the four pixels.
+ * - `braille`: 2×4, dots for the brighter pixels. Finest detail, coarsest color.
+ *
+ * The result is written into the grid as ordinary cells, so images are
+ * occluded, clipped and scrolled like text. Transparent pixels leave the
+ * cell's existing background showing.
+ */
+
+import type { GridCell, ClipRect } from './types.js';
+import type { ImageData } from './graphics.js';
+import type { ObjectFit } from './image-loader.js';
+import { setCell } from './utils.js';
+
+/** How images are drawn without a graphics protocol; `none` shows the alt text. */
+export type ImageFallbackMode = 'half-block' | 'quadrant' | 'braille' | 'none';
+
+/** A cell of a block-rendered image. */
+export interface BlockCell {
+    char: string;
+    color?: string;
+    backgroundColor?: string;
+}
+
+/** Physical pixels per cell, matching the graphics protocol paths. */
+const CELL_PIXEL_WIDTH = 8;
+const CELL_PIXEL_HEIGHT = 16;
+
+/** Sub-pixel columns and rows per cell for each mode. */
+const SUBPIXELS: Record<Exclude<ImageFallbackMode, 'none'>, [number, number]> = {
+    'half-block': [1, 2],
+    quadrant: [2, 2],
+    braille: [2, 4],
+};
+
+/** Quadrant glyphs indexed by mask: top-left 1, top-right 2, bottom-left 4, bottom-right 8. */
+const QUADRANTS = [' ', '▘', '▝', '▀', '▖', '▌', '▞', '▛', '▗', '▚', '▐', '▜', '▄', '▙', '▟', '█'];
+
+/** Braille dot bits in sub-pixel order (row-major, two columns). */
+const BRAILLE_BITS = [0x01, 0x08, 0x02, 0x10, 0x04, 0x20, 0x40, 0x80];
+
+/** Pixels at or above this alpha are drawn; the rest are transparent. */
+const ALPHA_THRESHOLD = 128;
+
+type Rgba = [number, number, number, number];
+
+interface Placement {
+    x: number;
+    y: number;
+    scaleX: number;
+    scaleY: number;
+}
+
+/**
+ * Place an image inside a box following CSS `object-fit`, centered like
+ * the default `object-position`. Units are physical pixels.
+ */
+function placeImage(imageWidth: number, imageHeight: number, boxWidth: number, boxHeight: number, fit: ObjectFit): Placement {
+    if (fit === 'fill') {
+        return { x: 0, y: 0, scaleX: boxWidth / imageWidth, scaleY: boxHeight / imageHeight };
+    }
+    const contain = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+    let scale: number;
+    if (fit === 'cover') {
+        scale = Math.max(boxWidth / imageWidth, boxHeight / imageHeight);
+    } else if (fit === 'none') {
+        scale = 1;
+    } else if (fit === 'scale-down') {
+        scale = Math.min(1, contain);
+    } else {
+        scale = contain;
+    }
+    return {
+        x: (boxWidth - imageWidth * scale) / 2,
+        y: (boxHeight - imageHeight * scale) / 2,
+        scaleX: scale,
+        scaleY: scale,
+    };
+}
+
+/**
+ * Average the image pixels under a box (in physical pixels). Area outside
+ * the image counts as transparent.
+ */
+function samplePixels(image: ImageData, placement: Placement, x0: number, y0: number, x1: number, y1: number): Rgba {
+    const u0 = Math.floor((x0 - placement.x) / placement.scaleX);
+    const u1 = Math.max(u0 + 1, Math.ceil((x1 - placement.x) / placement.scaleX));
+    const v0 = Math.floor((y0 - placement.y) / placement.scaleY);
+    const v1 = Math.max(v0 + 1, Math.ceil((y1 - placement.y) / placement.scaleY));
+    const area = (u1 - u0) * (v1 - v0);
+
+    let r = 0, g = 0, b = 0, a = 0;
+    for (let v = Math.max(0, v0); v < Math.min(image.height, v1); v++) {
+        for (let u = Math.max(0, u0); u < Math.min(image.width, u1); u++) {
+            const i = (v * image.width + u) * 4;
+            const alpha = image.data[i + 3];
+            r += image.data[i] * alpha;
+            g += image.data[i + 1] * alpha;
+            b += image.data[i + 2] * alpha;
+            a += alpha;
+        }
+    }
+    if (a === 0) return [0, 0, 0, 0];
+    return [r / a, g / a, b / a, a / area];
+}
+
+function isOpaque(pixel: Rgba): boolean {
+    return pixel[3] >= ALPHA_THRESHOLD;
+}
+
+function luminance(pixel: Rgba): number {
+    return 0.2126 * pixel[0] + 0.7152 * pixel[1] + 0.0722 * pixel[2];
+}
+
+function mean(pixels: Rgba[]): Rgba {
+    const sum: Rgba = [0, 0, 0, 255];
+    for (const pixel of pixels) {
+        sum[0] += pixel[0];
+        sum[1] += pixel[1];
+        sum[2] += pixel[2];
+    }
+    return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length, 255];
+}
+
+function distance(a: Rgba, b: Rgba): number {
+    return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function toHex(pixel: Rgba): string {
+    return '#' + pixel.slice(0, 3).map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+function halfBlockCell(pixels: Rgba[]): BlockCell | null {
+    const [top, bottom] = pixels;
+    if (isOpaque(top) && isOpaque(bottom)) {
+        return { char: '▀', color: toHex(top), backgroundColor: toHex(bottom) };
+    }
+    if (isOpaque(top)) return { char: '▀', color: toHex(top) };
+    if (isOpaque(bottom)) return { char: '▄', color: toHex(bottom) };
+    return null;
+}
+
+function quadrantCell(pixels: Rgba[]): BlockCell | null {
+    const opaqueMask = pixels.reduce((mask, pixel, i) => (isOpaque(pixel) ? mask | (1 << i) : mask), 0);
+    if (opaqueMask === 0) return null;
+    if (opaqueMask !== 15) {
+        return { char: QUADRANTS[opaqueMask], color: toHex(mean(pixels.filter(isOpaque))) };
+    }
+
+    // Pick the foreground/background split with the least color error
+    let best = { mask: 15, error: Infinity, fg: pixels[0], bg: pixels[0] };
+    for (let mask = 1; mask <= 15; mask++) {
+        const set = pixels.filter((_, i) => mask & (1 << i));
+        const unset = pixels.filter((_, i) => !(mask & (1 << i)));
+        const fg = mean(set);
+        const bg = unset.length > 0 ? mean(unset) : fg;
+        const error = set.reduce((sum, p) => sum + distance(p, fg), 0) + unset.reduce((sum, p) => sum + distance(p, bg), 0);
+        if (error < best.error) {
+            best = { mask, error, fg, bg };
+        }
+    }
+    if (best.mask === 15) {
+        return { char: QUADRANTS[15], color: toHex(best.fg) };
+    }
+    return { char: QUADRANTS[best.mask], color: toHex(best.fg), backgroundColor: toHex(best.bg) };
+}
+
+function brailleCell(pixels: Rgba[]): BlockCell | null {
+    const opaque = pixels.filter(isOpaque);
+    if (opaque.length === 0) return null;
+
+    let dots: boolean[];
+    if (opaque.length < pixels.length) {
+        dots = pixels.map(isOpaque);
+    } else {
+        const threshold = opaque.reduce((sum, p) => sum + luminance(p), 0) / opaque.length;
+        dots = pixels.map(p => luminance(p) > threshold);
+        // Flat areas have nothing brighter than the mean
+        if (!dots.includes(true)) dots = pixels.map(() => true);
+    }
+
+    const bits = dots.reduce((sum, on, i) => (on ? sum | BRAILLE_BITS[i] : sum), 0);
+    const on = pixels.filter((_, i) => dots[i]);
+    const off = pixels.filter((p, i) => !dots[i] && isOpaque(p));
+    const cell: BlockCell = { char: String.fromCodePoint(0x2800 + bits), color: toHex(mean(on)) };
+    if (off.length > 0) {
+        cell.backgroundColor = toHex(mean(off));
+    }
+    return cell;
+}
+
+const CELL_BUILDERS = {
+    'half-block': halfBlockCell,
+    quadrant: quadrantCell,
+    braille: brailleCell,
+};
+
+/**
+ * Convert an image into block cells filling `width`×`height` cells.
+ * Null entries are fully transparent.
+ */
+export function rasterizeImageBlocks(
+    image: ImageData,
+    width: number,
+    height: number,
+    mode: Exclude<ImageFallbackMode, 'none'>,
+    objectFit: ObjectFit = 'fill'
+): (BlockCell | null)[][] {
+    const [columns, rows] = SUBPIXELS[mode];
+    const subWidth = CELL_PIXEL_WIDTH / columns;
+    const subHeight = CELL_PIXEL_HEIGHT / rows;
+    const placement = placeImage(image.width, image.height, width * CELL_PIXEL_WIDTH, height * CELL_PIXEL_HEIGHT, objectFit);
+    const build = CELL_BUILDERS[mode];
+
+    const cells: (BlockCell | null)[][] = [];
+    for (let row = 0; row < height; row++) {
+        const line: (BlockCell | null)[] = [];
+        for (let col = 0; col < width; col++) {
+            const pixels: Rgba[] = [];
+            for (let sy = 0; sy < rows; sy++) {
+                for (let sx = 0; sx < columns; sx++) {
+                    const x0 = col * CELL_PIXEL_WIDTH + sx * subWidth;
+                    const y0 = row * CELL_PIXEL_HEIGHT + sy * subHeight;
+                    pixels.push(samplePixels(image, placement, x0, y0, x0 + subWidth, y0 + subHeight));
+                }
+            }
+            line.push(build(pixels));
+        }
+        cells.push(line);
+    }
+    return cells;
+}
+
+/**
+ * Write block cells into the grid at (x, y), within the clip rect.
+ */
+export function paintImageBlocks(
+    cells: (BlockCell | null)[][],
+    grid: GridCell[][],
+    x: number,
+    y: number,
+    clip: ClipRect
+): void {
+    cells.forEach((line, rowOffset) => {
+        const row = y + rowOffset;
+        if (row < clip.y1 || row >= clip.y2) return;
+        line.forEach((cell, colOffset) => {
+            const col = x + colOffset;
+            if (!cell || col < clip.x1 || col >= clip.x2) return;
+            const style = cell.backgroundColor
+                ? { color: cell.color, backgroundColor: cell.backgroundColor }
+                : { color: cell.color };
+            setCell(grid, row, col, cell.char, style);
+        });
+    });
+}
@@ -159,6 +159,85 @@ export async function loadImageForTerminal(
     };
 }
 
+/** Longest side images are decoded at for Unicode block rendering. */
+const BLOCK_SOURCE_MAX_SIZE = 512;
+
+/**
+ * Decode an image for Unicode block rendering, which fits and samples the
+ * pixels itself at paint time. Large images are scaled down, keeping their
+ * aspect ratio.
+ * @param source - Image source.
+ * @returns Promise resolving to RGBA image data and its size in 8×16 pixel cells.
+ */
+export async function loadImageForBlocks(
+    source: ImageSource
+): Promise<ImageData & { cellWidth: number; cellHeight: number }> {
+    const image = await loadImage(source, {
+        width: BLOCK_SOURCE_MAX_SIZE,
+        height: BLOCK_SOURCE_MAX_SIZE,
+        fit: 'inside',
+        withoutEnlargement: true,
+    });
+    return {
+        ...image,
+        cellWidth: Math.ceil(image.width / 8),
+        cellHeight: Math.ceil(image.height / 16),
+    };
+}
+
+/** Upper bound for the DPI SVGs are rendered at, to keep tiny viewBoxes in check. */
+const MAX_SVG_DENSITY = 2400;
+
+/**
+ * Rasterize SVG markup to terminal cell dimensions.
+ * The SVG is rendered at a density matching the target size, so small icons
+ * are drawn sharp instead of being upscaled from their intrinsic size. The
+ * result is letterboxed with transparency, like `preserveAspectRatio="xMidYMid meet"`.
+ * @param markup - Serialized `<svg>` document.
+ * @param cellWidth - Target width in terminal cells.
+ * @param cellHeight - Target height in terminal cells.
+ * @param cellPixelWidth - Pixels per cell width (default: 8).
+ * @param cellPixelHeight - Pixels per cell height (default: 16).
+ * @returns Promise resolving to RGBA image data sized for terminal display.
+ */
+export async function loadSvgForTerminal(
+    markup: string,
+    cellWidth: number,
+    cellHeight: number,
+    cellPixelWidth = 8,
+    cellPixelHeight = 16
+): Promise<ImageData & { cellWidth: number; cellHeight: number }> {
+    const input = Buffer.from(markup);
+    const targetPixelWidth = cellWidth * cellPixelWidth;
+    const targetPixelHeight = cellHeight * cellPixelHeight;
+
+    const metadata = await sharp(input).metadata();
+    const scale = Math.max(
+        targetPixelWidth / (metadata.width || targetPixelWidth),
+        targetPixelHeight / (metadata.height || targetPixelHeight)
+    );
+    const density = Math.min(MAX_SVG_DENSITY, Math.max(1, 72 * scale));
+
+    const { data, info } = await sharp(input, { density })
+        .resize({
+            width: targetPixelWidth,
+            height: targetPixelHeight,
+            fit: 'contain',
+            background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+    return {
+        data: new Uint8Array(data),
+        width: info.width,
+        height: info.height,
+        cellWidth,
+        cellHeight,
+    };
+}
+
 /**
  * Get image metadata without loading full image data.
  * @param source - Image source.
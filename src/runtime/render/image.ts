@@ -2,7 +2,9 @@
  * Image Element Rendering
  * 
  * Renders <img> elements using terminal graphics protocols (Kitty, Sixel, iTerm2).
- * Falls back to placeholder rendering when graphics are not supported.
+ * Without graphics support, loaded images are drawn with Unicode block
+ * characters instead (see image-blocks.ts), or as a placeholder.
+ * Rasterized <svg> elements (see svg.ts) share the same state and output path.
  * 
  * Images are loaded eagerly when src is set and cached on the node.
  * During render, if the encoded image is available, it's included in the output.
@@ -22,9 +24,11 @@ import {
     type GraphicsProtocol,
 } from './graphics.js';
 import { markRowsDirty } from './pipeline/diff.js';
-import { loadImageForTerminal, type ObjectFit } from './image-loader.js';
+import { loadImageForTerminal, loadImageForBlocks, type ObjectFit } from './image-loader.js';
+import { rasterizeImageBlocks, paintImageBlocks, type BlockCell, type ImageFallbackMode } from './image-blocks.js';
 import { parseNumericAttribute } from '../utils/attributes.js';
 import { log } from '../logger.js';
+import { defineRuntimeSlot } from '../runtime-state.js';
 
 /** Symbol for storing image state on nodes. */
 const IMAGE_STATE = Symbol('cli.image.state');
@@ -49,6 +53,8 @@ interface ImageState {
     error: Error | null;
     /** Protocol used for encoding. */
     protocol: GraphicsProtocol;
+    /** Block cells from the last paint without a graphics protocol. */
+    blocks: { key: string; cells: (BlockCell | null)[][] } | null;
 }
 
 /** Get or create image state on a node. */
@@ -61,6 +67,9 @@ function setImageState(node: CliNode, state: ImageState): void {
     (node as unknown as Record<symbol, ImageState>)[IMAGE_STATE] = state;
 }
 
+/** RGBA data sized for the terminal, with its size in cells. */
+export type TerminalImageData = ImageData & { cellWidth: number; cellHeight: number };
+
 /**
  * Start loading an image for a node.
  * Called when src attribute is set on an <img> element.
@@ -73,25 +82,6 @@ export function loadImageForNode(
     src: string,
     scheduleRender: () => void
 ): void {
-    const caps = detectGraphicsCapabilities();
-    
-    // If no graphics support, don't bother loading
-    if (caps.protocol === 'none') {
-        setImageState(node, {
-            src,
-            loading: null,
-            rawData: null,
-            encoded: null,
-            cellWidth: 0,
-            cellHeight: 0,
-            pixelWidth: 0,
-            pixelHeight: 0,
-            error: null,
-            protocol: 'none',
-        });
-        return;
-    }
-
     // Get target dimensions from node style or attributes (default to reasonable size)
     const style = node.style || {};
     const attrWidth = parseNumericAttribute(node.width, 0);
@@ -104,36 +94,69 @@ export function loadImageForNode(
     // Get object-fit from style (default to 'fill' like browsers)
     const objectFit: ObjectFit = style.objectFit || 'fill';
 
+    loadRasterForNode(
+        node,
+        src,
+        targetWidth,
+        targetHeight,
+        (protocol) => protocol === 'none'
+            ? loadImageForBlocks(src)
+            : loadImageForTerminal(src, targetWidth, targetHeight, 8, 16, objectFit),
+        scheduleRender
+    );
+}
+
+/**
+ * Load raster data for a node and encode it for the detected graphics protocol.
+ * Without graphics support the pixels are kept for block rendering instead.
+ * @param node - The node to attach the image to.
+ * @param src - Identifies the content; compare with {@link getImageSource} to avoid reloading.
+ * @param cellWidth - Requested width in cells, until the image has loaded.
+ * @param cellHeight - Requested height in cells, until the image has loaded.
+ * @param load - Produces the RGBA data for the protocol it will be shown with.
+ * @param scheduleRender - Function to schedule a re-render when the image loads.
+ */
+export function loadRasterForNode(
+    node: CliNode,
+    src: string,
+    cellWidth: number,
+    cellHeight: number,
+    load: (protocol: GraphicsProtocol) => Promise<TerminalImageData>,
+    scheduleRender: () => void
+): void {
+    const caps = detectGraphicsCapabilities();
+
     const state: ImageState = {
         src,
         loading: null,
         rawData: null,
         encoded: null,
-        cellWidth: targetWidth,
-        cellHeight: targetHeight,
+        cellWidth,
+        cellHeight,
         pixelWidth: 0,
         pixelHeight: 0,
         error: null,
         protocol: caps.protocol,
+        blocks: null,
     };
 
     // Start async loading
     state.loading = (async () => {
         try {
-            const imageData = await loadImageForTerminal(
-                src,
-                targetWidth,
-                targetHeight,
-                8,
-                16,
-                objectFit
-            );
+            const imageData = await load(caps.protocol);
 
             // Store raw data for partial rendering
             state.rawData = imageData;
             state.pixelWidth = imageData.width;
             state.pixelHeight = imageData.height;
 
+            // Drawn with block characters at paint time
+            if (caps.protocol === 'none') {
+                state.loading = null;
+                scheduleRender();
+                return;
+            }
+
             // Encode full image for non-occluded rendering
             const encoded = encodeImage(imageData, {
                 cellWidth: imageData.cellWidth,
@@ -158,6 +181,13 @@ export function loadImageForNode(
     setImageState(node, state);
 }
 
+/**
+ * Get the source the node's current image state was loaded from.
+ */
+export function getImageSource(node: CliNode): string | null {
+    return getImageState(node)?.src ?? null;
+}
+
 /**
  * Check if an image node has a loaded, encoded image ready.
  */
@@ -215,17 +245,23 @@ interface RenderedImage {
     originalHeight?: number;
 }
 
-let renderedImages: RenderedImage[] = [];
+type ImagePosition = { x: number; y: number; width: number; height: number };
 
-/** Previous frame's image positions for diff-based clearing. */
-let previousImagePositions: Map<string, { x: number; y: number; width: number; height: number }> = new Map();
+/**
+ * Images queued by the current frame of each mount, and the previous
+ * frame's image positions for diff-based clearing.
+ */
+const imageState = defineRuntimeSlot(() => ({
+    rendered: [] as RenderedImage[],
+    previousPositions: new Map<string, ImagePosition>(),
+}));
 
 /**
  * Get registered image bounds for occlusion checking.
  * Returns array of {x, y, width, height, zIndex} for all queued images.
  */
 export function getImageBounds(): Array<{ x: number; y: number; width: number; height: number; zIndex: number }> {
-    return renderedImages.map(img => ({
+    return imageState().rendered.map(img => ({
         x: img.x,
         y: img.y,
         width: img.width,
@@ -238,20 +274,20 @@ export function getImageBounds(): Array<{ x: number; y: number; width: number; h
  * Clear rendered images (called at start of each render).
  */
 export function clearRenderedImages(): void {
-    renderedImages = [];
+    imageState().rendered = [];
 }
 
 /**
  * Get images that need to be output after the grid.
  */
 export function getRenderedImages(): RenderedImage[] {
-    return renderedImages;
+    return imageState().rendered;
 }
 
 /**
  * Render an <img> element.
  * If the image is loaded, queues it for output after the grid row.
- * Otherwise renders a placeholder.
+ * Otherwise renders a placeholder showing `label` (the alt text by default).
  * 
  * Image cells are marked with `isImageCell: true` so the grid serializer skips them.
  * This preserves the terminal's existing content, allowing PNG transparency to work.
@@ -264,7 +300,8 @@ export function renderImage(
     width: number,
     height: number,
     clip: ClipRect,
-    zIndex: number = 0
+    zIndex: number = 0,
+    label: string = node.alt || node.getAttribute?.('alt') || ''
 ): void {
     log('renderImage:enter', { 
         x, y, width, height, 
@@ -296,6 +333,7 @@ export function renderImage(
     // Calculate source offset (how much of the image is clipped from top/left)
     const srcOffsetX = visibleX1 - x;
     const srcOffsetY = visibleY1 - y;
+    const drawBlocks = caps.protocol === 'none' && getImageFallbackMode(node) !== 'none';
 
     // If graphics supported and image is loaded, queue for rendering
     if (caps.protocol !== 'none' && state?.encoded) {
@@ -306,7 +344,7 @@ export function renderImage(
         });
         
         // Queue the image with visible bounds (clipped position and size)
-        renderedImages.push({
+        imageState().rendered.push({
             x: visibleX1,
             y: visibleY1,
             width: visibleWidth,
@@ -324,19 +362,50 @@ export function renderImage(
             originalWidth: width,
             originalHeight: height,
         });
-    } else if (caps.protocol !== 'none' && state?.loading) {
+    } else if (state?.loading && (caps.protocol !== 'none' || drawBlocks)) {
         log('renderImage:loading');
         // Image is still loading - show loading indicator
         renderImageLoading(grid, x, y, width, height, clip);
+    } else if (drawBlocks && state?.rawData) {
+        log('renderImage:blocks');
+        renderImageBlocks(node, state, state.rawData, grid, x, y, width, height, clip);
     } else {
         log('renderImage:placeholder');
         // No graphics support or no image - render placeholder
-        const alt = node.alt || node.getAttribute?.('alt') || '';
-        renderImagePlaceholder(grid, x, y, width, height, alt, clip);
+        renderImagePlaceholder(grid, x, y, width, height, label, clip);
     }
     log('renderImage:exit');
 }
 
+function getImageFallbackMode(node: CliNode): ImageFallbackMode {
+    return node.style?.imageFallback ?? node.__cssStyle?.imageFallback ?? 'half-block';
+}
+
+/**
+ * Draw an image with Unicode block characters, reusing the cells from the
+ * previous paint while the size, mode and fit are unchanged.
+ */
+function renderImageBlocks(
+    node: CliNode,
+    state: ImageState,
+    image: ImageData,
+    grid: GridCell[][],
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    clip: ClipRect
+): void {
+    const mode = getImageFallbackMode(node);
+    if (mode === 'none') return;
+    const objectFit: ObjectFit = node.style?.objectFit ?? node.__cssStyle?.objectFit ?? 'fill';
+    const key = `${width}x${height}:${mode}:${objectFit}`;
+    if (state.blocks?.key !== key) {
+        state.blocks = { key, cells: rasterizeImageBlocks(image, width, height, mode, objectFit) };
+    }
+    paintImageBlocks(state.blocks.cells, grid, x, y, clip);
+}
+
 /**
  * Render a loading indicator for images still being loaded.
  */
@@ -498,7 +567,7 @@ function renderImagePlaceholder(
  * Check if there are images to render.
  */
 export function hasRenderedImages(): boolean {
-    return renderedImages.length > 0;
+    return imageState().rendered.length > 0;
 }
 
 import { 
@@ -562,8 +631,8 @@ function getImagePositionChanges(): {
     needsKittyClear: boolean;
 } {
     const currentPositions = new Map<string, { x: number; y: number; width: number; height: number }>();
-    for (let i = 0; i < renderedImages.length; i++) {
-        const img = renderedImages[i];
+    for (let i = 0; i < imageState().rendered.length; i++) {
+        const img = imageState().rendered[i];
         const key = `img_${i}`;
         currentPositions.set(key, { x: img.x, y: img.y, width: img.width, height: img.height });
     }
@@ -573,7 +642,7 @@ function getImagePositionChanges(): {
     let needsKittyClear = false;
     
     // Check positions that existed before
-    for (const [key, prevPos] of previousImagePositions) {
+    for (const [key, prevPos] of imageState().previousPositions) {
         const currentPos = currentPositions.get(key);
         
         if (!currentPos) {
@@ -599,7 +668,7 @@ function getImagePositionChanges(): {
     }
     
     // Check for new images
-    if (currentPositions.size !== previousImagePositions.size) {
+    if (currentPositions.size !== imageState().previousPositions.size) {
         changed = true;
     }
     
@@ -640,16 +709,16 @@ export function serializeRenderedImages(
     let output = '';
     const caps = detectGraphicsCapabilities();
     
-    // Get position changes info (before updating previousImagePositions)
+    // Get position changes info (before updating imageState().previousPositions)
     const changes = getImagePositionChanges();
-    const previousCount = previousImagePositions.size;
+    const previousCount = imageState().previousPositions.size;
     
     // Update previous positions for next frame
-    previousImagePositions = new Map();
-    for (let i = 0; i < renderedImages.length; i++) {
-        const img = renderedImages[i];
+    imageState().previousPositions = new Map();
+    for (let i = 0; i < imageState().rendered.length; i++) {
+        const img = imageState().rendered[i];
         const key = `img_${i}`;
-        previousImagePositions.set(key, { x: img.x, y: img.y, width: img.width, height: img.height });
+        imageState().previousPositions.set(key, { x: img.x, y: img.y, width: img.width, height: img.height });
     }
     
     // For Kitty protocol: The "images scroll with text" behavior in the spec refers to 
@@ -661,17 +730,17 @@ export function serializeRenderedImages(
     // 1. Images are removed (count decreases), OR
     // 2. Images moved to different positions
     const imagesMoved = changes.needsKittyClear;
-    const imagesWereRemoved = previousCount > 0 && renderedImages.length < previousCount;
+    const imagesWereRemoved = previousCount > 0 && imageState().rendered.length < previousCount;
     
     if (caps.protocol === 'kitty' && (imagesWereRemoved || imagesMoved)) {
         output += clearKittyImages();
     }
     
-    if (renderedImages.length === 0) {
+    if (imageState().rendered.length === 0) {
         return output;
     }
 
-    for (const img of renderedImages) {
+    for (const img of imageState().rendered) {
         const imgRect = { x: img.x, y: img.y, width: img.width, height: img.height };
         
         // If fully occluded, skip entirely
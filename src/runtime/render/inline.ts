@@ -0,0 +1,340 @@
+/**
+ * Inline Formatting Context
+ *
+ * A block container whose children are all text and inline-level elements
+ * (`display: inline` / `inline-block`, `<br>`) lays them out as one
+ * paragraph instead of as separate flex items:
+ *
+ *   <p>Status: <b>ok</b>, see <code>log.txt</code> for details</p>
+ *
+ * The children are removed from Yoga layout (`display: none`) and an
+ * anonymous Yoga leaf sized by {@link wrapRuns} stands in for them. After
+ * layout the wrapped lines are kept on the container, inline descendants get
+ * the bounding box of their fragments as `computedLayout`, and painting draws
+ * each fragment with its own element's style.
+ *
+ * Containers that mix inline and block-level children keep the flex layout.
+ */
+
+import Yoga, { type Node as YogaNode } from 'yoga-layout';
+import type { CliNode, Style, TextStyle } from '../types.js';
+import type { ClipRect, GridCell } from './types.js';
+import { getComputedCliStyle } from '../style/computed.js';
+import { getNodeTag, getNodeChildren } from '../utils/node.js';
+import { getRenderer } from './registry.js';
+import { wrapRuns, getWrapOptionsFromStyle, type RunLine, type TextRun } from './text-wrap.js';
+import { getPaddingInsets, inheritTextStyle, mergeTextStyles } from './utils.js';
+import { drawText } from './text.js';
+import { addHitRegion } from './hit-test.js';
+import { getLinkHref } from '../links.js';
+
+/**
+ * Where a wrapped fragment comes from.
+ */
+export interface InlineSource {
+    /** Text node, or the element for `inline-block` content and padding. */
+    node: CliNode;
+    /** Innermost inline element containing the fragment; null for the container's own text. */
+    element: CliNode | null;
+}
+
+/**
+ * Inline layout state of a container that establishes an inline formatting context.
+ */
+export interface InlineFlow {
+    /** Anonymous Yoga leaf that sizes the paragraph within the container. */
+    yogaNode: YogaNode;
+    /** Lines from the last layout; fragment `x` includes `text-align`. */
+    lines: RunLine<InlineSource>[];
+    /** Position of the paragraph relative to the container's border box. */
+    left: number;
+    top: number;
+    width: number;
+}
+
+const NBSP = '\u00a0';
+
+function isTextNode(node: CliNode): boolean {
+    return node.type === 'text' || node.nodeType === 3;
+}
+
+function isCommentNode(node: CliNode): boolean {
+    return node.type === 'comment' || node.nodeType === 8;
+}
+
+function readText(node: CliNode): string {
+    return String(node.textContent ?? node.value ?? '');
+}
+
+function readDisplay(node: CliNode): Style['display'] {
+    return node.__animatedStyle?.display ?? node.style?.display ?? node.__cssStyle?.display;
+}
+
+/**
+ * Whether a node takes part in its parent's inline formatting context.
+ */
+export function isInlineLevel(node: CliNode): boolean {
+    if (isTextNode(node)) return true;
+    if (getNodeTag(node) === 'br') return true;
+    const display = readDisplay(node);
+    return display === 'inline' || display === 'inline-block';
+}
+
+/**
+ * Whether a node (and everything inside it) can be laid out as inline runs.
+ */
+function isFlowable(node: CliNode): boolean {
+    if (isTextNode(node)) return true;
+    // Block anchors ({#if}, {@html}, ...) take no space
+    if (isCommentNode(node)) return true;
+    if (readDisplay(node) === 'none') return true;
+    if (!isInlineLevel(node)) return false;
+    const position = node.style?.position ?? node.__cssStyle?.position;
+    if (position === 'absolute' || position === 'fixed') return false;
+    return getNodeChildren(node).every(isFlowable);
+}
+
+/**
+ * Whether a container lays out its children as a paragraph.
+ * Only block containers (`display: block` or unset) qualify; `display: flex`
+ * keeps inline children as flex items, as in the browser.
+ */
+export function establishesInlineFormattingContext(node: CliNode): boolean {
+    if (isTextNode(node)) return false;
+    const display = readDisplay(node);
+    if (display !== undefined && display !== 'block') return false;
+    if (getRenderer(getNodeTag(node))?.customChildren) return false;
+    const children = getNodeChildren(node);
+    return children.some(child => !isTextNode(child) && isInlineLevel(child)) && children.every(isFlowable);
+}
+
+/**
+ * Collect the container's content as text runs in document order.
+ */
+export function collectInlineRuns(container: CliNode): TextRun<InlineSource>[] {
+    const runs: TextRun<InlineSource>[] = [];
+    const visit = (node: CliNode, element: CliNode | null): void => {
+        if (isTextNode(node)) {
+            const text = readText(node);
+            if (text) runs.push({ text, source: { node, element } });
+            return;
+        }
+        if (isCommentNode(node)) return;
+        const display = readDisplay(node);
+        if (display === 'none') return;
+        if (getNodeTag(node) === 'br') {
+            runs.push({ text: '', source: { node, element: node }, lineBreak: true });
+            return;
+        }
+        const padding = getPaddingInsets(node);
+        const source = { node, element: node };
+        if (padding.left > 0) runs.push({ text: NBSP.repeat(padding.left), source, atomic: true });
+        if (display === 'inline-block') {
+            // Atomic: the content never breaks across lines
+            const text = flattenText(node).replace(/\s+/g, ' ').trim();
+            if (text) runs.push({ text, source, atomic: true });
+        } else {
+            for (const child of getNodeChildren(node)) {
+                visit(child, node);
+            }
+        }
+        if (padding.right > 0) runs.push({ text: NBSP.repeat(padding.right), source, atomic: true });
+    };
+    for (const child of getNodeChildren(container)) {
+        visit(child, null);
+    }
+    return runs;
+}
+
+function flattenText(node: CliNode): string {
+    if (isTextNode(node)) return readText(node);
+    if (readDisplay(node) === 'none') return '';
+    return getNodeChildren(node).map(flattenText).join('');
+}
+
+/**
+ * Create or remove the container's anonymous paragraph node to match
+ * whether it currently establishes an inline formatting context.
+ */
+export function syncInlineFlow(node: CliNode, establishes: boolean): void {
+    if (!establishes) {
+        releaseInlineFlow(node);
+        return;
+    }
+    let flow = node.__inlineFlow;
+    if (!flow) {
+        const yogaNode = Yoga.Node.create();
+        yogaNode.setFlexGrow(1);
+        yogaNode.setFlexShrink(1);
+        yogaNode.setMinWidth(0);
+        yogaNode.setMeasureFunc((width, widthMode) => {
+            const maxWidth = widthMode === Yoga.MEASURE_MODE_UNDEFINED ? undefined : Math.floor(width);
+            const lines = wrapInlineFlow(node, maxWidth);
+            return {
+                width: Math.max(0, ...lines.map(line => line.width)),
+                height: lines.length,
+            };
+        });
+        node.yogaNode.insertChild(yogaNode, node.yogaNode.getChildCount());
+        flow = { yogaNode, lines: [], left: 0, top: 0, width: 0 };
+        node.__inlineFlow = flow;
+    }
+    // Text and style changes happen on nodes Yoga no longer sees
+    flow.yogaNode.markDirty();
+}
+
+/**
+ * Remove the container's anonymous paragraph node, if any.
+ */
+export function releaseInlineFlow(node: CliNode): void {
+    const flow = node.__inlineFlow;
+    if (!flow) return;
+    delete node.__inlineFlow;
+    try {
+        node.yogaNode.removeChild(flow.yogaNode);
+    } catch {
+        // Container already freed
+    }
+    flow.yogaNode.free();
+}
+
+function wrapInlineFlow(node: CliNode, maxWidth: number | undefined): RunLine<InlineSource>[] {
+    const style = getComputedCliStyle(node);
+    return wrapRuns(collectInlineRuns(node), { ...getWrapOptionsFromStyle(style), maxWidth });
+}
+
+/**
+ * Wrap the paragraph at its laid-out width and give inline descendants the
+ * bounding boxes of their fragments. Runs after Yoga layout.
+ */
+export function layoutInlineFlow(node: CliNode): void {
+    const flow = node.__inlineFlow;
+    if (!flow) return;
+    const box = flow.yogaNode.getComputedLayout();
+    const width = Math.max(0, Math.floor(box.width));
+    const lines = wrapInlineFlow(node, width);
+    const textAlign = getComputedCliStyle(node).textAlign;
+    for (const line of lines) {
+        const offset = alignOffset(line.width, width, textAlign);
+        for (const fragment of line.fragments) {
+            fragment.x += offset;
+        }
+    }
+    flow.lines = lines;
+    flow.left = box.left;
+    flow.top = box.top;
+    flow.width = width;
+
+    // Absolute boxes relative to the container, then converted to parent-relative
+    const boxes = new Map<CliNode, { x1: number; y1: number; x2: number; y2: number }>();
+    const extend = (target: CliNode, x: number, y: number, fragmentWidth: number): void => {
+        const existing = boxes.get(target);
+        if (existing) {
+            existing.x1 = Math.min(existing.x1, x);
+            existing.y1 = Math.min(existing.y1, y);
+            existing.x2 = Math.max(existing.x2, x + fragmentWidth);
+            existing.y2 = Math.max(existing.y2, y + 1);
+        } else {
+            boxes.set(target, { x1: x, y1: y, x2: x + fragmentWidth, y2: y + 1 });
+        }
+    };
+    lines.forEach((line, row) => {
+        for (const fragment of line.fragments) {
+            const x = flow.left + fragment.x;
+            const y = flow.top + row;
+            let target: CliNode | null = fragment.source.node;
+            while (target && target !== node) {
+                extend(target, x, y, fragment.width);
+                target = target.parent;
+            }
+        }
+    });
+
+    const assign = (parent: CliNode, originX: number, originY: number): void => {
+        for (const child of getNodeChildren(parent)) {
+            const rect = boxes.get(child);
+            child.computedLayout = rect
+                ? { left: rect.x1 - originX, top: rect.y1 - originY, width: rect.x2 - rect.x1, height: rect.y2 - rect.y1 }
+                : { left: flow.left - originX, top: flow.top - originY, width: 0, height: 0 };
+            assign(child, originX + child.computedLayout.left, originY + child.computedLayout.top);
+        }
+    };
+    assign(node, 0, 0);
+}
+
+function alignOffset(lineWidth: number, width: number, textAlign: TextStyle['textAlign']): number {
+    if (textAlign === 'center') return Math.max(0, Math.floor((width - lineWidth) / 2));
+    if (textAlign === 'right') return Math.max(0, width - lineWidth);
+    return 0;
+}
+
+/**
+ * Resolve the style each fragment source is drawn with. Text inherits from
+ * its inline ancestors, and an inline element's background covers its text.
+ */
+function resolveRunStyles(container: CliNode, inherited: TextStyle | undefined): Map<CliNode, TextStyle> {
+    const styles = new Map<CliNode, TextStyle>();
+    const visit = (node: CliNode, parentStyle: TextStyle | undefined, background: string | undefined): void => {
+        const computed = getComputedCliStyle(node, parentStyle);
+        const href = getLinkHref(node);
+        if (href) computed.link = href;
+        const style = mergeTextStyles(computed);
+        // Text is transparent unless it or an inline ancestor sets a background
+        const ownBackground = isTextNode(node) ? computed.backgroundColor : style.backgroundColor;
+        const effectiveBackground = ownBackground ?? background;
+        if (effectiveBackground) {
+            style.backgroundColor = effectiveBackground;
+        } else {
+            delete style.backgroundColor;
+        }
+        styles.set(node, style);
+        if (!isTextNode(node)) {
+            for (const child of getNodeChildren(node)) {
+                visit(child, inheritTextStyle(computed), effectiveBackground);
+            }
+        }
+    };
+    for (const child of getNodeChildren(container)) {
+        visit(child, inherited, undefined);
+    }
+    return styles;
+}
+
+/**
+ * Paint a container's paragraph.
+ *
+ * @param node - Container with an inline flow.
+ * @param grid - Target grid.
+ * @param x - Absolute column of the container's border box (after scrolling).
+ * @param y - Absolute row of the container's border box (after scrolling).
+ * @param clip - Clip rect for the container's content.
+ * @param inherited - Text style the container passes on to its children.
+ */
+export function paintInlineFlow(
+    node: CliNode,
+    grid: GridCell[][],
+    x: number,
+    y: number,
+    clip: ClipRect,
+    inherited: TextStyle | undefined
+): void {
+    const flow = node.__inlineFlow;
+    if (!flow) return;
+    const styles = resolveRunStyles(node, inherited);
+    flow.lines.forEach((line, row) => {
+        const rowY = Math.floor(y + flow.top) + row;
+        if (rowY < clip.y1 || rowY >= clip.y2) return;
+        for (const fragment of line.fragments) {
+            const colX = Math.floor(x + flow.left) + fragment.x;
+            const style = styles.get(fragment.source.node) ?? {};
+            drawText(fragment.text.replaceAll(NBSP, ' '), grid, colX, rowY, style, false, clip);
+
+            const element = fragment.source.element;
+            if (element) {
+                const x1 = Math.max(colX, clip.x1);
+                const x2 = Math.min(colX + fragment.width, clip.x2);
+                addHitRegion({ node: element, x: x1, y: rowY, width: x2 - x1, height: 1 });
+            }
+        }
+    });
+}
@@ -6,6 +6,8 @@
  * that should occlude elements beneath them.
  */
 
+import { defineRuntimeSlot } from '../runtime-state.js';
+
 /** A rectangular region. */
 export interface Rect {
     x: number;
@@ -20,14 +22,14 @@ export interface OcclusionZone extends Rect {
     zIndex: number;
 }
 
-/** Tracks occlusion zones for the current render frame. */
-let occlusionZones: OcclusionZone[] = [];
+/** Tracks occlusion zones for the current render frame of each mount. */
+const occlusionState = defineRuntimeSlot(() => ({ zones: [] as OcclusionZone[] }));
 
 /**
  * Clear all occlusion zones. Called at start of each render frame.
  */
 export function clearOcclusionZones(): void {
-    occlusionZones = [];
+    occlusionState().zones = [];
 }
 
 /**
@@ -35,21 +37,21 @@ export function clearOcclusionZones(): void {
  * @param zone - The rectangular zone that occludes content.
  */
 export function addOcclusionZone(zone: OcclusionZone): void {
-    occlusionZones.push(zone);
+    occlusionState().zones.push(zone);
 }
 
 /**
  * Get all registered occlusion zones.
  */
 export function getOcclusionZones(): OcclusionZone[] {
-    return occlusionZones;
+    return occlusionState().zones;
 }
 
 /**
  * Check if a point is occluded by any zone.
  */
 export function isPointOccluded(x: number, y: number): boolean {
-    for (const zone of occlusionZones) {
+    for (const zone of occlusionState().zones) {
         if (
             x >= zone.x &&
             x < zone.x + zone.width &&
@@ -66,7 +68,7 @@ export function isPointOccluded(x: number, y: number): boolean {
  * Check if a rectangle overlaps with any occlusion zone.
  */
 export function isRectOccluded(rect: Rect): boolean {
-    for (const zone of occlusionZones) {
+    for (const zone of occlusionState().zones) {
         if (rectsOverlap(rect, zone)) {
             return true;
         }
@@ -78,7 +80,7 @@ export function isRectOccluded(rect: Rect): boolean {
  * Check if a rectangle is fully occluded (completely covered).
  */
 export function isRectFullyOccluded(rect: Rect): boolean {
-    for (const zone of occlusionZones) {
+    for (const zone of occlusionState().zones) {
         if (
             rect.x >= zone.x &&
             rect.y >= zone.y &&
@@ -103,7 +105,7 @@ export function isRectFullyOccluded(rect: Rect): boolean {
  */
 export function getVisibleRegions(rect: Rect): VisibleRegion[] {
     // Sort zones by z-index (highest first) so higher overlays take priority
-    const sortedZones = [...occlusionZones].sort((a, b) => b.zIndex - a.zIndex);
+    const sortedZones = [...occlusionState().zones].sort((a, b) => b.zIndex - a.zIndex);
     
     // Start with the full rectangle as potentially visible
     let regions: Rect[] = [rect];
@@ -3,6 +3,8 @@ import type { GridCell } from '../types.js';
 import { ANSI } from '../../style/colors.js';
 import { getStyleCodes, stylesEqual } from '../styles.js';
 import { log } from '../../logger.js';
+import { hyperlinkStart, HYPERLINK_END } from '../../links.js';
+import { defineRuntimeSlot } from '../../runtime-state.js';
 
 interface FrameCache {
     grid: GridCell[][];
@@ -11,8 +13,23 @@ interface FrameCache {
 
 const PREVIOUS_FRAMES = new WeakMap<CliNode, FrameCache>();
 
+/**
+ * Screen rows an inline root has claimed below the line the cursor started
+ * on, and the row the cursor was left on. Unlike frames, regions survive
+ * `invalidateFrame`: a resize redraws the region in place.
+ */
+interface InlineRegion {
+    height: number;
+    cursorRow: number;
+}
+
+const INLINE_REGIONS = new WeakMap<CliNode, InlineRegion>();
+
+/** Clears from the cursor to the end of the screen. */
+const ERASE_BELOW = '\x1b[J';
+
 /** Rows that must be re-rendered regardless of diff (e.g., under moved images). */
-let dirtyRows: Set<number> = new Set();
+const dirtyRows = defineRuntimeSlot(() => new Set<number>());
 
 /**
  * Mark rows as dirty so they will be re-rendered even if grid content hasn't changed.
@@ -21,7 +38,7 @@ let dirtyRows: Set<number> = new Set();
  */
 export function markRowsDirty(rows: number[]): void {
     for (const row of rows) {
-        dirtyRows.add(row);
+        dirtyRows().add(row);
     }
 }
 
@@ -29,17 +46,50 @@ export function markRowsDirty(rows: number[]): void {
  * Clear all dirty row markers. Called after serialization.
  */
 export function clearDirtyRows(): void {
-    dirtyRows.clear();
+    dirtyRows().clear();
 }
 
 /**
  * Get current dirty rows.
  */
 export function getDirtyRows(): Set<number> {
-    return dirtyRows;
+    return dirtyRows();
+}
+
+/**
+ * Drop the cached previous frame for a root so the next call to
+ * diffAndSerialize performs a full redraw.
+ * Used after terminal resizes, where the terminal may have reflowed old output.
+ * @param root - Root node whose cached frame should be discarded.
+ */
+export function invalidateFrame(root: CliNode): void {
+    PREVIOUS_FRAMES.delete(root);
+}
+
+/**
+ * The grid most recently serialized for a root, or null before the first
+ * frame or after `invalidateFrame`. Callers must not mutate it.
+ * @param root - Root node that was rendered.
+ */
+export function getLastFrame(root: CliNode): GridCell[][] | null {
+    return PREVIOUS_FRAMES.get(root)?.grid ?? null;
 }
 
-export function diffAndSerialize(root: CliNode, grid: GridCell[][], statusLine?: string): string {
+/**
+ * Serialize a frame, writing only the rows that changed since the last one.
+ *
+ * Full-screen frames address rows absolutely from the top-left corner.
+ * Inline frames (`inline`) are drawn relative to the line the cursor was on
+ * when the first frame was written: the region grows downward by emitting
+ * newlines, so the terminal scrolls as needed, and rows it no longer needs
+ * are erased.
+ *
+ * @param root - Root node being rendered; keys the cached frame.
+ * @param grid - Painted cells.
+ * @param statusLine - Optional line drawn below the grid.
+ * @param inline - Draw relative to the cursor instead of the screen.
+ */
+export function diffAndSerialize(root: CliNode, grid: GridCell[][], statusLine?: string, inline = false): string {
     log('diffAndSerialize:enter', { 
         gridRows: grid?.length, 
         gridCols: grid?.[0]?.length,
@@ -50,15 +100,18 @@ export function diffAndSerialize(root: CliNode, grid: GridCell[][], statusLine?:
     const prev = PREVIOUS_FRAMES.get(root);
     const width = grid[0]?.length ?? 0;
     const height = grid.length;
-    const needsFullRedraw =
-        !prev || prev.grid.length !== height || (height > 0 && prev.grid[0]?.length !== width);
+    const widthChanged = height > 0 && prev?.grid[0]?.length !== width;
+    // An inline region changes height with its content; only full-screen frames redraw for it
+    const needsFullRedraw = !prev || widthChanged || (!inline && prev.grid.length !== height);
 
     log('diffAndSerialize:setup', { width, height, needsFullRedraw, hasPrev: !!prev });
 
     // Note: Cursor visibility is managed by renderToString, not here
     let output = '';
 
-    if (needsFullRedraw) {
+    if (inline) {
+        output += serializeInline(root, grid, needsFullRedraw ? undefined : prev?.grid, statusLine);
+    } else if (needsFullRedraw) {
         log('diffAndSerialize:fullRedraw');
         output += ANSI.CLEAR_SCREEN;
         output += serializeAllRows(grid);
@@ -69,7 +122,9 @@ export function diffAndSerialize(root: CliNode, grid: GridCell[][], statusLine?:
         log('diffAndSerialize:diff:done');
     }
 
-    if (statusLine !== undefined) {
+    if (inline) {
+        // The status line is drawn as the region's last row
+    } else if (statusLine !== undefined) {
         const prevStatus = prev?.statusLine;
         if (needsFullRedraw || statusLine !== prevStatus) {
             output += ANSI.MOVE_TO(0, height);
@@ -91,6 +146,89 @@ export function diffAndSerialize(root: CliNode, grid: GridCell[][], statusLine?:
     return output;
 }
 
+/**
+ * Move the cursor of an inline region to the start of row `y`, growing
+ * the region with newlines when the row is below it.
+ */
+function moveInline(region: InlineRegion, y: number): string {
+    let output = '';
+    const target = Math.min(y, region.height - 1);
+    const delta = target - region.cursorRow;
+    if (delta < 0) output += `\x1b[${-delta}A`;
+    if (delta > 0) output += `\x1b[${delta}B`;
+    output += '\r';
+    if (y >= region.height) {
+        output += '\r\n'.repeat(y - region.height + 1);
+        region.height = y + 1;
+    }
+    region.cursorRow = y;
+    return output;
+}
+
+function serializeInline(root: CliNode, grid: GridCell[][], prev: GridCell[][] | undefined, statusLine?: string): string {
+    // The line the cursor starts on is the region's first row
+    let region = INLINE_REGIONS.get(root);
+    if (!region) {
+        region = { height: 1, cursorRow: 0 };
+        INLINE_REGIONS.set(root, region);
+    }
+    const width = grid[0]?.length ?? 0;
+    const lines = grid.map(renderRow);
+    if (statusLine !== undefined) {
+        lines.push(statusLine.slice(0, width).padEnd(width, ' ') + ANSI.RESET);
+    }
+
+    let output = '';
+    if (!prev) {
+        output += moveInline(region, 0) + ERASE_BELOW;
+        region.height = 1;
+    }
+    for (let y = 0; y < lines.length; y++) {
+        const nextRow = grid[y];
+        const prevRow = prev?.[y];
+        const unchanged = nextRow && prevRow && !dirtyRows().has(y) && rowsEqual(nextRow, prevRow);
+        // The status line is not part of the cached grid, so it is always rewritten
+        if (prev && unchanged && y < region.height) continue;
+        output += moveInline(region, y) + ANSI.CLEAR_LINE + lines[y];
+    }
+    if (region.height > Math.max(lines.length, 1)) {
+        output += moveInline(region, lines.length) + ERASE_BELOW;
+        region.height = Math.max(lines.length, 1);
+    }
+    clearDirtyRows();
+    return output;
+}
+
+/**
+ * Move the cursor to a fresh line below a root's inline region, leaving
+ * the last frame in place (and in the scrollback once it scrolls away).
+ * Forgets the region, so a later frame starts a new one.
+ *
+ * @param root - Root that was rendered inline.
+ * @returns The escape sequence to write, or '' when nothing was drawn.
+ */
+export function leaveInlineRegion(root: CliNode): string {
+    const region = INLINE_REGIONS.get(root);
+    if (!region) return '';
+    INLINE_REGIONS.delete(root);
+    PREVIOUS_FRAMES.delete(root);
+    return moveInline(region, region.height);
+}
+
+/**
+ * Serialize a whole grid as newline-separated lines, for output that is
+ * not a terminal screen. Plain lines carry only text, with trailing
+ * spaces removed.
+ *
+ * @param grid - Painted cells.
+ * @param plain - Leave out styles and hyperlinks.
+ */
+export function serializeStatic(grid: GridCell[][], plain = false): string {
+    return grid
+        .map(row => (plain ? row.map(cell => cell.char).join('').trimEnd() : renderRow(row)))
+        .join('\n');
+}
+
 function serializeAllRows(grid: GridCell[][]): string {
     log('serializeAllRows:enter', { rows: grid?.length });
     let output = '';
@@ -115,7 +253,7 @@ function serializeDiffRows(next: GridCell[][], prev: GridCell[][]): string {
         const prevRow = prev[y];
         
         // Force re-render if row is marked dirty (e.g., image moved away from this row)
-        const isDirty = dirtyRows.has(y);
+        const isDirty = dirtyRows().has(y);
         
         if (!nextRow || !prevRow) {
             output += ANSI.MOVE_TO(0, y);
@@ -150,8 +288,16 @@ function rowsEqual(a: GridCell[], b: GridCell[]): boolean {
 function renderRow(cells: GridCell[]): string {
     let line = '';
     let currentStyle: TextStyle | undefined = undefined;
+    let currentLink: string | undefined = undefined;
 
     for (const cell of cells) {
+        // Runs of cells inside <a href> become one OSC 8 hyperlink
+        const link = cell.style?.link;
+        if (link !== currentLink) {
+            if (currentLink) line += HYPERLINK_END;
+            if (link) line += hyperlinkStart(link);
+            currentLink = link;
+        }
         const styleChanged = !stylesEqual(currentStyle, cell.style);
         if (styleChanged) {
             if (cell.style) {
@@ -167,6 +313,10 @@ function renderRow(cells: GridCell[]): string {
         line += cell.char;
     }
 
+    if (currentLink) {
+        line += HYPERLINK_END;
+    }
+
     // Reset at end of line if we have an active style
     if (currentStyle) {
         line += ANSI.RESET;
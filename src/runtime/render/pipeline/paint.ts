@@ -16,6 +16,7 @@ import { isDialogOpen, isDialogModal, shouldHideDialog, getOpenDialogs, getOpenM
 import { clearRenderedImages } from '../image.js';
 import { getNodeTag, getNodeChildren } from '../../utils/node.js';
 import { clearOcclusionZones } from '../occlusion.js';
+import { clearHitRegions, addHitRegion } from '../hit-test.js';
 import {
     clearTopLayer,
     addPopoverToTopLayer,
@@ -26,6 +27,7 @@ import {
     clearGridArea,
     type TopLayerElement,
 } from '../top-layer.js';
+import { addErrorOverlayToTopLayer } from '../error-overlay.js';
 import type {
     PaintContext,
     NodeBounds,
@@ -54,6 +56,7 @@ import {
 } from '../scrollbar.js';
 import { log } from '../../logger.js';
 import { getImageBounds } from '../image.js';
+import { getLinkHref } from '../../links.js';
 
 // Import renderers to trigger their self-registration
 import '../text.js';
@@ -63,6 +66,7 @@ import '../button.js';
 import '../progress.js';
 import '../meter.js';
 import '../image.js';
+import '../svg.js';
 import '../list.js';
 import '../details.js';
 import '../table.js';
@@ -71,17 +75,8 @@ import '../fieldset.js';
 // Import base rendering utilities
 import { renderElementBackground, renderElementBorder } from '../base-render.js';
 import { isDetailsOpen } from '../details.js';
-
-const INHERITED_TEXT_PROPS: (keyof TextStyle)[] = [
-    'color',
-    'bold',
-    'italic',
-    'underline',
-    'strikethrough',
-    'dim',
-    'inverse',
-    'textAlign',
-];
+import { inheritTextStyle } from '../utils.js';
+import { paintInlineFlow } from '../inline.js';
 
 /**
  * Get the z-index value for a node.
@@ -136,23 +131,6 @@ function sortByZIndex(children: CliNode[]): CliNode[] {
     return indexed.map(item => item.child);
 }
 
-/**
- * Extract inherited text style properties from a computed style.
- */
-function inheritTextStyle(style?: TextStyle): TextStyle | undefined {
-    if (!style) return undefined;
-    const next: TextStyle = {};
-    const styleRecord = style as Record<string, unknown>;
-    const nextRecord = next as Record<string, unknown>;
-    for (const prop of INHERITED_TEXT_PROPS) {
-        const value = styleRecord[prop];
-        if (value !== undefined) {
-            nextRecord[prop] = value;
-        }
-    }
-    return next;
-}
-
 /**
  * Paint a node subtree within constrained bounds.
  * 
@@ -212,6 +190,7 @@ export function paintTree(root: CliNode, grid: GridCell[][]): void {
     // Clear state from previous render
     clearRenderedImages();
     clearOcclusionZones();
+    clearHitRegions();
     clearTopLayer();
     
     // Create root context with skipTopLayer=true for main tree pass
@@ -253,6 +232,8 @@ export function paintTree(root: CliNode, grid: GridCell[][]): void {
         }
     }
     
+    addErrorOverlayToTopLayer(root, ctx.viewport);
+
     // Render all top-layer elements in z-index order
     log('paintTree:topLayer:start');
     const topLayerElements = getTopLayerElements();
@@ -296,6 +277,8 @@ function paintNode(node: CliNode, ctx: PaintContext): void {
     }
     
     const computedStyle = getComputedCliStyle(node, parentStyle);
+    const href = getLinkHref(node);
+    if (href) computedStyle.link = href;
     const resolvedPosition = readPosition(node);
     const isFixed = resolvedPosition === 'fixed';
     const anchored = node.__anchoredPosition;
@@ -344,6 +327,17 @@ function paintNode(node: CliNode, ctx: PaintContext): void {
 
     const isText = node.nodeType === TEXT_NODE || node.type === 'text';
     const tagName = isText ? '#text' : getNodeTag(node);
+
+    // Record the visible region for pointer hit testing (text belongs to its parent)
+    if (!isText) {
+        addHitRegion({
+            node,
+            x: nodeClip.x1,
+            y: nodeClip.y1,
+            width: nodeClip.x2 - nodeClip.x1,
+            height: nodeClip.y2 - nodeClip.y1,
+        });
+    }
     const isFormControl = tagName === 'input' || tagName === 'textarea' || tagName === 'select' || tagName === 'button';
     
     // Create node bounds for rendering utilities
@@ -508,6 +502,11 @@ function paintNode(node: CliNode, ctx: PaintContext): void {
             scrollOffset: isRendererScrollable ? { x: rendererScrollOffsetX, y: rendererScrollOffsetY } : undefined,
         });
         
+        if (node.__inlineFlow) {
+            paintInlineFlow(node, grid, absX - rendererScrollOffsetX, absY - rendererScrollOffsetY, rendererContentClip, inheritedStyle);
+            return;
+        }
+        
         // Get children and sort by z-index for proper stacking order
         const rendererRawChildren = getNodeChildren(node);
         const rendererValidChildren = rendererRawChildren.filter(
@@ -630,34 +629,38 @@ function paintNode(node: CliNode, ctx: PaintContext): void {
     // Check if this is a closed <details> element - only render <summary> children
     const isClosedDetails = tagName === 'details' && !isDetailsOpen(node);
     
-    for (const childNode of sortedChildren) {
-        // For closed <details>, only render <summary> children
-        if (isClosedDetails && getNodeTag(childNode) !== 'summary') {
-            continue;
-        }
+    if (node.__inlineFlow) {
+        paintInlineFlow(node, grid, absX - scrollOffsetX, absY - scrollOffsetY, contentClip, inheritedStyle);
+    } else {
+        for (const childNode of sortedChildren) {
+            // For closed <details>, only render <summary> children
+            if (isClosedDetails && getNodeTag(childNode) !== 'summary') {
+                continue;
+            }
         
-        // Skip children outside visible area when inside a scroll container (virtualization)
-        if (isScrollable && childNode.computedLayout) {
-            // Child positions include padding offset, so we convert to content-relative
-            // by subtracting paddingTop/Left, then apply scroll offset
-            const childRect = {
-                x: childNode.computedLayout.left - paddingLeft - scrollOffsetX,
-                y: childNode.computedLayout.top - paddingTop - scrollOffsetY,
-                width: childNode.computedLayout.width,
-                height: childNode.computedLayout.height,
-            };
-            const viewportRect = {
-                x: 0,
-                y: 0,
-                width: contentWidth,
-                height: contentHeight,
-            };
-            if (!rectsOverlap(childRect, viewportRect)) {
-                continue; // Skip off-screen children
+            // Skip children outside visible area when inside a scroll container (virtualization)
+            if (isScrollable && childNode.computedLayout) {
+                // Child positions include padding offset, so we convert to content-relative
+                // by subtracting paddingTop/Left, then apply scroll offset
+                const childRect = {
+                    x: childNode.computedLayout.left - paddingLeft - scrollOffsetX,
+                    y: childNode.computedLayout.top - paddingTop - scrollOffsetY,
+                    width: childNode.computedLayout.width,
+                    height: childNode.computedLayout.height,
+                };
+                const viewportRect = {
+                    x: 0,
+                    y: 0,
+                    width: contentWidth,
+                    height: contentHeight,
+                };
+                if (!rectsOverlap(childRect, viewportRect)) {
+                    continue; // Skip off-screen children
+                }
             }
-        }
         
-        paintNode(childNode, childCtx);
+            paintNode(childNode, childCtx);
+        }
     }
     
     // Render scrollbar for scroll containers
@@ -797,6 +800,8 @@ function renderTopLayerElement(
     if (element.type === 'modal') {
         const data = element.data as { backdropStyle?: TextStyle } | undefined;
         renderModalBackdrop(grid, viewport, data?.backdropStyle);
+        // Clicks on the backdrop target the dialog, as in browsers
+        addHitRegion({ node: element.node, x: 0, y: 0, width: viewport.width, height: viewport.height, backdrop: true });
     }
     
     // Clear the area first - ensures content beneath is fully occluded
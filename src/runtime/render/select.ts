@@ -11,6 +11,7 @@ import type { TopLayerElement } from './top-layer.js';
 import { registerRenderer } from './registry.js';
 import { addDropdownToTopLayer, clearGridArea } from './top-layer.js';
 import { addOcclusionZone } from './occlusion.js';
+import { addHitRegion } from './hit-test.js';
 import { getDomNode } from '../dom/happy.js';
 import { getPaddingInsets, getBorderInsets, resolveClip, setCell } from './utils.js';
 import { getBorderChars } from './border.js';
@@ -332,6 +333,7 @@ function renderDropdownOverlay(
         height: dropdownHeight,
         zIndex: element.zIndex,
     });
+    addHitRegion({ node, x: dropdownX, y: dropdownY, width: dropdownWidth, height: dropdownHeight });
 
     // Calculate visible option range (scroll to keep selected visible)
     const visibleCount = optionCount;
@@ -544,6 +546,12 @@ function renderDropdownOverlay(
         };
         
         if (optY < 0 || optY >= grid.length) continue;
+
+        // Clicking an option row selects it; optgroup headers are not selectable
+        if (!isGroup) {
+            const option = opts.slice(0, optIdx).filter(o => !o.isGroup).length;
+            addHitRegion({ node, x: x1, y: optY, width: dropdownWidth, height: 1, option });
+        }
         
         // Fill left padding
         for (let p = 0; p < optionPadding; p++) {
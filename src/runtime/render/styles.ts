@@ -1,7 +1,26 @@
 import type { TextStyle } from '../types.js';
 import { ANSI, resolveAnsiColor } from '../style/colors.js';
+import { getColorDepth } from '../style/color-depth.js';
+
+/**
+ * Reduce a style to the attributes monochrome terminals render reliably.
+ * Colors, dim, italic and strikethrough are dropped.
+ */
+function toMonochrome(style: TextStyle): TextStyle {
+    return {
+        bold: style.bold,
+        underline: style.underline,
+        inverse: style.inverse,
+    };
+}
 
 export function getStyleCodes(style: TextStyle, prevStyle?: TextStyle): string {
+    const depth = getColorDepth();
+    if (depth === 'mono') {
+        style = toMonochrome(style);
+        prevStyle = prevStyle && toMonochrome(prevStyle);
+    }
+
     // Only reset if we need to REMOVE a text decoration attribute
     // (e.g., turning off bold). Color changes don't require reset -
     // we can just emit the new color code.
@@ -39,7 +58,7 @@ export function getStyleCodes(style: TextStyle, prevStyle?: TextStyle): string {
     const fgChanged = !prevStyle || needsReset || prevStyle.color !== style.color;
     if (fgChanged) {
         if (style.color) {
-            const colorCode = resolveAnsiColor(style.color, false);
+            const colorCode = resolveAnsiColor(style.color, false, depth);
             if (colorCode) {
                 result += colorCode;
             }
@@ -52,7 +71,7 @@ export function getStyleCodes(style: TextStyle, prevStyle?: TextStyle): string {
     const bgChanged = !prevStyle || needsReset || prevStyle.backgroundColor !== style.backgroundColor;
     if (bgChanged) {
         if (style.backgroundColor) {
-            const bgColorCode = resolveAnsiColor(style.backgroundColor, true);
+            const bgColorCode = resolveAnsiColor(style.backgroundColor, true, depth);
             if (bgColorCode) {
                 result += bgColorCode;
             }
@@ -77,6 +96,7 @@ export function stylesEqual(a: TextStyle | undefined, b: TextStyle | undefined):
         a.strikethrough === b.strikethrough &&
         a.inverse === b.inverse &&
         a.color === b.color &&
-        a.backgroundColor === b.backgroundColor
+        a.backgroundColor === b.backgroundColor &&
+        a.link === b.link
     );
 }
@@ -0,0 +1,191 @@
+/**
+ * SVG Element Rendering
+ *
+ * `<svg>` subtrees are built as regular CLI nodes, but their shapes mean
+ * nothing to the cell layout. The renderer serializes the subtree back to
+ * markup, rasterizes it with sharp at the element's cell size and hands the
+ * pixels to the image pipeline, so it goes out through the same Kitty,
+ * iTerm2 and Sixel paths as <img> and gets the same placeholder fallback.
+ *
+ * The raster is reused until the markup or the cell size changes.
+ */
+
+import type { CliNode } from '../types.js';
+import type { ElementRenderer } from './registry.js';
+import { registerRenderer } from './registry.js';
+import { getNodeTag, getNodeChildren } from '../utils/node.js';
+import { loadRasterForNode, getImageSource, renderImage } from './image.js';
+import { loadSvgForTerminal } from './image-loader.js';
+import { scheduleRender } from '../mount.js';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/** Cell aspect ratio (height / width) assumed when sizing SVGs. */
+const CELL_ASPECT = 2;
+
+/** Width in cells of an SVG without an explicit size. */
+export const DEFAULT_SVG_WIDTH = 20;
+
+/** Height in cells of an SVG without an explicit size or aspect ratio. */
+export const DEFAULT_SVG_HEIGHT = 10;
+
+/**
+ * Mixed-case SVG element names. Node tags are stored lowercased, but SVG is
+ * XML and the rasterizer only understands the proper case.
+ */
+const SVG_TAG_NAMES = new Map(
+    [
+        'animateMotion', 'animateTransform', 'clipPath', 'feBlend', 'feColorMatrix',
+        'feComponentTransfer', 'feComposite', 'feConvolveMatrix', 'feDiffuseLighting',
+        'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood', 'feFuncA',
+        'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feImage', 'feMerge',
+        'feMergeNode', 'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting',
+        'feSpotLight', 'feTile', 'feTurbulence', 'foreignObject', 'linearGradient',
+        'radialGradient', 'textPath',
+    ].map(name => [name.toLowerCase(), name])
+);
+
+function isTextNode(node: CliNode): boolean {
+    return node.type === 'text' || node.nodeType === 3;
+}
+
+function escapeText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeAttribute(value: string): string {
+    return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize an `<svg>` node and its descendants to standalone SVG markup.
+ *
+ * @param node - The `<svg>` element.
+ * @param currentColor - Replaces `currentColor`, which has no meaning outside the page.
+ */
+export function serializeSvg(node: CliNode, currentColor?: string): string {
+    const serialize = (current: CliNode, isRoot: boolean): string => {
+        if (isTextNode(current)) {
+            return escapeText(String(current.value ?? current.textContent ?? ''));
+        }
+        if (current.type === 'comment' || current.nodeType === 8) {
+            return '';
+        }
+        const tag = getNodeTag(current);
+        const name = SVG_TAG_NAMES.get(tag) ?? tag;
+        const attributes = { ...current.__attributes };
+        if (isRoot && !attributes.xmlns) {
+            attributes.xmlns = SVG_NAMESPACE;
+        }
+        let markup = `<${name}`;
+        for (const [key, value] of Object.entries(attributes)) {
+            const resolved = currentColor ? value.replace(/currentColor/gi, currentColor) : value;
+            markup += ` ${key}="${escapeAttribute(resolved)}"`;
+        }
+        markup += '>';
+        for (const child of getNodeChildren(current)) {
+            markup += serialize(child, false);
+        }
+        return `${markup}</${name}>`;
+    };
+    return serialize(node, true);
+}
+
+/**
+ * Width / height ratio of an SVG from its `viewBox`, or from its
+ * `width` and `height` attributes. Null when neither gives one.
+ */
+export function getSvgAspectRatio(node: CliNode): number | null {
+    const attributes = node.__attributes ?? {};
+    const viewBox = attributes.viewBox ?? attributes.viewbox;
+    if (viewBox) {
+        const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+        if (parts.length === 4 && parts[2] > 0 && parts[3] > 0) {
+            return parts[2] / parts[3];
+        }
+    }
+    const width = parseFloat(attributes.width ?? '');
+    const height = parseFloat(attributes.height ?? '');
+    if (width > 0 && height > 0) {
+        return width / height;
+    }
+    return null;
+}
+
+/**
+ * Default cell size of an SVG whose style leaves one or both dimensions
+ * unset. A missing height follows the aspect ratio of the drawing.
+ */
+export function getSvgDefaultSize(
+    node: CliNode,
+    width: number | undefined
+): { width: number; height: number } {
+    const resolvedWidth = width ?? DEFAULT_SVG_WIDTH;
+    const ratio = getSvgAspectRatio(node);
+    const height = ratio ? Math.max(1, Math.round(resolvedWidth / ratio / CELL_ASPECT)) : DEFAULT_SVG_HEIGHT;
+    return { width: resolvedWidth, height };
+}
+
+/**
+ * Text shown in place of the drawing when graphics are unavailable:
+ * `aria-label`, else the `<title>` child.
+ */
+export function getSvgLabel(node: CliNode): string {
+    const ariaLabel = node.__attributes?.['aria-label'];
+    if (ariaLabel) return ariaLabel;
+    const title = getNodeChildren(node).find(child => getNodeTag(child) === 'title');
+    if (!title) return '';
+    return getNodeChildren(title)
+        .filter(isTextNode)
+        .map(child => String(child.value ?? ''))
+        .join('')
+        .trim();
+}
+
+/**
+ * SVG element renderer.
+ * Registered with the element registry to handle <svg> elements.
+ */
+export const svgRenderer: ElementRenderer = {
+    tags: ['svg'],
+    customLayout: true,
+    customChildren: true,
+
+    render(node, ctx, bounds, computedStyle) {
+        const width = Math.floor(bounds.width);
+        const height = Math.floor(bounds.height);
+        if (width <= 0 || height <= 0) return;
+
+        const markup = serializeSvg(node, computedStyle.color);
+        const source = `${width}x${height}:${markup}`;
+        if (getImageSource(node) !== source) {
+            loadRasterForNode(
+                node,
+                source,
+                width,
+                height,
+                () => loadSvgForTerminal(markup, width, height),
+                () => scheduleRender(node)
+            );
+        }
+
+        const inlineZ = node.style?.zIndex;
+        const cssZ = node.__cssStyle?.zIndex;
+        const zIndex = typeof inlineZ === 'number' ? inlineZ : (typeof cssZ === 'number' ? cssZ : 0);
+
+        renderImage(
+            node,
+            ctx.grid,
+            bounds.absX,
+            bounds.absY,
+            width,
+            height,
+            bounds.clip,
+            zIndex,
+            getSvgLabel(node)
+        );
+    },
+};
+
+// Register the SVG renderer
+registerRenderer(svgRenderer);
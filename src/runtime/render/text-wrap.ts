@@ -389,3 +389,232 @@ export function getWrapOptionsFromStyle(style: TextStyle | undefined): WrapOptio
     };
 }
 
+
+/**
+ * A run of text from a single source in an inline formatting context,
+ * e.g. one text node of `Status: <b>ok</b>`.
+ */
+export interface TextRun<T> {
+    text: string;
+    /** Where the text came from; carried through to the wrapped fragments. */
+    source: T;
+    /** Keep the run together on one line (`display: inline-block`). */
+    atomic?: boolean;
+    /** A forced line break (`<br>`); `text` is ignored. */
+    lineBreak?: boolean;
+}
+
+/**
+ * Part of a wrapped line that comes from one run.
+ */
+export interface RunFragment<T> {
+    text: string;
+    source: T;
+    /** Column offset from the start of the line. */
+    x: number;
+    /** Display width in columns. */
+    width: number;
+}
+
+/**
+ * One wrapped line of styled runs.
+ */
+export interface RunLine<T> {
+    fragments: RunFragment<T>[];
+    width: number;
+}
+
+interface RunPiece<T> {
+    text: string;
+    source: T;
+    width: number;
+    space: boolean;
+}
+
+interface RunToken<T> {
+    kind: 'word' | 'space' | 'break';
+    pieces: RunPiece<T>[];
+    width: number;
+    breakable: boolean;
+}
+
+/**
+ * Wrap a sequence of runs as one paragraph.
+ *
+ * Works like {@link wrapText}, but words may span several runs
+ * (`<code>log.txt</code>,` keeps the comma with the file name), whitespace
+ * collapses across run boundaries and every fragment remembers its run so
+ * it can be painted with that run's style.
+ *
+ * @param runs - The paragraph's runs in document order.
+ * @param options - Wrapping options from the containing block's style.
+ * @returns The wrapped lines; empty when there is no visible text.
+ */
+export function wrapRuns<T>(runs: TextRun<T>[], options: WrapOptions = {}): RunLine<T>[] {
+    const { maxWidth, whiteSpace = 'normal', wordBreak = 'normal', overflowWrap = 'normal' } = options;
+    const preserveSpaces = shouldPreserveWhitespace(whiteSpace);
+    const preserveNewlines = shouldPreserveNewlines(whiteSpace);
+    const doWrap = shouldWrap(options) && maxWidth !== undefined && maxWidth > 0;
+    const limit = doWrap ? maxWidth : Infinity;
+    const canBreakWords =
+        wordBreak === 'break-word' || overflowWrap === 'break-word' || overflowWrap === 'anywhere';
+
+    // Tokenize into words, spaces and breaks; a word continues across runs
+    const tokens: RunToken<T>[] = [];
+    let current: RunToken<T> | null = null;
+    // Collapsible spaces are dropped at the start of a line and after another space
+    let collapse = !preserveSpaces;
+
+    const add = (kind: 'word' | 'space', text: string, source: T, separate: boolean, atomic = false): void => {
+        if (!current || current.kind !== kind || separate) {
+            current = { kind, pieces: [], width: 0, breakable: true };
+            tokens.push(current);
+        }
+        const width = getStringWidth(text);
+        const last = current.pieces[current.pieces.length - 1];
+        if (last && last.source === source) {
+            last.text += text;
+            last.width += width;
+        } else {
+            current.pieces.push({ text, source, width, space: kind === 'space' });
+        }
+        current.width += width;
+        if (atomic) current.breakable = false;
+    };
+
+    for (const run of runs) {
+        if (run.lineBreak) {
+            tokens.push({ kind: 'break', pieces: [], width: 0, breakable: false });
+            current = null;
+            collapse = !preserveSpaces;
+            continue;
+        }
+        if (run.atomic) {
+            if (run.text) {
+                add('word', run.text, run.source, wordBreak === 'break-all', true);
+                collapse = false;
+            }
+            continue;
+        }
+        for (const char of normalizeWhitespace(run.text, whiteSpace)) {
+            if (char === '\n' && preserveNewlines) {
+                tokens.push({ kind: 'break', pieces: [], width: 0, breakable: false });
+                current = null;
+                collapse = !preserveSpaces;
+            } else if (char === ' ' || char === '\t') {
+                if (collapse) continue;
+                add('space', char, run.source, false);
+                collapse = !preserveSpaces;
+            } else if (getStringWidth(char) === 0 && tokens.length > 0 && tokens[tokens.length - 1].kind !== 'break') {
+                // Combining marks stay with the preceding character
+                add(tokens[tokens.length - 1].kind as 'word' | 'space', char, run.source, false);
+            } else {
+                add('word', char, run.source, wordBreak === 'break-all');
+                collapse = false;
+            }
+        }
+    }
+
+    // Fill lines greedily
+    const lines: RunLine<T>[] = [];
+    let line: RunPiece<T>[] = [];
+    let lineWidth = 0;
+
+    const append = (pieces: RunPiece<T>[]): void => {
+        for (const piece of pieces) {
+            line.push({ ...piece });
+            lineWidth += piece.width;
+        }
+    };
+    const flush = (): void => {
+        if (!preserveSpaces) {
+            while (line.length > 0 && line[line.length - 1].space) {
+                line.pop();
+            }
+        }
+        lines.push(buildRunLine(line));
+        line = [];
+        lineWidth = 0;
+    };
+
+    for (const token of tokens) {
+        if (token.kind === 'break') {
+            flush();
+            continue;
+        }
+        if (token.kind === 'space') {
+            if (lineWidth + token.width <= limit) {
+                append(token.pieces);
+            } else if (line.length > 0) {
+                // Break at the space and drop it
+                flush();
+            }
+            continue;
+        }
+        if (token.width > limit && token.breakable && canBreakWords) {
+            if (line.length > 0) flush();
+            for (const chunk of splitPiecesByWidth(token.pieces, limit)) {
+                if (line.length > 0) flush();
+                append(chunk);
+            }
+            continue;
+        }
+        if (lineWidth + token.width > limit && line.length > 0) {
+            flush();
+        }
+        append(token.pieces);
+    }
+    if (line.length > 0) {
+        flush();
+    }
+
+    // A paragraph of collapsed whitespace has no lines
+    return lines.some(result => result.width > 0) ? lines : [];
+}
+
+/**
+ * Split a word's pieces into chunks no wider than `maxWidth`.
+ */
+function splitPiecesByWidth<T>(pieces: RunPiece<T>[], maxWidth: number): RunPiece<T>[][] {
+    const chunks: RunPiece<T>[][] = [];
+    let chunk: RunPiece<T>[] = [];
+    let chunkWidth = 0;
+    for (const piece of pieces) {
+        for (const char of piece.text) {
+            const width = getStringWidth(char);
+            if (width > 0 && chunkWidth + width > maxWidth && chunkWidth > 0) {
+                chunks.push(chunk);
+                chunk = [];
+                chunkWidth = 0;
+            }
+            const last = chunk[chunk.length - 1];
+            if (last && last.source === piece.source) {
+                last.text += char;
+                last.width += width;
+            } else {
+                chunk.push({ text: char, source: piece.source, width, space: false });
+            }
+            chunkWidth += width;
+        }
+    }
+    if (chunk.length > 0) {
+        chunks.push(chunk);
+    }
+    return chunks;
+}
+
+function buildRunLine<T>(pieces: RunPiece<T>[]): RunLine<T> {
+    const fragments: RunFragment<T>[] = [];
+    let x = 0;
+    for (const piece of pieces) {
+        const last = fragments[fragments.length - 1];
+        if (last && last.source === piece.source) {
+            last.text += piece.text;
+            last.width += piece.width;
+        } else {
+            fragments.push({ text: piece.text, source: piece.source, x, width: piece.width });
+        }
+        x += piece.width;
+    }
+    return { fragments, width: x };
+}
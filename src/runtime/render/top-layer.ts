@@ -5,6 +5,7 @@
  * - Popovers (HTML Popover API)
  * - Select dropdowns
  * - Dialogs (modal and non-modal)
+ * - The error overlay
  * - Tooltips (future)
  * - Context menus (future)
  * 
@@ -18,9 +19,10 @@ import type { CliNode, TextStyle } from '../types.js';
 import type { GridCell, ClipRect } from './types.js';
 import type { PaintContext, Viewport } from './pipeline/context.js';
 import { addOcclusionZone } from './occlusion.js';
+import { defineRuntimeSlot } from '../runtime-state.js';
 
 /** Types of top-layer elements. */
-export type TopLayerType = 'popover' | 'dropdown' | 'dialog' | 'modal' | 'tooltip' | 'menu';
+export type TopLayerType = 'popover' | 'dropdown' | 'dialog' | 'modal' | 'tooltip' | 'menu' | 'overlay';
 
 /** Base interface for all top-layer elements. */
 export interface TopLayerElement {
@@ -65,24 +67,25 @@ export type TopLayerContextRenderFn = (
     ctx: PaintContext
 ) => void;
 
-/** Pending top-layer elements for the current frame. */
-let topLayerElements: TopLayerElement[] = [];
+/** Pending top-layer elements for the current frame of each mount. */
+const topLayerState = defineRuntimeSlot(() => ({ elements: [] as TopLayerElement[] }));
 
 /** Base z-index for different overlay types. */
-const BASE_Z_INDEX: Record<TopLayerType, number> = {
+export const BASE_Z_INDEX: Record<TopLayerType, number> = {
     tooltip: 1000,
     dropdown: 2000,
     popover: 3000,
     dialog: 4000, // Non-modal dialogs
     menu: 4500,
-    modal: 5000, // Modal dialogs (highest)
+    modal: 5000, // Modal dialogs
+    overlay: 10000, // Error overlay (highest)
 };
 
 /**
  * Clear all top-layer elements. Called at start of each render frame.
  */
 export function clearTopLayer(): void {
-    topLayerElements = [];
+    topLayerState().elements = [];
 }
 
 /**
@@ -90,7 +93,7 @@ export function clearTopLayer(): void {
  * @param element - The top-layer element to add.
  */
 export function addToTopLayer(element: TopLayerElement): void {
-    topLayerElements.push(element);
+    topLayerState().elements.push(element);
 }
 
 /**
@@ -192,7 +195,7 @@ export function addModalToTopLayer(
  * Get all top-layer elements sorted by z-index (lowest first).
  */
 export function getTopLayerElements(): TopLayerElement[] {
-    return [...topLayerElements].sort((a, b) => a.zIndex - b.zIndex);
+    return [...topLayerState().elements].sort((a, b) => a.zIndex - b.zIndex);
 }
 
 /**
@@ -2,6 +2,35 @@ import type { CliNode, TextStyle } from '../types.js';
 import type { BorderStyle } from '../types.js';
 import type { ClipRect, GridCell } from './types.js';
 
+const INHERITED_TEXT_PROPS: (keyof TextStyle)[] = [
+    'color',
+    'bold',
+    'italic',
+    'underline',
+    'strikethrough',
+    'dim',
+    'inverse',
+    'textAlign',
+    'link',
+];
+
+/**
+ * Extract inherited text style properties from a computed style.
+ */
+export function inheritTextStyle(style?: TextStyle): TextStyle | undefined {
+    if (!style) return undefined;
+    const next: TextStyle = {};
+    const styleRecord = style as Record<string, unknown>;
+    const nextRecord = next as Record<string, unknown>;
+    for (const prop of INHERITED_TEXT_PROPS) {
+        const value = styleRecord[prop];
+        if (value !== undefined) {
+            nextRecord[prop] = value;
+        }
+    }
+    return next;
+}
+
 /**
  * Sets a grid cell, preserving existing background color if the new style doesn't specify one.
  * This enables transparent compositing where child elements show parent backgrounds.
@@ -45,9 +74,11 @@ export interface PaddingInsets {
 }
 
 export function getPaddingInsets(node: CliNode): PaddingInsets {
+    const animated = (node.__animatedStyle ?? {}) as Record<string, unknown>;
     const inline = (node.style ?? {}) as Record<string, unknown>;
     const css = (node.__cssStyle ?? {}) as Record<string, unknown>;
     const read = (key: string): unknown => {
+        if (animated[key] !== undefined) return animated[key];
         if (inline[key] !== undefined) return inline[key];
         if (css[key] !== undefined) return css[key];
         return undefined;
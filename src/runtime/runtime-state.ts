@@ -0,0 +1,100 @@
+/**
+ * Per-Mount Runtime State
+ *
+ * State that belongs to one mounted UI (open dialogs and popovers, the top
+ * layer, occlusion zones, drawn images, diff bookkeeping) is declared as a
+ * slot here instead of a module-level variable. Each mount context owns a
+ * RuntimeState: it is active while the context renders or handles input,
+ * and nodes of the context's tree resolve to it even when they change from
+ * a timer or a promise. One process can then drive several independent
+ * UIs without state leaking between them.
+ *
+ * Code that runs outside any mount (standalone renders, unit tests) shares
+ * a default state.
+ *
+ * This module must stay free of runtime imports: the modules declaring
+ * slots sit on both sides of the mount.ts import cycle.
+ */
+
+import type { CliNode } from './types.js';
+
+/** Slot values of one mount, keyed by slot. */
+export type RuntimeState = Map<object, unknown>;
+
+/** Reads a slot's value, creating it on first use. */
+export type RuntimeSlot<T> = (node?: CliNode | null) => T;
+
+let activeState: RuntimeState = new Map();
+const stateStack: RuntimeState[] = [];
+
+/** States of mounted roots, so nodes find their own mount's state. */
+const ROOT_STATES = new WeakMap<CliNode, RuntimeState>();
+
+export function createRuntimeState(): RuntimeState {
+    return new Map();
+}
+
+/**
+ * Reset the default state. Primarily used for testing to ensure clean
+ * state between tests.
+ */
+export function resetRuntimeState(): void {
+    activeState = new Map();
+    stateStack.length = 0;
+}
+
+export function getActiveRuntimeState(): RuntimeState {
+    return activeState;
+}
+
+export function withRuntimeState<T>(state: RuntimeState, fn: () => T): T {
+    stateStack.push(activeState);
+    activeState = state;
+    try {
+        return fn();
+    } finally {
+        activeState = stateStack.pop() ?? activeState;
+    }
+}
+
+/**
+ * Associate a root with the state of the mount rendering it; null removes
+ * the association.
+ */
+export function bindRuntimeState(root: CliNode, state: RuntimeState | null): void {
+    if (state) {
+        ROOT_STATES.set(root, state);
+    } else {
+        ROOT_STATES.delete(root);
+    }
+}
+
+/**
+ * The state of the mount a node belongs to, or null for detached nodes
+ * and trees that are not mounted.
+ */
+export function getNodeRuntimeState(node: CliNode): RuntimeState | null {
+    let current = node;
+    while (current.parent) {
+        current = current.parent;
+    }
+    return ROOT_STATES.get(current) ?? null;
+}
+
+/**
+ * Declare a piece of per-mount state.
+ *
+ * @param create - Builds the initial value for a state that has none yet.
+ * @returns A getter for the value in the active state, or in the state of
+ *          the mount a node belongs to when one is passed.
+ */
+export function defineRuntimeSlot<T>(create: () => T): RuntimeSlot<T> {
+    const key = {};
+    return (node?: CliNode | null): T => {
+        const state = (node && getNodeRuntimeState(node)) || activeState;
+        if (!state.has(key)) {
+            state.set(key, create());
+        }
+        return state.get(key) as T;
+    };
+}
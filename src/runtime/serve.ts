@@ -0,0 +1,267 @@
+/**
+ * Serving an app to many terminals from one process.
+ *
+ * Every connection to the server's socket gets its own mount of the
+ * component, with the socket as its stdin and stdout. Mounts share nothing
+ * but the process: focus, dialogs, popovers and renders are per session.
+ */
+
+import { EventEmitter } from 'node:events';
+import { createServer, type AddressInfo, type Socket } from 'node:net';
+import type { Component } from 'svelte';
+import { createMountContext } from './mount.js';
+import type { MountOptions } from './types.js';
+import { detectColorDepth } from './style/color-depth.js';
+import { createTelnetState, decodeTelnet, encodeTelnet, TELNET_HANDSHAKE } from './input/telnet.js';
+import { log } from './logger.js';
+
+/** How long a telnet client may take to report its size and type. */
+const HANDSHAKE_TIMEOUT = 500;
+
+export interface ServeOptions extends Omit<MountOptions, 'props' | 'stdin' | 'stdout' | 'stderr' | 'exitOnCtrlC' | 'onExit'> {
+    /** TCP port, `{ port, host }`, or the path of a Unix socket. */
+    listen: number | string | { port: number; host?: string };
+    /**
+     * Props for each session's mount, or a function building them from the
+     * session (e.g. to pick a user by remote address).
+     */
+    props?: Record<string, unknown> | ((session: ServeSession) => Record<string, unknown> | Promise<Record<string, unknown>>);
+    /**
+     * Speak telnet: negotiate raw input, window size and terminal type with
+     * the client. Defaults to true for TCP ports and false for Unix sockets,
+     * whose clients are expected to send raw input themselves (e.g.
+     * `socat -,raw,echo=0 UNIX-CONNECT:app.sock`).
+     */
+    telnet?: boolean;
+    /** Width assumed until the client reports one (default 80). */
+    columns?: number;
+    /** Height assumed until the client reports one (default 24). */
+    rows?: number;
+}
+
+/** One connected terminal. */
+export interface ServeSession {
+    readonly id: number;
+    readonly remoteAddress: string | null;
+    /** Terminal type reported over telnet, e.g. 'XTERM-256COLOR'. */
+    readonly terminalType: string | null;
+    readonly columns: number;
+    readonly rows: number;
+    /** Unmount the session's app and disconnect. */
+    close(): void;
+}
+
+export interface TerminalServer {
+    /** Sessions currently connected. */
+    readonly sessions: ReadonlySet<ServeSession>;
+    address(): AddressInfo | string | null;
+    /** Stop accepting connections and close every session. */
+    close(): Promise<void>;
+}
+
+class SessionOutput extends EventEmitter {
+    isTTY = true;
+
+    constructor(
+        private socket: Socket,
+        private telnet: boolean,
+        public columns: number,
+        public rows: number
+    ) {
+        super();
+    }
+
+    write(chunk: string | Uint8Array): boolean {
+        if (!this.socket.writable) return false;
+        return this.socket.write(this.telnet ? encodeTelnet(chunk) : chunk);
+    }
+}
+
+class SessionInput extends EventEmitter {
+    isTTY = true;
+
+    setRawMode(): this {
+        // Raw mode is negotiated with the client, not set on a local tty
+        return this;
+    }
+}
+
+class Session implements ServeSession {
+    terminalType: string | null = null;
+    ctx: ReturnType<typeof createMountContext> | null = null;
+    closed = false;
+    readonly stdout: SessionOutput;
+    readonly stdin = new SessionInput();
+    private telnetState = createTelnetState();
+    private handshake: { size: boolean; type: boolean; done: () => void } | null = null;
+
+    constructor(
+        readonly id: number,
+        private socket: Socket,
+        private telnet: boolean,
+        columns: number,
+        rows: number
+    ) {
+        this.stdout = new SessionOutput(socket, telnet, columns, rows);
+    }
+
+    get remoteAddress(): string | null {
+        return this.socket.remoteAddress ?? null;
+    }
+
+    get columns(): number {
+        return this.stdout.columns;
+    }
+
+    get rows(): number {
+        return this.stdout.rows;
+    }
+
+    /**
+     * Negotiate with a telnet client until it has reported its size and
+     * terminal type, declined to, or HANDSHAKE_TIMEOUT has passed.
+     */
+    negotiate(): Promise<void> {
+        if (!this.telnet) return Promise.resolve();
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.finishHandshake(), HANDSHAKE_TIMEOUT);
+            this.handshake = {
+                size: false,
+                type: false,
+                done: () => {
+                    clearTimeout(timer);
+                    resolve();
+                },
+            };
+            this.socket.write(TELNET_HANDSHAKE);
+        });
+    }
+
+    receive = (chunk: Buffer): void => {
+        if (!this.telnet) {
+            this.stdin.emit('data', chunk);
+            return;
+        }
+        const { data, events, reply } = decodeTelnet(this.telnetState, chunk);
+        if (reply.length && this.socket.writable) {
+            this.socket.write(reply);
+        }
+        for (const event of events) {
+            if (event.type === 'size') {
+                const changed = event.columns !== this.stdout.columns || event.rows !== this.stdout.rows;
+                this.stdout.columns = event.columns;
+                this.stdout.rows = event.rows;
+                if (this.handshake) this.handshake.size = true;
+                if (changed && !this.handshake) this.stdout.emit('resize');
+            } else if (event.type === 'terminal-type') {
+                this.terminalType = event.name;
+                if (this.handshake) this.handshake.type = true;
+            } else if (this.handshake) {
+                this.handshake[event.option === 'size' ? 'size' : 'type'] = true;
+            }
+        }
+        if (this.handshake?.size && this.handshake.type) {
+            this.finishHandshake();
+        }
+        // Keys pressed before the app is mounted have nothing to go to
+        if (data.length && !this.handshake) {
+            this.stdin.emit('data', data);
+        }
+    };
+
+    close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.finishHandshake();
+        // Unmounting restores the client's screen, so it goes before the end
+        this.ctx?.unmount();
+        this.socket.end();
+    }
+
+    private finishHandshake(): void {
+        const handshake = this.handshake;
+        this.handshake = null;
+        handshake?.done();
+    }
+}
+
+/**
+ * Serve a component to terminals connecting over TCP (telnet) or a Unix
+ * socket. Each connection is mounted separately, on the alternate screen by
+ * default; Ctrl+C or a disconnect ends only that session.
+ *
+ * Link opening and graphics protocols are off unless enabled, since both
+ * would act on the server's terminal rather than the client's; colors
+ * follow the terminal type the client reports unless `colorDepth` is set.
+ *
+ * @param Component - Svelte component constructor.
+ * @param options - Where to listen, and mount options for every session.
+ * @returns The listening server.
+ */
+export function serve(Component: Component, options: ServeOptions): Promise<TerminalServer> {
+    const { listen, props, telnet = typeof listen !== 'string', columns = 80, rows = 24, ...mountOptions } = options;
+    const sessions = new Set<Session>();
+    let nextId = 1;
+
+    const openSession = async (socket: Socket): Promise<void> => {
+        const session = new Session(nextId++, socket, telnet, columns, rows);
+        sessions.add(session);
+        log('serve:connect', { id: session.id, remoteAddress: session.remoteAddress });
+        socket.setNoDelay(true);
+        socket.on('data', session.receive);
+        socket.on('error', error => log('serve:error', { id: session.id, error: String(error) }));
+        socket.on('close', () => {
+            log('serve:disconnect', { id: session.id });
+            sessions.delete(session);
+            session.close();
+        });
+
+        try {
+            await session.negotiate();
+            const sessionProps = typeof props === 'function' ? await props(session) : props;
+            if (session.closed) return;
+            session.ctx = createMountContext(Component, {
+                altScreen: true,
+                openLink: false,
+                graphics: false,
+                colorDepth: detectColorDepth({ TERM: session.terminalType ?? undefined }),
+                ...mountOptions,
+                props: sessionProps,
+                stdin: session.stdin as unknown as NodeJS.ReadStream,
+                stdout: session.stdout as unknown as NodeJS.WriteStream,
+                exitOnCtrlC: true,
+                onExit: () => session.close(),
+            });
+            await session.ctx.start();
+        } catch (error) {
+            log('serve:error', { id: session.id, error: String(error) });
+            session.close();
+        }
+    };
+
+    const server = createServer(socket => void openSession(socket));
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        const onListening = () => {
+            server.off('error', reject);
+            server.on('error', error => log('serve:error', { error: String(error) }));
+            resolve({
+                sessions,
+                address: () => server.address(),
+                close: () =>
+                    new Promise<void>(done => {
+                        server.close(() => done());
+                        for (const session of sessions) {
+                            session.close();
+                        }
+                    }),
+            });
+        };
+        if (typeof listen === 'object') {
+            server.listen(listen.port, listen.host, onListening);
+        } else {
+            server.listen(listen, onListening);
+        }
+    });
+}
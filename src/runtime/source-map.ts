@@ -0,0 +1,228 @@
+/**
+ * Source Maps for Compiled Components
+ *
+ * The loaders end each compiled component with a call registering the
+ * Svelte compiler's source map under the module's URL. Stack frames that
+ * point into compiled components can then be mapped back to the .svelte
+ * source, e.g. for the runtime error overlay.
+ *
+ * The loaders only keep line numbers intact (removed imports leave an empty
+ * line, added code goes on the first or after the last line), so the
+ * compiler's map applies to the loaded module as it is.
+ *
+ * This module has no runtime imports so the loader hooks thread can use it.
+ */
+
+import { dirname, resolve } from 'node:path';
+
+/** The parts of a version 3 source map that are read. */
+export interface RawSourceMap {
+    sources: string[];
+    sourcesContent?: (string | null)[];
+    mappings: string;
+}
+
+/** A location in a .svelte source; lines and columns are 1-based. */
+export interface SourcePosition {
+    file: string;
+    line: number;
+    column: number;
+    /** Source the component was compiled from, if the map embeds it. */
+    source?: string;
+}
+
+/**
+ * A stack frame in a compiled component, mapped to its source. Code the
+ * compiler generated for the markup has no position in the source.
+ */
+export interface MappedFrame extends Partial<SourcePosition> {
+    /** Function name, usually the component or one of its functions. */
+    name: string;
+    file: string;
+}
+
+/** [generated column, source index, source line, source column], 0-based. */
+type Segment = [number, number, number, number];
+
+interface RegisteredMap {
+    /** Absolute path of the component's source. */
+    file: string;
+    /** The map as base64 JSON until it is first needed. */
+    encoded: string;
+    map?: RawSourceMap;
+    lines?: Segment[][];
+}
+
+/** Identifier the loaders give the registration function in compiled code. */
+const REGISTER_BINDING = '__sveltty_registerSourceMap';
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Maps of loaded components by module URL. */
+const maps = new Map<string, RegisteredMap>();
+
+/**
+ * Record the source map of a loaded component. Called by compiled code.
+ * @param url - The module's `import.meta.url`.
+ * @param file - Absolute path of the component's source.
+ * @param encoded - The source map as base64 JSON.
+ */
+export function registerSourceMap(url: string, file: string, encoded: string): void {
+    maps.set(url, { file, encoded });
+}
+
+/**
+ * Forget all registered maps. Primarily used for testing.
+ */
+export function resetSourceMaps(): void {
+    maps.clear();
+}
+
+/**
+ * Make compiled component code register its source map when loaded.
+ *
+ * The map is base64 encoded so the embedded source cannot be mistaken for
+ * imports when the loaders rewrite them.
+ *
+ * @param code - Compiled JavaScript, line for line as the compiler emitted it.
+ * @param map - The compiler's source map.
+ * @param file - Absolute path of the component's source.
+ * @param sourceMapUrl - URL this module is imported from in compiled code.
+ */
+export function injectSourceMap(code: string, map: RawSourceMap, file: string, sourceMapUrl: string): string {
+    const { sources, sourcesContent, mappings } = map;
+    const encoded = Buffer.from(JSON.stringify({ sources, sourcesContent, mappings })).toString('base64');
+    return (
+        `${code}\nimport { registerSourceMap as ${REGISTER_BINDING} } from ${JSON.stringify(sourceMapUrl)};\n` +
+        `${REGISTER_BINDING}(import.meta.url, ${JSON.stringify(file)}, ${JSON.stringify(encoded)});\n`
+    );
+}
+
+/**
+ * Map a position in a loaded component to its .svelte source.
+ * @param url - URL of the compiled module, as it appears in stack traces.
+ * @param line - 1-based line in the compiled module.
+ * @param column - 1-based column in the compiled module.
+ * @returns Null when the module has no registered map or the position
+ *   is not mapped.
+ */
+export function findOriginalPosition(url: string, line: number, column: number): SourcePosition | null {
+    const entry = maps.get(url);
+    if (!entry) return null;
+    return lookup(entry, line, column);
+}
+
+function lookup(entry: RegisteredMap, line: number, column: number): SourcePosition | null {
+    if (!entry.map || !entry.lines) {
+        entry.map = JSON.parse(Buffer.from(entry.encoded, 'base64').toString('utf-8')) as RawSourceMap;
+        entry.lines = decodeMappings(entry.map.mappings);
+    }
+    const segments = entry.lines[line - 1];
+    if (!segments) return null;
+    // The last segment starting at or before the column covers it
+    let match: Segment | null = null;
+    for (const segment of segments) {
+        if (segment[0] > column - 1) break;
+        match = segment;
+    }
+    if (!match) return null;
+    const [, sourceIndex, sourceLine, sourceColumn] = match;
+    const sourceName = entry.map.sources[sourceIndex];
+    return {
+        file: sourceName ? resolve(dirname(entry.file), sourceName) : entry.file,
+        line: sourceLine + 1,
+        column: sourceColumn + 1,
+        source: entry.map.sourcesContent?.[sourceIndex] ?? undefined,
+    };
+}
+
+/** `at name (url:line:column)` or `at url:line:column` in a V8 stack trace. */
+const FRAME_PATTERN = /^\s*at (?:(.*?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Map the frames of a stack trace that point into loaded components.
+ * Frames elsewhere (the runtime, Svelte, Node) are left out.
+ * @param stack - An error's `stack`.
+ */
+export function mapStackTrace(stack: string): MappedFrame[] {
+    const frames: MappedFrame[] = [];
+    for (const line of stack.split('\n')) {
+        const match = FRAME_PATTERN.exec(line);
+        if (!match) continue;
+        const [, name = '<anonymous>', url, frameLine, frameColumn] = match;
+        const entry = maps.get(url);
+        if (!entry) continue;
+        const position = lookup(entry, Number(frameLine), Number(frameColumn));
+        frames.push({ name, file: entry.file, ...position });
+    }
+    return frames;
+}
+
+/**
+ * Lines of source around a position, numbered, with a caret under the
+ * column, like the code frames of Svelte compiler errors.
+ * @param source - The full source.
+ * @param line - 1-based line to point at.
+ * @param column - 1-based column to point at.
+ * @param context - Lines shown before and after.
+ */
+export function formatCodeFrame(source: string, line: number, column: number, context = 2): string[] {
+    const lines = source.split('\n');
+    const first = Math.max(1, line - context);
+    const last = Math.min(lines.length, line + context);
+    const gutter = String(last).length;
+    const frame: string[] = [];
+    for (let number = first; number <= last; number++) {
+        const prefix = `${String(number).padStart(gutter)}: `;
+        // Tabs are shown as two spaces so the caret lines up
+        const text = lines[number - 1].replaceAll('\t', '  ');
+        frame.push(prefix + text);
+        if (number === line) {
+            const before = lines[number - 1].slice(0, column - 1).replaceAll('\t', '  ');
+            frame.push(' '.repeat(prefix.length + before.length) + '^');
+        }
+    }
+    return frame;
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let sourceIndex = 0;
+    let sourceLine = 0;
+    let sourceColumn = 0;
+    for (const line of mappings.split(';')) {
+        const segments: Segment[] = [];
+        let generatedColumn = 0;
+        for (const field of line.split(',')) {
+            if (!field) continue;
+            const values = decodeVlq(field);
+            generatedColumn += values[0];
+            // Segments with one value map to nothing
+            if (values.length < 4) continue;
+            sourceIndex += values[1];
+            sourceLine += values[2];
+            sourceColumn += values[3];
+            segments.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+        }
+        lines.push(segments);
+    }
+    return lines;
+}
+
+function decodeVlq(field: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+    for (const char of field) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+            shift += 5;
+        } else {
+            values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+            value = 0;
+            shift = 0;
+        }
+    }
+    return values;
+}
@@ -0,0 +1,119 @@
+/**
+ * Terminal Color Depth
+ *
+ * Detects how many colors the terminal can display and tracks the depth
+ * used by the current render. Styles are always resolved to RGB; the
+ * serializer downsamples to the active depth when emitting SGR codes.
+ *
+ * - truecolor: 24-bit `38;2;r;g;b` sequences
+ * - 256: xterm-256 palette (`38;5;n`)
+ * - 16: the basic ANSI colors (`30-37`, `90-97`)
+ * - mono: no colors; only bold, underline and inverse are emitted
+ */
+
+/** Supported color depths, from richest to poorest. */
+export type ColorDepth = 'truecolor' | '256' | '16' | 'mono';
+
+/** Depth used when nothing has been configured (standalone renders, tests). */
+let currentDepth: ColorDepth = 'truecolor';
+
+/**
+ * Map a FORCE_COLOR value to a depth, following the Node.js/chalk convention
+ * (0 = off, 1 = 16 colors, 2 = 256 colors, 3 = truecolor).
+ */
+function depthFromForceColor(value: string): ColorDepth {
+    switch (value.trim().toLowerCase()) {
+        case '0':
+        case 'false':
+            return 'mono';
+        case '2':
+            return '256';
+        case '3':
+            return 'truecolor';
+        default:
+            return '16';
+    }
+}
+
+/**
+ * Detect the color depth supported by the terminal from the environment.
+ *
+ * Precedence: FORCE_COLOR, NO_COLOR, COLORTERM, then TERM/TERM_PROGRAM.
+ * Unknown terminals fall back to 16 colors, which every color terminal
+ * renders correctly.
+ *
+ * @param env - Environment to inspect (defaults to process.env).
+ */
+export function detectColorDepth(env: NodeJS.ProcessEnv = process.env): ColorDepth {
+    if (env.FORCE_COLOR !== undefined) {
+        return depthFromForceColor(env.FORCE_COLOR);
+    }
+    // https://no-color.org: any non-empty value disables color
+    if (env.NO_COLOR) {
+        return 'mono';
+    }
+
+    const colorterm = env.COLORTERM?.toLowerCase();
+    if (colorterm === 'truecolor' || colorterm === '24bit') {
+        return 'truecolor';
+    }
+
+    const term = env.TERM?.toLowerCase() ?? '';
+    if (term === 'dumb') {
+        return 'mono';
+    }
+    if (term.endsWith('-direct') || term.includes('truecolor') || term.includes('24bit')) {
+        return 'truecolor';
+    }
+
+    switch (env.TERM_PROGRAM) {
+        case 'iTerm.app':
+        case 'WezTerm':
+        case 'vscode':
+        case 'ghostty':
+            return 'truecolor';
+        case 'Apple_Terminal':
+            return '256';
+    }
+    if (env.KITTY_WINDOW_ID || env.WT_SESSION) {
+        return 'truecolor';
+    }
+
+    if (term.includes('256')) {
+        return '256';
+    }
+    return '16';
+}
+
+/**
+ * Get the color depth used for the current render.
+ */
+export function getColorDepth(): ColorDepth {
+    return currentDepth;
+}
+
+/**
+ * Set the default color depth for renders outside a mount context.
+ * @param depth - Depth to use, or null to restore truecolor.
+ */
+export function setColorDepth(depth: ColorDepth | null): void {
+    currentDepth = depth ?? 'truecolor';
+}
+
+/**
+ * Run a function with a specific color depth active, restoring the previous
+ * depth afterwards. Used by mount contexts so each terminal renders at its
+ * own depth.
+ *
+ * @param depth - Depth for the duration of the call.
+ * @param fn - Function to run.
+ */
+export function withColorDepth<T>(depth: ColorDepth, fn: () => T): T {
+    const previous = currentDepth;
+    currentDepth = depth;
+    try {
+        return fn();
+    } finally {
+        currentDepth = previous;
+    }
+}
@@ -1,6 +1,9 @@
+import type { ColorDepth } from './color-depth.js';
+
 /**
  * ANSI escape codes for terminal styling.
- * We use 24-bit color codes for all colors to ensure consistency across terminals.
+ * Colors are resolved as 24-bit and downsampled by resolveAnsiColor when the
+ * terminal supports fewer colors (see color-depth.ts).
  */
 export const ANSI = {
     // Reset and text attributes
@@ -22,6 +25,8 @@ export const ANSI = {
     MOVE_TO: (x: number, y: number) => `\x1b[${y + 1};${x + 1}H`,
     CLEAR_SCREEN: '\x1b[2J',
     CLEAR_LINE: '\x1b[2K',
+    ENTER_ALT_SCREEN: '\x1b[?1049h',
+    EXIT_ALT_SCREEN: '\x1b[?1049l',
 } as const;
 
 /**
@@ -251,27 +256,126 @@ function ansi24Bit(r: number, g: number, b: number, background: boolean): string
     return `\x1b[${background ? 48 : 38};2;${clamp(r)};${clamp(g)};${clamp(b)}m`;
 }
 
-export function resolveAnsiColor(value: string, background = false): string | undefined {
-    const normalized = value.trim().toLowerCase();
-    
-    // Always prefer 24-bit color for consistency across terminals
-    // Check named colors first and convert to 24-bit
-    if (NAMED_COLORS_RGB[normalized]) {
-        const rgb = NAMED_COLORS_RGB[normalized];
-        return ansi24Bit(rgb.r, rgb.g, rgb.b, background);
+type Rgb = { r: number; g: number; b: number };
+
+/** Channel levels of the xterm-256 6x6x6 color cube (indices 16-231). */
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * The 16 basic ANSI colors, using xterm's default palette.
+ * Index 0-7 are the normal colors, 8-15 the bright variants.
+ */
+const ANSI_16_PALETTE: Rgb[] = [
+    { r: 0, g: 0, b: 0 },
+    { r: 205, g: 0, b: 0 },
+    { r: 0, g: 205, b: 0 },
+    { r: 205, g: 205, b: 0 },
+    { r: 0, g: 0, b: 238 },
+    { r: 205, g: 0, b: 205 },
+    { r: 0, g: 205, b: 205 },
+    { r: 229, g: 229, b: 229 },
+    { r: 127, g: 127, b: 127 },
+    { r: 255, g: 0, b: 0 },
+    { r: 0, g: 255, b: 0 },
+    { r: 255, g: 255, b: 0 },
+    { r: 92, g: 92, b: 255 },
+    { r: 255, g: 0, b: 255 },
+    { r: 0, g: 255, b: 255 },
+    { r: 255, g: 255, b: 255 },
+];
+
+/**
+ * Perceptually weighted squared distance between two colors ("redmean").
+ * Cheap, and much closer to how the eye compares colors than plain RGB.
+ */
+function colorDistance(a: Rgb, b: Rgb): number {
+    const rMean = (a.r + b.r) / 2;
+    const dr = a.r - b.r;
+    const dg = a.g - b.g;
+    const db = a.b - b.b;
+    return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+}
+
+function nearestCubeLevel(value: number): number {
+    let best = 0;
+    for (let i = 1; i < CUBE_LEVELS.length; i++) {
+        if (Math.abs(CUBE_LEVELS[i] - value) < Math.abs(CUBE_LEVELS[best] - value)) {
+            best = i;
+        }
     }
-    
-    if (normalized.startsWith('#')) {
-        const rgb = hexToRgb(normalized);
-        if (rgb) {
-            return ansi24Bit(rgb.r, rgb.g, rgb.b, background);
+    return best;
+}
+
+/**
+ * Map an RGB color to the nearest xterm-256 palette index (16-255).
+ * Compares the closest color cube entry against the closest grayscale ramp
+ * entry, since grays are represented much more finely by the ramp.
+ */
+export function rgbToAnsi256(rgb: Rgb): number {
+    const ri = nearestCubeLevel(rgb.r);
+    const gi = nearestCubeLevel(rgb.g);
+    const bi = nearestCubeLevel(rgb.b);
+    const cube = { r: CUBE_LEVELS[ri], g: CUBE_LEVELS[gi], b: CUBE_LEVELS[bi] };
+    const cubeIndex = 16 + 36 * ri + 6 * gi + bi;
+
+    // Grayscale ramp 232-255: 8, 18, ..., 238
+    const average = (rgb.r + rgb.g + rgb.b) / 3;
+    const grayStep = Math.max(0, Math.min(23, Math.round((average - 8) / 10)));
+    const grayValue = 8 + grayStep * 10;
+    const gray = { r: grayValue, g: grayValue, b: grayValue };
+
+    return colorDistance(rgb, gray) < colorDistance(rgb, cube) ? 232 + grayStep : cubeIndex;
+}
+
+/**
+ * Map an RGB color to the nearest of the 16 basic ANSI colors (0-15).
+ */
+export function rgbToAnsi16(rgb: Rgb): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < ANSI_16_PALETTE.length; i++) {
+        const distance = colorDistance(rgb, ANSI_16_PALETTE[i]);
+        if (distance < bestDistance) {
+            best = i;
+            bestDistance = distance;
         }
     }
-    if (normalized.startsWith('rgb')) {
-        const rgb = parseRgbString(normalized);
-        if (rgb) {
+    return best;
+}
+
+/**
+ * Encode an RGB color as an SGR sequence for the given color depth.
+ * Returns undefined for monochrome, where colors are not emitted at all.
+ */
+function encodeColor(rgb: Rgb, background: boolean, depth: ColorDepth): string | undefined {
+    switch (depth) {
+        case 'truecolor':
             return ansi24Bit(rgb.r, rgb.g, rgb.b, background);
+        case '256':
+            return `\x1b[${background ? 48 : 38};5;${rgbToAnsi256(rgb)}m`;
+        case '16': {
+            const index = rgbToAnsi16(rgb);
+            const base = index < 8 ? (background ? 40 : 30) : (background ? 100 : 90);
+            return `\x1b[${base + (index % 8)}m`;
         }
+        case 'mono':
+            return undefined;
     }
-    return undefined;
+}
+
+/**
+ * Resolve a CSS color to an SGR sequence.
+ *
+ * @param value - CSS color (named, hex or rgb()).
+ * @param background - Whether to emit a background color.
+ * @param depth - Terminal color depth; colors are downsampled to fit.
+ */
+export function resolveAnsiColor(
+    value: string,
+    background = false,
+    depth: ColorDepth = 'truecolor'
+): string | undefined {
+    const rgb = parseColorToRgb(value);
+    if (!rgb) return undefined;
+    return encodeColor(rgb, background, depth);
 }
@@ -162,5 +162,8 @@ export function getComputedCliStyle(node: CliNode, fallback?: Partial<Style>): S
         }
     }
 
+    // Running animations override static styles, as in the browser
+    mergeLocalStyles(style, node.__animatedStyle);
+
     return style;
 }
@@ -87,7 +87,7 @@ nav,
 aside,
 form,
 div {
-    display: flex;
+    display: block;
     flex-direction: column;
     min-width: 0;
     color: var(--color-text);
@@ -97,13 +97,13 @@ div {
    Text Content Elements
    ============================================================================ */
 p {
-    display: flex;
+    display: block;
     flex-direction: column;
     margin: 0;
 }
 
 blockquote {
-    display: flex;
+    display: block;
     flex-direction: column;
     margin: 0;
     padding-left: 2ch;
@@ -112,7 +112,7 @@ blockquote {
 }
 
 pre {
-    display: flex;
+    display: block;
     flex-direction: column;
     margin: 0;
     white-space: pre;
@@ -129,11 +129,22 @@ hr {
 
 /* ============================================================================
    Inline Text Elements
+   Text mixed with these flows as one paragraph in block containers; next
+   to block-level siblings they are laid out as flex items.
    ============================================================================ */
+a,
 span,
 label,
+b,
 strong,
+i,
 em,
+u,
+s,
+del,
+ins,
+strike,
+q,
 small,
 code,
 kbd,
@@ -145,8 +156,9 @@ dfn,
 sub,
 sup,
 time,
-mark {
-    display: inline-flex;
+mark,
+br {
+    display: inline;
     flex-direction: row;
     align-items: baseline;
 }
@@ -186,7 +198,7 @@ samp {
    Headings
    ============================================================================ */
 h1, h2, h3, h4, h5, h6 {
-    display: flex;
+    display: block;
     flex-direction: row;
     font-weight: bold;
     margin: 0;
@@ -205,7 +217,7 @@ ol {
 }
 
 li {
-    display: flex;
+    display: block;
     flex-direction: row;
 }
 
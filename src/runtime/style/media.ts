@@ -0,0 +1,396 @@
+/**
+ * Media Queries
+ *
+ * Evaluates `@media` conditions and `window.matchMedia()` against the
+ * terminal instead of a browser viewport. Lengths are in cells (`ch`, `px`
+ * and unitless values all mean columns or rows).
+ *
+ * Supported features:
+ * - `width`, `height` with `min-`/`max-` prefixes and range syntax
+ *   (`(width >= 100ch)`, `(40ch < width < 80ch)`)
+ * - `orientation`: `landscape` when the terminal is at least twice as wide
+ *   in columns as it is tall in rows (cells are about twice as tall as wide)
+ * - `color`, `min-color`, `max-color` (bits per component) and `monochrome`
+ * - `color-depth`: `truecolor`, `256`, `16` or `mono`
+ * - `prefers-color-scheme`: `dark` or `light`
+ * - `-sveltty-graphics`: `kitty`, `iterm2`, `sixel` or `none`
+ *
+ * Media types `all`, `screen` and `tty` match; `print` and `speech` don't.
+ */
+
+import type { ColorDepth } from './color-depth.js';
+import type { GraphicsProtocol } from '../render/graphics.js';
+import { log } from '../logger.js';
+
+/**
+ * Terminal properties media queries are evaluated against.
+ */
+export interface MediaEnvironment {
+    /** Terminal width in columns. */
+    width: number;
+    /** Terminal height in rows. */
+    height: number;
+    colorDepth: ColorDepth;
+    colorScheme: 'dark' | 'light';
+    graphics: GraphicsProtocol;
+}
+
+type Comparison = '<' | '<=' | '=' | '>=' | '>';
+
+interface MediaFeatureTest {
+    feature: string;
+    /** Comparison for range features; undefined for boolean tests. */
+    comparison?: Comparison;
+    value?: string;
+}
+
+interface ParsedMediaQuery {
+    negated: boolean;
+    /** False when the media type can never match (e.g. `print`). */
+    typeMatches: boolean;
+    tests: MediaFeatureTest[];
+}
+
+/**
+ * A parsed media query list; matches if any query matches.
+ */
+export interface MediaQuery {
+    text: string;
+    queries: ParsedMediaQuery[];
+}
+
+const DEFAULT_ENVIRONMENT: MediaEnvironment = {
+    width: 80,
+    height: 24,
+    colorDepth: 'truecolor',
+    colorScheme: 'dark',
+    graphics: 'none',
+};
+
+let currentEnvironment: MediaEnvironment = { ...DEFAULT_ENVIRONMENT };
+
+const MATCHING_TYPES = new Set(['all', 'screen', 'tty']);
+const COLOR_BITS: Record<ColorDepth, number> = { truecolor: 8, '256': 3, '16': 1, mono: 0 };
+const FLIPPED: Record<Comparison, Comparison> = { '<': '>', '<=': '>=', '=': '=', '>=': '<=', '>': '<' };
+
+/**
+ * Parse a media query list such as `screen and (min-width: 100ch), (orientation: portrait)`.
+ */
+export function parseMediaQuery(text: string): MediaQuery {
+    const queries: ParsedMediaQuery[] = [];
+    for (const part of splitTopLevel(text)) {
+        if (!part) continue;
+        queries.push(parseSingleQuery(part));
+    }
+    return { text: text.trim(), queries };
+}
+
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const char of text) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current.trim());
+    return parts;
+}
+
+function parseSingleQuery(text: string): ParsedMediaQuery {
+    const query: ParsedMediaQuery = { negated: false, typeMatches: true, tests: [] };
+    let rest = text.trim().toLowerCase();
+
+    const prefix = rest.match(/^(not|only)\s+/);
+    if (prefix) {
+        query.negated = prefix[1] === 'not';
+        rest = rest.slice(prefix[0].length);
+    }
+
+    const type = rest.match(/^([a-z-]+)\s*(?:and\s+|$)/);
+    if (type) {
+        query.typeMatches = MATCHING_TYPES.has(type[1]);
+        rest = rest.slice(type[0].length);
+    }
+
+    for (const condition of rest.matchAll(/\(([^()]*)\)/g)) {
+        const tests = parseFeature(condition[1]);
+        if (tests) {
+            query.tests.push(...tests);
+        } else {
+            // Unknown syntax never matches, as in browsers
+            query.typeMatches = false;
+        }
+    }
+    return query;
+}
+
+function isFeatureName(token: string): boolean {
+    return /^-?[a-z]/.test(token);
+}
+
+function parseFeature(text: string): MediaFeatureTest[] | null {
+    const trimmed = text.trim();
+    if (!trimmed) return null;
+
+    // Range syntax: (width >= 80ch), (80ch <= width), (40ch < width <= 80ch)
+    const range = trimmed.match(/^(\S+)\s*(<=|>=|<|>|=)\s*(\S+?)(?:\s*(<=|>=|<|>|=)\s*(\S+))?$/);
+    if (range) {
+        const [, first, op1, second, op2, third] = range as unknown as [string, string, Comparison, string, Comparison?, string?];
+        if (op2 && third) {
+            return [
+                { feature: second, comparison: FLIPPED[op1], value: first },
+                { feature: second, comparison: op2, value: third },
+            ];
+        }
+        return isFeatureName(first)
+            ? [{ feature: first, comparison: op1, value: second }]
+            : [{ feature: second, comparison: FLIPPED[op1], value: first }];
+    }
+
+    const colon = trimmed.indexOf(':');
+    if (colon === -1) {
+        return [{ feature: trimmed }];
+    }
+    const name = trimmed.slice(0, colon).trim();
+    const value = trimmed.slice(colon + 1).trim();
+    if (name.startsWith('min-')) {
+        return [{ feature: name.slice(4), comparison: '>=', value }];
+    }
+    if (name.startsWith('max-')) {
+        return [{ feature: name.slice(4), comparison: '<=', value }];
+    }
+    return [{ feature: name, comparison: '=', value }];
+}
+
+function parseLength(value: string): number | null {
+    const match = value.trim().match(/^(-?(?:\d+\.?\d*|\.\d+))(ch|px|em|rem|cells?)?$/);
+    return match ? parseFloat(match[1]) : null;
+}
+
+function compare(actual: number, comparison: Comparison, expected: number): boolean {
+    switch (comparison) {
+        case '<':
+            return actual < expected;
+        case '<=':
+            return actual <= expected;
+        case '>':
+            return actual > expected;
+        case '>=':
+            return actual >= expected;
+        default:
+            return actual === expected;
+    }
+}
+
+function compareNumeric(actual: number, test: MediaFeatureTest, parse: (value: string) => number | null): boolean {
+    if (test.comparison === undefined || test.value === undefined) {
+        return actual !== 0;
+    }
+    const expected = parse(test.value);
+    return expected !== null && compare(actual, test.comparison, expected);
+}
+
+function matchesKeyword(actual: string, test: MediaFeatureTest, whenBoolean: boolean): boolean {
+    if (test.value === undefined) return whenBoolean;
+    return test.comparison === '=' && test.value === actual;
+}
+
+function matchesFeature(test: MediaFeatureTest, env: MediaEnvironment): boolean {
+    switch (test.feature) {
+        case 'width':
+            return compareNumeric(env.width, test, parseLength);
+        case 'height':
+            return compareNumeric(env.height, test, parseLength);
+        case 'orientation':
+            return matchesKeyword(env.width >= env.height * 2 ? 'landscape' : 'portrait', test, true);
+        case 'color':
+            return compareNumeric(COLOR_BITS[env.colorDepth], test, parseLength);
+        case 'monochrome':
+            return compareNumeric(env.colorDepth === 'mono' ? 1 : 0, test, parseLength);
+        case 'color-depth':
+            return matchesKeyword(env.colorDepth, test, env.colorDepth !== 'mono');
+        case 'prefers-color-scheme':
+            return matchesKeyword(env.colorScheme, test, true);
+        case '-sveltty-graphics':
+            return matchesKeyword(env.graphics, test, env.graphics !== 'none');
+        default:
+            return false;
+    }
+}
+
+/**
+ * Evaluate a media query against an environment (defaults to the current
+ * terminal).
+ */
+export function matchesMediaQuery(query: MediaQuery | string, env: MediaEnvironment = currentEnvironment): boolean {
+    const parsed = typeof query === 'string' ? parseMediaQuery(query) : query;
+    // An empty query (`@media {}` or matchMedia('')) matches everything
+    if (parsed.queries.length === 0) return true;
+    return parsed.queries.some(single => {
+        const matches = single.typeMatches && single.tests.every(test => matchesFeature(test, env));
+        return single.negated ? !matches : matches;
+    });
+}
+
+/**
+ * Detect the terminal's color scheme from COLORFGBG ("fg;bg"), which many
+ * terminals export. Backgrounds 7 and 9-15 are light; anything else is dark.
+ */
+export function detectColorScheme(env: NodeJS.ProcessEnv = process.env): 'dark' | 'light' {
+    const background = env.COLORFGBG?.split(';').pop();
+    if (background === undefined || background === '') return 'dark';
+    const index = parseInt(background, 10);
+    return index === 7 || (index >= 9 && index <= 15) ? 'light' : 'dark';
+}
+
+/**
+ * Get the environment media queries are currently evaluated against.
+ */
+export function getMediaEnvironment(): MediaEnvironment {
+    return currentEnvironment;
+}
+
+/**
+ * Update the media environment (e.g. after a terminal resize) and notify
+ * `matchMedia` listeners whose queries changed.
+ *
+ * @param changes - Properties to update, or null to restore the defaults.
+ */
+export function setMediaEnvironment(changes: Partial<MediaEnvironment> | null): void {
+    currentEnvironment = changes ? { ...currentEnvironment, ...changes } : { ...DEFAULT_ENVIRONMENT };
+    notifyMediaQueryLists();
+}
+
+/**
+ * Run a function with a specific media environment, restoring the previous
+ * one afterwards. Mount contexts render with their own terminal's size.
+ * Listeners are not notified.
+ */
+export function withMediaEnvironment<T>(env: MediaEnvironment, fn: () => T): T {
+    const previous = currentEnvironment;
+    currentEnvironment = env;
+    try {
+        return fn();
+    } finally {
+        currentEnvironment = previous;
+    }
+}
+
+type ChangeListener = ((event: MediaQueryChangeEvent) => void) | { handleEvent(event: MediaQueryChangeEvent): void };
+
+/**
+ * Event delivered to `matchMedia` change listeners.
+ */
+export interface MediaQueryChangeEvent {
+    type: 'change';
+    matches: boolean;
+    media: string;
+}
+
+/** Lists with listeners; lists without listeners are left to the GC. */
+const observedLists = new Set<TerminalMediaQueryList>();
+
+/**
+ * `MediaQueryList` for the terminal, returned by `window.matchMedia()`.
+ */
+export class TerminalMediaQueryList {
+    readonly media: string;
+    private readonly query: MediaQuery;
+    private readonly listeners = new Set<ChangeListener>();
+    private lastMatches: boolean;
+    private changeHandler: ((event: MediaQueryChangeEvent) => void) | null = null;
+
+    constructor(media: string) {
+        this.query = parseMediaQuery(media);
+        this.media = this.query.text;
+        this.lastMatches = this.matches;
+    }
+
+    get matches(): boolean {
+        return matchesMediaQuery(this.query);
+    }
+
+    get onchange(): ((event: MediaQueryChangeEvent) => void) | null {
+        return this.changeHandler;
+    }
+
+    set onchange(handler: ((event: MediaQueryChangeEvent) => void) | null) {
+        this.changeHandler = handler;
+        this.updateObserved();
+    }
+
+    addEventListener(type: string, listener: ChangeListener | null): void {
+        if (type !== 'change' || !listener) return;
+        this.listeners.add(listener);
+        this.updateObserved();
+    }
+
+    removeEventListener(type: string, listener: ChangeListener | null): void {
+        if (type !== 'change' || !listener) return;
+        this.listeners.delete(listener);
+        this.updateObserved();
+    }
+
+    /** @deprecated Legacy alias of `addEventListener('change', listener)`. */
+    addListener(listener: ChangeListener | null): void {
+        this.addEventListener('change', listener);
+    }
+
+    /** @deprecated Legacy alias of `removeEventListener('change', listener)`. */
+    removeListener(listener: ChangeListener | null): void {
+        this.removeEventListener('change', listener);
+    }
+
+    dispatchEvent(event: MediaQueryChangeEvent): boolean {
+        this.changeHandler?.call(this, event);
+        for (const listener of [...this.listeners]) {
+            try {
+                if (typeof listener === 'function') {
+                    listener.call(this, event);
+                } else {
+                    listener.handleEvent(event);
+                }
+            } catch (error) {
+                log('media:listenerError', { media: this.media, error: String(error) });
+            }
+        }
+        return true;
+    }
+
+    /** @internal Re-evaluate and dispatch `change` if the result flipped. */
+    refresh(): void {
+        const matches = this.matches;
+        if (matches === this.lastMatches) return;
+        this.lastMatches = matches;
+        this.dispatchEvent({ type: 'change', matches, media: this.media });
+    }
+
+    private updateObserved(): void {
+        if (this.listeners.size === 0 && !this.changeHandler) {
+            observedLists.delete(this);
+        } else if (!observedLists.has(this)) {
+            this.lastMatches = this.matches;
+            observedLists.add(this);
+        }
+    }
+}
+
+function notifyMediaQueryLists(): void {
+    for (const list of [...observedLists]) {
+        list.refresh();
+    }
+}
+
+/**
+ * Terminal implementation of `window.matchMedia`.
+ */
+export function matchMedia(query: string): TerminalMediaQueryList {
+    return new TerminalMediaQueryList(String(query));
+}
@@ -4,6 +4,8 @@ import { canonicalizeStyleProp } from './properties.js';
 import { getNodeTag } from '../utils/node.js';
 import { isDialogModal } from '../dialog.js';
 import { isCalcFunction, parseAndCompileCalc, type CalcValue } from './calc.js';
+import { expandAnimationShorthand, expandTransitionShorthand } from '../animation/timing.js';
+import { matchesMediaQuery, parseMediaQuery, type MediaQuery } from './media.js';
 
 /**
  * Selector component types matching our internal format.
@@ -80,6 +82,8 @@ export interface StylesheetRule {
     selectors: Selector[];
     declarations: StylesheetDeclaration[];
     order: number;
+    /** Enclosing `@media` conditions; all must match for the rule to apply. */
+    media?: MediaQuery[];
 }
 
 export interface StylesheetArtifact {
@@ -87,6 +91,16 @@ export interface StylesheetArtifact {
     rules: StylesheetRule[];
 }
 
+/**
+ * One keyframe of a `@keyframes` rule.
+ */
+export interface Keyframe {
+    /** Position in the animation, 0 (`from`) to 1 (`to`). */
+    offset: number;
+    /** Declared styles at this keyframe. */
+    style: Partial<Style>;
+}
+
 interface MatchedDeclaration extends StylesheetDeclaration {
     specificity: number;
     order: number;
@@ -101,6 +115,12 @@ let RULE_SEQUENCE = 0;
  */
 const CUSTOM_PROPERTY_REGISTRY = new Map<string, Map<string, string>>();
 
+/**
+ * Registry for `@keyframes` rules.
+ * Maps stylesheet ID to a map of animation names to their keyframes.
+ */
+const KEYFRAMES_REGISTRY = new Map<string, Map<string, Keyframe[]>>();
+
 /**
  * Flag to track if base styles have been registered.
  */
@@ -189,11 +209,27 @@ export function registerStylesheet(styleSheetId: string, cssText: string): Style
             CUSTOM_PROPERTY_REGISTRY.set(styleSheetId, customProps);
         }
         
-        // Second pass: parse rules with var() resolution
+        const keyframes = parseKeyframes(ast, customProps);
+        if (keyframes.size > 0) {
+            KEYFRAMES_REGISTRY.set(styleSheetId, keyframes);
+        }
+        
+        // Second pass: parse rules with var() resolution, tracking enclosing @media blocks
+        const mediaStack: MediaQuery[] = [];
+        let keyframesDepth = 0;
         csstree.walk(ast, {
-            visit: 'Rule',
-            enter(node) {
-                if (node.type === 'Rule' && node.prelude.type === 'SelectorList') {
+            enter(node: csstree.CssNode) {
+                if (node.type === 'Atrule') {
+                    if (isMediaAtrule(node)) {
+                        mediaStack.push(parseMediaQuery(node.prelude ? csstree.generate(node.prelude) : ''));
+                    } else if (isKeyframesAtrule(node)) {
+                        keyframesDepth++;
+                    }
+                    return;
+                }
+                // Keyframe selectors (`from`, `50%`) are not element selectors
+                if (node.type !== 'Rule' || keyframesDepth > 0) return;
+                if (node.prelude.type === 'SelectorList') {
                     const selectors = parseSelectors(node.prelude);
                     const declarations = parseDeclarations(node.block, customProps);
                     if (declarations.length > 0) {
@@ -201,10 +237,19 @@ export function registerStylesheet(styleSheetId: string, cssText: string): Style
                             selectors,
                             declarations,
                             order: RULE_SEQUENCE++,
+                            ...(mediaStack.length > 0 ? { media: [...mediaStack] } : {}),
                         });
                     }
                 }
             },
+            leave(node: csstree.CssNode) {
+                if (node.type !== 'Atrule') return;
+                if (isMediaAtrule(node)) {
+                    mediaStack.pop();
+                } else if (isKeyframesAtrule(node)) {
+                    keyframesDepth--;
+                }
+            },
         });
     } catch (error) {
         throw new Error(`Failed to parse stylesheet ${styleSheetId}: ${(error as Error).message}`);
@@ -214,6 +259,80 @@ export function registerStylesheet(styleSheetId: string, cssText: string): Style
     return artifact;
 }
 
+function isKeyframesAtrule(atrule: csstree.Atrule): boolean {
+    return /^(?:-[a-z]+-)?keyframes$/i.test(atrule.name);
+}
+
+function isMediaAtrule(atrule: csstree.Atrule): boolean {
+    return atrule.name.toLowerCase() === 'media';
+}
+
+/**
+ * Whether a rule's `@media` conditions match the current terminal.
+ */
+function ruleMediaMatches(rule: StylesheetRule): boolean {
+    return !rule.media || rule.media.every(query => matchesMediaQuery(query));
+}
+
+/**
+ * Collect `@keyframes` rules from a stylesheet AST.
+ * Offsets listed together (`0%, 100% { ... }`) produce one keyframe each.
+ */
+function parseKeyframes(ast: csstree.CssNode, customProps: Map<string, string>): Map<string, Keyframe[]> {
+    const result = new Map<string, Keyframe[]>();
+    csstree.walk(ast, {
+        visit: 'Atrule',
+        enter(node) {
+            if (!isKeyframesAtrule(node) || !node.prelude || !node.block) return;
+            const name = csstree.generate(node.prelude).trim().replace(/^["']|["']$/g, '');
+            if (!name) return;
+            const frames: Keyframe[] = [];
+            node.block.children.forEach((child) => {
+                if (child.type !== 'Rule') return;
+                const style: Partial<Style> = {};
+                for (const decl of parseDeclarations(child.block, customProps)) {
+                    applyDeclaration(style, decl.property, decl.value);
+                }
+                for (const selector of csstree.generate(child.prelude).split(',')) {
+                    const offset = parseKeyframeOffset(selector);
+                    if (offset !== null) {
+                        frames.push({ offset, style });
+                    }
+                }
+            });
+            frames.sort((a, b) => a.offset - b.offset);
+            // A later @keyframes with the same name replaces the earlier one
+            result.set(name, frames);
+        },
+    });
+    return result;
+}
+
+function parseKeyframeOffset(selector: string): number | null {
+    const value = selector.trim().toLowerCase();
+    if (value === 'from') return 0;
+    if (value === 'to') return 1;
+    if (!value.endsWith('%')) return null;
+    const percent = parseFloat(value);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) return null;
+    return percent / 100;
+}
+
+/**
+ * Look up the keyframes for an animation name.
+ * Later stylesheets override earlier ones.
+ */
+export function getKeyframes(name: string): Keyframe[] | undefined {
+    const sheets = Array.from(KEYFRAMES_REGISTRY.values()).reverse();
+    for (const keyframes of sheets) {
+        const frames = keyframes.get(name);
+        if (frames) {
+            return frames;
+        }
+    }
+    return undefined;
+}
+
 export function getRegisteredStylesheet(styleSheetId: string): StylesheetArtifact | undefined {
     return STYLESHEET_REGISTRY.get(styleSheetId);
 }
@@ -225,6 +344,7 @@ export function listRegisteredStylesheets(): StylesheetArtifact[] {
 export function resetStylesheets(): void {
     STYLESHEET_REGISTRY.clear();
     CUSTOM_PROPERTY_REGISTRY.clear();
+    KEYFRAMES_REGISTRY.clear();
     RULE_SEQUENCE = 0;
     // Reset the base styles flag so they can be re-registered if needed
     baseStylesRegistered = false;
@@ -347,6 +467,7 @@ function collectPseudoElementDeclarations(
     const matched: MatchedDeclaration[] = [];
     for (const sheet of STYLESHEET_REGISTRY.values()) {
         for (const rule of sheet.rules) {
+            if (!ruleMediaMatches(rule)) continue;
             for (const selector of rule.selectors) {
                 if (!matchesSelectorForPseudoElement(node, selector, pseudoElement)) {
                     continue;
@@ -376,6 +497,7 @@ function collectMatchedDeclarations(node: CliNode): MatchedDeclaration[] {
     const matched: MatchedDeclaration[] = [];
     for (const sheet of STYLESHEET_REGISTRY.values()) {
         for (const rule of sheet.rules) {
+            if (!ruleMediaMatches(rule)) continue;
             const specificity = getMatchingSpecificity(node, rule.selectors);
             const classes = node.className ?? '';
             if (specificity === null) continue;
@@ -579,6 +701,8 @@ const LIST_STYLE_POSITIONS = ['inside', 'outside'] as const;
 
 const OVERFLOW_VALUES = ['visible', 'hidden', 'scroll', 'auto'] as const;
 
+const IMAGE_FALLBACK_MODES = ['half-block', 'quadrant', 'braille', 'none'] as const;
+
 // Known custom properties that should be processed as style declarations
 const KNOWN_CUSTOM_PROPERTIES = new Set([
     // Border background styling
@@ -609,6 +733,8 @@ const KNOWN_CUSTOM_PROPERTIES = new Set([
     '--caret-inverse',
     // Placeholder styling
     '--placeholder-color',
+    // Image rendering without a graphics protocol
+    '--image-fallback',
     // Scrollbar styling
     '--scrollbar-track-color',
     '--scrollbar-thumb-color',
@@ -1104,7 +1230,11 @@ function getClassTokens(node: CliNode): string[] {
         .filter(Boolean);
 }
 
-function applyDeclaration(style: Partial<Style>, property: string, rawValue: unknown): void {
+/**
+ * Apply a single CSS declaration (kebab-case property, css-tree value string)
+ * to a style object. Unsupported properties are ignored.
+ */
+export function applyDeclaration(style: Partial<Style>, property: string, rawValue: unknown): void {
     const lower = property.toLowerCase();
     switch (lower) {
         case 'color':
@@ -1264,7 +1394,7 @@ function applyDeclaration(style: Partial<Style>, property: string, rawValue: unk
             return;
         }
         case 'display':
-            assignEnum(style, 'display', rawValue, ['none', 'flex'] as const);
+            assignEnum(style, 'display', rawValue, ['none', 'flex', 'block', 'inline', 'inline-block'] as const);
             return;
         case 'position':
             assignEnum(style, 'position', rawValue, ['absolute', 'relative', 'fixed'] as const);
@@ -1290,6 +1420,31 @@ function applyDeclaration(style: Partial<Style>, property: string, rawValue: unk
             }
             return;
         }
+        case 'animation':
+            Object.assign(style, expandAnimationShorthand(String(rawValue ?? '')));
+            return;
+        case 'transition':
+            Object.assign(style, expandTransitionShorthand(String(rawValue ?? '')));
+            return;
+        case 'animation-name':
+        case 'animation-duration':
+        case 'animation-delay':
+        case 'animation-timing-function':
+        case 'animation-iteration-count':
+        case 'animation-direction':
+        case 'animation-fill-mode':
+        case 'animation-play-state':
+        case 'transition-property':
+        case 'transition-duration':
+        case 'transition-delay':
+        case 'transition-timing-function': {
+            // Kept as CSS lists; the animation runtime interprets them
+            const value = String(rawValue ?? '').trim();
+            if (value) {
+                setStyleProp(style, lower.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase()), value);
+            }
+            return;
+        }
         case 'content':
             // CSS content property for ::marker, ::before, ::after
             // Supports: none, "string", or 'string'
@@ -1339,6 +1494,9 @@ function applyDeclaration(style: Partial<Style>, property: string, rawValue: unk
             assignColor(style, 'caretColor', rawValue);
             return;
         }
+        case '--image-fallback':
+            assignEnum(style, 'imageFallback', rawValue, IMAGE_FALLBACK_MODES);
+            return;
         case '--caret-char':
             assignString(style, 'caretChar', rawValue);
             return;
@@ -1,5 +1,10 @@
 import type Yoga from 'yoga-layout';
 import type { CalcValue } from './style/calc.js';
+import type { ColorDepth } from './style/color-depth.js';
+import type { AnimatedFrame } from './animation/animated-style.js';
+import type { CssAnimationState } from './animation/css-animations.js';
+import type { InlineFlow } from './render/inline.js';
+import type { EditHistory } from './input/history.js';
 
 /**
  * Style dimension type that accepts numbers, strings (with units), or calc expressions.
@@ -70,7 +75,7 @@ export interface FlexStyle {
     zIndex?: number;
 
     // Display and visibility
-    display?: 'flex' | 'none';
+    display?: 'flex' | 'none' | 'block' | 'inline' | 'inline-block';
     visibility?: 'visible' | 'hidden' | 'collapse';
 
     // Gap (support calc expressions)
@@ -122,6 +127,8 @@ export interface TextStyle {
     dim?: boolean;
     inverse?: boolean;
     textAlign?: 'left' | 'center' | 'right';
+    /** Absolute URL of the enclosing `<a href>`, written as an OSC 8 hyperlink */
+    link?: string;
     
     // Text wrapping
     whiteSpace?: 'normal' | 'nowrap' | 'pre' | 'pre-wrap' | 'pre-line' | 'break-spaces';
@@ -161,6 +168,7 @@ export interface TextStyle {
     
     // Image styling
     objectFit?: 'fill' | 'contain' | 'cover' | 'none' | 'scale-down';
+    imageFallback?: 'half-block' | 'quadrant' | 'braille' | 'none';
 
     // Scrollbar styling
     scrollbarTrackColor?: string;
@@ -191,10 +199,34 @@ export interface BorderStyle {
     borderBottomRightBackgroundColor?: string;
 }
 
+/**
+ * CSS animation and transition properties.
+ * Values are kept as CSS strings (comma-separated lists for multiple
+ * animations) and interpreted by the animation runtime.
+ */
+export interface AnimationStyle {
+    /** `animation` shorthand (inline styles only; stylesheets expand it) */
+    animation?: string;
+    animationName?: string;
+    animationDuration?: string;
+    animationDelay?: string;
+    animationTimingFunction?: string;
+    animationIterationCount?: string;
+    animationDirection?: string;
+    animationFillMode?: string;
+    animationPlayState?: string;
+    /** `transition` shorthand (inline styles only; stylesheets expand it) */
+    transition?: string;
+    transitionProperty?: string;
+    transitionDuration?: string;
+    transitionDelay?: string;
+    transitionTimingFunction?: string;
+}
+
 /**
  * Combined style properties
  */
-export interface Style extends FlexStyle, TextStyle, BorderStyle {}
+export interface Style extends FlexStyle, TextStyle, BorderStyle, AnimationStyle {}
 
 /**
  * Focusable props and metadata
@@ -224,11 +256,27 @@ export interface ComputedLayout {
     height: number;
 }
 
+/**
+ * Bounding box in terminal cells, shaped like a DOMRect.
+ */
+export interface BoundingRect {
+    x: number;
+    y: number;
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+    width: number;
+    height: number;
+}
+
 /**
  * Event detail for input/change events.
  */
 export interface InputEventDetail {
     value: unknown;
+    /** Kind of edit, as in `InputEvent.inputType` (e.g. 'insertText', 'historyUndo'). */
+    inputType?: string;
 }
 
 /**
@@ -356,6 +404,10 @@ export interface BaseNode {
     remove: () => void;
     focus?: () => void;
     blur?: () => void;
+    /** Layout box relative to the terminal viewport */
+    getBoundingClientRect?: () => BoundingRect;
+    /** Inert nodes (e.g. elements playing an outro) cannot receive focus */
+    inert?: boolean;
 
     // Internal state (prefixed with __)
     /** Internal scroll state for scroll containers */
@@ -378,6 +430,8 @@ export interface BaseNode {
     clientWidth?: number;
     /** Visible client height */
     clientHeight?: number;
+    /** Effective CSS zoom (always 1 in the terminal) */
+    currentCSSZoom?: number;
     /** Scroll to position */
     scroll?: (xOrOptions?: number | ScrollToOptions, y?: number) => void;
     /** Scroll to position (alias) */
@@ -408,6 +462,8 @@ export interface BaseNode {
     __committedValue?: unknown;
     /** Raw string value before parsing */
     __rawValue?: string;
+    /** Undo/redo history of a text input or textarea */
+    __editHistory?: EditHistory;
     /** Svelte value binding setter */
     __setValue?: (v: unknown) => void;
     /** Svelte checked binding setter */
@@ -438,10 +494,22 @@ export interface BaseNode {
     __focusState?: 'focused' | null;
     /** Static attributes cache */
     __staticAttrs?: Record<string, unknown>;
+    /** Attribute values as last set, keyed by their original (case-sensitive) name */
+    __attributes?: Record<string, string>;
     /** Whether the node has been freed */
     __freed?: boolean;
     /** DOM bridge marker */
     __cliDomBridge?: boolean;
+    /** Running animation frames, keyed by the animation that produced them */
+    __animationFrames?: Map<object, AnimatedFrame>;
+    /** Merged animated style, applied over stylesheet and inline styles */
+    __animatedStyle?: Style;
+    /** Merged animated translation in cells, applied after layout */
+    __translate?: { x: number; y: number };
+    /** CSS animations and transitions running on this node */
+    __cssAnimations?: CssAnimationState;
+    /** Paragraph layout when the node establishes an inline formatting context. */
+    __inlineFlow?: InlineFlow;
 
     // DOM-like query methods
     /** Query a single descendant by CSS selector */
@@ -559,6 +627,72 @@ export interface MountOptions {
     /** When false, do not clear the terminal on unmount */
     clearOnExit?: boolean;
     debug?: boolean;
+    /**
+     * Enable SGR mouse tracking: clicks, wheel scrolling and hover are
+     * delivered as DOM events. Off by default because it disables the
+     * terminal's own text selection.
+     */
+    mouse?: boolean;
+    /**
+     * Render on the alternate screen buffer, leaving the scrollback untouched.
+     * The main screen, cursor and tty mode are restored on unmount, on
+     * uncaught exceptions and on SIGTERM/SIGHUP.
+     */
+    altScreen?: boolean;
+    /**
+     * Render below the cursor instead of taking over the screen, for prompts
+     * and progress output. The region is as tall as its content (at most the
+     * terminal height) and grows downward; on unmount the last frame is left
+     * in place, followed by a new line. Ignored with `altScreen`. Mouse
+     * reporting is not enabled and images are drawn with block characters,
+     * since the region's position on screen is unknown.
+     */
+    inline?: boolean;
+    /**
+     * Colors the terminal can display. Detected from COLORTERM, TERM,
+     * NO_COLOR and FORCE_COLOR when omitted; colors are downsampled to fit.
+     */
+    colorDepth?: ColorDepth;
+    /**
+     * Opens `http(s)` and `file` links activated with Enter or a click, unless
+     * the click is `preventDefault()`ed. Defaults to the platform's opener
+     * (`open` on macOS, `xdg-open` elsewhere); false disables opening.
+     */
+    openLink?: ((url: string) => void) | false;
+    /**
+     * Negotiate the kitty keyboard protocol (default true). Supporting
+     * terminals then report unambiguous keys, key repeats and key releases
+     * (`keyup`); others keep using legacy input. Skipped when stdin is not
+     * a TTY.
+     */
+    kittyKeyboard?: boolean;
+    /**
+     * Draw images through Kitty, iTerm2 or Sixel graphics when the terminal
+     * supports them (default true). Support is detected from this process's
+     * environment, so set false when stdout is some other terminal; images
+     * then use block characters.
+     */
+    graphics?: boolean;
+    /**
+     * Called after Ctrl+C unmounts the app, instead of exiting the process.
+     * The mount then installs no process signal or crash handlers; restoring
+     * the terminal when the process goes down is left to the caller.
+     */
+    onExit?: () => void;
+}
+
+/**
+ * Options for rendering a component once to text
+ */
+export interface StaticRenderOptions {
+    props?: Record<string, unknown>;
+    /** Width in columns (default 80). */
+    width?: number;
+    /**
+     * Colors to emit (default 'truecolor'), or false for plain text without
+     * escape codes.
+     */
+    colorDepth?: ColorDepth | false;
 }
 
 /**
@@ -0,0 +1,271 @@
+/**
+ * SvelTTY testing utilities
+ *
+ * Mounts a component into an in-memory terminal of a fixed size and drives
+ * it like a user would: keys are fed through the same input decoding as a
+ * real TTY, and the screen is read back from the rendered cell grid.
+ *
+ * ```ts
+ * import { render } from 'sveltty/testing';
+ *
+ * const app = await render(Counter, { columns: 40, rows: 10 });
+ * await app.press('Tab', 'Enter');
+ * expect(app.screen().text).toContain('Count: 1');
+ * app.unmount();
+ * ```
+ */
+
+import { EventEmitter } from 'node:events';
+import type { Component } from 'svelte';
+import { ensureDomGlobals, ensureRuntimeReady } from './runtime/dom/setup.js';
+import { createMountContext } from './runtime/mount.js';
+import { getLastFrame } from './runtime/render/pipeline/diff.js';
+import { getNodeState, within, type BoundQueries, type NodeState } from './runtime/queries.js';
+import type { CliNode, MountOptions, TextStyle } from './runtime/types.js';
+
+export type { BoundQueries, NodeState, RoleQueryOptions, TextMatch, TextQueryOptions } from './runtime/queries.js';
+
+ensureDomGlobals();
+void ensureRuntimeReady();
+
+export interface TestRenderOptions extends Omit<MountOptions, 'stdin' | 'stdout' | 'stderr'> {
+    /** Terminal width in columns (default 80). */
+    columns?: number;
+    /** Terminal height in rows (default 24). */
+    rows?: number;
+}
+
+/** A snapshot of the virtual terminal. */
+export interface Screen {
+    /** Each row as plain text, with trailing spaces trimmed. */
+    lines: string[];
+    /** `lines` joined with newlines. */
+    text: string;
+    /** Style of every cell, indexed `[row][column]`; null for unstyled cells. */
+    styles: (TextStyle | null)[][];
+}
+
+/**
+ * Controls for a rendered component. The `getBy*` / `queryBy*` queries
+ * search the whole app; `within()` narrows them to one node's subtree.
+ */
+export interface TestRenderer extends BoundQueries {
+    /**
+     * Press keys in order, e.g. `press('Tab')`, `press('Shift+Tab')`,
+     * `press('Ctrl+a', 'Backspace')`, then wait for the render to settle.
+     */
+    press(...keys: string[]): Promise<void>;
+    /** Type text one character at a time, then wait for the render to settle. */
+    type(text: string): Promise<void>;
+    /** Deliver text as a bracketed paste, then wait for the render to settle. */
+    paste(text: string): Promise<void>;
+    /** Resize the terminal, then wait for the render to settle. */
+    resize(columns: number, rows: number): Promise<void>;
+    /** Wait until no render is pending. */
+    settle(): Promise<void>;
+    /** The current screen. */
+    screen(): Screen;
+    /** Queries limited to a node's subtree (and, for a form, its associated controls). */
+    within(node: CliNode): BoundQueries;
+    /** Role, name, on-screen rectangle, focus, visibility and validity of a node. */
+    inspect(node: CliNode): NodeState;
+    /** Everything written to the virtual stdout, in order. */
+    output: string[];
+    unmount(): void;
+}
+
+/** xterm modifier bits; the transmitted parameter is 1 + bits. */
+const MOD_SHIFT = 1;
+const MOD_ALT = 2;
+const MOD_CTRL = 4;
+
+/** Keys sent as `CSI 1;mods X` (unmodified: `CSI X`). */
+const LETTER_KEYS: Record<string, string> = {
+    ArrowUp: 'A',
+    ArrowDown: 'B',
+    ArrowRight: 'C',
+    ArrowLeft: 'D',
+    Home: 'H',
+    End: 'F',
+};
+
+/** Keys sent as `CSI n;mods ~`. */
+const TILDE_KEYS: Record<string, number> = {
+    Insert: 2,
+    Delete: 3,
+    PageUp: 5,
+    PageDown: 6,
+};
+
+/** Keys with a fixed legacy sequence, and their codepoint for CSI-u when modified. */
+const CONTROL_KEYS: Record<string, [string, number]> = {
+    Enter: ['\r', 13],
+    Tab: ['\t', 9],
+    Escape: ['\x1b', 27],
+    Backspace: ['\x7f', 127],
+    Space: [' ', 32],
+};
+
+const KEY_ALIASES: Record<string, string> = {
+    Return: 'Enter',
+    Esc: 'Escape',
+    Up: 'ArrowUp',
+    Down: 'ArrowDown',
+    Left: 'ArrowLeft',
+    Right: 'ArrowRight',
+    Del: 'Delete',
+};
+
+/**
+ * Encode a key description such as 'Tab', 'Shift+ArrowLeft' or 'Ctrl+z'
+ * as the bytes a terminal would send. Combinations legacy encoding cannot
+ * express use CSI-u, which the decoder understands in any mode.
+ */
+function keySequence(description: string): string {
+    // A '+' that ends the description is the key itself: 'Ctrl++'
+    const parts = description.split(/\+(?=.)/);
+    const name = parts.pop()!;
+    let bits = 0;
+    for (const modifier of parts) {
+        const normalized = modifier.toLowerCase();
+        if (normalized === 'shift') bits |= MOD_SHIFT;
+        else if (normalized === 'alt' || normalized === 'option') bits |= MOD_ALT;
+        else if (normalized === 'ctrl' || normalized === 'control') bits |= MOD_CTRL;
+        else throw new Error(`Unknown modifier "${modifier}" in key "${description}"`);
+    }
+    const key = KEY_ALIASES[name] ?? name;
+
+    if (key in LETTER_KEYS) {
+        return bits ? `\x1b[1;${bits + 1}${LETTER_KEYS[key]}` : `\x1b[${LETTER_KEYS[key]}`;
+    }
+    if (key in TILDE_KEYS) {
+        return bits ? `\x1b[${TILDE_KEYS[key]};${bits + 1}~` : `\x1b[${TILDE_KEYS[key]}~`;
+    }
+    if (key in CONTROL_KEYS) {
+        const [sequence, codepoint] = CONTROL_KEYS[key];
+        if (!bits) return sequence;
+        if (key === 'Tab' && bits === MOD_SHIFT) return '\x1b[Z';
+        return `\x1b[${codepoint};${bits + 1}u`;
+    }
+    if (Array.from(key).length !== 1) {
+        throw new Error(`Unknown key "${description}"`);
+    }
+
+    const char = bits & MOD_SHIFT && !(bits & MOD_CTRL) ? key.toUpperCase() : key;
+    if (bits & MOD_SHIFT && !(bits & MOD_CTRL)) bits &= ~MOD_SHIFT;
+    if (bits === 0) return char;
+    if (bits === MOD_CTRL && /^[a-z]$/i.test(char)) {
+        return String.fromCharCode(char.toLowerCase().charCodeAt(0) & 0x1f);
+    }
+    if (bits === MOD_ALT) return `\x1b${char}`;
+    return `\x1b[${char.toLowerCase().codePointAt(0)};${bits + 1}u`;
+}
+
+class VirtualStdout extends EventEmitter {
+    isTTY = true;
+    output: string[] = [];
+
+    constructor(
+        public columns: number,
+        public rows: number
+    ) {
+        super();
+    }
+
+    write(chunk: string | Uint8Array): boolean {
+        this.output.push(typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString());
+        return true;
+    }
+}
+
+class VirtualStdin extends EventEmitter {
+    isTTY = true;
+
+    setRawMode(): this {
+        return this;
+    }
+}
+
+/**
+ * Mount a component into a virtual terminal and wait for its first frame.
+ *
+ * @param Component - Svelte component to render.
+ * @param options - Terminal size and mount options.
+ * @returns Controls for driving the component and reading the screen.
+ */
+export async function render(Component: Component<any>, options: TestRenderOptions = {}): Promise<TestRenderer> {
+    const { columns = 80, rows = 24, ...mountOptions } = options;
+    const stdout = new VirtualStdout(columns, rows);
+    const stdin = new VirtualStdin();
+    const ctx = createMountContext(Component, {
+        clearOnExit: false,
+        kittyKeyboard: false,
+        openLink: false,
+        ...mountOptions,
+        stdout: stdout as unknown as NodeJS.WriteStream,
+        stdin: stdin as unknown as NodeJS.ReadStream,
+        // Input is fed directly; Ctrl+C must not end the test process
+        exitOnCtrlC: false,
+    });
+
+    const settle = (): Promise<void> => ctx.settle();
+
+    const feed = async (data: string): Promise<void> => {
+        ctx.handleStdinData(Buffer.from(data));
+        // A lone ESC waits for the rest of a sequence; nothing more is coming
+        if (ctx.inputFlushTimer) {
+            clearTimeout(ctx.inputFlushTimer);
+            ctx.flushPendingInput();
+        }
+        await settle();
+    };
+
+    await ctx.start();
+    await settle();
+
+    // Focus and form associations are per mount
+    const run = <T>(fn: () => T): T => ctx.runWithFocus(fn);
+
+    return {
+        ...within(ctx.root, run),
+        async press(...keys) {
+            for (const key of keys) {
+                await feed(keySequence(key));
+            }
+        },
+        async type(text) {
+            for (const char of text) {
+                await feed(char === '\n' ? '\r' : char);
+            }
+        },
+        paste(text) {
+            return feed(`\x1b[200~${text}\x1b[201~`);
+        },
+        async resize(nextColumns, nextRows) {
+            stdout.columns = nextColumns;
+            stdout.rows = nextRows;
+            stdout.emit('resize');
+            await settle();
+        },
+        settle,
+        screen() {
+            const grid = getLastFrame(ctx.root) ?? [];
+            const lines = grid.map(row => row.map(cell => cell.char).join('').trimEnd());
+            return {
+                lines,
+                text: lines.join('\n'),
+                styles: grid.map(row => row.map(cell => cell.style ?? null)),
+            };
+        },
+        within(node) {
+            return within(node, run);
+        },
+        inspect(node) {
+            return run(() => getNodeState(node));
+        },
+        output: stdout.output,
+        unmount() {
+            ctx.unmount();
+        },
+    };
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import {
+    create_root,
+    set_attribute,
+    set_style,
+    computeLayout,
+    renderToString,
+    free_node,
+} from '../src/runtime/index.js';
+import { detectColorDepth, withColorDepth } from '../src/runtime/style/color-depth.js';
+import { resolveAnsiColor, rgbToAnsi16, rgbToAnsi256 } from '../src/runtime/style/colors.js';
+import { getStyleCodes } from '../src/runtime/render/styles.js';
+import { registerStylesheet, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+
+describe('detectColorDepth', () => {
+    it('honors FORCE_COLOR levels before anything else', () => {
+        expect(detectColorDepth({ FORCE_COLOR: '0', COLORTERM: 'truecolor' })).toBe('mono');
+        expect(detectColorDepth({ FORCE_COLOR: '1', NO_COLOR: '1' })).toBe('16');
+        expect(detectColorDepth({ FORCE_COLOR: '2' })).toBe('256');
+        expect(detectColorDepth({ FORCE_COLOR: '3', TERM: 'linux' })).toBe('truecolor');
+    });
+
+    it('disables color with NO_COLOR and dumb terminals', () => {
+        expect(detectColorDepth({ NO_COLOR: '1', COLORTERM: 'truecolor' })).toBe('mono');
+        expect(detectColorDepth({ TERM: 'dumb' })).toBe('mono');
+        // An empty NO_COLOR does not count
+        expect(detectColorDepth({ NO_COLOR: '', COLORTERM: 'truecolor' })).toBe('truecolor');
+    });
+
+    it('detects truecolor, 256 and 16 color terminals', () => {
+        expect(detectColorDepth({ COLORTERM: '24bit', TERM: 'xterm' })).toBe('truecolor');
+        expect(detectColorDepth({ TERM: 'xterm-direct' })).toBe('truecolor');
+        expect(detectColorDepth({ TERM: 'tmux-256color' })).toBe('256');
+        expect(detectColorDepth({ TERM: 'linux' })).toBe('16');
+        expect(detectColorDepth({})).toBe('16');
+    });
+});
+
+describe('color quantization', () => {
+    it('maps RGB onto the xterm-256 cube and grayscale ramp', () => {
+        expect(rgbToAnsi256({ r: 255, g: 0, b: 0 })).toBe(196);
+        expect(rgbToAnsi256({ r: 0, g: 0, b: 0 })).toBe(16);
+        expect(rgbToAnsi256({ r: 128, g: 128, b: 128 })).toBe(244);
+        expect(rgbToAnsi256({ r: 95, g: 135, b: 175 })).toBe(67);
+    });
+
+    it('maps RGB onto the 16 ANSI colors', () => {
+        expect(rgbToAnsi16({ r: 250, g: 10, b: 10 })).toBe(9);
+        expect(rgbToAnsi16({ r: 0, g: 128, b: 0 })).toBe(2);
+        expect(rgbToAnsi16({ r: 20, g: 20, b: 20 })).toBe(0);
+        expect(rgbToAnsi16({ r: 250, g: 250, b: 250 })).toBe(15);
+    });
+
+    it('encodes colors for each depth', () => {
+        expect(resolveAnsiColor('#ff0000', false)).toBe('\x1b[38;2;255;0;0m');
+        expect(resolveAnsiColor('#ff0000', false, '256')).toBe('\x1b[38;5;196m');
+        expect(resolveAnsiColor('#ff0000', true, '256')).toBe('\x1b[48;5;196m');
+        expect(resolveAnsiColor('red', false, '16')).toBe('\x1b[91m');
+        expect(resolveAnsiColor('navy', true, '16')).toBe('\x1b[44m');
+        expect(resolveAnsiColor('red', false, 'mono')).toBeUndefined();
+    });
+});
+
+describe('getStyleCodes color depth', () => {
+    it('downsamples colors to the active depth', () => {
+        const style = { color: '#ff0000', backgroundColor: 'rgb(0, 0, 0)' };
+        expect(withColorDepth('256', () => getStyleCodes(style))).toBe('\x1b[38;5;196m\x1b[48;5;16m');
+        expect(withColorDepth('16', () => getStyleCodes(style))).toBe('\x1b[91m\x1b[40m');
+    });
+
+    it('keeps only bold, underline and inverse in monochrome', () => {
+        const style = { color: 'red', bold: true, italic: true, dim: true, underline: true, inverse: true };
+        expect(withColorDepth('mono', () => getStyleCodes(style))).toBe('\x1b[1m\x1b[4m\x1b[7m');
+        // Dropping italic is not a change once colors and italics are ignored
+        const codes = withColorDepth('mono', () =>
+            getStyleCodes({ bold: true }, { bold: true, italic: true, color: 'blue' })
+        );
+        expect(codes).toBe('');
+    });
+});
+
+describe('gradient rendering at reduced depth', () => {
+    afterEach(() => {
+        resetStylesheets();
+    });
+
+    function renderGradient(depth: '256' | '16' | 'mono'): string {
+        registerStylesheet('__depth_gradient__', `.fill { background: linear-gradient(90deg, red, blue); }`);
+        const root = create_root();
+        set_style(root, { width: 12, height: 1 });
+        set_attribute(root, 'class', 'fill');
+        computeLayout(root, 12, 1);
+        const { output } = withColorDepth(depth, () => renderToString(root));
+        free_node(root);
+        return output;
+    }
+
+    it('never emits 24-bit sequences', () => {
+        const palette = renderGradient('256');
+        expect(palette).not.toMatch(/\x1b\[[34]8;2;/);
+        expect(palette).toMatch(/\x1b\[48;5;\d+m/);
+
+        const basic = renderGradient('16');
+        expect(basic).not.toMatch(/\x1b\[[34]8;[25];/);
+        expect(basic).toMatch(/\x1b\[(4[0-7]|10[0-7])m/);
+
+        const mono = renderGradient('mono');
+        expect(mono).not.toMatch(/\x1b\[(3[0-8]|4[0-8]|9[0-7]|10[0-7])[;m]/);
+    });
+});
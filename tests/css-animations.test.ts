@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    append,
+    computeLayout,
+    create_element,
+    create_root,
+    free_node,
+    listen,
+    set_attribute,
+    set_style,
+} from '../src/runtime/index.js';
+import { registerStylesheet, resetStylesheets, getKeyframes, listRegisteredStylesheets } from '../src/runtime/style/stylesheet.js';
+import { parseTime, parseEasing, expandAnimationShorthand, expandTransitionShorthand } from '../src/runtime/animation/timing.js';
+import { hasActiveFrames, cancelAllFrames } from '../src/runtime/animation/frames.js';
+import type { CliNode, RootNode } from '../src/runtime/types.js';
+
+describe('CSS timing values', () => {
+    it('parses times in milliseconds', () => {
+        expect(parseTime('1.5s')).toBe(1500);
+        expect(parseTime('.2s')).toBe(200);
+        expect(parseTime('250ms')).toBe(250);
+        expect(parseTime('bogus')).toBe(0);
+    });
+
+    it('parses easing functions', () => {
+        expect(parseEasing('linear')(0.3)).toBeCloseTo(0.3);
+        expect(parseEasing('ease-in')(0.5)).toBeLessThan(0.5);
+        expect(parseEasing('ease-out')(0.5)).toBeGreaterThan(0.5);
+        expect(parseEasing('cubic-bezier(0, 0, 1, 1)')(0.4)).toBeCloseTo(0.4, 3);
+        expect(parseEasing('steps(4)')(0.3)).toBe(0.25);
+        expect(parseEasing('steps(4, jump-start)')(0.3)).toBe(0.5);
+        expect(parseEasing('step-end')(0.99)).toBe(0);
+    });
+
+    it('expands the animation and transition shorthands', () => {
+        expect(expandAnimationShorthand('spin 1s linear infinite, pulse 2s 500ms alternate both')).toEqual({
+            animationName: 'spin, pulse',
+            animationDuration: '1s, 2s',
+            animationDelay: '0s, 500ms',
+            animationTimingFunction: 'linear, ease',
+            animationIterationCount: 'infinite, 1',
+            animationDirection: 'normal, alternate',
+            animationFillMode: 'none, both',
+            animationPlayState: 'running, running',
+        });
+        expect(expandTransitionShorthand('color 200ms ease-in, width 1s')).toEqual({
+            transitionProperty: 'color, width',
+            transitionDuration: '200ms, 1s',
+            transitionDelay: '0s, 0s',
+            transitionTimingFunction: 'ease-in, ease',
+        });
+    });
+});
+
+describe('@keyframes', () => {
+    beforeEach(() => {
+        resetStylesheets();
+    });
+
+    it('registers keyframes without treating them as element rules', () => {
+        registerStylesheet(
+            'keyframes',
+            '@keyframes grow { from { width: 2ch } 50%, 75% { width: 6ch } to { width: 10ch } } .a { color: red }'
+        );
+        const frames = getKeyframes('grow');
+        expect(frames?.map(frame => frame.offset)).toEqual([0, 0.5, 0.75, 1]);
+        expect(frames?.[3].style.width).toBe(10);
+        expect(listRegisteredStylesheets()[0].rules).toHaveLength(1);
+    });
+});
+
+describe('CSS animations and transitions', () => {
+    let root: RootNode;
+
+    beforeEach(() => {
+        resetStylesheets();
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+        root = create_root();
+        set_style(root, { width: 40, height: 5 });
+    });
+
+    afterEach(() => {
+        cancelAllFrames();
+        vi.useRealTimers();
+        free_node(root);
+    });
+
+    function box(className: string): CliNode {
+        const node = create_element('div');
+        set_attribute(node, 'class', className);
+        set_style(node, { height: 1 });
+        append(root, node);
+        return node;
+    }
+
+    function layoutAt(ms: number): void {
+        vi.advanceTimersByTime(ms);
+        computeLayout(root, 40, 5);
+    }
+
+    it('interpolates keyframes over time and stops when finished', () => {
+        registerStylesheet(
+            'grow',
+            '@keyframes grow { from { width: 0ch; color: #000000 } to { width: 20ch; color: #ff0000 } } .grow { animation: grow 1s linear }'
+        );
+        const node = box('grow');
+
+        layoutAt(0);
+        expect(node.computedLayout?.width).toBe(0);
+        expect(hasActiveFrames()).toBe(true);
+
+        layoutAt(500);
+        expect(node.computedLayout?.width).toBe(10);
+        expect(node.__animatedStyle?.color).toBe('rgb(128, 0, 0)');
+
+        layoutAt(600);
+        expect(node.__animatedStyle).toBeUndefined();
+        // The last frame sees no running animation and stops ticking
+        vi.runOnlyPendingTimers();
+        expect(hasActiveFrames()).toBe(false);
+    });
+
+    it('honours direction, iteration count and fill mode', () => {
+        registerStylesheet(
+            'slide',
+            '@keyframes slide { from { width: 0ch } to { width: 10ch } } .slide { animation: slide 100ms linear 2 alternate forwards }'
+        );
+        const node = box('slide');
+
+        layoutAt(0);
+        layoutAt(150);
+        // Second iteration runs backwards
+        expect(node.computedLayout?.width).toBe(5);
+
+        layoutAt(100);
+        // Holds the end of the last (reversed) iteration
+        expect(node.computedLayout?.width).toBe(0);
+        expect(node.__animatedStyle?.width).toBe(0);
+    });
+
+    it('keeps infinite animations running and freezes paused ones', () => {
+        registerStylesheet(
+            'pulse',
+            '@keyframes pulse { 50% { width: 4ch } } .pulse { animation: pulse 200ms linear infinite } .paused { animation-play-state: paused }'
+        );
+        const node = box('pulse');
+
+        layoutAt(0);
+        layoutAt(1000 + 100);
+        expect(node.__animatedStyle?.width).toBe(4);
+        expect(hasActiveFrames()).toBe(true);
+
+        set_attribute(node, 'class', 'pulse paused');
+        layoutAt(50);
+        const frozen = node.__animatedStyle?.width;
+        layoutAt(50);
+        expect(node.__animatedStyle?.width).toBe(frozen);
+        vi.runOnlyPendingTimers();
+        expect(hasActiveFrames()).toBe(false);
+    });
+
+    it('transitions changed properties and fires transitionend', async () => {
+        registerStylesheet('fade', '.fade { transition: width 100ms linear, color 0s }');
+        const node = box('fade');
+        set_style(node, { width: 4 });
+        let ended = 0;
+        listen(node, 'transitionend', () => ended++);
+
+        layoutAt(0);
+        set_style(node, { width: 14, color: 'red' });
+        layoutAt(0);
+        expect(node.computedLayout?.width).toBe(4);
+        // Properties without a duration change immediately
+        expect(node.__animatedStyle?.color).toBeUndefined();
+
+        layoutAt(50);
+        expect(node.computedLayout?.width).toBe(9);
+
+        layoutAt(60);
+        expect(node.computedLayout?.width).toBe(14);
+        await Promise.resolve();
+        expect(ended).toBe(1);
+    });
+
+    it('reverses an interrupted transition from its current value', () => {
+        registerStylesheet('fade', '.fade { transition: width 100ms linear }');
+        const node = box('fade');
+        set_style(node, { width: 0 });
+        layoutAt(0);
+
+        set_style(node, { width: 10 });
+        layoutAt(0);
+        layoutAt(50);
+        expect(node.computedLayout?.width).toBe(5);
+
+        set_style(node, { width: 0 });
+        layoutAt(0);
+        expect(node.computedLayout?.width).toBe(5);
+        layoutAt(50);
+        expect(node.computedLayout?.width).toBe(3);
+    });
+
+    it('supports inline animation shorthands', () => {
+        registerStylesheet('grow', '@keyframes grow { from { width: 0ch } to { width: 8ch } }');
+        const node = box('');
+        set_style(node, { animation: 'grow 100ms linear' });
+
+        layoutAt(0);
+        layoutAt(50);
+        expect(node.computedLayout?.width).toBe(4);
+    });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { compile } from 'svelte/compiler';
+import { boundary, flush, get, render_effect, set, state } from 'svelte/internal/client';
+import { createMountContext } from '../src/runtime/mount.js';
+import {
+    formatCodeFrame,
+    injectSourceMap,
+    mapStackTrace,
+    registerSourceMap,
+    resetSourceMaps,
+} from '../src/runtime/source-map.js';
+import { getLastFrame } from '../src/runtime/render/pipeline/diff.js';
+import { create_element, create_text, append, set_text } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+function createStdout() {
+    return Object.assign(new EventEmitter(), {
+        isTTY: true,
+        columns: 60,
+        rows: 16,
+        write: () => true,
+    }) as unknown as NodeJS.WriteStream;
+}
+
+function screenText(root: CliNode): string {
+    return (getLastFrame(root) ?? []).map(row => row.map(cell => cell.char).join('')).join('\n');
+}
+
+const contexts: Array<ReturnType<typeof createMountContext>> = [];
+
+afterEach(() => {
+    while (contexts.length) {
+        contexts.pop()?.unmount();
+    }
+    resetSourceMaps();
+});
+
+async function start(Component: (target: CliNode) => void, onExit?: () => void) {
+    const ctx = createMountContext(Component as never, {
+        stdout: createStdout(),
+        exitOnCtrlC: false,
+        clearOnExit: false,
+        kittyKeyboard: false,
+        onExit,
+    });
+    contexts.push(ctx);
+    await ctx.start();
+    await ctx.settle();
+    return ctx;
+}
+
+describe('source maps', () => {
+    it('maps frames in loaded components back to the .svelte source', () => {
+        const source = '<script>\n  let { n } = $props();\n  function boom() { throw new Error(n); }\n</script>\n<text>{n}</text>\n';
+        const result = compile(source, { filename: '/app/Panel.svelte', generate: 'client', css: 'injected' });
+        const code = injectSourceMap(result.js.code, result.js.map, '/app/Panel.svelte', 'file:///source-map.js');
+        expect(code.startsWith(result.js.code)).toBe(true);
+        expect(code).toContain('from "file:///source-map.js"');
+
+        const encoded = /"([A-Za-z0-9+/=]+)"\);\n$/.exec(code)![1];
+        registerSourceMap('file:///tmp/Panel-1.mjs', '/app/Panel.svelte', encoded);
+
+        const lines = result.js.code.split('\n');
+        const line = lines.findIndex(text => text.includes('throw new Error'));
+        const column = lines[line].indexOf('throw') + 1;
+        const frames = mapStackTrace(
+            `Error: 5\n    at boom (file:///tmp/Panel-1.mjs:${line + 1}:${column})\n    at update_effect (file:///svelte/runtime.js:1:1)`
+        );
+        expect(frames).toEqual([
+            { name: 'boom', file: '/app/Panel.svelte', line: 3, column: 21, source },
+        ]);
+        expect(formatCodeFrame(source, 3, 21, 1)).toEqual([
+            '2:   let { n } = $props();',
+            '3:   function boom() { throw new Error(n); }',
+            '                       ^',
+            '4: </script>',
+        ]);
+    });
+});
+
+describe('runtime error overlay', () => {
+    it('shows errors from mounting and renders again on retry', async () => {
+        let broken = true;
+        const ctx = await start(target => {
+            if (broken) throw new Error('Widget exploded');
+            append(target, create_text('Widget ready'));
+        });
+        expect(screenText(ctx.root)).toContain('Runtime error');
+        expect(screenText(ctx.root)).toContain('Widget exploded');
+        expect(screenText(ctx.root)).toContain('Press r to retry');
+
+        // Other keys do not reach the app, or dismiss the overlay
+        ctx.handleKey('x');
+        await ctx.settle();
+        expect(screenText(ctx.root)).toContain('Widget exploded');
+
+        broken = false;
+        ctx.handleKey('r');
+        await ctx.settle();
+        expect(ctx.runtimeError).toBeNull();
+        expect(screenText(ctx.root)).not.toContain('Runtime error');
+        expect(screenText(ctx.root)).toContain('Widget ready');
+    });
+
+    it('catches errors thrown by effects and exits on q', async () => {
+        const count = state(0);
+        let exited = false;
+        const ctx = await start(target => {
+            const text = create_text('');
+            append(target, text);
+            render_effect(() => {
+                if (get(count) > 1) throw new Error('Count overflow');
+                set_text(text, `count ${get(count)}`);
+            });
+        }, () => {
+            exited = true;
+        });
+        expect(screenText(ctx.root)).toContain('count 0');
+
+        ctx.runWithFocus(() => {
+            set(count, 2);
+            flush();
+        });
+        await ctx.settle();
+        expect(screenText(ctx.root)).toContain('Count overflow');
+
+        ctx.handleKey('\x1b');
+        await ctx.settle();
+        expect(screenText(ctx.root)).not.toContain('Count overflow');
+
+        ctx.runWithFocus(() => {
+            set(count, 3);
+        });
+        ctx.remount();
+        await ctx.settle();
+        ctx.handleKey('q');
+        expect(exited).toBe(true);
+        expect(ctx.isUnmounted).toBe(true);
+    });
+
+    it('writes render errors of inline apps below their region', async () => {
+        const writes: string[] = [];
+        let failing = false;
+        const stdout = Object.assign(createStdout(), {
+            write(chunk: string) {
+                if (failing && chunk.includes('Widget')) throw new Error('Terminal gone');
+                writes.push(chunk);
+                return true;
+            },
+        });
+        const text = create_text('Widget ready');
+        const ctx = createMountContext((target: CliNode) => append(target, text), {
+            stdout,
+            exitOnCtrlC: false,
+            kittyKeyboard: false,
+            inline: true,
+        });
+        contexts.push(ctx);
+        await ctx.start();
+        await ctx.settle();
+
+        failing = true;
+        writes.length = 0;
+        set_text(text, 'Widget busy');
+        ctx.scheduleRender();
+        await ctx.settle();
+        expect(ctx.runtimeError).not.toBeNull();
+        expect(writes.join('')).toContain('Render error: Terminal gone\r\n');
+        expect(writes.join('')).toContain('Press r to retry');
+
+        failing = false;
+        writes.length = 0;
+        ctx.handleKey('r');
+        await ctx.settle();
+        expect(ctx.runtimeError).toBeNull();
+        expect(writes.join('')).toContain('Widget busy');
+    });
+
+    it('leaves errors to <svelte:boundary> failed snippets in the app', async () => {
+        const ctx = await start(target => {
+            const box = create_element('box');
+            append(target, box);
+            boundary(
+                box,
+                {
+                    failed: (anchor: CliNode, error: () => Error) => {
+                        append(anchor, create_text(`Fallback: ${error().message}`));
+                    },
+                },
+                () => {
+                    throw new Error('Chart failed');
+                }
+            );
+        });
+        expect(ctx.runtimeError).toBeNull();
+        expect(screenText(ctx.root)).toContain('Fallback: Chart failed');
+        expect(screenText(ctx.root)).not.toContain('Runtime error');
+    });
+});
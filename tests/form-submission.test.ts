@@ -256,6 +256,35 @@ describe('form submission', () => {
         expect(clickHandler).toHaveBeenCalled();
     });
 
+    it('bubbles delegated clicks past handlers that prevent default', () => {
+        const root = trackNode(create_root());
+        const box = trackNode(create_element('box'));
+        const button = trackNode(create_element('button'));
+        append(box, button);
+        append(root, box);
+        mountIntoDocument(root);
+
+        const calls: string[] = [];
+        (getDomNode(button) as any).__click = (e: Event) => {
+            calls.push('button');
+            e.preventDefault();
+        };
+        (getDomNode(box) as any).__click = () => calls.push('box');
+
+        const event = emitMouse(button, 'click');
+        expect(calls).toEqual(['button', 'box']);
+        expect(event?.defaultPrevented).toBe(true);
+
+        // stopPropagation still ends bubbling
+        calls.length = 0;
+        (getDomNode(button) as any).__click = (e: Event) => {
+            calls.push('button');
+            e.stopPropagation();
+        };
+        emitMouse(button, 'click');
+        expect(calls).toEqual(['button']);
+    });
+
     it('calls delegated handler when button is activated via keyboard', () => {
         const root = trackNode(create_root());
         const button = trackNode(create_element('button'));
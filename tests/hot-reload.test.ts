@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { createMountContext, applyComponentUpdate, reportComponentError } from '../src/runtime/mount.js';
+import { applyHotUpdate, createHotContext, injectHotContext, resetHotModules } from '../src/runtime/hot.js';
+import { getLastFrame } from '../src/runtime/render/pipeline/diff.js';
+import { create_element, create_text, append } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+function createStdout() {
+    return Object.assign(new EventEmitter(), {
+        isTTY: true,
+        columns: 40,
+        rows: 10,
+        write: () => true,
+    }) as unknown as NodeJS.WriteStream;
+}
+
+function screenText(root: CliNode): string {
+    return (getLastFrame(root) ?? []).map(row => row.map(cell => cell.char).join('')).join('\n');
+}
+
+const contexts: Array<ReturnType<typeof createMountContext>> = [];
+
+afterEach(() => {
+    while (contexts.length) {
+        contexts.pop()?.unmount();
+    }
+    resetHotModules();
+});
+
+async function start(Component: (target: CliNode) => void) {
+    const ctx = createMountContext(Component as never, {
+        stdout: createStdout(),
+        exitOnCtrlC: false,
+        clearOnExit: false,
+        kittyKeyboard: false,
+    });
+    contexts.push(ctx);
+    await ctx.start();
+    await ctx.settle();
+    return ctx;
+}
+
+describe('hot module contexts', () => {
+    it('replaces import.meta.hot and hands updates to the first version', () => {
+        const code = injectHotContext('if (import.meta.hot) import.meta.hot.accept(cb);', '/app/A.svelte', 'file:///hot.js');
+        expect(code).not.toContain('import.meta.hot');
+        expect(code).toContain('from "file:///hot.js"');
+        expect(injectHotContext('export default 1;', '/app/B.svelte', 'file:///hot.js')).toBe('export default 1;');
+
+        const received: string[] = [];
+        createHotContext('/app/A.svelte').accept(module => received.push(`first:${module}`));
+        createHotContext('/app/A.svelte').accept(module => received.push(`second:${module}`));
+
+        expect(applyHotUpdate('/app/A.svelte', 'v3')).toBe(true);
+        expect(applyHotUpdate('/app/Other.svelte', 'v1')).toBe(false);
+        expect(received).toEqual(['first:v3']);
+    });
+});
+
+describe('component reloading', () => {
+    it('shows compile errors over the app until the next update', async () => {
+        const ctx = await start(target => {
+            append(target, create_text('Dashboard'));
+        });
+
+        reportComponentError('/app/Panel.svelte', Object.assign(new Error('Unexpected token'), {
+            filename: '/app/Panel.svelte',
+            start: { line: 3, column: 7 },
+        }));
+        await ctx.settle();
+        expect(screenText(ctx.root)).toContain('Compile error');
+        expect(screenText(ctx.root)).toContain('Unexpected token');
+        expect(screenText(ctx.root)).toContain('Panel.svelte:3:7');
+
+        applyComponentUpdate('/app/Panel.svelte', {});
+        await ctx.settle();
+        expect(screenText(ctx.root)).not.toContain('Compile error');
+        expect(screenText(ctx.root)).toContain('Dashboard');
+    });
+
+    it('remounts apps when a component cannot be swapped in place', async () => {
+        let mounts = 0;
+        const ctx = await start(target => {
+            mounts++;
+            const box = create_element('box');
+            append(box, create_text(`mount ${mounts}`));
+            append(target, box);
+        });
+        expect(screenText(ctx.root)).toContain('mount 1');
+
+        applyComponentUpdate('/app/Unknown.svelte', {});
+        await ctx.settle();
+        expect(mounts).toBe(2);
+        expect(ctx.root.children).toHaveLength(1);
+        expect(screenText(ctx.root)).toContain('mount 2');
+    });
+});
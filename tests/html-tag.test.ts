@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import {
+    create_root,
+    create_element,
+    append,
+    set_style,
+    computeLayout,
+    renderToString,
+    free_node,
+    CliNode,
+} from '../src/runtime/index.js';
+import { create_comment } from '../src/runtime/operations.js';
+import { effect_root, html, mutable_source, set as set_state, get, flush } from '../src/runtime/client/index.js';
+import * as adapter from '../src/runtime/adapter.js';
+import { compile } from 'svelte/compiler';
+import { ensureBaseStyles, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+import { getActiveFocusController, resetFocusState } from '../src/runtime/focus.js';
+
+function focusables(): CliNode[] {
+    return getActiveFocusController().focusables.map(entry => entry.node);
+}
+
+const ANSI_REGEX = /\x1B\[[0-9;?]*[A-Za-z]/g;
+
+function render(root: CliNode): string {
+    computeLayout(root, 40, 6);
+    return renderToString(root).output.replace(ANSI_REGEX, '');
+}
+
+/** Compile a component and bind it to the adapter, as the loaders do. */
+function compileComponent(source: string): (anchor: CliNode, props: Record<string, unknown>) => void {
+    const { js } = compile(source, { filename: 'Test.svelte', generate: 'client' });
+    const body = js.code.replace(/^import .*$/gm, '').replace('export default function', 'return function');
+    return new Function('$', body)(adapter);
+}
+
+function tags(node: CliNode): string[] {
+    return (node.childNodes ?? []).map((child: CliNode) => (child.nodeType === 1 ? child.nodeName : child.type));
+}
+
+describe('{@html}', () => {
+    beforeEach(() => {
+        ensureBaseStyles();
+    });
+
+    afterEach(() => {
+        resetStylesheets();
+    });
+
+    it('inserts parsed nodes before the anchor and replaces them on change', () => {
+        const root = create_root();
+        set_style(root, { width: 40, height: 6 });
+        const box = create_element('div');
+        const anchor = create_comment();
+        append(box, anchor);
+        append(root, box);
+
+        const markup = mutable_source('<b>bold</b> text');
+        const destroy = effect_root(() => {
+            html(anchor, () => get(markup));
+        });
+        flush();
+
+        expect(tags(box)).toEqual(['b', 'text', 'comment']);
+        expect(render(root)).toContain('bold text');
+
+        const previous = box.childNodes[0];
+        set_state(markup, '<p>replaced</p>');
+        flush();
+
+        expect(previous.__freed).toBe(true);
+        expect(tags(box)).toEqual(['p', 'comment']);
+        const output = render(root);
+        expect(output).toContain('replaced');
+        expect(output).not.toContain('bold');
+
+        destroy();
+        free_node(root);
+    });
+
+    it('appends into the parent element when controlled', () => {
+        const root = create_root();
+        const box = create_element('div');
+        append(root, box);
+
+        const destroy = effect_root(() => {
+            html(box, () => '<span>one</span><span>two</span>', true);
+        });
+        flush();
+
+        expect(tags(box)).toEqual(['span', 'span']);
+
+        destroy();
+        free_node(root);
+    });
+
+    it('registers inserted focusables and drops scripts', () => {
+        resetFocusState();
+        const root = create_root();
+        const box = create_element('div');
+        const anchor = create_comment();
+        append(box, anchor);
+        append(root, box);
+
+        const markup = mutable_source('<button>Go</button><script>alert(1)</script>');
+        const destroy = effect_root(() => {
+            html(anchor, () => get(markup));
+        });
+        flush();
+
+        expect(tags(box)).toEqual(['button', 'comment']);
+        const button = box.childNodes[0];
+        expect(focusables()).toContain(button);
+
+        set_state(markup, '');
+        flush();
+        expect(focusables()).not.toContain(button);
+        expect(tags(box)).toEqual(['comment']);
+
+        destroy();
+        free_node(root);
+    });
+
+    it('renders inside {#if} blocks of compiled components', () => {
+        const root = create_root();
+        set_style(root, { width: 40, height: 6 });
+        const Component = compileComponent('<script>let { show, markup } = $props();</script>{#if show}{@html markup}{/if}');
+        const props = adapter.proxy({ show: true, markup: '<b>bold</b> text' });
+        const destroy = effect_root(() => Component(root, props));
+        flush();
+
+        expect(tags(root)).toEqual(['b', 'text', 'comment', 'comment']);
+        expect(render(root)).toContain('bold text');
+
+        const bold = root.childNodes[0];
+        props.show = false;
+        flush();
+        expect(bold.__freed).toBe(true);
+        expect(tags(root)).toEqual(['comment']);
+        expect(render(root)).not.toContain('bold');
+
+        props.show = true;
+        flush();
+        expect(render(root)).toContain('bold text');
+
+        destroy();
+        free_node(root);
+    });
+
+    it('renders inside {#each} blocks of compiled components', () => {
+        const root = create_root();
+        set_style(root, { width: 40, height: 6 });
+        const Component = compileComponent('<script>let { items } = $props();</script>{#each items as item}{@html item}{/each}');
+        const props = adapter.proxy({ items: ['<b>one</b>', '<i>two</i>'] });
+        const destroy = effect_root(() => Component(root, props));
+        flush();
+
+        expect(tags(root).filter(tag => tag !== 'comment')).toEqual(['b', 'i']);
+        expect(render(root)).toContain('onetwo');
+
+        props.items = ['<u>three</u>'];
+        flush();
+        expect(tags(root).filter(tag => tag !== 'comment')).toEqual(['u']);
+
+        props.items = [];
+        flush();
+        expect(tags(root)).toEqual(['comment']);
+
+        destroy();
+        free_node(root);
+    });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import {
+    create_element,
+    create_root,
+    create_text,
+    append,
+    free_node,
+    set_attribute,
+    set_style,
+    computeLayout,
+    renderToString,
+} from '../src/runtime/index.js';
+import { event } from '../src/runtime/client/events.js';
+import type { RawKey } from '../src/runtime/input/keyboard.js';
+import { dispatchKey, getFocused, moveFocus, resetFocusState, setLinkOpener } from '../src/runtime/focus.js';
+import { hyperlinkStart, HYPERLINK_END } from '../src/runtime/links.js';
+import { ensureBaseStyles, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+import { runComponent } from '../src/runner.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+const ENTER: RawKey = {
+    key: 'Enter',
+    code: 'Enter',
+    sequence: '\r',
+    ctrl: false,
+    shift: false,
+    alt: false,
+    meta: false,
+    repeat: false,
+    escape: false,
+    enter: true,
+    tab: false,
+    backspace: false,
+    delete: false,
+    upArrow: false,
+    downArrow: false,
+    leftArrow: false,
+    rightArrow: false,
+    home: false,
+    end: false,
+};
+
+function paragraph(href: string | null): { root: CliNode; link: CliNode } {
+    const root = create_root();
+    set_style(root, { width: 30, height: 2 });
+    const p = create_element('p');
+    const link = create_element('a');
+    if (href !== null) set_attribute(link, 'href', href);
+    append(link, create_text('docs'));
+    append(p, create_text('See '));
+    append(p, link);
+    append(p, create_text(' now'));
+    append(root, p);
+    computeLayout(root, 30, 2);
+    return { root, link };
+}
+
+describe('hyperlinks', () => {
+    beforeEach(() => {
+        ensureBaseStyles();
+    });
+
+    afterEach(() => {
+        resetStylesheets();
+        resetFocusState();
+    });
+
+    it('wraps anchor text in OSC 8 sequences', () => {
+        const { root } = paragraph('https://example.com/docs');
+        const { output } = renderToString(root);
+
+        const start = hyperlinkStart('https://example.com/docs');
+        expect(start).toBe('\x1b]8;;https://example.com/docs\x1b\\');
+        expect(output).toMatch(/\x1b\]8;;https:\/\/example\.com\/docs\x1b\\(\x1b\[[0-9;]*m)*docs(\x1b\[[0-9;]*m)*\x1b\]8;;\x1b\\/);
+        expect(output.split(HYPERLINK_END)).toHaveLength(2);
+        free_node(root);
+    });
+
+    it('skips relative links and escapes unsafe characters', () => {
+        const { root } = paragraph('#section');
+        expect(renderToString(root).output).not.toContain('\x1b]8;');
+        free_node(root);
+
+        expect(hyperlinkStart('https://example.com/a b\x1b')).toBe('\x1b]8;;https://example.com/a%20b%1B\x1b\\');
+    });
+
+    it('makes links with an href focusable', () => {
+        const { root, link } = paragraph('https://example.com');
+        moveFocus('next');
+        expect(getFocused()).toBe(link);
+        free_node(root);
+
+        const plain = paragraph(null);
+        moveFocus('next');
+        expect(getFocused()).not.toBe(plain.link);
+        free_node(plain.root);
+    });
+
+    it('opens http(s) and file links on Enter unless the click is prevented', () => {
+        const opener = vi.fn();
+        setLinkOpener(opener);
+
+        const { root, link } = paragraph('https://example.com');
+        moveFocus('next');
+        dispatchKey(ENTER);
+        expect(opener).toHaveBeenCalledWith('https://example.com/');
+
+        opener.mockClear();
+        event('click', link, (e: Event) => e.preventDefault());
+        dispatchKey(ENTER);
+        expect(opener).not.toHaveBeenCalled();
+        free_node(root);
+
+        const mail = paragraph('mailto:someone@example.com');
+        moveFocus('next');
+        dispatchKey(ENTER);
+        expect(opener).not.toHaveBeenCalled();
+        free_node(mail.root);
+    });
+
+    it('opens links through the openLink option of runComponent', async () => {
+        const opener = vi.fn();
+        const stdout = { isTTY: true, columns: 30, rows: 4, write: () => true } as unknown as NodeJS.WriteStream;
+        const stdin = Object.assign(new EventEmitter(), { setRawMode: () => {} }) as unknown as NodeJS.ReadStream;
+        const app = runComponent(
+            (target: CliNode) => {
+                const link = create_element('a');
+                set_attribute(link, 'href', 'https://example.com/runner');
+                append(link, create_text('docs'));
+                append(target, link);
+            },
+            { stdout, stdin, kittyKeyboard: false, openLink: opener }
+        );
+        try {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            stdin.emit('data', Buffer.from('\t'));
+            stdin.emit('data', Buffer.from('\r'));
+            expect(opener).toHaveBeenCalledWith('https://example.com/runner');
+        } finally {
+            app.unmount();
+        }
+    });
+});
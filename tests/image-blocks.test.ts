@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+    create_root,
+    create_element,
+    append,
+    set_style,
+    set_attribute,
+    computeLayout,
+    renderToString,
+    free_node,
+} from '../src/runtime/index.js';
+import { rasterizeImageBlocks } from '../src/runtime/render/image-blocks.js';
+import { clearRenderedImages, getRenderedImages, loadRasterForNode } from '../src/runtime/render/image.js';
+import { resetGraphicsCapabilities, type ImageData } from '../src/runtime/render/graphics.js';
+import { registerStylesheet, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+
+const GRAPHICS_ENV = ['KITTY_WINDOW_ID', 'KITTY_PID', 'TERM_PROGRAM', 'KONSOLE_VERSION', 'MLTERM', 'XTERM_VERSION'];
+
+/** Build an RGBA image from rows of '#rrggbb' colors; null is transparent. */
+function image(rows: (string | null)[][]): ImageData {
+    const height = rows.length;
+    const width = rows[0].length;
+    const data = new Uint8Array(width * height * 4);
+    rows.flat().forEach((color, i) => {
+        if (!color) return;
+        data[i * 4] = parseInt(color.slice(1, 3), 16);
+        data[i * 4 + 1] = parseInt(color.slice(3, 5), 16);
+        data[i * 4 + 2] = parseInt(color.slice(5, 7), 16);
+        data[i * 4 + 3] = 255;
+    });
+    return { data, width, height };
+}
+
+const W = '#ffffff';
+const K = '#000000';
+
+describe('rasterizeImageBlocks', () => {
+    it('draws half blocks with the top pixel as foreground', () => {
+        const [[cell]] = rasterizeImageBlocks(image([['#ff0000'], ['#0000ff']]), 1, 1, 'half-block');
+        expect(cell).toEqual({ char: '▀', color: '#ff0000', backgroundColor: '#0000ff' });
+
+        const [[lower]] = rasterizeImageBlocks(image([[null], ['#0000ff']]), 1, 1, 'half-block');
+        expect(lower).toEqual({ char: '▄', color: '#0000ff' });
+    });
+
+    it('picks the quadrant split that best fits the pixels', () => {
+        const [[cell]] = rasterizeImageBlocks(image([[W, K], [K, W]]), 1, 1, 'quadrant');
+        expect(cell).toEqual({ char: '▞', color: K, backgroundColor: W });
+
+        const [[partial]] = rasterizeImageBlocks(image([[W, null], [W, null]]), 1, 1, 'quadrant');
+        expect(partial).toEqual({ char: '▌', color: W });
+    });
+
+    it('sets braille dots for the brighter pixels', () => {
+        const rows = [[W, K], [W, K], [W, K], [W, K]];
+        const [[cell]] = rasterizeImageBlocks(image(rows), 1, 1, 'braille');
+        expect(cell).toEqual({ char: '⡇', color: W, backgroundColor: K });
+    });
+
+    it('honours object-fit and leaves transparent cells empty', () => {
+        const square = image([['#00ff00']]);
+        const filled = rasterizeImageBlocks(square, 4, 1, 'half-block', 'fill');
+        expect(filled[0].every(cell => cell?.char === '▀')).toBe(true);
+
+        const contained = rasterizeImageBlocks(square, 4, 1, 'half-block', 'contain');
+        expect(contained[0].map(cell => cell?.char ?? null)).toEqual([null, '▀', '▀', null]);
+
+        expect(rasterizeImageBlocks(image([[null]]), 1, 1, 'half-block')).toEqual([[null]]);
+    });
+});
+
+describe('image block fallback', () => {
+    const savedEnv: Record<string, string | undefined> = {};
+
+    beforeEach(() => {
+        for (const key of GRAPHICS_ENV) {
+            savedEnv[key] = process.env[key];
+            delete process.env[key];
+        }
+        resetGraphicsCapabilities();
+        clearRenderedImages();
+    });
+
+    afterEach(() => {
+        for (const key of GRAPHICS_ENV) {
+            if (savedEnv[key] === undefined) delete process.env[key];
+            else process.env[key] = savedEnv[key];
+        }
+        resetGraphicsCapabilities();
+        clearRenderedImages();
+        resetStylesheets();
+    });
+
+    async function renderLoadedImage(): Promise<string> {
+        const root = create_root();
+        set_style(root, { width: 10, height: 2 });
+        const img = create_element('img');
+        set_attribute(img, 'alt', 'Photo');
+        set_style(img, { width: 2, height: 1 });
+        append(root, img);
+
+        const pixels = image([[W, W], [K, K]]);
+        loadRasterForNode(img, 'test', 2, 1, async () => ({ ...pixels, cellWidth: 2, cellHeight: 1 }), () => {});
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        computeLayout(root, 10, 2);
+        const { output } = renderToString(root);
+        free_node(root);
+        return output;
+    }
+
+    it('paints loaded images into the grid without a graphics protocol', async () => {
+        const output = await renderLoadedImage();
+        expect(output).toContain('▀▀');
+        expect(output).not.toContain('Photo');
+        expect(getRenderedImages()).toHaveLength(0);
+    });
+
+    it('selects the mode with --image-fallback', async () => {
+        registerStylesheet('fallback', 'img { --image-fallback: braille }');
+        expect(await renderLoadedImage()).toContain('⠛⠛');
+
+        resetStylesheets();
+        registerStylesheet('fallback', 'img { --image-fallback: none }');
+        const placeholder = await renderLoadedImage();
+        expect(placeholder).toContain('┌┐');
+        expect(placeholder).not.toContain('⠛');
+    });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    append,
+    computeLayout,
+    create_element,
+    create_root,
+    create_text,
+    free_node,
+    set_style,
+} from '../src/runtime/index.js';
+import { measureRoot } from '../src/runtime/render/pipeline/measure.js';
+import { createRenderGrid } from '../src/runtime/render/pipeline/layout.js';
+import { paintTree } from '../src/runtime/render/pipeline/paint.js';
+import { ensureBaseStyles, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+import { wrapRuns, type TextRun } from '../src/runtime/render/text-wrap.js';
+import { hitTest } from '../src/runtime/render/hit-test.js';
+import type { CliNode, RootNode } from '../src/runtime/types.js';
+
+describe('wrapRuns', () => {
+    function lines(runs: TextRun<string>[], maxWidth?: number, options = {}): string[] {
+        return wrapRuns(runs, { maxWidth, ...options }).map(line =>
+            line.fragments.map(fragment => `${fragment.source}:${fragment.text}`).join('|')
+        );
+    }
+
+    it('keeps words together across runs and collapses spaces between them', () => {
+        const runs: TextRun<string>[] = [
+            { text: 'see ', source: 'a' },
+            { text: 'log.txt', source: 'b' },
+            { text: ',  for  details', source: 'c' },
+        ];
+        expect(lines(runs)).toEqual(['a:see |b:log.txt|c:, for details']);
+        expect(lines(runs, 12)).toEqual(['a:see |b:log.txt|c:,', 'c:for details']);
+    });
+
+    it('drops collapsible spaces at run boundaries and line edges', () => {
+        const runs: TextRun<string>[] = [
+            { text: '  one ', source: 'a' },
+            { text: ' two  ', source: 'b' },
+        ];
+        expect(lines(runs)).toEqual(['a:one |b:two']);
+    });
+
+    it('never breaks atomic runs and honours forced breaks', () => {
+        const runs: TextRun<string>[] = [
+            { text: 'press', source: 'a' },
+            { text: ' ', source: 'a' },
+            { text: 'Ctrl C', source: 'k', atomic: true },
+            { text: '', source: 'br', lineBreak: true },
+            { text: 'now', source: 'a' },
+        ];
+        expect(lines(runs, 8)).toEqual(['a:press', 'k:Ctrl C', 'a:now']);
+    });
+
+    it('breaks long words when overflow-wrap allows it', () => {
+        const runs: TextRun<string>[] = [{ text: 'abc', source: 'a' }, { text: 'defgh', source: 'b' }];
+        expect(lines(runs, 3, { overflowWrap: 'break-word' })).toEqual(['a:abc', 'b:def', 'b:gh']);
+        expect(lines(runs, 3)).toEqual(['a:abc|b:defgh']);
+    });
+});
+
+describe('inline formatting context', () => {
+    let root: RootNode;
+
+    beforeEach(() => {
+        resetStylesheets();
+        ensureBaseStyles();
+        root = create_root();
+    });
+
+    afterEach(() => {
+        free_node(root);
+        resetStylesheets();
+    });
+
+    function el(tag: string, ...children: Array<CliNode | string>): CliNode {
+        const node = create_element(tag);
+        for (const child of children) {
+            append(node, typeof child === 'string' ? (create_text(child) as CliNode) : child);
+        }
+        return node;
+    }
+
+    function render(node: CliNode, width: number, height: number): string[] {
+        set_style(root, { width, height });
+        append(root, node);
+        computeLayout(root, width, height);
+        const metrics = measureRoot(root);
+        const grid = createRenderGrid(metrics.width, metrics.height);
+        paintTree(root, grid);
+        return grid.map(row => row.map(cell => cell.char).join('').trimEnd());
+    }
+
+    it('wraps text and inline elements as one paragraph', () => {
+        const bold = el('b', 'ok');
+        const code = el('code', 'log.txt');
+        const p = el('p', 'Status: ', bold, ', see ', code, ' for details');
+
+        const rows = render(p, 20, 4);
+        expect(rows.slice(0, 3)).toEqual(['Status: ok, see', 'log.txt for details', '']);
+        expect(p.computedLayout?.height).toBe(2);
+        expect(code.computedLayout).toEqual({ left: 0, top: 1, width: 7, height: 1 });
+        expect(bold.computedLayout).toEqual({ left: 8, top: 0, width: 2, height: 1 });
+    });
+
+    it('paints each run with its own style', () => {
+        const p = el('p', 'a ', el('b', 'bold'), ' z');
+        set_style(root, { width: 10, height: 1 });
+        append(root, p);
+        computeLayout(root, 10, 1);
+        const grid = createRenderGrid(10, 1);
+        paintTree(root, grid);
+        expect(grid[0][0].style?.bold).toBeUndefined();
+        expect(grid[0][2].style?.bold).toBe(true);
+        expect(grid[0][7].style?.bold).toBeUndefined();
+    });
+
+    it('reports inline elements to hit testing', () => {
+        const link = el('a', 'here');
+        const p = el('p', 'click ', link);
+        render(p, 20, 2);
+        expect(hitTest(7, 0)).toBe(link);
+    });
+
+    it('keeps flex layout when the container mixes in block children', () => {
+        const span = el('span', 'label');
+        const div = el('div', span, el('div', 'block'));
+        const rows = render(div, 10, 3);
+        expect(rows.slice(0, 2)).toEqual(['label', 'block']);
+        expect(div.__inlineFlow).toBeUndefined();
+    });
+
+    it('leaves display: flex containers alone', () => {
+        const row = el('div', el('span', 'a'), el('span', 'b'));
+        set_style(row, { display: 'flex', flexDirection: 'row', gap: 1 });
+        expect(render(row, 10, 1)[0]).toBe('a b');
+        expect(row.__inlineFlow).toBeUndefined();
+    });
+
+    it('keeps inline-block content on one line', () => {
+        const key = el('kbd', 'Ctrl C');
+        set_style(key, { display: 'inline-block' });
+        const p = el('p', 'press', ' ', key);
+        expect(render(p, 8, 2)).toEqual(['press', 'Ctrl C']);
+    });
+});
@@ -7,10 +7,14 @@ import {
     dispatchKey,
     getFocused,
     getLiveMessage,
+    getSelectedText,
     registerFocusable,
+    resetFocusState,
+    setClipboardWriter,
     setFocus,
     unregisterFocusable,
 } from '../src/runtime/focus.js';
+import { clipboardSequence, readClipboard } from '../src/runtime/clipboard.js';
 import { setRangeText } from '../src/runtime/client/bindings.js';
 import { listen } from '../src/runtime/operations.js';
 import { readInputState } from '../src/runtime/input/state.js';
@@ -184,6 +188,199 @@ describe('clipboard helpers', () => {
     });
 });
 
+describe('text selection', () => {
+    afterEach(() => {
+        resetFocusState();
+    });
+
+    function focusedInput(value: string, tag = 'input'): any {
+        const input = trackNode(create_element(tag));
+        mountIntoDocument(input);
+        input.value = value;
+        input.__rawValue = value;
+        input.cursorPosition = value.length;
+        setFocus(input);
+        return input;
+    }
+
+    it('extends the selection with Shift and replaces it when typing', () => {
+        const input = focusedInput('hello world');
+
+        dispatchKey(makeKey({ key: 'Home', home: true }));
+        for (let i = 0; i < 5; i++) {
+            dispatchKey(makeKey({ key: 'ArrowRight', rightArrow: true, shift: true }));
+        }
+        expect(getSelectedText(input)).toBe('hello');
+        expect(input.selectionDirection).toBe('forward');
+
+        dispatchKey(makeKey({ key: 'ArrowLeft', leftArrow: true, shift: true }));
+        expect(getSelectedText(input)).toBe('hell');
+
+        dispatchKey(makeKey({ key: 'J' }));
+        expect(input.__rawValue).toBe('Jo world');
+        expect(input.cursorPosition).toBe(1);
+        expect(getSelectedText(input)).toBe('');
+
+        dispatchKey(makeKey({ key: 'End', end: true, shift: true }));
+        dispatchKey(makeKey({ key: 'Backspace', backspace: true }));
+        expect(input.__rawValue).toBe('J');
+    });
+
+    it('selects backward from the anchor and collapses with arrows', () => {
+        const input = focusedInput('abcdef');
+
+        dispatchKey(makeKey({ key: 'ArrowLeft', leftArrow: true, shift: true }));
+        dispatchKey(makeKey({ key: 'ArrowLeft', leftArrow: true, shift: true }));
+        expect(getSelectedText(input)).toBe('ef');
+        expect(input.selectionDirection).toBe('backward');
+
+        dispatchKey(makeKey({ key: 'ArrowRight', rightArrow: true }));
+        expect(input.cursorPosition).toBe(6);
+        expect(getSelectedText(input)).toBe('');
+    });
+
+    it('selects all with Ctrl+A and draws the selection with ::selection colors', () => {
+        const input = focusedInput('ok');
+        dispatchKey(makeKey({ key: 'a', ctrl: true }));
+        expect(getSelectedText(input)).toBe('ok');
+
+        const grid: GridCell[][] = Array.from({ length: 3 }, () =>
+            Array.from({ length: 8 }, () => ({ char: ' ' } as GridCell))
+        );
+        renderInput(input, grid, 0, 0, 8, 3, true, { borderStyle: 'single' });
+        expect(grid[1][1]?.style?.backgroundColor).toBeDefined();
+        expect(grid[1][4]?.style?.backgroundColor).toBeUndefined();
+    });
+
+    it('copies and cuts through OSC 52 with cancelable clipboard events', () => {
+        const written: string[] = [];
+        setClipboardWriter(text => written.push(clipboardSequence(text)));
+        const input = focusedInput('copy me');
+        const events: string[] = [];
+        listen(input, 'copy', (event: Event) => events.push(event.type));
+        listen(input, 'cut', (event: Event) => events.push(event.type));
+
+        dispatchKey(makeKey({ key: 'a', ctrl: true }));
+        dispatchKey(makeKey({ key: 'c', ctrl: true }));
+        expect(written).toEqual(['\x1b]52;c;Y29weSBtZQ==\x07']);
+        expect(input.__rawValue).toBe('copy me');
+
+        dispatchKey(makeKey({ key: 'Home', home: true }));
+        dispatchKey(makeKey({ key: 'End', end: true, shift: true }));
+        dispatchKey(makeKey({ key: 'x', ctrl: true }));
+        expect(events).toEqual(['copy', 'cut']);
+        expect(readClipboard()).toBe('copy me');
+        expect(input.__rawValue).toBe('');
+
+        dispatchKey(makeKey({ key: 'v', ctrl: true }));
+        dispatchKey(makeKey({ key: 'v', ctrl: true }));
+        expect(input.__rawValue).toBe('copy mecopy me');
+    });
+
+    it('lets copy handlers replace the copied text', () => {
+        const input = focusedInput('internal');
+        listen(input, 'copy', (event: Event) => {
+            (event as ClipboardEvent).clipboardData?.setData('text/plain', 'public');
+            event.preventDefault();
+        });
+
+        dispatchKey(makeKey({ key: 'a', ctrl: true }));
+        dispatchKey(makeKey({ key: 'c', ctrl: true }));
+        expect(readClipboard()).toBe('public');
+    });
+
+    it('never copies password values', () => {
+        const input = focusedInput('hunter2');
+        input.inputType = 'password';
+        dispatchKey(makeKey({ key: 'a', ctrl: true }));
+        dispatchKey(makeKey({ key: 'c', ctrl: true }));
+        expect(readClipboard()).toBe('');
+    });
+});
+
+describe('edit history', () => {
+    function focusedInput(value = ''): any {
+        const input = trackNode(create_element('input'));
+        mountIntoDocument(input);
+        input.value = value;
+        input.__rawValue = value;
+        input.cursorPosition = value.length;
+        setFocus(input);
+        return input;
+    }
+
+    function type(text: string): void {
+        for (const key of text) {
+            dispatchKey(makeKey({ key }));
+        }
+    }
+
+    const undo = () => dispatchKey(makeKey({ key: 'z', ctrl: true }));
+    const redo = () => dispatchKey(makeKey({ key: 'z', ctrl: true, shift: true }));
+
+    it('undoes typing a word at a time and redoes it', () => {
+        const input = focusedInput();
+        type('hello big world');
+
+        undo();
+        expect(input.__rawValue).toBe('hello big ');
+        undo();
+        expect(input.__rawValue).toBe('hello ');
+        expect(input.cursorPosition).toBe(6);
+
+        redo();
+        expect(input.__rawValue).toBe('hello big ');
+        dispatchKey(makeKey({ key: 'y', ctrl: true }));
+        expect(input.__rawValue).toBe('hello big world');
+        redo();
+        expect(input.__rawValue).toBe('hello big world');
+    });
+
+    it('restores the selection that an edit replaced', () => {
+        const input = focusedInput('keep this');
+        dispatchKey(makeKey({ key: 'ArrowLeft', leftArrow: true, shift: true }));
+        dispatchKey(makeKey({ key: 'ArrowLeft', leftArrow: true, shift: true }));
+        dispatchKey(makeKey({ key: 'Backspace', backspace: true }));
+        dispatchKey(makeKey({ key: 'Backspace', backspace: true }));
+        dispatchKey(makeKey({ key: 'Backspace', backspace: true }));
+        expect(input.__rawValue).toBe('keep ');
+
+        undo();
+        expect(input.__rawValue).toBe('keep th');
+        undo();
+        expect(input.__rawValue).toBe('keep this');
+        expect(input.selectionStart).toBe(7);
+        expect(input.selectionEnd).toBe(9);
+        expect(input.selectionDirection).toBe('backward');
+        expect(input.cursorPosition).toBe(7);
+    });
+
+    it('emits input events with history input types', () => {
+        const input = focusedInput();
+        const types: string[] = [];
+        listen(input, 'input', (event: Event) => types.push((event as InputEvent).inputType));
+
+        type('a');
+        undo();
+        redo();
+        expect(types).toEqual(['insertText', 'historyUndo', 'historyRedo']);
+    });
+
+    it('starts over when the value is set programmatically', () => {
+        const input = focusedInput();
+        type('draft');
+
+        input.value = 'reset';
+        input.__rawValue = 'reset';
+        undo();
+        expect(input.__rawValue).toBe('reset');
+
+        type('!');
+        undo();
+        expect(input.__rawValue).toBe('reset');
+    });
+});
+
 describe('validation messaging', () => {
     it('announces readable max length errors', () => {
         const input = trackNode(create_element('input'));
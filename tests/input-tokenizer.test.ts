@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { create_element, append, listen } from '../src/runtime/index.js';
+import { tokenizeInput, isPendingPaste } from '../src/runtime/input/tokenizer.js';
+import { dispatchPaste, getLiveMessage, setFocus } from '../src/runtime/focus.js';
+import { createMountContext } from '../src/runtime/mount.js';
+import type { CliNode } from '../src/runtime/types.js';
+import { trackNode, cleanupTestNodes, mountIntoDocument, flushRenders } from '../test-utils/dom.js';
+
+function keys(input: string): string[] {
+    return tokenizeInput(input).tokens.map(token => (token.type === 'key' ? token.sequence : `paste:${token.text}`));
+}
+
+describe('tokenizeInput', () => {
+    it('splits typed text into individual keys', () => {
+        expect(keys('abc')).toEqual(['a', 'b', 'c']);
+        expect(keys('é😀x')).toEqual(['é', '😀', 'x']);
+        expect(keys('a\r\nb')).toEqual(['a', '\r\n', 'b']);
+    });
+
+    it('splits escape sequences from surrounding keys', () => {
+        expect(keys('\x1b[A\x1b[Bx')).toEqual(['\x1b[A', '\x1b[B', 'x']);
+        expect(keys('\x1b[1;5C\x1bOP\x1b[3~')).toEqual(['\x1b[1;5C', '\x1bOP', '\x1b[3~']);
+        expect(keys('\x1b[<0;3;4M\x1b[<0;3;4m')).toEqual(['\x1b[<0;3;4M', '\x1b[<0;3;4m']);
+        expect(keys('\x1b[[A')).toEqual(['\x1b[[A']);
+    });
+
+    it('keeps Alt-prefixed keys together', () => {
+        expect(keys('\x1bx\x1b\x1b[A')).toEqual(['\x1bx', '\x1b\x1b[A']);
+        expect(keys('\x1b')).toEqual(['\x1b']);
+    });
+
+    it('returns incomplete sequences as rest', () => {
+        expect(tokenizeInput('a\x1b[1;5')).toEqual({ tokens: [{ type: 'key', sequence: 'a' }], rest: '\x1b[1;5' });
+        expect(tokenizeInput('\x1bO').rest).toBe('\x1bO');
+        expect(tokenizeInput('\x1b[', true).tokens).toEqual([{ type: 'key', sequence: '\x1b[' }]);
+    });
+
+    it('extracts bracketed pastes as a single token', () => {
+        expect(keys('a\x1b[200~hello\nworld\x1b[201~b')).toEqual(['a', 'paste:hello\nworld', 'b']);
+        // Escape sequences inside a paste are text, not keys
+        expect(keys('\x1b[200~\x1b[A\x1b[201~')).toEqual(['paste:\x1b[A']);
+    });
+
+    it('keeps unterminated pastes pending', () => {
+        const first = tokenizeInput('\x1b[200~partial');
+        expect(first.tokens).toEqual([]);
+        expect(isPendingPaste(first.rest)).toBe(true);
+        expect(keys(first.rest + ' text\x1b[201~')).toEqual(['paste:partial text']);
+    });
+});
+
+describe('dispatchPaste', () => {
+    afterEach(() => {
+        cleanupTestNodes();
+    });
+
+    function focusedInput(tag = 'input', attributes: Record<string, unknown> = {}): CliNode {
+        const input = create_element(tag);
+        Object.assign(input, attributes);
+        trackNode(input);
+        mountIntoDocument(input);
+        setFocus(input);
+        return input;
+    }
+
+    it('inserts text at the cursor in a single input event', () => {
+        const input = focusedInput();
+        input.__rawValue = 'ad';
+        input.cursorPosition = 1;
+        let inputEvents = 0;
+        listen(input, 'input', () => inputEvents++);
+
+        dispatchPaste('bc');
+        expect(input.__rawValue).toBe('abcd');
+        expect(input.cursorPosition).toBe(3);
+        expect(inputEvents).toBe(1);
+    });
+
+    it('strips line breaks in single-line inputs and keeps them in textareas', () => {
+        const input = focusedInput();
+        dispatchPaste('one\r\ntwo');
+        expect(input.__rawValue).toBe('onetwo');
+
+        const textarea = focusedInput('textarea');
+        dispatchPaste('one\r\ntwo\rthree');
+        expect(textarea.__rawValue).toBe('one\ntwo\nthree');
+    });
+
+    it('truncates to maxLength', () => {
+        const input = focusedInput('input', { maxLength: 5 });
+        input.__rawValue = 'ab';
+        input.cursorPosition = 2;
+        dispatchPaste('cdefg');
+        expect(input.__rawValue).toBe('abcde');
+        expect(getLiveMessage()).toContain('Max length 5');
+    });
+
+    it('keeps only numeric characters in number inputs', () => {
+        const input = focusedInput('input', { inputType: 'number', type: 'number' });
+        dispatchPaste('-1a2.5.0');
+        expect(input.__rawValue).toBe('-12.50');
+    });
+
+    it('emits a cancelable paste ClipboardEvent with the text', () => {
+        const input = focusedInput();
+        const received: string[] = [];
+        listen(input, 'paste', (event: Event) => {
+            received.push((event as ClipboardEvent).clipboardData?.getData('text/plain') ?? '');
+            event.preventDefault();
+        });
+
+        expect(dispatchPaste('secret')).toBe(true);
+        expect(received).toEqual(['secret']);
+        expect(input.__rawValue ?? '').toBe('');
+    });
+
+    it('ignores readonly inputs', () => {
+        const input = focusedInput('input', { readonly: true });
+        dispatchPaste('text');
+        expect(input.__rawValue ?? '').toBe('');
+    });
+});
+
+describe('MountContext input stream', () => {
+    class MockStdin extends EventEmitter {
+        setRawMode(): void {
+            // no-op
+        }
+    }
+
+    async function mountInput() {
+        const writes: string[] = [];
+        const stdout = {
+            columns: 30,
+            rows: 5,
+            write(chunk: string) {
+                writes.push(chunk);
+                return true;
+            },
+        } as unknown as NodeJS.WriteStream;
+        const stdin = new MockStdin();
+        let input: CliNode | null = null;
+        const ctx = createMountContext((target: CliNode) => {
+            input = create_element('input');
+            append(target, input);
+        }, {
+            stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+            kittyKeyboard: false,
+        });
+        await ctx.start();
+        await flushRenders();
+        return { ctx, stdin, writes, input: input! };
+    }
+
+    it('types every key of a multi-key chunk', async () => {
+        const { ctx, stdin, input } = await mountInput();
+        stdin.emit('data', Buffer.from('hello\x1b[D\x1b[DX'));
+        expect(input.__rawValue).toBe('helXlo');
+        ctx.unmount();
+    });
+
+    it('completes escape sequences split across reads', async () => {
+        const { ctx, stdin, input } = await mountInput();
+        stdin.emit('data', Buffer.from('ab\x1b['));
+        stdin.emit('data', Buffer.from('DX'));
+        expect(input.__rawValue).toBe('aXb');
+        ctx.unmount();
+    });
+
+    it('decodes UTF-8 characters split across reads', async () => {
+        const { ctx, stdin, input } = await mountInput();
+        const euro = Buffer.from('a€b');
+        stdin.emit('data', euro.subarray(0, 2));
+        stdin.emit('data', euro.subarray(2));
+        expect(input.__rawValue).toBe('a€b');
+        ctx.unmount();
+    });
+
+    it('enables bracketed paste and delivers pastes spanning reads', async () => {
+        const { ctx, stdin, writes, input } = await mountInput();
+        expect(writes).toContain('\x1b[?2004h');
+
+        stdin.emit('data', Buffer.from('\x1b[200~pasted '));
+        expect(input.__rawValue ?? '').toBe('');
+        stdin.emit('data', Buffer.from('text\x1b[201~'));
+        expect(input.__rawValue).toBe('pasted text');
+
+        ctx.unmount();
+        expect(writes).toContain('\x1b[?2004l');
+    });
+});
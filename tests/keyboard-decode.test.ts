@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { decodeKey, extractKeyboardReplies, rawKeyToPressEvent } from '../src/runtime/input/keyboard.js';
+import { matchesKeyBinding } from '../src/runtime/scroll-keyboard.js';
+
+function decode(sequence: string) {
+    return decodeKey(Buffer.from(sequence));
+}
+
+describe('decodeKey', () => {
+    it('decodes printable characters with codes', () => {
+        expect(decode('a')).toMatchObject({ key: 'a', code: 'KeyA', shift: false });
+        expect(decode('A')).toMatchObject({ key: 'A', code: 'KeyA', shift: true });
+        expect(decode('7')).toMatchObject({ key: '7', code: 'Digit7' });
+        expect(decode('?')).toMatchObject({ key: '?', code: 'Slash' });
+        expect(decode(' ')).toMatchObject({ key: ' ', code: 'Space' });
+        expect(decode('é')).toMatchObject({ key: 'é', code: '' });
+    });
+
+    it('decodes control characters as Ctrl+letter', () => {
+        expect(decode('\x03')).toMatchObject({ key: 'c', code: 'KeyC', ctrl: true });
+        expect(decode('\x01')).toMatchObject({ key: 'a', code: 'KeyA', ctrl: true });
+        expect(decode('\x17')).toMatchObject({ key: 'w', ctrl: true });
+        expect(decode('\x00')).toMatchObject({ key: ' ', code: 'Space', ctrl: true });
+        expect(decode('\x1d')).toMatchObject({ key: ']', code: 'BracketRight', ctrl: true });
+    });
+
+    it('keeps Tab, Enter, Escape and Backspace distinct from control letters', () => {
+        expect(decode('\t')).toMatchObject({ key: 'Tab', tab: true, ctrl: false });
+        expect(decode('\r')).toMatchObject({ key: 'Enter', enter: true });
+        expect(decode('\n')).toMatchObject({ key: 'Enter', enter: true });
+        expect(decode('\x1b')).toMatchObject({ key: 'Escape', escape: true });
+        expect(decode('\x7f')).toMatchObject({ key: 'Backspace', backspace: true });
+        expect(decode('\x08')).toMatchObject({ key: 'Backspace', backspace: true });
+    });
+
+    it('decodes editing and navigation keys', () => {
+        expect(decode('\x1b[3~')).toMatchObject({ key: 'Delete', code: 'Delete', delete: true });
+        expect(decode('\x1b[2~')).toMatchObject({ key: 'Insert', code: 'Insert' });
+        expect(decode('\x1b[5~')).toMatchObject({ key: 'PageUp', code: 'PageUp' });
+        expect(decode('\x1b[6~')).toMatchObject({ key: 'PageDown', code: 'PageDown' });
+        expect(decode('\x1b[H')).toMatchObject({ key: 'Home', home: true });
+        expect(decode('\x1b[4~')).toMatchObject({ key: 'End', end: true });
+        expect(decode('\x1bOA')).toMatchObject({ key: 'ArrowUp', upArrow: true });
+    });
+
+    it('decodes function keys in xterm, vt220 and linux console encodings', () => {
+        expect(decode('\x1bOP')).toMatchObject({ key: 'F1', code: 'F1' });
+        expect(decode('\x1b[13~')).toMatchObject({ key: 'F3' });
+        expect(decode('\x1b[15~')).toMatchObject({ key: 'F5' });
+        expect(decode('\x1b[24~')).toMatchObject({ key: 'F12', code: 'F12' });
+        expect(decode('\x1b[[B')).toMatchObject({ key: 'F2' });
+        expect(decode('\x1b[1;2P')).toMatchObject({ key: 'F1', shift: true });
+    });
+
+    it('decodes xterm modifier parameters', () => {
+        expect(decode('\x1b[1;5A')).toMatchObject({ key: 'ArrowUp', ctrl: true, shift: false });
+        expect(decode('\x1b[1;2D')).toMatchObject({ key: 'ArrowLeft', shift: true });
+        expect(decode('\x1b[1;3C')).toMatchObject({ key: 'ArrowRight', alt: true });
+        expect(decode('\x1b[1;9B')).toMatchObject({ key: 'ArrowDown', meta: true });
+        expect(decode('\x1b[3;5~')).toMatchObject({ key: 'Delete', ctrl: true });
+        expect(decode('\x1b[6;8~')).toMatchObject({ key: 'PageDown', ctrl: true, alt: true, shift: true });
+        expect(decode('\x1b[Z')).toMatchObject({ key: 'Tab', shift: true, tab: true });
+    });
+
+    it('decodes Alt via the ESC prefix', () => {
+        expect(decode('\x1bx')).toMatchObject({ key: 'x', alt: true, code: 'KeyX' });
+        expect(decode('\x1bX')).toMatchObject({ key: 'X', alt: true, shift: true });
+        expect(decode('\x1b\x7f')).toMatchObject({ key: 'Backspace', alt: true });
+        expect(decode('\x1b\x1b[A')).toMatchObject({ key: 'ArrowUp', alt: true });
+        expect(decode('\x1b\x01')).toMatchObject({ key: 'a', alt: true, ctrl: true });
+    });
+
+    it('decodes CSI-u and modifyOtherKeys reports', () => {
+        expect(decode('\x1b[105;5u')).toMatchObject({ key: 'i', code: 'KeyI', ctrl: true, tab: false });
+        expect(decode('\x1b[9u')).toMatchObject({ key: 'Tab', tab: true });
+        expect(decode('\x1b[27u')).toMatchObject({ key: 'Escape', escape: true, alt: false });
+        expect(decode('\x1b[97;2u')).toMatchObject({ key: 'A', code: 'KeyA', shift: true });
+        expect(decode('\x1b[49:33;2u')).toMatchObject({ key: '!', code: 'Digit1', shift: true });
+        expect(decode('\x1b[13;3u')).toMatchObject({ key: 'Enter', alt: true, enter: true });
+        expect(decode('\x1b[27;5;106~')).toMatchObject({ key: 'j', ctrl: true });
+        expect(decode('\x1b[57376u')).toMatchObject({ key: 'F13' });
+    });
+
+    it('reports key repeat from the event type sub-parameter', () => {
+        expect(decode('\x1b[97;1:2u')).toMatchObject({ key: 'a', repeat: true });
+        expect(decode('\x1b[1;1:2A')).toMatchObject({ key: 'ArrowUp', repeat: true });
+        expect(decode('\x1b[97;1:1u')).toMatchObject({ repeat: false, release: false });
+    });
+
+    it('reports key releases from the event type sub-parameter', () => {
+        expect(decode('\x1b[97;1:3u')).toMatchObject({ key: 'a', release: true, repeat: false });
+        expect(decode('\x1b[1;5:3C')).toMatchObject({ key: 'ArrowRight', ctrl: true, release: true });
+        expect(decode('\x1b[5;1:3~')).toMatchObject({ key: 'PageUp', release: true });
+        expect(decode('a')?.release).toBeFalsy();
+    });
+
+    it('returns null for unknown sequences', () => {
+        expect(decode('')).toBeNull();
+        expect(decode('\x1b[99~')).toBeNull();
+        expect(decode('\x1b[1;5Y')).toBeNull();
+    });
+
+    it('produces events that match scroll key bindings', () => {
+        const pageDown = rawKeyToPressEvent(decode('\x1b[6~')!);
+        expect(matchesKeyBinding(pageDown, 'PageDown')).toBe(true);
+        const ctrlD = rawKeyToPressEvent(decode('\x04')!);
+        expect(matchesKeyBinding(ctrlD, 'ctrl+d')).toBe(true);
+        const shiftPageUp = rawKeyToPressEvent(decode('\x1b[5;2~')!);
+        expect(matchesKeyBinding(shiftPageUp, 'shift+pageup')).toBe(true);
+    });
+});
+
+describe('extractKeyboardReplies', () => {
+    it('detects kitty keyboard support and strips replies from input', () => {
+        const replies = extractKeyboardReplies('\x1b[?0u\x1b[?62;22cx');
+        expect(replies).toEqual({ kittySupported: true, queryComplete: true, rest: 'x' });
+    });
+
+    it('reports an unsupported protocol when only device attributes arrive', () => {
+        const replies = extractKeyboardReplies('\x1b[?1;2c');
+        expect(replies).toEqual({ kittySupported: false, queryComplete: true, rest: '' });
+    });
+
+    it('leaves ordinary input untouched', () => {
+        expect(extractKeyboardReplies('\x1b[A').rest).toBe('\x1b[A');
+    });
+});
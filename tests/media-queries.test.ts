@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { create_element, set_attribute } from '../src/runtime/index.js';
+import { computeStylesheetStyle, registerStylesheet, resetStylesheets } from '../src/runtime/style/stylesheet.js';
+import {
+    matchMedia,
+    matchesMediaQuery,
+    detectColorScheme,
+    setMediaEnvironment,
+    withMediaEnvironment,
+    getMediaEnvironment,
+} from '../src/runtime/style/media.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+describe('media query matching', () => {
+    afterEach(() => {
+        setMediaEnvironment(null);
+    });
+
+    it('compares width and height in cells', () => {
+        setMediaEnvironment({ width: 100, height: 30 });
+        expect(matchesMediaQuery('(min-width: 100ch)')).toBe(true);
+        expect(matchesMediaQuery('(min-width: 101ch)')).toBe(false);
+        expect(matchesMediaQuery('(max-height: 30)')).toBe(true);
+        expect(matchesMediaQuery('(width > 99ch)')).toBe(true);
+        expect(matchesMediaQuery('(120ch <= width)')).toBe(false);
+        expect(matchesMediaQuery('(80ch < width <= 100ch)')).toBe(true);
+        expect(matchesMediaQuery('(80ch < width < 100ch)')).toBe(false);
+    });
+
+    it('supports orientation, types, negation and lists', () => {
+        setMediaEnvironment({ width: 80, height: 24 });
+        expect(matchesMediaQuery('(orientation: landscape)')).toBe(true);
+        setMediaEnvironment({ width: 40, height: 24 });
+        expect(matchesMediaQuery('(orientation: portrait)')).toBe(true);
+        expect(matchesMediaQuery('screen and (orientation: portrait)')).toBe(true);
+        expect(matchesMediaQuery('print')).toBe(false);
+        expect(matchesMediaQuery('not print')).toBe(true);
+        expect(matchesMediaQuery('(min-width: 100ch), (max-width: 50ch)')).toBe(true);
+        expect(matchesMediaQuery('(unknown-feature: 1)')).toBe(false);
+    });
+
+    it('describes terminal capabilities', () => {
+        setMediaEnvironment({ colorDepth: '256', colorScheme: 'light', graphics: 'kitty' });
+        expect(matchesMediaQuery('(color)')).toBe(true);
+        expect(matchesMediaQuery('(min-color: 8)')).toBe(false);
+        expect(matchesMediaQuery('(monochrome)')).toBe(false);
+        expect(matchesMediaQuery('(color-depth: 256)')).toBe(true);
+        expect(matchesMediaQuery('(prefers-color-scheme: light)')).toBe(true);
+        expect(matchesMediaQuery('(-sveltty-graphics: kitty)')).toBe(true);
+        expect(matchesMediaQuery('(-sveltty-graphics)')).toBe(true);
+
+        setMediaEnvironment({ colorDepth: 'mono', graphics: 'none' });
+        expect(matchesMediaQuery('(color)')).toBe(false);
+        expect(matchesMediaQuery('(monochrome)')).toBe(true);
+        expect(matchesMediaQuery('(-sveltty-graphics)')).toBe(false);
+    });
+
+    it('reads the background color from COLORFGBG', () => {
+        expect(detectColorScheme({ COLORFGBG: '0;15' })).toBe('light');
+        expect(detectColorScheme({ COLORFGBG: '15;0' })).toBe('dark');
+        expect(detectColorScheme({})).toBe('dark');
+    });
+
+    it('scopes temporary environments', () => {
+        setMediaEnvironment({ width: 50 });
+        const inner = withMediaEnvironment({ ...getMediaEnvironment(), width: 150 }, () =>
+            matchesMediaQuery('(min-width: 100ch)')
+        );
+        expect(inner).toBe(true);
+        expect(getMediaEnvironment().width).toBe(50);
+    });
+});
+
+describe('@media rules', () => {
+    beforeEach(() => {
+        resetStylesheets();
+    });
+
+    afterEach(() => {
+        setMediaEnvironment(null);
+        resetStylesheets();
+    });
+
+    function element(className: string): CliNode {
+        const node = create_element('div');
+        set_attribute(node, 'class', className);
+        return node;
+    }
+
+    it('applies rules only while their conditions match', () => {
+        registerStylesheet(
+            'media',
+            '.panel { width: 10ch } @media (min-width: 100ch) { .panel { width: 30ch } } @media print { .panel { color: red } }'
+        );
+        const node = element('panel');
+
+        setMediaEnvironment({ width: 80 });
+        expect(computeStylesheetStyle(node).width).toBe(10);
+        expect(computeStylesheetStyle(node).color).toBeUndefined();
+
+        setMediaEnvironment({ width: 120 });
+        expect(computeStylesheetStyle(node).width).toBe(30);
+    });
+
+    it('requires every enclosing condition of nested @media blocks', () => {
+        registerStylesheet(
+            'nested',
+            '@media (min-width: 100ch) { @media (prefers-color-scheme: light) { .panel { color: black } } .panel { width: 30ch } }'
+        );
+        const node = element('panel');
+
+        setMediaEnvironment({ width: 120, colorScheme: 'dark' });
+        expect(computeStylesheetStyle(node).width).toBe(30);
+        expect(computeStylesheetStyle(node).color).toBeUndefined();
+
+        setMediaEnvironment({ colorScheme: 'light' });
+        expect(computeStylesheetStyle(node).color).toBe('black');
+    });
+});
+
+describe('matchMedia', () => {
+    afterEach(() => {
+        setMediaEnvironment(null);
+    });
+
+    it('notifies change listeners when the result flips', () => {
+        setMediaEnvironment({ width: 80 });
+        const list = matchMedia('(min-width: 100ch)');
+        const events: boolean[] = [];
+        const listener = (event: { matches: boolean }) => events.push(event.matches);
+        list.addEventListener('change', listener);
+        let handled = 0;
+        list.onchange = () => handled++;
+
+        setMediaEnvironment({ width: 90 });
+        setMediaEnvironment({ width: 120 });
+        setMediaEnvironment({ width: 60 });
+        expect(events).toEqual([true, false]);
+        expect(handled).toBe(2);
+
+        list.removeEventListener('change', listener);
+        list.onchange = null;
+        setMediaEnvironment({ width: 120 });
+        expect(events).toEqual([true, false]);
+        expect(list.matches).toBe(true);
+        expect(list.media).toBe('(min-width: 100ch)');
+    });
+});
@@ -1,14 +1,19 @@
-import { describe, it, expect, afterEach } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { EventEmitter } from 'events';
 import {
     createMountContext,
     scheduleRender,
 } from '../src/runtime/mount.js';
-import { create_element, create_text, append, set_text } from '../src/runtime/index.js';
+import { create_element, create_text, append, set_text, listen } from '../src/runtime/index.js';
 import type { CliNode, TextNode } from '../src/runtime/types.js';
+import { window } from '../src/runtime/dom/document.js';
 import { flushRenders } from '../test-utils/dom.js';
+import { getOpenModals } from '../src/runtime/dialog.js';
+import { requestFrames, hasActiveFrames, FRAME_INTERVAL } from '../src/runtime/animation/frames.js';
 
 class MockStdin extends EventEmitter {
+    isTTY = true;
+
     setRawMode(): void {
         // no-op
     }
@@ -97,6 +102,555 @@ describe('MountContext factory', () => {
         expect(writesAfterUnmountA).toBeGreaterThan(initialWritesA);
         expect(writesAfterUnmountB).toBeGreaterThan(initialWritesB);
     });
+
+    it('keeps dialogs and render scheduling per context', async () => {
+        const dialogs: CliNode[] = [];
+        const withDialog = (target: CliNode) => {
+            const dialog = create_element('dialog');
+            append(dialog, create_text('Confirm'));
+            append(target, dialog);
+            dialogs.push(dialog);
+        };
+        const { stdout: stdoutA, writes: writesA } = createMockStdout();
+        const { stdout: stdoutB, writes: writesB } = createMockStdout();
+        const ctxA = createMountContext(withDialog, { stdout: stdoutA, exitOnCtrlC: false, clearOnExit: false });
+        const ctxB = createMountContext(withDialog, { stdout: stdoutB, exitOnCtrlC: false, clearOnExit: false });
+        activeContexts.push(ctxA, ctxB);
+        await ctxA.start();
+        await ctxB.start();
+        await flushRenders();
+
+        const writesBeforeA = writesA.length;
+        const writesBeforeB = writesB.length;
+        (dialogs[0] as any).showModal();
+        await flushRenders();
+
+        expect(ctxA.runWithFocus(() => getOpenModals())).toEqual([dialogs[0]]);
+        expect(ctxB.runWithFocus(() => getOpenModals())).toEqual([]);
+        expect(getOpenModals()).toEqual([]);
+        expect(writesA.length).toBeGreaterThan(writesBeforeA);
+        expect(writesB.length).toBe(writesBeforeB);
+        expect(writesA.join('')).toContain('Confirm');
+        expect(writesB.join('')).not.toContain('Confirm');
+    });
+
+    it('keeps mouse hit regions per context', async () => {
+        const clicks: string[] = [];
+        const withButton = (target: CliNode, props: { label: string }) => {
+            const button = create_element('button');
+            append(button, create_text(props.label));
+            listen(button, 'click', () => clicks.push(props.label));
+            append(target, button);
+        };
+        const stdinA = new MockStdin();
+        const stdinB = new MockStdin();
+        const { stdout: stdoutA } = createMockStdout();
+        const { stdout: stdoutB } = createMockStdout();
+        const ctxA = createMountContext(withButton, {
+            props: { label: 'A' },
+            stdout: stdoutA,
+            stdin: stdinA as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+            mouse: true,
+        });
+        const ctxB = createMountContext(withButton, {
+            props: { label: 'B' },
+            stdout: stdoutB,
+            stdin: stdinB as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+            mouse: true,
+        });
+        activeContexts.push(ctxA, ctxB);
+        await ctxA.start();
+        await ctxB.start();
+        await flushRenders();
+
+        // B painted last; a click in A still hits A's button
+        stdinA.emit('data', Buffer.from('\x1b[<0;1;1M\x1b[<0;1;1m'));
+        expect(clicks).toEqual(['A']);
+        stdinB.emit('data', Buffer.from('\x1b[<0;1;1M\x1b[<0;1;1m'));
+        expect(clicks).toEqual(['A', 'B']);
+    });
+
+    it('redraws only the context an animation runs in', async () => {
+        const nodesA: TextNode[] = [];
+        const nodesB: TextNode[] = [];
+        const { stdout: stdoutA, writes: writesA } = createMockStdout();
+        const { stdout: stdoutB, writes: writesB } = createMockStdout();
+        const ctxA = createMountContext(labelComponent(nodesA), {
+            props: { label: 'A' },
+            stdout: stdoutA,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        const ctxB = createMountContext(labelComponent(nodesB), {
+            props: { label: 'B' },
+            stdout: stdoutB,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctxA, ctxB);
+        await ctxA.start();
+        await ctxB.start();
+        await flushRenders();
+
+        const writesBeforeA = writesA.length;
+        const writesBeforeB = writesB.length;
+        let frames = 0;
+        requestFrames(() => ++frames < 3, nodesA[0]);
+        while (hasActiveFrames()) {
+            await new Promise(resolve => setTimeout(resolve, FRAME_INTERVAL));
+        }
+        await flushRenders();
+
+        expect(frames).toBe(3);
+        expect(writesA.length).toBeGreaterThan(writesBeforeA);
+        expect(writesB.length).toBe(writesBeforeB);
+    });
 });
 
 
+
+describe('MountContext resize handling', () => {
+    function createResizableStdout(columns: number, rows: number) {
+        const writes: string[] = [];
+        const emitter = new EventEmitter() as EventEmitter & {
+            columns: number;
+            rows: number;
+            write: (chunk: any) => boolean;
+        };
+        emitter.columns = columns;
+        emitter.rows = rows;
+        emitter.write = (chunk: any) => {
+            writes.push(typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString());
+            return true;
+        };
+        return { stdout: emitter as unknown as NodeJS.WriteStream & EventEmitter, emitter, writes };
+    }
+
+    it('relayouts, redraws and dispatches window resize when stdout resizes', async () => {
+        const nodes: TextNode[] = [];
+        const { stdout, emitter, writes } = createResizableStdout(40, 10);
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Resize me' },
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+
+        expect(ctx.root.computedLayout?.width).toBe(40);
+
+        const sizes: Array<[number, number]> = [];
+        const onResize = () => sizes.push([window.innerWidth, window.innerHeight]);
+        window.addEventListener('resize', onResize);
+
+        writes.length = 0;
+        emitter.columns = 60;
+        emitter.rows = 12;
+        emitter.emit('resize');
+        window.removeEventListener('resize', onResize);
+
+        expect(ctx.root.computedLayout?.width).toBe(60);
+        expect(ctx.root.computedLayout?.height).toBe(12);
+        expect(sizes).toEqual([[60, 12]]);
+        // Full redraw: the screen is cleared rather than diffed
+        expect(writes.join('')).toContain('\x1b[2J');
+        expect(writes.join('')).toContain('Resize me');
+    });
+
+    it('re-evaluates media queries against the resized terminal', async () => {
+        const { stdout, emitter } = createResizableStdout(40, 10);
+        const ctx = createMountContext(labelComponent([]), {
+            props: { label: 'Media' },
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+
+        const wide = window.matchMedia('(min-width: 50ch)');
+        const changes: boolean[] = [];
+        wide.addEventListener('change', (event: MediaQueryListEvent) => changes.push(event.matches));
+        expect(wide.matches).toBe(false);
+
+        emitter.columns = 60;
+        emitter.emit('resize');
+        expect(wide.matches).toBe(true);
+        expect(changes).toEqual([true]);
+    });
+
+    it('forces a full redraw even when the size is unchanged', async () => {
+        const nodes: TextNode[] = [];
+        const { stdout, emitter, writes } = createResizableStdout(30, 6);
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Same' },
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+
+        writes.length = 0;
+        emitter.emit('resize');
+
+        expect(writes.join('')).toContain('\x1b[2J');
+    });
+
+    it('stops listening for resize after unmount', async () => {
+        const nodes: TextNode[] = [];
+        const { stdout, emitter } = createResizableStdout(30, 6);
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Bye' },
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        await ctx.start();
+        await flushRenders();
+        ctx.unmount();
+
+        expect(emitter.listenerCount('resize')).toBe(0);
+    });
+});
+
+describe('MountContext inline mode', () => {
+    /**
+     * Replay output on a scrolling screen, honoring the sequences inline
+     * frames use: CR, LF, cursor up/down, erase line and erase below.
+     */
+    function replay(screen: { lines: string[]; row: number; col: number }, output: string): void {
+        const pattern = /\x1b\[(\d*)([A-Za-z])|\x1b\[\?[\d;]*[hlu]|\x1b\][^\x07]*(?:\x07|\x1b\\)|[\r\n]|[^\x1b\r\n]/g;
+        for (const [token, count, command] of output.matchAll(pattern)) {
+            const line = screen.lines[screen.row] ?? '';
+            if (token === '\r') {
+                screen.col = 0;
+            } else if (token === '\n') {
+                screen.row++;
+                if (screen.row >= screen.lines.length) screen.lines.push('');
+            } else if (command === 'A') {
+                screen.row = Math.max(0, screen.row - Number(count || 1));
+            } else if (command === 'B') {
+                screen.row = Math.min(screen.lines.length - 1, screen.row + Number(count || 1));
+            } else if (command === 'K') {
+                screen.lines[screen.row] = '';
+            } else if (command === 'J') {
+                screen.lines.length = screen.row + 1;
+                screen.lines[screen.row] = line.slice(0, screen.col);
+            } else if (command === 'H') {
+                throw new Error('Inline output must not address the screen absolutely');
+            } else if (!token.startsWith('\x1b')) {
+                screen.lines[screen.row] = line.slice(0, screen.col).padEnd(screen.col) + token + line.slice(screen.col + 1);
+                screen.col++;
+            }
+        }
+    }
+
+    /** Screen contents, without trailing blank rows. */
+    function visible(screen: { lines: string[] }): string[] {
+        const lines = screen.lines.map(line => line.trimEnd());
+        while (lines.length && !lines[lines.length - 1]) lines.pop();
+        return lines;
+    }
+
+    it('draws below the cursor, grows and shrinks with content, and keeps the last frame', async () => {
+        let target: CliNode | null = null;
+        const mock = createMockStdout();
+        const ctx = createMountContext(
+            (root: CliNode) => {
+                target = root;
+                append(root, create_text('first'));
+            },
+            {
+                stdout: mock.stdout,
+                stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+                exitOnCtrlC: false,
+                clearOnExit: true,
+                inline: true,
+            }
+        );
+        activeContexts.push(ctx);
+        const screen = { lines: ['$ run', ''], row: 1, col: 0 };
+        await ctx.start();
+        await flushRenders();
+
+        expect(ctx.root.computedLayout?.height).toBe(1);
+        replay(screen, mock.writes.join(''));
+        expect(visible(screen)).toEqual(['$ run', 'first']);
+
+        mock.writes.length = 0;
+        const box = create_element('box');
+        append(box, create_text('second'));
+        append(target!, box);
+        ctx.scheduleRender();
+        await flushRenders();
+        replay(screen, mock.writes.join(''));
+        expect(visible(screen)).toEqual(['$ run', 'first', 'second']);
+
+        mock.writes.length = 0;
+        box.remove();
+        ctx.scheduleRender();
+        await flushRenders();
+        replay(screen, mock.writes.join(''));
+        expect(visible(screen)).toEqual(['$ run', 'first']);
+
+        mock.writes.length = 0;
+        ctx.unmount();
+        replay(screen, mock.writes.join(''));
+        expect(visible(screen)).toEqual(['$ run', 'first']);
+        expect(screen.row).toBe(2);
+    });
+});
+
+describe('MountContext alternate screen', () => {
+    class RawModeStdin extends MockStdin {
+        rawMode = false;
+        setRawMode(mode: boolean): void {
+            this.rawMode = mode;
+        }
+    }
+
+    function createAltScreenContext(writesTo: ReturnType<typeof createMockStdout>, stdin = new RawModeStdin()) {
+        const nodes: TextNode[] = [];
+        return createMountContext(labelComponent(nodes), {
+            props: { label: 'Alt' },
+            stdout: writesTo.stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: true,
+            altScreen: true,
+        });
+    }
+
+    it('enters the alternate screen before the first frame and leaves it on unmount', async () => {
+        const mock = createMockStdout();
+        const stdin = new RawModeStdin();
+        const ctx = createAltScreenContext(mock, stdin);
+        await ctx.start();
+        await flushRenders();
+
+        expect(mock.writes[0]).toBe('\x1b[?1049h');
+        expect(stdin.rawMode).toBe(true);
+
+        mock.writes.length = 0;
+        ctx.unmount();
+        const output = mock.writes.join('');
+        expect(output).toContain('\x1b[?25h');
+        expect(output).toContain('\x1b[?1049l');
+        // The main screen is restored as-is rather than cleared
+        expect(output).not.toContain('\x1b[2J');
+        expect(stdin.rawMode).toBe(false);
+    });
+
+    it('restores the terminal on SIGTERM and removes its handlers on unmount', async () => {
+        const before = process.listeners('SIGTERM');
+        const mock = createMockStdout();
+        const stdin = new RawModeStdin();
+        const ctx = createAltScreenContext(mock, stdin);
+        await ctx.start();
+        await flushRenders();
+
+        const added = process.listeners('SIGTERM').filter(listener => !before.includes(listener));
+        expect(added).toHaveLength(1);
+
+        const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+        try {
+            mock.writes.length = 0;
+            (added[0] as (signal: NodeJS.Signals) => void)('SIGTERM');
+            expect(mock.writes.join('')).toContain('\x1b[?1049l');
+            expect(stdin.rawMode).toBe(false);
+            expect(exit).toHaveBeenCalledWith(143);
+        } finally {
+            exit.mockRestore();
+        }
+
+        ctx.unmount();
+        expect(process.listeners('SIGTERM')).toEqual(before);
+        // Restoration happened once; unmount does not leave the screen again
+        expect(mock.writes.filter(chunk => chunk === '\x1b[?1049l')).toHaveLength(1);
+    });
+
+    it('restores terminal modes of mounts without altScreen on SIGTERM', async () => {
+        const before = process.listeners('SIGTERM');
+        const mock = createMockStdout();
+        Object.assign(mock.stdout, { isTTY: true });
+        const stdin = new RawModeStdin();
+        const nodes: TextNode[] = [];
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Main' },
+            stdout: mock.stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+        stdin.emit('data', Buffer.from('\x1b[?0u\x1b[?62;22c'));
+        expect(ctx.keyboardProtocol).toBe('kitty');
+
+        const added = process.listeners('SIGTERM').filter(listener => !before.includes(listener));
+        expect(added).toHaveLength(1);
+        const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+        try {
+            mock.writes.length = 0;
+            (added[0] as (signal: NodeJS.Signals) => void)('SIGTERM');
+            const output = mock.writes.join('');
+            expect(output).toContain('\x1b[<u');
+            expect(output).toContain('\x1b[?2004l');
+            expect(output).toContain('\x1b[?25h');
+            expect(output).not.toContain('\x1b[?1049l');
+            expect(stdin.rawMode).toBe(false);
+        } finally {
+            exit.mockRestore();
+        }
+        ctx.unmount();
+        expect(process.listeners('SIGTERM')).toEqual(before);
+    });
+
+    it('leaves process handlers alone off a terminal without altScreen', async () => {
+        const before = process.listenerCount('uncaughtException');
+        const nodes: TextNode[] = [];
+        const { stdout, writes } = createMockStdout();
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Main' },
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            exitOnCtrlC: false,
+            clearOnExit: false,
+        });
+        await ctx.start();
+        await flushRenders();
+
+        expect(process.listenerCount('uncaughtException')).toBe(before);
+        expect(writes.join('')).not.toContain('\x1b[?1049h');
+        ctx.unmount();
+        expect(writes[writes.length - 1]).toBe('\x1b[?25h');
+    });
+
+    it('leaves process handlers to the caller when onExit is given', async () => {
+        const before = process.listeners('SIGTERM');
+        const mock = createMockStdout();
+        const nodes: TextNode[] = [];
+        const ctx = createMountContext(labelComponent(nodes), {
+            props: { label: 'Session' },
+            stdout: mock.stdout,
+            stdin: new RawModeStdin() as unknown as NodeJS.ReadStream,
+            altScreen: true,
+            onExit: () => {},
+        });
+        await ctx.start();
+        await flushRenders();
+
+        expect(mock.writes[0]).toBe('\x1b[?1049h');
+        expect(process.listeners('SIGTERM')).toEqual(before);
+        ctx.unmount();
+        expect(mock.writes.join('')).toContain('\x1b[?1049l');
+    });
+});
+
+describe('MountContext kitty keyboard protocol', () => {
+    function inputComponent(events: string[]) {
+        return (target: CliNode) => {
+            const input = create_element('input');
+            for (const type of ['keydown', 'keyup']) {
+                listen(input, type, (event: Event) => {
+                    const key = event as KeyboardEvent;
+                    events.push(`${type}:${key.key}${key.repeat ? ':repeat' : ''}`);
+                });
+            }
+            append(target, input);
+        };
+    }
+
+    it('pushes enhancement flags when the terminal answers the query', async () => {
+        const events: string[] = [];
+        const { stdout, writes } = createMockStdout();
+        const stdin = new MockStdin();
+        const ctx = createMountContext(inputComponent(events), {
+            stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+
+        expect(writes).toContain('\x1b[?u\x1b[c');
+        stdin.emit('data', Buffer.from('\x1b[?0u\x1b[?62;22c'));
+        expect(ctx.keyboardProtocol).toBe('kitty');
+        expect(writes).toContain('\x1b[>3u');
+
+        stdin.emit('data', Buffer.from('\x1b[97u'));
+        stdin.emit('data', Buffer.from('\x1b[97;1:2u'));
+        stdin.emit('data', Buffer.from('\x1b[97;1:3u'));
+        expect(events).toEqual(['keydown:a', 'keydown:a:repeat', 'keyup:a']);
+
+        ctx.unmount();
+        expect(writes).toContain('\x1b[<u');
+    });
+
+    it('falls back to legacy input when the terminal does not answer', async () => {
+        const events: string[] = [];
+        const { stdout, writes } = createMockStdout();
+        const stdin = new MockStdin();
+        const ctx = createMountContext(inputComponent(events), {
+            stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+        await flushRenders();
+
+        stdin.emit('data', Buffer.from('\x1b[?1;2c'));
+        expect(ctx.keyboardProtocol).toBe('legacy');
+        stdin.emit('data', Buffer.from('b'));
+        expect(events).toEqual(['keydown:b']);
+
+        ctx.unmount();
+        expect(writes).not.toContain('\x1b[>3u');
+        expect(writes).not.toContain('\x1b[<u');
+    });
+
+    it('does not query the terminal when disabled', async () => {
+        const { stdout, writes } = createMockStdout();
+        const ctx = createMountContext(inputComponent([]), {
+            stdout,
+            stdin: new MockStdin() as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+            kittyKeyboard: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+
+        expect(writes).not.toContain('\x1b[?u\x1b[c');
+        expect(ctx.keyboardProtocol).toBe('legacy');
+    });
+
+    it('does not query when stdin is not a terminal', async () => {
+        const events: string[] = [];
+        const { stdout, writes } = createMockStdout();
+        const stdin = Object.assign(new MockStdin(), { isTTY: false });
+        const ctx = createMountContext(inputComponent(events), {
+            stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+        });
+        activeContexts.push(ctx);
+        await ctx.start();
+
+        expect(writes).not.toContain('\x1b[?u\x1b[c');
+        expect(ctx.keyboardProtocol).toBe('legacy');
+        stdin.emit('data', Buffer.from('b'));
+        expect(events).toEqual(['keydown:b']);
+    });
+});
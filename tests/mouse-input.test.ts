@@ -0,0 +1,247 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { create_element, create_root, create_text, append, set_attribute, set_style, listen } from '../src/runtime/index.js';
+import { computeLayout } from '../src/runtime/layout.js';
+import { renderToString } from '../src/runtime/render.js';
+import { decodeMouse, isMouseSequence, ENABLE_MOUSE, DISABLE_MOUSE } from '../src/runtime/input/mouse.js';
+import type { RawMouse } from '../src/runtime/input/mouse.js';
+import { getHitRegions, hitTest } from '../src/runtime/render/hit-test.js';
+import { createPointerState, dispatchMouse } from '../src/runtime/pointer.js';
+import { getFocused, registerFocusable, resetFocusState } from '../src/runtime/focus.js';
+import { getScrollState } from '../src/runtime/scroll.js';
+import { createMountContext } from '../src/runtime/mount.js';
+import type { CliNode } from '../src/runtime/types.js';
+import { mountIntoDocument, cleanupTestNodes, trackNode, flushRenders } from '../test-utils/dom.js';
+
+function mouse(overrides: Partial<RawMouse>): RawMouse {
+    return {
+        action: 'press',
+        button: 0,
+        x: 0,
+        y: 0,
+        deltaX: 0,
+        deltaY: 0,
+        ctrl: false,
+        shift: false,
+        alt: false,
+        meta: false,
+        sequence: '',
+        ...overrides,
+    };
+}
+
+function click(state: ReturnType<typeof createPointerState>, x: number, y: number): void {
+    dispatchMouse(state, mouse({ action: 'press', x, y }));
+    dispatchMouse(state, mouse({ action: 'release', x, y }));
+}
+
+/**
+ * Build a 20x6 root with a bordered button on the first three rows and a scroll container below it.
+ */
+function buildTree() {
+    const root = create_root();
+    set_style(root, { width: 20, height: 6, flexDirection: 'column' });
+    const button = create_element('button');
+    set_style(button, { height: 3, width: 8, flexShrink: 0 });
+    append(button, create_text('Press'));
+    append(root, button);
+
+    const list = create_element('div');
+    set_style(list, { height: 3, overflow: 'auto', flexDirection: 'column' });
+    const items: CliNode[] = [];
+    for (let i = 0; i < 10; i++) {
+        const item = create_element('div');
+        set_style(item, { height: 1, flexShrink: 0 });
+        append(item, create_text(`Item ${i}`));
+        append(list, item);
+        items.push(item);
+    }
+    append(root, list);
+
+    trackNode(root);
+    mountIntoDocument(root);
+    registerFocusable(button);
+    computeLayout(root, 20, 6);
+    renderToString(root);
+    return { root, button, list, items };
+}
+
+afterEach(() => {
+    cleanupTestNodes();
+    resetFocusState();
+});
+
+describe('decodeMouse', () => {
+    it('decodes SGR press and release with 1-based coordinates', () => {
+        const [press] = decodeMouse(Buffer.from('\x1b[<0;5;3M'));
+        expect(press).toMatchObject({ action: 'press', button: 0, x: 4, y: 2 });
+        const [release] = decodeMouse(Buffer.from('\x1b[<0;5;3m'));
+        expect(release).toMatchObject({ action: 'release', button: 0, x: 4, y: 2 });
+    });
+
+    it('decodes right button, motion and modifiers', () => {
+        const [right] = decodeMouse('\x1b[<2;1;1M');
+        expect(right.button).toBe(2);
+        const [move] = decodeMouse('\x1b[<35;10;4M');
+        expect(move).toMatchObject({ action: 'move', button: -1, x: 9, y: 3 });
+        const [ctrlShift] = decodeMouse('\x1b[<20;1;1M');
+        expect(ctrlShift).toMatchObject({ ctrl: true, shift: true, alt: false });
+    });
+
+    it('decodes wheel directions', () => {
+        const events = decodeMouse('\x1b[<64;1;1M\x1b[<65;1;1M\x1b[<66;1;1M\x1b[<67;1;1M');
+        expect(events.map(e => [e.action, e.deltaX, e.deltaY])).toEqual([
+            ['wheel', 0, -1],
+            ['wheel', 0, 1],
+            ['wheel', -1, 0],
+            ['wheel', 1, 0],
+        ]);
+    });
+
+    it('recognises mouse sequences', () => {
+        expect(isMouseSequence('\x1b[<0;1;1M')).toBe(true);
+        expect(isMouseSequence('\x1b[A')).toBe(false);
+    });
+});
+
+describe('pointer dispatch', () => {
+    it('hit-tests painted elements', () => {
+        const { button, items } = buildTree();
+        expect(hitTest(2, 0)).toBe(button);
+        expect(hitTest(1, 3)).toBe(items[0]);
+        expect(hitTest(19, 5)).not.toBe(button);
+    });
+
+    it('emits mousedown, mouseup and click and focuses the target', () => {
+        const { button } = buildTree();
+        const received: string[] = [];
+        for (const type of ['mousedown', 'mouseup', 'click']) {
+            listen(button, type, () => received.push(type));
+        }
+        const state = createPointerState();
+        click(state, 2, 0);
+
+        expect(received).toEqual(['mousedown', 'mouseup', 'click']);
+        expect(getFocused()).toBe(button);
+    });
+
+    it('does not click when press and release land on unrelated elements', () => {
+        const { button, items } = buildTree();
+        let clicks = 0;
+        listen(button, 'click', () => clicks++);
+        const state = createPointerState();
+        dispatchMouse(state, mouse({ action: 'press', x: 2, y: 0 }));
+        expect(button.__activeState).toBe('active');
+        dispatchMouse(state, mouse({ action: 'release', x: 1, y: 3 }));
+        expect(clicks).toBe(0);
+        expect(button.__activeState).toBe(null);
+        expect(items[0].__activeState).toBeFalsy();
+    });
+
+    it('tracks hover on the target and its ancestors', () => {
+        const { root, button, items } = buildTree();
+        const state = createPointerState();
+        dispatchMouse(state, mouse({ action: 'move', button: -1, x: 2, y: 0 }));
+        expect(button.__hoverState).toBe('hovered');
+        expect(root.__hoverState).toBe('hovered');
+
+        dispatchMouse(state, mouse({ action: 'move', button: -1, x: 1, y: 3 }));
+        expect(button.__hoverState).toBe(null);
+        expect(items[0].__hoverState).toBe('hovered');
+    });
+
+    it('scrolls the container under the pointer on wheel', () => {
+        const { list } = buildTree();
+        const state = createPointerState();
+        dispatchMouse(state, mouse({ action: 'wheel', button: -1, x: 1, y: 4, deltaY: 1 }));
+        expect(getScrollState(list).scrollTop).toBe(3);
+        dispatchMouse(state, mouse({ action: 'wheel', button: -1, x: 1, y: 4, deltaY: -1 }));
+        expect(getScrollState(list).scrollTop).toBe(0);
+    });
+
+    it('does not scroll when the wheel event is prevented', () => {
+        const { list } = buildTree();
+        listen(list, 'wheel', (event: Event) => event.preventDefault());
+        const state = createPointerState();
+        dispatchMouse(state, mouse({ action: 'wheel', button: -1, x: 1, y: 4, deltaY: 1 }));
+        expect(getScrollState(list).scrollTop).toBe(0);
+    });
+
+    it('selects the clicked option of an open select dropdown', () => {
+        const root = create_root();
+        set_style(root, { width: 20, height: 10 });
+        const select = create_element('select');
+        set_style(select, { width: 12 });
+        for (const fruit of ['apple', 'banana', 'cherry']) {
+            const option = create_element('option');
+            set_attribute(option, 'value', fruit);
+            append(option, create_text(fruit));
+            append(select, option);
+        }
+        append(root, select);
+        trackNode(root);
+        mountIntoDocument(root);
+        registerFocusable(select);
+        const received: string[] = [];
+        listen(select, 'input', () => received.push('input'));
+        listen(select, 'change', () => received.push('change'));
+        computeLayout(root, 20, 10);
+        renderToString(root);
+
+        const state = createPointerState();
+        click(state, 1, 0);
+        expect(getFocused()).toBe(select);
+        expect(select.__dropdownOpen).toBe(true);
+        renderToString(root);
+
+        const cherry = getHitRegions().find(region => region.option === 2)!;
+        expect(cherry.node).toBe(select);
+        click(state, cherry.x + 2, cherry.y);
+        expect(select.selectedIndex).toBe(2);
+        expect(select.__dropdownOpen).toBe(false);
+        expect(received).toEqual(['input', 'change']);
+    });
+});
+
+describe('MountContext mouse option', () => {
+    class MockStdin extends EventEmitter {
+        setRawMode(): void {
+            // no-op
+        }
+    }
+
+    it('enables tracking and routes stdin mouse reports', async () => {
+        const writes: string[] = [];
+        const stdout = {
+            columns: 20,
+            rows: 4,
+            write(chunk: string) {
+                writes.push(chunk);
+                return true;
+            },
+        } as unknown as NodeJS.WriteStream;
+        const stdin = new MockStdin();
+        let clicks = 0;
+        const component = (target: CliNode) => {
+            const button = create_element('button');
+            append(button, create_text('Go'));
+            listen(button, 'click', () => clicks++);
+            append(target, button);
+        };
+        const ctx = createMountContext(component, {
+            stdout,
+            stdin: stdin as unknown as NodeJS.ReadStream,
+            clearOnExit: false,
+            mouse: true,
+        });
+        await ctx.start();
+        await flushRenders();
+
+        expect(writes).toContain(ENABLE_MOUSE);
+        stdin.emit('data', Buffer.from('\x1b[<0;1;1M\x1b[<0;1;1m'));
+        expect(clicks).toBe(1);
+
+        ctx.unmount();
+        expect(writes).toContain(DISABLE_MOUSE);
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '../src/testing.js';
+import { create_element, create_text, append, set_attribute, set_style } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+function el(tag: string, attributes: Record<string, string> = {}, ...children: Array<CliNode | string>): CliNode {
+    const node = create_element(tag);
+    for (const [name, value] of Object.entries(attributes)) {
+        set_attribute(node, name, value);
+    }
+    for (const child of children) {
+        append(node, typeof child === 'string' ? create_text(child) : child);
+    }
+    return node;
+}
+
+function signup(target: CliNode): void {
+    const form = el(
+        'form',
+        { id: 'signup' },
+        el('h1', {}, 'Sign up'),
+        el('label', { for: 'email' }, 'Email'),
+        el('input', { id: 'email', type: 'email', required: '' }),
+        el('label', {}, 'Age ', el('input', { type: 'number' }))
+    );
+    const hidden = el('p', {}, 'Secret');
+    set_style(hidden, { display: 'none' });
+    append(target, form);
+    append(target, el('button', { form: 'signup', 'aria-label': 'Create account' }, 'Go'));
+    append(target, el('div', { role: 'status' }, 'Ready'));
+    append(target, hidden);
+}
+
+describe('screen queries', () => {
+    it('finds nodes by role, accessible name and text', async () => {
+        const app = await render(signup, { columns: 40, rows: 10 });
+
+        expect(app.getByRole('heading').nodeName?.toLowerCase()).toBe('h1');
+        expect(app.getByRole('button', { name: 'Create account' })).toBe(app.getByText('Go'));
+        expect(app.getByRole('status')).toBe(app.getByText('ready', { exact: false }));
+        expect(app.getAllByRole('textbox')).toHaveLength(1);
+        expect(app.getByRole('spinbutton', { name: 'Age' })).toBeTruthy();
+
+        expect(app.queryByText('Secret')).toBeNull();
+        expect(app.getByText('Secret', { hidden: true })).toBeTruthy();
+        expect(() => app.getByRole('link')).toThrow('Unable to find a node with role "link"');
+        expect(() => app.getByText(/./)).toThrow(/Found \d+ nodes/);
+        app.unmount();
+    });
+
+    it('finds controls by label and scopes form queries to associated controls', async () => {
+        const app = await render(signup, { columns: 40, rows: 10 });
+        const email = app.getByLabelText('Email');
+        const form = app.getByRole('form', { hidden: true });
+
+        expect(email).toBe(app.getByRole('textbox', { name: 'Email' }));
+        expect(app.getByLabelText(/age/i).nodeName?.toLowerCase()).toBe('input');
+        expect(app.within(form).getByRole('button')).toBe(app.getByLabelText('Create account'));
+        expect(app.within(form).queryByRole('status')).toBeNull();
+        expect(app.inspect(app.getByText('Go')).form).toBe(form);
+        app.unmount();
+    });
+
+    it('reports position, focus and validity', async () => {
+        const app = await render(signup, { columns: 40, rows: 10 });
+        const email = app.getByLabelText('Email');
+
+        const before = app.inspect(email);
+        expect(before.role).toBe('textbox');
+        expect(before.name).toBe('Email');
+        expect(before.focused).toBe(true);
+        expect(app.inspect(app.getByText('Go')).focused).toBe(false);
+        expect(before.visible).toBe(true);
+        expect(before.rect.width).toBeGreaterThan(0);
+        expect(app.screen().lines[before.rect.top - 1]).toContain('Email');
+
+        await app.type('a');
+        await app.press('Backspace');
+        const after = app.inspect(email);
+        expect(after.valid).toBe(false);
+        expect(after.validationMessage).toBe('Required');
+
+        await app.press('Tab');
+        expect(app.inspect(email).focused).toBe(false);
+        app.unmount();
+    });
+});
@@ -77,6 +77,7 @@ describe('runner watchdog', () => {
             once: 20,
             exitOnCtrlC: false,
             clearOnExit: false,
+            static: false,
         });
         await app.waitUntilExit();
         const rendered = read();
@@ -96,6 +97,7 @@ describe('runner watchdog', () => {
             once: 0, // Don't auto-exit
             exitOnCtrlC: true, // Need this for stdin handling to work
             clearOnExit: false,
+            static: false,
         });
 
         // Wait for initial render
@@ -135,4 +137,26 @@ describe('runner watchdog', () => {
         
         app.unmount();
     });
+
+    it('passes onExit through to the mount', async () => {
+        const { stdout } = createStdoutCollector();
+        const mockStdin = createMockStdin();
+        let exited = false;
+        const app = runComponent(() => {}, {
+            stdout,
+            stdin: mockStdin,
+            kittyKeyboard: false,
+            clearOnExit: false,
+            static: false,
+            onExit: () => {
+                exited = true;
+            },
+        });
+        await new Promise(r => setTimeout(r, 20));
+
+        // Ctrl+C unmounts and calls onExit instead of exiting the process
+        mockStdin.emit('data', Buffer.from('\x03'));
+        await app.waitUntilExit();
+        expect(exited).toBe(true);
+    });
 });
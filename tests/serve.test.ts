@@ -0,0 +1,107 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { connect, type AddressInfo, type Socket } from 'node:net';
+import { serve, type TerminalServer } from '../src/runtime/serve.js';
+import { createTelnetState, decodeTelnet } from '../src/runtime/input/telnet.js';
+import { create_element, create_text, append } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+const IAC = 255;
+const SB = 250;
+const SE = 240;
+const WILL = 251;
+const WONT = 252;
+const NAWS = 31;
+const TTYPE = 24;
+
+function greeting(target: CliNode, props: { name: string }): void {
+    const box = create_element('box');
+    append(box, create_text(`Hello ${props.name}`));
+    append(target, box);
+}
+
+/** A telnet client that reports a 40x10 window and no terminal type. */
+function connectClient(server: TerminalServer): Promise<{ socket: Socket; output: () => string; closed: Promise<void> }> {
+    const { port } = server.address() as AddressInfo;
+    const socket = connect(port, '127.0.0.1');
+    let received = '';
+    socket.on('data', chunk => {
+        received += chunk.toString('latin1');
+    });
+    const closed = new Promise<void>(resolve => socket.on('close', () => resolve()));
+    return new Promise(resolve => {
+        socket.once('connect', () => {
+            socket.write(Buffer.from([IAC, WILL, NAWS, IAC, SB, NAWS, 0, 40, 0, 10, IAC, SE, IAC, WONT, TTYPE]));
+            resolve({ socket, output: () => received, closed });
+        });
+    });
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+    for (let i = 0; i < 200 && !check(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    expect(check()).toBe(true);
+}
+
+let server: TerminalServer | null = null;
+
+afterEach(async () => {
+    await server?.close();
+    server = null;
+});
+
+describe('telnet decoding', () => {
+    it('strips negotiation, unescapes IAC and joins commands split across reads', () => {
+        const state = createTelnetState();
+        const first = decodeTelnet(state, Buffer.from([0x61, IAC, SB, NAWS, 0, 100]));
+        expect(first.data.toString()).toBe('a');
+        expect(first.events).toEqual([]);
+
+        const second = decodeTelnet(state, Buffer.from([0, 30, IAC, SE, 13, 0, IAC, IAC, 0x62]));
+        expect(second.events).toEqual([{ type: 'size', columns: 100, rows: 30 }]);
+        expect([...second.data]).toEqual([13, IAC, 0x62]);
+    });
+});
+
+describe('serve', () => {
+    it('mounts each connection separately with its own props and size', async () => {
+        server = await serve(greeting as never, {
+            listen: { port: 0, host: '127.0.0.1' },
+            props: session => ({ name: `guest${session.id}` }),
+            kittyKeyboard: false,
+            colorDepth: 'mono',
+        });
+        const first = await connectClient(server);
+        const second = await connectClient(server);
+
+        await waitFor(() => first.output().includes('Hello guest1'));
+        await waitFor(() => second.output().includes('Hello guest2'));
+        expect(first.output()).not.toContain('guest2');
+        expect([...server.sessions].map(session => [session.columns, session.rows])).toEqual([
+            [40, 10],
+            [40, 10],
+        ]);
+
+        first.socket.end();
+        await first.closed;
+        await waitFor(() => server!.sessions.size === 1);
+        second.socket.end();
+        await second.closed;
+    });
+
+    it('ends only the session that presses Ctrl+C', async () => {
+        server = await serve(greeting as never, {
+            listen: { port: 0, host: '127.0.0.1' },
+            props: { name: 'ops' },
+            kittyKeyboard: false,
+        });
+        const client = await connectClient(server);
+        await waitFor(() => client.output().includes('Hello ops'));
+
+        client.socket.write('\x03');
+        await client.closed;
+        // The alternate screen is left before disconnecting
+        expect(client.output()).toContain('\x1b[?1049l');
+        await waitFor(() => server!.sessions.size === 0);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Writable } from 'node:stream';
+import { renderStatic } from '../src/runtime/mount.js';
+import { runComponent } from '../src/runner.js';
+import { create_element, create_text, append, set_style } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+function report(target: CliNode, props: { items: string[] }): void {
+    const title = create_element('box');
+    set_style(title, { color: '#ff0000', fontWeight: 'bold' });
+    append(title, create_text('Report'));
+    append(target, title);
+    for (const item of props.items) {
+        const row = create_element('box');
+        append(row, create_text(`- ${item}`));
+        append(target, row);
+    }
+}
+
+describe('renderStatic', () => {
+    it('renders plain lines as tall as the content', async () => {
+        const output = await renderStatic(report, {
+            props: { items: ['alpha', 'beta'] },
+            width: 20,
+            colorDepth: false,
+        });
+        expect(output).toBe('Report\n- alpha\n- beta');
+    });
+
+    it('rejects with the error a component throws', async () => {
+        const broken = () => {
+            throw new Error('Report failed');
+        };
+        await expect(renderStatic(broken, { width: 30, colorDepth: false })).rejects.toThrow('Report failed');
+    });
+
+    it('keeps colors but writes no cursor movement', async () => {
+        const output = await renderStatic(report, { props: { items: ['alpha'] }, width: 20 });
+        expect(output).toContain('\x1b[');
+        expect(output).toContain('38;2;255;0;0');
+        expect(output).not.toMatch(/\x1b\[\d*;?\d*[HJ]|\x1b\[\?25[hl]|\x1b\[\d+[AB]/);
+        expect(output.split('\n')).toHaveLength(2);
+    });
+
+    it('is used by runComponent when stdout is not a TTY', async () => {
+        const chunks: string[] = [];
+        const stdout = new Writable({
+            write(chunk, _encoding, callback) {
+                chunks.push(chunk.toString());
+                callback();
+            },
+        }) as unknown as NodeJS.WriteStream;
+        const setRawMode = vi.fn();
+        const stdin = { setRawMode, on: vi.fn(), off: vi.fn() } as unknown as NodeJS.ReadStream;
+
+        // Colors are only kept for pipes when FORCE_COLOR asks for them
+        const forceColor = process.env.FORCE_COLOR;
+        delete process.env.FORCE_COLOR;
+        try {
+            const app = runComponent(report, { stdout, stdin, props: { items: ['gamma'] } });
+            await app.waitUntilExit();
+        } finally {
+            if (forceColor !== undefined) process.env.FORCE_COLOR = forceColor;
+        }
+
+        expect(chunks.join('')).toBe('Report\n- gamma\n');
+        expect(setRawMode).not.toHaveBeenCalled();
+    });
+
+    it('reports a throwing component on stderr and fails the exit code', async () => {
+        const chunks: string[] = [];
+        const stdout = new Writable({
+            write(chunk, _encoding, callback) {
+                chunks.push(chunk.toString());
+                callback();
+            },
+        }) as unknown as NodeJS.WriteStream;
+        const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const exitCode = process.exitCode;
+        try {
+            const broken = () => {
+                throw new Error('Report failed');
+            };
+            const app = runComponent(broken, { stdout, static: true });
+            await app.waitUntilExit();
+            expect(process.exitCode).toBe(1);
+            expect(errors).toHaveBeenCalledWith(expect.objectContaining({ message: 'Report failed' }));
+            expect(chunks).toEqual([]);
+        } finally {
+            process.exitCode = exitCode;
+            errors.mockRestore();
+        }
+    });
+});
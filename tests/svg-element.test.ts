@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    create_root,
+    append,
+    set_style,
+    computeLayout,
+    renderToString,
+    free_node,
+    CliNode,
+} from '../src/runtime/index.js';
+import { from_html } from '../src/runtime/client/template.js';
+import { clearRenderedImages, getRenderedImages, isImageReady } from '../src/runtime/render/image.js';
+import { resetGraphicsCapabilities } from '../src/runtime/render/graphics.js';
+import { loadSvgForTerminal } from '../src/runtime/render/image-loader.js';
+import { serializeSvg } from '../src/runtime/render/svg.js';
+
+const GRAPHICS_ENV = ['KITTY_WINDOW_ID', 'KITTY_PID', 'TERM_PROGRAM', 'KONSOLE_VERSION', 'MLTERM', 'XTERM_VERSION'];
+
+function mountSvg(markup: string): { root: CliNode; svg: CliNode } {
+    const root = create_root();
+    set_style(root, { width: 40, height: 20 });
+    const svg = from_html(markup, 0)();
+    append(root, svg);
+    computeLayout(root, 40, 20);
+    return { root, svg };
+}
+
+describe('svg element', () => {
+    const savedEnv: Record<string, string | undefined> = {};
+
+    beforeEach(() => {
+        for (const key of GRAPHICS_ENV) {
+            savedEnv[key] = process.env[key];
+            delete process.env[key];
+        }
+        resetGraphicsCapabilities();
+        clearRenderedImages();
+    });
+
+    afterEach(() => {
+        for (const key of GRAPHICS_ENV) {
+            if (savedEnv[key] === undefined) delete process.env[key];
+            else process.env[key] = savedEnv[key];
+        }
+        resetGraphicsCapabilities();
+        clearRenderedImages();
+    });
+
+    it('serializes the subtree back to case-correct SVG markup', () => {
+        const { root, svg } = mountSvg(
+            '<svg viewBox="0 0 10 10"><linearGradient id="g"></linearGradient><circle cx="5" cy="5" r="4" fill="currentColor"/></svg>'
+        );
+
+        const markup = serializeSvg(svg, '#ff0000');
+        expect(markup).toContain('xmlns="http://www.w3.org/2000/svg"');
+        expect(markup).toContain('viewBox="0 0 10 10"');
+        expect(markup).toContain('<linearGradient id="g"></linearGradient>');
+        expect(markup).toContain('<circle cx="5" cy="5" r="4" fill="#ff0000"></circle>');
+
+        free_node(root);
+    });
+
+    it('sizes from the viewBox and keeps shapes out of layout', () => {
+        const { root, svg } = mountSvg('<svg viewBox="0 0 40 10"><rect width="40" height="10"/></svg>');
+
+        expect(svg.computedLayout).toMatchObject({ width: 20, height: 3 });
+        free_node(root);
+
+        const sized = mountSvg('<svg width="8" height="4" viewBox="0 0 1 1"></svg>');
+        expect(sized.svg.computedLayout).toMatchObject({ width: 8, height: 4 });
+        free_node(sized.root);
+    });
+
+    it('shows a placeholder with its title when block fallback is off', () => {
+        const { root, svg } = mountSvg('<svg width="12" height="3"><title>Logo</title><circle r="1"/></svg>');
+        set_style(svg, { imageFallback: 'none' });
+
+        const { output } = renderToString(root);
+        expect(output).toContain('┌');
+        expect(output).toContain('Logo');
+        expect(getRenderedImages()).toHaveLength(0);
+
+        free_node(root);
+    });
+
+    it('rasterizes through the graphics protocol once loaded', async () => {
+        process.env.KITTY_WINDOW_ID = '1';
+        resetGraphicsCapabilities();
+
+        const { root, svg } = mountSvg(
+            '<svg width="4" height="2" viewBox="0 0 4 4"><rect width="4" height="4" fill="red"/></svg>'
+        );
+
+        expect(renderToString(root).output).toContain('┌──┐');
+        await vi.waitFor(() => expect(isImageReady(svg)).toBe(true));
+
+        clearRenderedImages();
+        renderToString(root);
+        const [image] = getRenderedImages();
+        expect(image).toMatchObject({ x: 0, y: 0, width: 4, height: 2, protocol: 'kitty' });
+
+        free_node(root);
+    });
+});
+
+describe('loadSvgForTerminal', () => {
+    it('renders at the target cell size with transparent letterboxing', async () => {
+        const markup =
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><rect width="1" height="1" fill="#00f"/></svg>';
+        const image = await loadSvgForTerminal(markup, 4, 1);
+
+        expect(image).toMatchObject({ width: 32, height: 16, cellWidth: 4, cellHeight: 1 });
+        const pixel = (x: number, y: number) => Array.from(image.data.slice((y * 32 + x) * 4, (y * 32 + x) * 4 + 4));
+        expect(pixel(16, 8)).toEqual([0, 0, 255, 255]);
+        expect(pixel(0, 8)[3]).toBe(0);
+    });
+});
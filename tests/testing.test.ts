@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '../src/testing.js';
+import { create_element, create_text, append, set_text, set_style, listen } from '../src/runtime/index.js';
+import type { CliNode } from '../src/runtime/types.js';
+
+function form(target: CliNode): void {
+    const input = create_element('input');
+    const button = create_element('button');
+    const status = create_text('idle');
+    append(button, create_text('Save'));
+    listen(button, 'click', () => set_text(status, `saved ${input.value}`));
+    append(target, input);
+    append(target, button);
+    append(target, status);
+}
+
+describe('sveltty/testing render', () => {
+    it('renders into a virtual terminal of the requested size', async () => {
+        const app = await render(form, { columns: 30, rows: 8 });
+        const screen = app.screen();
+
+        expect(screen.lines).toHaveLength(8);
+        expect(screen.styles[0]).toHaveLength(30);
+        expect(screen.text).toContain('Save');
+        expect(screen.text).toContain('idle');
+        app.unmount();
+    });
+
+    it('types text and presses keys through the terminal input path', async () => {
+        const app = await render(form, { columns: 30, rows: 8 });
+
+        await app.type('draft');
+        await app.press('Shift+ArrowLeft', 'Shift+ArrowLeft', 'Backspace');
+        expect(app.screen().text).toContain('dra');
+
+        await app.press('Tab', 'Enter');
+        expect(app.screen().text).toContain('saved dra');
+
+        await app.press('Escape', 'Ctrl+c');
+        expect(app.screen().text).toContain('saved dra');
+        app.unmount();
+    });
+
+    it('presses the plus key on its own and with modifiers', async () => {
+        const seen: string[] = [];
+        const app = await render(
+            (target: CliNode) => {
+                const input = create_element('input');
+                listen(input, 'keydown', (event: KeyboardEvent) => {
+                    seen.push(`${event.ctrlKey ? 'Ctrl+' : ''}${event.altKey ? 'Alt+' : ''}${event.key}`);
+                });
+                append(target, input);
+            },
+            { columns: 30, rows: 4 }
+        );
+
+        await app.press('+', 'Ctrl++', 'Alt++');
+        expect(seen).toEqual(['+', 'Ctrl++', 'Alt++']);
+        app.unmount();
+    });
+
+    it('reflows on resize and reports cell styles', async () => {
+        const app = await render(
+            (target: CliNode) => {
+                const box = create_element('box');
+                set_style(box, { width: '100%', backgroundColor: '#ff0000' });
+                append(box, create_text('wide'));
+                append(target, box);
+            },
+            { columns: 20, rows: 4 }
+        );
+        expect(app.screen().styles[0][19]?.backgroundColor).toBe('#ff0000');
+
+        await app.resize(10, 3);
+        const screen = app.screen();
+        expect(screen.lines).toHaveLength(3);
+        expect(screen.styles[0]).toHaveLength(10);
+        expect(screen.styles[0][9]?.backgroundColor).toBe('#ff0000');
+        app.unmount();
+    });
+
+    it('delivers pastes as a single edit', async () => {
+        const app = await render(form, { columns: 30, rows: 8 });
+        await app.paste('pasted');
+        expect(app.screen().text).toContain('pasted');
+        app.unmount();
+    });
+});
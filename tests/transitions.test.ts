@@ -0,0 +1,227 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { effect_root, flush, active_effect } from 'svelte/internal/client';
+import { fade, fly } from 'svelte/transition';
+import { flip } from 'svelte/animate';
+import {
+    create_root,
+    create_element,
+    create_text,
+    append,
+    insert,
+    set_style,
+    computeLayout,
+    free_node,
+    listen,
+} from '../src/runtime/index.js';
+import { requestFrames, hasActiveFrames, cancelAllFrames, FRAME_INTERVAL } from '../src/runtime/animation/frames.js';
+import { parseAnimationCss, setAnimationFrame, clearAnimationFrame } from '../src/runtime/animation/animated-style.js';
+import { getTerminalComputedStyle } from '../src/runtime/animation/geometry.js';
+import {
+    createTransitionManager,
+    createFlipAnimation,
+    TRANSITION_IN,
+    TRANSITION_OUT,
+    TRANSITION_GLOBAL,
+} from '../src/runtime/animation/transition.js';
+import { transition } from '../src/runtime/client/transitions.js';
+import { getComputedCliStyle } from '../src/runtime/style/computed.js';
+import { isNodeVisible } from '../src/runtime/focus.js';
+import { ensureDomGlobals } from '../src/runtime/dom/setup.js';
+import type { CliNode, RootNode } from '../src/runtime/types.js';
+
+function createTree(): { root: RootNode; first: CliNode; second: CliNode } {
+    const root = create_root();
+    set_style(root, { width: 20, height: 6, flexDirection: 'column' });
+    const first = create_element('div');
+    set_style(first, { height: 1 });
+    append(first, create_text('first'));
+    const second = create_element('div');
+    set_style(second, { height: 1 });
+    append(second, create_text('second'));
+    append(root, first);
+    append(root, second);
+    computeLayout(root, 20, 6);
+    return { root, first, second };
+}
+
+describe('transitions', () => {
+    let roots: RootNode[] = [];
+
+    beforeEach(() => {
+        ensureDomGlobals();
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+    });
+
+    afterEach(() => {
+        cancelAllFrames();
+        vi.useRealTimers();
+        for (const root of roots) {
+            free_node(root);
+        }
+        roots = [];
+    });
+
+    function tree() {
+        const result = createTree();
+        roots.push(result.root);
+        return result;
+    }
+
+    describe('frame scheduler', () => {
+        it('ticks only while callbacks are registered', async () => {
+            let frames = 0;
+            requestFrames(() => ++frames < 3);
+            expect(hasActiveFrames()).toBe(true);
+
+            await vi.advanceTimersByTimeAsync(FRAME_INTERVAL * 10);
+            expect(frames).toBe(3);
+            expect(hasActiveFrames()).toBe(false);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('stops when the last callback is cancelled', async () => {
+            let frames = 0;
+            const cancel = requestFrames(() => {
+                frames++;
+                return true;
+            });
+            await vi.advanceTimersByTimeAsync(FRAME_INTERVAL);
+            cancel();
+            await vi.advanceTimersByTimeAsync(FRAME_INTERVAL * 5);
+            expect(frames).toBe(1);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+    });
+
+    describe('animated styles', () => {
+        it('maps frame css to terminal styles', () => {
+            const { first } = tree();
+            const frame = parseAnimationCss(first, 'opacity: 0.4; transform: translate(3px, 100%); width: 10px; color: red');
+            expect(frame.style.dim).toBe(true);
+            expect(frame.style.width).toBe(10);
+            expect(frame.translateX).toBe(3);
+            expect(frame.translateY).toBe(1);
+            expect(parseAnimationCss(first, 'opacity: 1').style.dim).toBeUndefined();
+        });
+
+        it('offsets translated nodes without moving siblings', () => {
+            const { root, first, second } = tree();
+            const owner = {};
+            setAnimationFrame(first, owner, parseAnimationCss(first, 'transform: translateX(4px); opacity: 0.5'));
+            computeLayout(root, 20, 6);
+            expect(first.computedLayout?.left).toBe(4);
+            expect(second.computedLayout?.top).toBe(1);
+            expect(getComputedCliStyle(first).dim).toBe(true);
+
+            clearAnimationFrame(first, owner);
+            computeLayout(root, 20, 6);
+            expect(first.computedLayout?.left).toBe(0);
+            expect(getComputedCliStyle(first).dim).toBeUndefined();
+        });
+
+        it('reports computed sizes in cells', () => {
+            const { first } = tree();
+            const style = getTerminalComputedStyle(first);
+            expect(style.height).toBe('1px');
+            expect(style.opacity).toBe('1');
+            expect(style.getPropertyValue('transform')).toBe('none');
+        });
+    });
+
+    describe('transition managers', () => {
+        it('delays the outro callback until the transition ends', async () => {
+            const { first } = tree();
+            const events: string[] = [];
+            listen(first, 'outrostart', () => events.push('outrostart'));
+            listen(first, 'outroend', () => events.push('outroend'));
+            const manager = createTransitionManager(TRANSITION_OUT, first, () => fade, () => ({ duration: 200 }));
+
+            let done = false;
+            manager.out(() => {
+                done = true;
+            });
+            expect(first.inert).toBe(true);
+            expect(isNodeVisible(first)).toBe(false);
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(done).toBe(false);
+            expect(events).toEqual(['outrostart']);
+            expect(first.__animatedStyle?.dim).toBe(true);
+
+            await vi.advanceTimersByTimeAsync(200);
+            expect(done).toBe(true);
+            expect(events).toEqual(['outrostart', 'outroend']);
+        });
+
+        it('finishes intros by restoring static styles', async () => {
+            const { first } = tree();
+            const manager = createTransitionManager(TRANSITION_IN, first, () => fly, () => ({ x: 6, duration: 150 }));
+            manager.in();
+
+            await vi.advanceTimersByTimeAsync(FRAME_INTERVAL * 2);
+            expect(first.__translate?.x).toBeGreaterThan(0);
+
+            await vi.advanceTimersByTimeAsync(300);
+            expect(first.__translate).toBeUndefined();
+            expect(first.__animatedStyle).toBeUndefined();
+            expect(hasActiveFrames()).toBe(false);
+        });
+
+        it('reverses a running intro from its current position', async () => {
+            const { first } = tree();
+            const manager = createTransitionManager(
+                TRANSITION_IN | TRANSITION_OUT,
+                first,
+                () => fade,
+                () => ({ duration: 200 })
+            );
+            manager.in();
+            await vi.advanceTimersByTimeAsync(100);
+
+            let done = false;
+            manager.out(() => {
+                done = true;
+            });
+            // The outro only needs to undo the part of the intro that ran
+            await vi.advanceTimersByTimeAsync(150);
+            expect(done).toBe(true);
+        });
+
+        it('moves reordered items with FLIP', async () => {
+            const { root, first, second } = tree();
+            const animation = createFlipAnimation(second, () => flip, () => ({ duration: 200 }));
+
+            animation.measure();
+            insert(root, second, first);
+            animation.apply();
+            await vi.advanceTimersByTimeAsync(FRAME_INTERVAL);
+            // Starts where it was (row 1) although layout moved it to row 0
+            expect(second.__translate?.y).toBe(1);
+
+            await vi.advanceTimersByTimeAsync(300);
+            expect(second.__translate).toBeUndefined();
+        });
+    });
+
+    describe('transition directive', () => {
+        it('attaches a manager to the active effect and plays global intros', async () => {
+            const { first } = tree();
+            let introEnded = false;
+            listen(first, 'introend', () => {
+                introEnded = true;
+            });
+
+            let managers: unknown[] = [];
+            const destroy = effect_root(() => {
+                transition(TRANSITION_IN | TRANSITION_GLOBAL, first, () => fade, () => ({ duration: 100 }));
+                managers = (active_effect as any).nodes.t;
+            });
+            flush();
+            expect(managers).toHaveLength(1);
+
+            await vi.advanceTimersByTimeAsync(200);
+            expect(introEnded).toBe(true);
+            destroy();
+        });
+    });
+});